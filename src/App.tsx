@@ -14,6 +14,7 @@
  * 
  * Route Structure:
  * - "/" : Public registration form for alumni
+ * - "/my-registration" : Registrant portal (email OTP sign-in)
  * - "/admin/*" : Protected admin routes (requires authentication)
  * - "*" : Catch-all 404 page for unknown routes
  * - "*" : Catch-all 404 page for unknown routes
@@ -39,9 +40,13 @@ import AdminHostelManagement from "./pages/admin/AdminHostelManagement";
 import AdminAccountsReview from "./pages/admin/AdminAccountsReview";
 import AdminActivityDashboard from "./pages/admin/AdminActivityDashboard";
 import AdminErrorLogs from "./pages/admin/AdminErrorLogs";
+import AdminCheckIn from "./pages/admin/AdminCheckIn";
+import AdminEmailLog from "./pages/admin/AdminEmailLog";
+import AdminRecycleBin from "./pages/admin/AdminRecycleBin";
 
 import ResetPassword from "./pages/ResetPassword";
 import InviteRegistration from "./pages/InviteRegistration";
+import MyRegistration from "./pages/MyRegistration";
 
 /**
  * QueryClient Configuration
@@ -82,6 +87,7 @@ const App = () => (
             {/* Public Routes */}
             <Route path="/" element={<Index yearFromOverride={2017} yearToOverride={2020} forceOutsideOnly />} />
             <Route path="/invite/:token" element={<InviteRegistration />} />
+            <Route path="/my-registration" element={<MyRegistration />} />
             
             <Route path="/reset-password" element={<ResetPassword />} />
             
@@ -97,6 +103,9 @@ const App = () => (
             <Route path="/admin/accounts-review" element={<AdminAccountsReview />} />
             <Route path="/admin/activity" element={<AdminActivityDashboard />} />
             <Route path="/admin/error-logs" element={<AdminErrorLogs />} />
+            <Route path="/admin/check-in" element={<AdminCheckIn />} />
+            <Route path="/admin/emails" element={<AdminEmailLog />} />
+            <Route path="/admin/recycle-bin" element={<AdminRecycleBin />} />
             
             {/* 404 Catch-all - Must be last */}
             <Route path="*" element={<NotFound />} />
@@ -19,6 +19,7 @@
  */
 
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
@@ -72,7 +73,7 @@ const ApplicationLookup = ({ onApplicationFound }: ApplicationLookupProps) => {
       // We select specific fields needed for the payment update flow
       const { data: application, error: fetchError } = await supabase
         .from("registrations")
-        .select("application_id, name, email, stay_type, registration_fee, payment_status, created_at, parent_application_id")
+        .select("application_id, name, email, stay_type, registration_fee, payment_status, registration_status, qr_code_data, created_at, parent_application_id")
         .eq("application_id", applicationId.trim().toUpperCase())
         .single(); // Expect exactly one result
 
@@ -93,6 +94,8 @@ const ApplicationLookup = ({ onApplicationFound }: ApplicationLookupProps) => {
         paymentStatus: application.payment_status,
         createdAt: application.created_at,
         parentApplicationId: application.parent_application_id,
+        registrationStatus: application.registration_status,
+        qrCodeData: application.qr_code_data,
       });
     } catch (err) {
       console.error("Lookup error:", err);
@@ -144,6 +147,14 @@ const ApplicationLookup = ({ onApplicationFound }: ApplicationLookupProps) => {
           {isSearching ? "Searching..." : "Find Application"}
         </Button>
       </div>
+
+      {/* Full registration details require signing in with an email code */}
+      <p className="text-sm text-muted-foreground mt-4">
+        Want to see your group, accommodation and receipts?{" "}
+        <Link to="/my-registration" className="text-primary underline-offset-4 hover:underline">
+          Sign in to My Registration
+        </Link>
+      </p>
     </motion.div>
   );
 };
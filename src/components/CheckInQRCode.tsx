@@ -0,0 +1,61 @@
+/**
+ * CheckInQRCode.tsx - Attendee Check-In QR Code
+ *
+ * Renders the signed check-in code stored in `registrations.qr_code_data`
+ * as a scannable QR image. The code itself is issued server-side when the
+ * registration is approved (see send-registration-email) and scanned on
+ * the /admin/check-in screen.
+ */
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Loader2 } from "lucide-react";
+
+interface CheckInQRCodeProps {
+  /** Signed check-in code (RVAM1.<applicationId>.<issuedAt>.<signature>) */
+  code: string;
+  /** Application ID, used for the alt text and download file name */
+  applicationId: string;
+  /** Rendered size in pixels */
+  size?: number;
+}
+
+const CheckInQRCode = ({ code, applicationId, size = 200 }: CheckInQRCodeProps) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    QRCode.toDataURL(code, { width: size * 2, margin: 2 })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch((err) => console.error("Failed to render check-in QR code:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, size]);
+
+  if (!dataUrl) {
+    return (
+      <div className="flex items-center justify-center" style={{ width: size, height: size }}>
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <a href={dataUrl} download={`Check-In-QR-${applicationId}.png`} title="Download QR code">
+      <img
+        src={dataUrl}
+        alt={`Check-in QR code for ${applicationId}`}
+        width={size}
+        height={size}
+        className="rounded-lg bg-white"
+      />
+    </a>
+  );
+};
+
+export default CheckInQRCode;
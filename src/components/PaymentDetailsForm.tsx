@@ -3,9 +3,12 @@ import { motion } from "framer-motion";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { CreditCard, ArrowLeft, CheckCircle, Copy, Users, IndianRupee, Upload, X, FileImage, Loader2 } from "lucide-react";
+import { CreditCard, ArrowLeft, CheckCircle, Copy, Users, IndianRupee, Upload, X, FileImage, Loader2, Zap } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { RegistrationData } from "./registration/types";
+import { useFeeSchedule } from "@/hooks/useFeeSchedule";
+import { useOnlinePayment } from "@/hooks/useOnlinePayment";
+import { payOnline } from "@/lib/onlinePayment";
+import { RegistrationData, calculateFee, formatFee } from "./registration/types";
 
 interface PaymentDetailsFormProps {
   application: RegistrationData;
@@ -21,7 +24,14 @@ const PaymentDetailsForm = ({ application, onBack, onComplete }: PaymentDetailsF
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [isPayingOnline, setIsPayingOnline] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { schedule: feeSchedule } = useFeeSchedule();
+  const { isEnabled: isOnlinePaymentEnabled } = useOnlinePayment();
+
+  // Stored fees are authoritative; rows saved without one are priced from the active schedule
+  const feeDue = (reg: RegistrationData) =>
+    reg.registrationFee || calculateFee(reg.stayType === "on-campus" ? "on-campus" : "outside", feeSchedule);
 
   // Fetch related registrations (only for primary registrants - secondary applicants see only themselves)
   useEffect(() => {
@@ -79,7 +89,7 @@ const PaymentDetailsForm = ({ application, onBack, onComplete }: PaymentDetailsF
 
   const selectedTotal = pendingPaymentRegistrations
     .filter(reg => selectedApplications.has(reg.applicationId))
-    .reduce((sum, reg) => sum + reg.registrationFee, 0);
+    .reduce((sum, reg) => sum + feeDue(reg), 0);
 
   // Auto-select the current application if it has pending payment
   useEffect(() => {
@@ -219,13 +229,39 @@ const PaymentDetailsForm = ({ application, onBack, onComplete }: PaymentDetailsF
     setIsUploading(false);
   };
 
+  const handlePayOnline = async () => {
+    if (selectedApplications.size === 0) {
+      toast.error("Please select at least one registration for payment");
+      return;
+    }
+
+    setIsPayingOnline(true);
+    const result = await payOnline(application.applicationId, Array.from(selectedApplications), {
+      name: application.name,
+      email: application.email,
+    });
+    setIsPayingOnline(false);
+
+    if (result.status === "paid") {
+      toast.success(`Payment received for ${result.applicationIds.length} registration(s)!`, {
+        description: "Your payment has been verified.",
+      });
+      onComplete({
+        ...application,
+        paymentStatus: result.applicationIds.includes(application.applicationId) ? "verified" : application.paymentStatus,
+      });
+    } else if (result.status === "failed") {
+      toast.error("Payment failed", { description: result.error });
+    } else {
+      toast.info("Payment cancelled", { description: "You can pay online or upload a payment proof at any time." });
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast.success("Copied to clipboard!");
   };
 
-  const formatFee = (fee: number) => `₹${fee.toLocaleString('en-IN')}`;
-
   const hasMultipleRegistrations = pendingPaymentRegistrations.length > 1;
   const allAlreadySubmitted = pendingPaymentRegistrations.length === 0;
 
@@ -315,7 +351,7 @@ const PaymentDetailsForm = ({ application, onBack, onComplete }: PaymentDetailsF
 
                   <div className="text-right">
                     <p className="font-semibold text-foreground">
-                      {formatFee(reg.registrationFee)}
+                      {formatFee(feeDue(reg))}
                     </p>
                   </div>
                 </div>
@@ -354,6 +390,34 @@ const PaymentDetailsForm = ({ application, onBack, onComplete }: PaymentDetailsF
         </div>
       ) : (
         <div className="space-y-6">
+          {isOnlinePaymentEnabled && (
+            <div className="bg-primary/5 rounded-xl p-6 border border-primary/20">
+              <h4 className="font-semibold text-foreground mb-2 flex items-center gap-2">
+                <Zap className="w-5 h-5 text-primary" />
+                Pay Online
+              </h4>
+              <p className="text-sm text-muted-foreground mb-4">
+                Pay by card, UPI or net banking. Your payment is confirmed instantly, with no proof to upload.
+              </p>
+              <Button
+                type="button"
+                onClick={handlePayOnline}
+                disabled={isPayingOnline || isSubmitting || selectedApplications.size === 0}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                {isPayingOnline ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  `Pay ${formatFee(selectedTotal)} Online`
+                )}
+              </Button>
+              <p className="text-xs text-muted-foreground mt-3">Already paid by bank transfer? Upload your proof below instead.</p>
+            </div>
+          )}
+
           <div className="bg-terracotta-50 dark:bg-terracotta-700/20 rounded-xl p-6 border border-terracotta-200 dark:border-terracotta-600">
             <h4 className="font-semibold text-foreground mb-4 flex items-center gap-2">
               <CreditCard className="w-5 h-5 text-terracotta-500" />
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion } from "framer-motion";
@@ -8,18 +8,28 @@ import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { User, Mail, Phone, Briefcase, MapPin, Calendar, Building, Home, Loader2, Upload, FileText, AlertCircle } from "lucide-react";
+import { User, Mail, Phone, Briefcase, MapPin, Calendar, Building, Home, Loader2, Upload, FileText, AlertCircle, Zap } from "lucide-react";
 
 import { supabase } from "@/integrations/supabase/client";
 import { useHoneypot } from "@/hooks/useHoneypot";
+import { useRecaptcha } from "@/hooks/useRecaptcha";
 import { useIdleAutoRefresh } from "@/hooks/useIdleAutoRefresh";
+import { useRegistrationDraft, type RegistrationDraftData } from "@/hooks/useRegistrationDraft";
 import { useBatchConfiguration } from "@/hooks/useBatchConfiguration";
-import { encodeBlobToBase64, preparePaymentProof } from "@/lib/paymentProofPayload";
+import { useFeeSchedule } from "@/hooks/useFeeSchedule";
+import { useOnCampusCapacity } from "@/hooks/useOnCampusCapacity";
+import { useOnlinePayment } from "@/hooks/useOnlinePayment";
+import { payOnline } from "@/lib/onlinePayment";
+import { encodeBlobToBase64, preparePaymentProof, type PaymentProofPayload } from "@/lib/paymentProofPayload";
+import { isEarlyBird, type FeeBreakdown } from "@shared/pricing";
+import { isOnCampusFull, planWaitlist } from "@shared/capacity";
+import { formatIST } from "@shared/schedule";
 import ApplicationLookup from "./ApplicationLookup";
 import PaymentDetailsForm from "./PaymentDetailsForm";
 import RegistrationSuccess from "./RegistrationSuccess";
 import AdditionalAttendeesSection from "./registration/AdditionalAttendeesSection";
 import BulkPaymentProofUpload from "./registration/BulkPaymentProofUpload";
+import DraftResumeBanner from "./registration/DraftResumeBanner";
 import {
   registrantSchema,
   RegistrantData,
@@ -27,6 +37,7 @@ import {
   defaultRegistrant,
   calculateFee,
   calculateTotalFee,
+  formatFee,
   RegistrationData,
   MAX_ATTENDEES,
 } from "./registration/types";
@@ -40,11 +51,22 @@ interface RegistrationResult extends RegistrationData {
     email: string;
     stayType: string;
     registrationFee: number;
+    waitlisted?: boolean;
   }>;
   totalFee?: number;
+  /** Server-computed per-person fees; authoritative over client-side totals */
+  feeBreakdown?: FeeBreakdown;
   totalRegistrants?: number;
+  /** On-campus registrations in this submission that joined the waitlist */
+  waitlistedCount?: number;
 }
 
+/** Error codes returned by verify-captcha-register when fee recomputation fails */
+const PRICING_ERROR_CODES = ["INVALID_STAY_TYPE", "INVALID_ATTENDEE_CATEGORY", "STAY_TYPE_NOT_ALLOWED", "FEE_MISMATCH"];
+
+/** Error codes returned by verify-captcha-register when bot protection rejects a submission */
+const BOT_PROTECTION_ERROR_CODES = ["CAPTCHA_MISSING", "CAPTCHA_FAILED", "CAPTCHA_UNAVAILABLE", "RATE_LIMITED_IP", "RATE_LIMITED_EMAIL"];
+
 interface RegistrationFormProps {
   singleAttendeeOnly?: boolean;
   inviteToken?: string;
@@ -65,11 +87,16 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
   const [bulkPaymentProofs, setBulkPaymentProofs] = useState<Map<string, File>>(new Map());
   const [bulkPaymentBlobs, setBulkPaymentBlobs] = useState<Map<string, { blob: Blob; name: string; type: string }>>(new Map());
   const [retryProofFile, setRetryProofFile] = useState<File | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<"proof" | "online">("proof");
   const { getValidationData, isLikelyBot, resetFormLoadTime, setHoneypotValue } = useHoneypot();
+  const { executeRecaptcha } = useRecaptcha();
   const { config: batchConfig, yearOptions: dbYearOptions, isLoading: isLoadingConfig, error: configError, isWithinRegistrationPeriod } = useBatchConfiguration();
-
-  // Warn after 5 min of idle, auto-refresh after 10 min. Stops once user reaches success view.
-  useIdleAutoRefresh({ enabled: viewState !== "success" });
+  const { schedule: feeSchedule, isLoading: isLoadingFees } = useFeeSchedule();
+  const { capacity: onCampusCapacity } = useOnCampusCapacity();
+  const { isEnabled: isOnlinePaymentEnabled } = useOnlinePayment();
+  // Online payment replaces the proof upload; the gateway is opened once the registration is saved
+  const payingOnline = isOnlinePaymentEnabled && paymentMethod === "online";
+  const viaInvite = Boolean(inviteToken);
 
 
   const handlePaymentProofChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -113,6 +140,24 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
     shouldUnregister: true,
   });
 
+  // Autosave to an encrypted local draft so a refresh doesn't lose a half-filled form
+  const restoreDraftState = useCallback(({ paymentMethod: draftPaymentMethod }: RegistrationDraftData) => {
+    setPaymentMethod(draftPaymentMethod);
+    if (singleAttendeeOnly) form.setValue("attendees", []);
+    if (inviteEmail) form.setValue("email", inviteEmail);
+  }, [form, singleAttendeeOnly, inviteEmail]);
+  const { pendingDraft, resumeDraft, discardDraft, flushDraft, clearSavedDraft } = useRegistrationDraft({
+    form,
+    scope: inviteToken ? `invite:${inviteToken}` : "public",
+    enabled: viewState === "form",
+    paymentMethod,
+    onRestore: restoreDraftState,
+  });
+
+  // Warn after 5 min of idle, auto-refresh after 10 min. Stops once user reaches success view.
+  // The draft is flushed first so the reload keeps the user's progress.
+  useIdleAutoRefresh({ enabled: viewState !== "success", onBeforeRefresh: flushDraft });
+
   // Watch attendees from the form directly (single source of truth)
   // NOTE: useWatch guarantees re-render on field-array changes (append/remove)
   const additionalAttendees =
@@ -154,6 +199,8 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
   const showOutsideOption = batchConfig?.showOutsideOption ?? true;
   // Show radio choice only when both options are enabled
   const showStayChoice = showOnCampusOption && showOutsideOption;
+  // Once every bed is taken, choosing on-campus means joining the waitlist
+  const onCampusFull = isOnCampusFull(onCampusCapacity);
 
   // When only one (or zero) stay option is enabled, force the appropriate value
   useEffect(() => {
@@ -179,8 +226,12 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
 
   // Calculate fees
   const watchedRegistrant = useWatch({ control: form.control }) as RegistrantData;
-  const registrantFee = calculateFee(watchedRegistrant?.stayType ?? "on-campus");
-  const totalFee = singleAttendeeOnly ? registrantFee : calculateTotalFee(watchedRegistrant, additionalAttendees);
+  const registrantFee = calculateFee(watchedRegistrant?.stayType ?? "on-campus", feeSchedule, { viaInvite });
+  const totalFee = singleAttendeeOnly ? registrantFee : calculateTotalFee(watchedRegistrant, additionalAttendees, feeSchedule, viaInvite);
+  const waitlistedInSubmission = planWaitlist(
+    [watchedRegistrant?.stayType, ...additionalAttendees.map((attendee) => attendee.stayType)],
+    onCampusCapacity
+  ).filter(Boolean).length;
 
   // Check if submit is allowed based on registration period (invites bypass this)
   const canSubmit = inviteToken ? true : isWithinRegistrationPeriod();
@@ -188,6 +239,77 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
     toast.info("Please submit a fresh registration instead of retrying the old upload.");
   };
 
+  /** Reads the attached proof into a request payload; shows a toast and returns null if it cannot be used */
+  const buildPaymentProofPayload = async (): Promise<PaymentProofPayload | null> => {
+    const proofBlob = hasMultipleApplicants
+      ? bulkPaymentBlobs.get("combined")
+      : paymentProofBlob;
+    const proofFile = hasMultipleApplicants
+      ? bulkPaymentProofs.get("combined")
+      : paymentProofFile;
+
+    if (!proofBlob && !proofFile) {
+      toast.error("Payment proof is required");
+      return null;
+    }
+
+    let uploadData: Blob;
+    let uploadName: string;
+    let uploadType: string;
+
+    if (proofBlob) {
+      uploadData = proofBlob.blob;
+      uploadName = proofBlob.name;
+      uploadType = proofBlob.type;
+    } else {
+      try {
+        const preparedProof = await preparePaymentProof(proofFile!);
+
+        uploadData = preparedProof.blob;
+        uploadName = preparedProof.name;
+        uploadType = preparedProof.type;
+
+        if (hasMultipleApplicants) {
+          const refreshedBulkBlobs = new Map(bulkPaymentBlobs);
+          refreshedBulkBlobs.set("combined", {
+            blob: preparedProof.blob,
+            name: preparedProof.name,
+            type: uploadType,
+          });
+          setBulkPaymentBlobs(refreshedBulkBlobs);
+        } else {
+          setPaymentProofBlob({
+            blob: preparedProof.blob,
+            name: preparedProof.name,
+            type: uploadType,
+          });
+        }
+      } catch (readError) {
+        console.error("Failed to prepare payment proof for upload:", readError);
+        toast.error("Failed to read payment proof", {
+          description: "Please select the file again and retry your submission.",
+        });
+        return null;
+      }
+    }
+
+    const paymentProof: PaymentProofPayload = {
+      base64: await encodeBlobToBase64(uploadData),
+      name: uploadName,
+      type: uploadType,
+      size: uploadData.size,
+    };
+
+    if (paymentProof.base64.length > 2_600_000) {
+      toast.error("Payment proof is still too large", {
+        description: "Please upload a smaller image or PDF and try again.",
+      });
+      return null;
+    }
+
+    return paymentProof;
+  };
+
   const onSubmit = async (data: RegistrantData) => {
     setIsSubmitting(true);
 
@@ -199,101 +321,48 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
       // authoritative bot-check layer.
       const botValidation = getValidationData();
 
-      // --- STEP 1: Prepare proof payload in memory ---
-      const proofBlob = hasMultipleApplicants
-        ? bulkPaymentBlobs.get("combined")
-        : paymentProofBlob;
-      const proofFile = hasMultipleApplicants
-        ? bulkPaymentProofs.get("combined")
-        : paymentProofFile;
-
-      if (!proofBlob && !proofFile) {
-        toast.error("Payment proof is required");
-        setIsSubmitting(false);
-        return;
-      }
-
-      let uploadData: Blob;
-      let uploadName: string;
-      let uploadType: string;
-
-      if (proofBlob) {
-        uploadData = proofBlob.blob;
-        uploadName = proofBlob.name;
-        uploadType = proofBlob.type;
-      } else {
-        try {
-          const preparedProof = await preparePaymentProof(proofFile!);
-
-          uploadData = preparedProof.blob;
-          uploadName = preparedProof.name;
-          uploadType = preparedProof.type;
-
-          if (hasMultipleApplicants) {
-            const refreshedBulkBlobs = new Map(bulkPaymentBlobs);
-            refreshedBulkBlobs.set("combined", {
-              blob: preparedProof.blob,
-              name: preparedProof.name,
-              type: uploadType,
-            });
-            setBulkPaymentBlobs(refreshedBulkBlobs);
-          } else {
-            setPaymentProofBlob({
-              blob: preparedProof.blob,
-              name: preparedProof.name,
-              type: uploadType,
-            });
-          }
-        } catch (readError) {
-          console.error("Failed to prepare payment proof for upload:", readError);
-          toast.error("Failed to read payment proof", {
-            description: "Please select the file again and retry your submission.",
-          });
-          setIsSubmitting(false);
-          return;
-        }
-      }
-
-      const paymentProof = {
-        base64: await encodeBlobToBase64(uploadData),
-        name: uploadName,
-        type: uploadType,
-        size: uploadData.size,
-      };
-
-      if (paymentProof.base64.length > 2_600_000) {
-        toast.error("Payment proof is still too large", {
-          description: "Please upload a smaller image or PDF and try again.",
-        });
-        setIsSubmitting(false);
-        return;
-      }
+      // --- STEP 1: Prepare proof payload in memory (not needed when paying online) ---
+      const paymentProof = payingOnline ? undefined : await buildPaymentProofPayload();
+      if (paymentProof === null) return;
 
       toast.info("Submitting registration...");
 
+      // A missing token is rejected server-side with an actionable message
+      const captchaToken = await executeRecaptcha("register").catch((err) => {
+        console.warn("reCAPTCHA unavailable:", err);
+        return undefined;
+      });
+
       // --- STEP 2: Call backend to upload proof + create registration atomically ---
-      const registrationFee = calculateFee(data.stayType);
+      const registrationFee = calculateFee(data.stayType, feeSchedule, { viaInvite });
       const finalBoardType = data.boardType === "Other" ? data.customBoardType : data.boardType;
 
       const attendeesToSubmit = data.attendees || [];
-      const additionalAttendeesData = attendeesToSubmit.map((attendee) => ({
-        name: attendee.name,
-        email: data.email,
-        secondaryEmail: attendee.secondaryEmail || undefined,
-        phone: attendee.phone,
-        occupation: attendee.occupation,
-        boardType: attendee.boardType === "Other" ? attendee.customBoardType : attendee.boardType,
-        yearOfPassing: parseInt(attendee.yearOfPassing),
-        stayType: attendee.stayType,
-        tshirtSize: attendee.tshirtSize,
-        gender: attendee.gender,
-        registrationFee: calculateFee(attendee.stayType),
-      }));
+      const additionalAttendeesData = attendeesToSubmit.map((attendee) => {
+        // Spouses and children inherit the primary registrant's batch
+        const isAlumnus = attendee.attendeeType === "alumni";
+        return {
+          name: attendee.name,
+          email: data.email,
+          secondaryEmail: attendee.secondaryEmail || undefined,
+          phone: attendee.phone,
+          occupation: attendee.occupation,
+          attendeeType: attendee.attendeeType,
+          boardType: !isAlumnus ? finalBoardType : attendee.boardType === "Other" ? attendee.customBoardType : attendee.boardType,
+          yearOfPassing: parseInt(isAlumnus ? attendee.yearOfPassing : data.yearOfPassing),
+          stayType: attendee.stayType,
+          tshirtSize: attendee.tshirtSize,
+          gender: attendee.gender,
+          registrationFee: calculateFee(attendee.stayType, feeSchedule, { category: attendee.attendeeType, viaInvite }),
+        };
+      });
 
       const { data: result, error } = await supabase.functions.invoke("verify-captcha-register", {
         body: {
           botValidation,
+          captchaToken,
           paymentProof,
+          paymentMethod: payingOnline ? "online" : "proof",
           inviteToken: inviteToken || undefined,
           name: data.name,
           email: data.email,
@@ -318,10 +387,29 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
 
       if (error) {
         console.error("Registration submit failed:", error);
+
+        // Non-2xx responses carry the structured { error, code } body in error.context
+        const errorBody = await (error.context instanceof Response
+          ? error.context.clone().json().catch(() => null)
+          : Promise.resolve(null));
+        if (errorBody?.code && PRICING_ERROR_CODES.includes(errorBody.code)) {
+          toast.error("Registration fee could not be verified", { description: errorBody.error });
+          return;
+        }
+        if (errorBody?.code && BOT_PROTECTION_ERROR_CODES.includes(errorBody.code)) {
+          toast.error("Submission blocked", { description: errorBody.error });
+          return;
+        }
+        if (errorBody?.code === "ONLINE_PAYMENT_UNAVAILABLE") {
+          setPaymentMethod("proof");
+          toast.error("Online payment unavailable", { description: errorBody.error });
+          return;
+        }
+
         const isFetchError = /failed to (fetch|send)/i.test(error.message);
         const description = isFetchError
           ? "Unable to reach the registration service. Please check your internet connection and try again."
-          : error.message || "Unable to complete registration. Please try again later.";
+          : errorBody?.error || error.message || "Unable to complete registration. Please try again later.";
         toast.error("Registration failed", {
           description,
         });
@@ -337,7 +425,9 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
         ...result.registration,
         additionalRegistrations: result.additionalRegistrations,
         totalFee: result.totalFee,
+        feeBreakdown: result.feeBreakdown,
         totalRegistrants: result.totalRegistrants,
+        waitlistedCount: result.waitlistedCount,
       };
 
       setCurrentApplication(result.registration);
@@ -346,11 +436,38 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
       // Invite is now marked as used server-side in the edge function
 
       setViewState("success");
+      clearSavedDraft();
       resetFormLoadTime();
       const totalRegistered = 1 + (result.additionalRegistrations?.length || 0);
       toast.success(`${totalRegistered} registration${totalRegistered > 1 ? "s" : ""} submitted!`, {
         description: `Primary Application ID: ${result.applicationId}`,
       });
+      if (result.waitlistedCount > 0) {
+        toast.info(`${result.waitlistedCount} on-campus registration${result.waitlistedCount > 1 ? "s" : ""} added to the waitlist`, {
+          description: "We'll email you as soon as a bed is allotted.",
+        });
+      }
+
+      if (payingOnline) {
+        const payment = await payOnline(result.applicationId, undefined, {
+          name: data.name,
+          email: data.email,
+          contact: data.phone,
+        });
+        if (payment.status === "paid") {
+          setCurrentApplication({ ...result.registration, paymentStatus: "verified" });
+          setRegistrationResult({ ...regResult, paymentStatus: "verified" });
+          toast.success("Payment received", { description: "Your payment has been verified." });
+        } else if (payment.status === "failed") {
+          toast.error("Online payment failed", {
+            description: `${payment.error}. Your registration is saved; use your Application ID to pay later.`,
+          });
+        } else {
+          toast.info("Payment not completed", {
+            description: "Your registration is saved. Use your Application ID to pay online or upload a proof later.",
+          });
+        }
+      }
     } catch (error: unknown) {
       console.error("Registration failed", error);
       toast.error("Registration failed", {
@@ -363,7 +480,8 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
 
   const handleApplicationFound = (application: RegistrationData) => {
     setCurrentApplication(application);
-    setViewState("payment");
+    // Approved attendees only need their check-in QR code, not the payment form
+    setViewState(application.registrationStatus === "approved" && application.qrCodeData ? "success" : "payment");
   };
 
   const handlePaymentComplete = (updatedApplication: RegistrationData) => {
@@ -392,7 +510,7 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
   };
 
   // Show loading or error state for batch configuration
-  if (isLoadingConfig) {
+  if (isLoadingConfig || isLoadingFees) {
     return (
       <section id="register" className="py-20 gradient-warm">
         <div className="container max-w-4xl px-4">
@@ -458,6 +576,11 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
               <span className="inline-block bg-accent/20 text-accent-foreground px-4 py-2 rounded-lg border border-accent/30">
                 <strong>Note:</strong> Currently accepting batches from {yearFromOverride ?? batchConfig.yearFrom} to {yearToOverride ?? batchConfig.yearTo} only.
               </span>
+              {isEarlyBird(feeSchedule) && (
+                <span className="inline-block bg-primary/10 text-primary px-4 py-2 rounded-lg border border-primary/20">
+                  <strong>Early-bird pricing</strong> until {new Date(feeSchedule.earlyBirdDeadline!).toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short', timeZone: 'Asia/Kolkata' })} IST
+                </span>
+              )}
             </div>
           )}
         </motion.div>
@@ -471,6 +594,15 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
         >
           {viewState === "form" && (
             <>
+              {pendingDraft && (
+                <DraftResumeBanner
+                  savedAt={pendingDraft.savedAt}
+                  registrantName={pendingDraft.data.values.name}
+                  attendeeCount={singleAttendeeOnly ? 0 : pendingDraft.data.values.attendees?.length ?? 0}
+                  onResume={resumeDraft}
+                  onDiscard={discardDraft}
+                />
+              )}
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
                   {/* Main Registrant Section */}
@@ -778,10 +910,12 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
                             >
                               <RadioGroupItem value="on-campus" className="mt-1" />
                               <div>
-                                <p className="font-semibold text-foreground">On Campus Stay</p>
-                                <p className="text-2xl font-bold text-primary mt-1">₹15,000</p>
+                                <p className="font-semibold text-foreground">{onCampusFull ? "On-Campus Waitlist" : "On Campus Stay"}</p>
+                                <p className="text-2xl font-bold text-primary mt-1">{formatFee(calculateFee("on-campus", feeSchedule, { viaInvite }))}</p>
                                 <p className="text-sm text-muted-foreground mt-2">
-                                  Includes accommodation, all meals & full event access
+                                  {onCampusFull
+                                    ? "All beds are taken. Join the waitlist and we'll email you as soon as one frees up"
+                                    : "Includes accommodation, all meals & full event access"}
                                 </p>
                               </div>
                             </label>
@@ -796,7 +930,7 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
                               <RadioGroupItem value="outside" className="mt-1" />
                               <div>
                                 <p className="font-semibold text-foreground">Staying Outside</p>
-                                <p className="text-2xl font-bold text-primary mt-1">₹7,500</p>
+                                <p className="text-2xl font-bold text-primary mt-1">{formatFee(calculateFee("outside", feeSchedule, { viaInvite }))}</p>
                                 <p className="text-sm text-muted-foreground mt-2">
                                   Full event access, lunch & dinner included (no breakfast)
                                 </p>
@@ -811,10 +945,10 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
                   ) : (
                     <div className="rounded-xl border-2 border-primary/20 bg-primary/5 p-6">
                       <p className="font-semibold text-foreground text-lg">
-                        Registration Fee — {showOnCampusOption && !showOutsideOption ? "On-Campus Stay" : "Outside Stay"}
+                        Registration Fee — {showOnCampusOption && !showOutsideOption ? (onCampusFull ? "On-Campus Waitlist" : "On-Campus Stay") : "Outside Stay"}
                       </p>
                       <p className="text-2xl font-bold text-primary mt-1">
-                        ₹{calculateFee(showOnCampusOption && !showOutsideOption ? "on-campus" : "outside").toLocaleString('en-IN')}
+                        {formatFee(calculateFee(showOnCampusOption && !showOutsideOption ? "on-campus" : "outside", feeSchedule, { viaInvite }))}
                       </p>
                       <p className="text-sm text-muted-foreground mt-2">
                         {showOnCampusOption && !showOutsideOption
@@ -888,89 +1022,153 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
                         primaryEmail={form.watch("email")}
                         showStayOption={showStayChoice}
                         forcedStayType={!showStayChoice ? (showOnCampusOption ? "on-campus" : "outside") : undefined}
+                        feeSchedule={feeSchedule}
+                        viaInvite={viaInvite}
+                        onCampusWaitlist={onCampusFull}
                       />
                     </div>
                   )}
 
-                  {/* Payment Proof Upload Section - Mandatory */}
+                  {waitlistedInSubmission > 0 && (
+                    <div className="flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+                      <AlertCircle className="h-5 w-5 shrink-0 mt-0.5" />
+                      <p>
+                        {onCampusFull
+                          ? "All on-campus beds are taken."
+                          : `Only ${onCampusCapacity.remainingBeds} on-campus bed${onCampusCapacity.remainingBeds === 1 ? " is" : "s are"} left.`}{" "}
+                        {waitlistedInSubmission} on-campus registration{waitlistedInSubmission > 1 ? "s" : ""} in this submission will join the
+                        waitlist and be promoted in order as beds free up. We'll email you on promotion.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Payment Section - online payment or mandatory proof upload */}
                   <div className="pt-6 border-t border-border space-y-4">
                     <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
                       <FileText className="w-5 h-5 text-primary" />
-                      Payment Proof Upload (Required)
+                      {payingOnline ? "Payment" : "Payment Proof Upload (Required)"}
                     </h3>
 
-                    {/* Important Payment Notice */}
-                    <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800 space-y-2">
-                      <div className="flex items-start gap-2">
-                        <AlertCircle className="w-5 h-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
-                        <div>
-                          <p className="font-medium text-amber-800 dark:text-amber-200">
-                            Important: Full Payment Required
-                          </p>
-                          <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
-                            <strong>Full payment towards the registration must be made.</strong> Partial payment proofs should not be submitted. 
-                            Please ensure you have your payment proof (screenshot/PDF) ready before proceeding with the form submission.
-                          </p>
-                        </div>
-                      </div>
-                    </div>
+                    {isOnlinePaymentEnabled && (
+                      <RadioGroup
+                        value={paymentMethod}
+                        onValueChange={(value) => setPaymentMethod(value as "proof" | "online")}
+                        className="grid md:grid-cols-2 gap-3"
+                      >
+                        <label
+                          className={`flex items-start gap-3 p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                            paymentMethod === "online" ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                          }`}
+                        >
+                          <RadioGroupItem value="online" className="mt-0.5" />
+                          <div>
+                            <p className="font-medium text-foreground flex items-center gap-1">
+                              <Zap className="w-4 h-4 text-primary" />
+                              Pay online now
+                            </p>
+                            <p className="text-sm text-muted-foreground">Card, UPI or net banking. Confirmed instantly.</p>
+                          </div>
+                        </label>
+                        <label
+                          className={`flex items-start gap-3 p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                            paymentMethod === "proof" ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                          }`}
+                        >
+                          <RadioGroupItem value="proof" className="mt-0.5" />
+                          <div>
+                            <p className="font-medium text-foreground flex items-center gap-1">
+                              <Upload className="w-4 h-4 text-primary" />
+                              I have already paid
+                            </p>
+                            <p className="text-sm text-muted-foreground">Upload the bank transfer or UPI confirmation.</p>
+                          </div>
+                        </label>
+                      </RadioGroup>
+                    )}
 
-                    {/* Payment Proof Upload */}
-                    <div className="p-4 bg-accent/10 rounded-lg border border-accent/20 space-y-4">
-                      {hasMultipleApplicants ? (
-                        /* Bulk Payment Proof Upload for multiple applicants */
-                        <BulkPaymentProofUpload
-                          key={`bulk-upload-${additionalAttendees.length}`}
-                          registrant={form.watch()}
-                          additionalAttendees={additionalAttendees}
-                          paymentProofs={bulkPaymentProofs}
-                          onPaymentProofBlobsChange={setBulkPaymentBlobs}
-                          onPaymentProofsChange={setBulkPaymentProofs}
-                        />
-                      ) : (
-                        /* Single applicant - original upload UI */
-                        <>
-                          <div className="flex items-center gap-2 text-foreground font-medium">
-                            <Upload className="w-4 h-4 text-primary" />
-                            Upload Payment Proof
+                    {payingOnline ? (
+                      <p className="text-sm text-muted-foreground">
+                        After you submit, a secure payment window opens for the full amount of {formatFee(totalFee)}.
+                        If you close it, your registration is still saved and you can pay later using your Application ID.
+                      </p>
+                    ) : (
+                      <>
+                        {/* Important Payment Notice */}
+                        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800 space-y-2">
+                          <div className="flex items-start gap-2">
+                            <AlertCircle className="w-5 h-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+                            <div>
+                              <p className="font-medium text-amber-800 dark:text-amber-200">
+                                Important: Full Payment Required
+                              </p>
+                              <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
+                                <strong>Full payment towards the registration must be made.</strong> Partial payment proofs should not be submitted. 
+                                Please ensure you have your payment proof (screenshot/PDF) ready before proceeding with the form submission.
+                              </p>
+                            </div>
                           </div>
-                          <p className="text-sm text-muted-foreground">
-                            Please upload a screenshot or PDF which consists the <span className="text-destructive font-bold">transaction reference number</span> of your payment confirmation (Max 5MB).
-                          </p>
-                          <div className="flex flex-col gap-3">
-                            <input
-                              type="file"
-                              id="payment-proof"
-                              accept="image/jpeg,image/png,image/webp,application/pdf"
-                              onChange={handlePaymentProofChange}
-                              className="hidden"
+                        </div>
+
+                        {/* Payment Proof Upload */}
+                        <div className="p-4 bg-accent/10 rounded-lg border border-accent/20 space-y-4">
+                          {hasMultipleApplicants ? (
+                            /* Bulk Payment Proof Upload for multiple applicants */
+                            <BulkPaymentProofUpload
+                              key={`bulk-upload-${additionalAttendees.length}`}
+                              registrant={form.watch()}
+                              additionalAttendees={additionalAttendees}
+                              paymentProofs={bulkPaymentProofs}
+                              onPaymentProofBlobsChange={setBulkPaymentBlobs}
+                              onPaymentProofsChange={setBulkPaymentProofs}
+                              feeSchedule={feeSchedule}
+                              viaInvite={viaInvite}
                             />
-                            <label
-                              htmlFor="payment-proof"
-                              className="inline-flex items-center justify-center gap-2 px-4 py-3 bg-background border border-border rounded-lg cursor-pointer hover:bg-accent/10 transition-colors"
-                            >
-                              <Upload className="w-4 h-4 text-primary" />
-                              <span className="text-foreground">
-                                {paymentProofFile ? paymentProofFile.name : "Choose file..."}
-                              </span>
-                            </label>
-                            {paymentProofFile && (
-                              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                                <FileText className="w-4 h-4" />
-                                <span>{(paymentProofFile.size / 1024).toFixed(1)} KB</span>
-                                <button
-                                  type="button"
-                                  onClick={() => { setPaymentProofFile(null); setPaymentProofBlob(null); }}
-                                  className="ml-2 text-destructive hover:underline"
+                          ) : (
+                            /* Single applicant - original upload UI */
+                            <>
+                              <div className="flex items-center gap-2 text-foreground font-medium">
+                                <Upload className="w-4 h-4 text-primary" />
+                                Upload Payment Proof
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                Please upload a screenshot or PDF which consists the <span className="text-destructive font-bold">transaction reference number</span> of your payment confirmation (Max 5MB).
+                              </p>
+                              <div className="flex flex-col gap-3">
+                                <input
+                                  type="file"
+                                  id="payment-proof"
+                                  accept="image/jpeg,image/png,image/webp,application/pdf"
+                                  onChange={handlePaymentProofChange}
+                                  className="hidden"
+                                />
+                                <label
+                                  htmlFor="payment-proof"
+                                  className="inline-flex items-center justify-center gap-2 px-4 py-3 bg-background border border-border rounded-lg cursor-pointer hover:bg-accent/10 transition-colors"
                                 >
-                                  Remove
-                                </button>
+                                  <Upload className="w-4 h-4 text-primary" />
+                                  <span className="text-foreground">
+                                    {paymentProofFile ? paymentProofFile.name : "Choose file..."}
+                                  </span>
+                                </label>
+                                {paymentProofFile && (
+                                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                    <FileText className="w-4 h-4" />
+                                    <span>{(paymentProofFile.size / 1024).toFixed(1)} KB</span>
+                                    <button
+                                      type="button"
+                                      onClick={() => { setPaymentProofFile(null); setPaymentProofBlob(null); }}
+                                      className="ml-2 text-destructive hover:underline"
+                                    >
+                                      Remove
+                                    </button>
+                                  </div>
+                                )}
                               </div>
-                            )}
-                          </div>
-                        </>
-                      )}
-                    </div>
+                            </>
+                          )}
+                        </div>
+                      </>
+                    )}
                   </div>
 
                   {/* Honeypot field - hidden from humans, visible to bots */}
@@ -998,12 +1196,12 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
                               Registration is only allowed between the configured start and end dates.
                               {batchConfig?.registrationStartDate && (
                                 <span className="block mt-1">
-                                  Start: {new Date(batchConfig.registrationStartDate).toLocaleDateString('en-IN', { dateStyle: 'long' })}
+                                  Start: {formatIST(batchConfig.registrationStartDate)} IST
                                 </span>
                               )}
                               {batchConfig?.registrationEndDate && (
                                 <span className="block">
-                                  End: {new Date(batchConfig.registrationEndDate).toLocaleDateString('en-IN', { dateStyle: 'long' })}
+                                  End: {formatIST(batchConfig.registrationEndDate)} IST
                                 </span>
                               )}
                             </p>
@@ -1032,8 +1230,8 @@ const RegistrationForm = ({ singleAttendeeOnly = false, inviteToken, inviteEmail
                         disabled={
                           isSubmitting || 
                           !canSubmit ||
-                          (hasMultipleApplicants && !allBulkProofsUploaded) ||
-                          (!hasMultipleApplicants && !paymentProofFile)
+                          (!payingOnline && hasMultipleApplicants && !allBulkProofsUploaded) ||
+                          (!payingOnline && !hasMultipleApplicants && !paymentProofFile)
                         }
                         className="bg-primary hover:bg-primary/90 text-primary-foreground px-12 py-6 text-lg rounded-full shadow-card hover:shadow-elevated transition-all disabled:opacity-50"
                       >
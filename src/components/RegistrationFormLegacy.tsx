@@ -22,7 +22,9 @@ import { User, Mail, Phone, Briefcase, MapPin, Building, Home, Loader2, Upload,
 
 import { supabase } from "@/integrations/supabase/client";
 import { useHoneypot } from "@/hooks/useHoneypot";
+import { useRecaptcha } from "@/hooks/useRecaptcha";
 import { useIdleAutoRefresh } from "@/hooks/useIdleAutoRefresh";
+import { useFeeSchedule } from "@/hooks/useFeeSchedule";
 import { encodeBlobToBase64, preparePaymentProof } from "@/lib/paymentProofPayload";
 
 import PaymentDetailsForm from "./PaymentDetailsForm";
@@ -36,6 +38,7 @@ import {
   defaultRegistrant,
   calculateFee,
   calculateTotalFee,
+  formatFee,
   RegistrationData,
   MAX_ATTENDEES,
 } from "./registration/types";
@@ -75,6 +78,8 @@ const RegistrationFormLegacy = () => {
   const [bulkPaymentProofs, setBulkPaymentProofs] = useState<Map<string, File>>(new Map());
   const [bulkPaymentBlobs, setBulkPaymentBlobs] = useState<Map<string, { blob: Blob; name: string; type: string }>>(new Map());
   const { getValidationData, isLikelyBot, resetFormLoadTime, setHoneypotValue } = useHoneypot();
+  const { executeRecaptcha } = useRecaptcha();
+  const { schedule: feeSchedule, isLoading: isLoadingFees } = useFeeSchedule();
 
   // Warn after 5 min of idle, auto-refresh after 10 min. Stops once user reaches success view.
   useIdleAutoRefresh({ enabled: viewState !== "success" });
@@ -128,8 +133,8 @@ const RegistrationFormLegacy = () => {
   const primaryEmail = useWatch({ control: form.control, name: "email" }) || "";
 
   const watchedRegistrant = useWatch({ control: form.control }) as RegistrantData;
-  const registrantFee = calculateFee(watchedRegistrant?.stayType ?? "on-campus");
-  const totalFee = calculateTotalFee(watchedRegistrant, additionalAttendees);
+  const registrantFee = calculateFee(watchedRegistrant?.stayType ?? "on-campus", feeSchedule);
+  const totalFee = calculateTotalFee(watchedRegistrant, additionalAttendees, feeSchedule);
 
   const onSubmit = async (data: RegistrantData) => {
     setIsSubmitting(true);
@@ -213,27 +218,39 @@ const RegistrationFormLegacy = () => {
       toast.info("Submitting registration...");
 
       // --- STEP 2: Call backend to upload proof + create registration atomically ---
-      const registrationFee = calculateFee(data.stayType);
+      const registrationFee = calculateFee(data.stayType, feeSchedule);
       const finalBoardType = data.boardType === "Other" ? data.customBoardType : data.boardType;
 
       const attendeesToSubmit = data.attendees || [];
-      const additionalAttendeesData = attendeesToSubmit.map((attendee) => ({
-        name: attendee.name,
-        email: data.email,
-        secondaryEmail: attendee.secondaryEmail || undefined,
-        phone: attendee.phone,
-        occupation: attendee.occupation,
-        boardType: attendee.boardType === "Other" ? attendee.customBoardType : attendee.boardType,
-        yearOfPassing: parseInt(attendee.yearOfPassing),
-        stayType: attendee.stayType,
-        tshirtSize: attendee.tshirtSize,
-        gender: attendee.gender,
-        registrationFee: calculateFee(attendee.stayType),
-      }));
+      const additionalAttendeesData = attendeesToSubmit.map((attendee) => {
+        // Spouses and children inherit the primary registrant's batch
+        const isAlumnus = attendee.attendeeType === "alumni";
+        return {
+          name: attendee.name,
+          email: data.email,
+          secondaryEmail: attendee.secondaryEmail || undefined,
+          phone: attendee.phone,
+          occupation: attendee.occupation,
+          attendeeType: attendee.attendeeType,
+          boardType: !isAlumnus ? finalBoardType : attendee.boardType === "Other" ? attendee.customBoardType : attendee.boardType,
+          yearOfPassing: parseInt(isAlumnus ? attendee.yearOfPassing : data.yearOfPassing),
+          stayType: attendee.stayType,
+          tshirtSize: attendee.tshirtSize,
+          gender: attendee.gender,
+          registrationFee: calculateFee(attendee.stayType, feeSchedule, { category: attendee.attendeeType }),
+        };
+      });
+
+      // A missing token is rejected server-side with an actionable message
+      const captchaToken = await executeRecaptcha("register").catch((err) => {
+        console.warn("reCAPTCHA unavailable:", err);
+        return undefined;
+      });
 
       const { data: result, error } = await supabase.functions.invoke("verify-captcha-register", {
         body: {
           botValidation,
+          captchaToken,
           paymentProof,
           name: data.name,
           email: data.email,
@@ -258,9 +275,13 @@ const RegistrationFormLegacy = () => {
 
       if (error) {
         console.error("Legacy registration submit failed:", error);
+        // Non-2xx responses carry the structured { error, code } body in error.context
+        const errorBody = await (error.context instanceof Response
+          ? error.context.clone().json().catch(() => null)
+          : Promise.resolve(null));
         const description = /failed to fetch/i.test(error.message)
           ? "Unable to reach the registration service right now. Please retry in a few moments."
-          : error.message || "Unable to complete registration. Please try again later.";
+          : errorBody?.error || error.message || "Unable to complete registration. Please try again later.";
         toast.error("Registration failed", {
           description,
         });
@@ -320,6 +341,20 @@ const RegistrationFormLegacy = () => {
     setViewState("form");
   };
 
+  // Wait for the configured fees, so the form never prices against the defaults
+  if (isLoadingFees) {
+    return (
+      <section id="register1930-1980" className="py-20 gradient-warm">
+        <div className="container max-w-4xl px-4">
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Loading registration configuration...</span>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
   return (
     <section id="register1930-1980" className="py-20 gradient-warm">
       <div className="container max-w-4xl px-4">
@@ -715,7 +750,7 @@ const RegistrationFormLegacy = () => {
                                 >
                                   <span className="block">On Campus</span>
                                   <span className="block text-muted-foreground font-normal mt-1">
-                                    Stay in school hostels - ₹15,000 (includes accommodation, all meals & event access)
+                                    Stay in school hostels - {formatFee(calculateFee("on-campus", feeSchedule))} (includes accommodation, all meals & event access)
                                   </span>
                                 </label>
                               </div>
@@ -727,7 +762,7 @@ const RegistrationFormLegacy = () => {
                                 >
                                   <span className="block">Outside Campus</span>
                                   <span className="block text-muted-foreground font-normal mt-1">
-                                    Arrange your own stay - ₹7,500 (includes event access, lunch & dinner only)
+                                    Arrange your own stay - {formatFee(calculateFee("outside", feeSchedule))} (includes event access, lunch & dinner only)
                                   </span>
                                 </label>
                               </div>
@@ -756,6 +791,7 @@ const RegistrationFormLegacy = () => {
                     form={form}
                     yearOptions={legacyYearOptions}
                     primaryEmail={primaryEmail}
+                    feeSchedule={feeSchedule}
                   />
 
                   {/* Fee Summary */}
@@ -806,6 +842,7 @@ const RegistrationFormLegacy = () => {
                           paymentProofs={bulkPaymentProofs}
                           onPaymentProofBlobsChange={setBulkPaymentBlobs}
                           onPaymentProofsChange={setBulkPaymentProofs}
+                          feeSchedule={feeSchedule}
                         />
                       ) : (
                         <div className="space-y-2">
@@ -9,6 +9,7 @@
  * - Additional registrations listed (for group registrations)
  * - Copy-to-clipboard functionality for application IDs
  * - Payment confirmation status
+ * - Check-in QR code once the registration has been approved
  * - Option to start a new registration
  * 
  * This component handles both single and group registrations,
@@ -16,10 +17,11 @@
  */
 
 import { motion } from "framer-motion";
-import { CheckCircle, Copy, Users, KeyRound } from "lucide-react";
+import { CheckCircle, Copy, Users, KeyRound, QrCode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { RegistrationData } from "./registration/types";
+import CheckInQRCode from "./CheckInQRCode";
+import { RegistrationData, formatFee } from "./registration/types";
 
 /**
  * Interface for additional registration data
@@ -78,9 +80,9 @@ const RegistrationSuccess = ({
   };
 
   // Calculate display values
-  const displayFee = totalFee ? `₹${totalFee.toLocaleString()}` : 
-    (application.stayType === "on-campus" ? "₹15,000" : "₹7,500");
+  const displayFee = formatFee(totalFee || application.registrationFee);
   const totalPeople = 1 + additionalRegistrations.length;
+  const isApproved = application.registrationStatus === "approved" && !!application.qrCodeData;
 
   return (
     <motion.div
@@ -105,11 +107,15 @@ const RegistrationSuccess = ({
 
       {/* Success Message - Dynamic based on number of registrants */}
       <h3 className="font-serif text-2xl font-bold text-foreground mb-2">
-        {totalPeople > 1 ? `${totalPeople} Registrations Submitted!` : "Registration Submitted Successfully!"}
+        {isApproved
+          ? "Registration Approved!"
+          : totalPeople > 1 ? `${totalPeople} Registrations Submitted!` : "Registration Submitted Successfully!"}
       </h3>
       
       <p className="text-muted-foreground mb-6">
-        {viaInvite
+        {isApproved
+          ? "Your registration has been approved. Show the QR code below at the registration desk when you arrive."
+          : viaInvite
           ? (totalPeople > 1
               ? "These registrations were completed via a private invite link. Please save the Application IDs below."
               : "This registration was completed via a private invite link. Please save your Application ID below.")
@@ -138,6 +144,20 @@ const RegistrationSuccess = ({
         <p className="text-xs text-muted-foreground mt-1">{application.name}</p>
       </div>
 
+      {/* Check-In QR Code - Only shown once the registration is approved */}
+      {isApproved && (
+        <div className="flex flex-col items-center gap-2 mb-6">
+          <div className="flex items-center gap-2">
+            <QrCode className="w-4 h-4 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Check-In QR Code</p>
+          </div>
+          <div className="p-3 bg-white rounded-xl border border-border">
+            <CheckInQRCode code={application.qrCodeData!} applicationId={application.applicationId} />
+          </div>
+          <p className="text-xs text-muted-foreground">Tap the code to download it</p>
+        </div>
+      )}
+
       {/* Additional Registrations List - Only shown for group registrations */}
       {additionalRegistrations.length > 0 && (
         <div className="mb-6">
@@ -183,17 +203,19 @@ const RegistrationSuccess = ({
       </div>
 
       {/* Payment Confirmation Notice */}
-      <div className="bg-green-50 dark:bg-green-900/20 rounded-xl p-4 border border-green-200 dark:border-green-800 mb-6 max-w-md mx-auto">
-        <div className="flex items-start gap-3">
-          <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
-          <div className="text-left">
-            <p className="font-semibold text-green-800 dark:text-green-200 text-sm">Payment Proof Submitted</p>
-            <p className="text-green-700 dark:text-green-300 text-sm">
-              Your payment proof has been submitted. The organizing committee will verify and confirm your registration via email.
-            </p>
+      {!isApproved && (
+        <div className="bg-green-50 dark:bg-green-900/20 rounded-xl p-4 border border-green-200 dark:border-green-800 mb-6 max-w-md mx-auto">
+          <div className="flex items-start gap-3">
+            <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+            <div className="text-left">
+              <p className="font-semibold text-green-800 dark:text-green-200 text-sm">Payment Proof Submitted</p>
+              <p className="text-green-700 dark:text-green-300 text-sm">
+                Your payment proof has been submitted. The organizing committee will verify and confirm your registration via email.
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* New Registration Button */}
       <div className="flex justify-center">
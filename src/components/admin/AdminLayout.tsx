@@ -38,7 +38,10 @@ import {
   ChevronLeft,
   ChevronRight,
   MapPinOff,
-  AlertCircle
+  AlertCircle,
+  ScanLine,
+  Mail,
+  Trash2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { trackDeviceSession } from '@/lib/activityLogger';
@@ -55,6 +58,8 @@ const SCREEN_KEY_MAP: Record<string, string> = {
   '/admin/registrations': 'registrations',
   '/admin/hostels': 'hostels',
   '/admin/accounts-review': 'accounts_review',
+  '/admin/check-in': 'check_in',
+  '/admin/emails': 'email_log',
   '/admin/settings': 'settings',
 };
 
@@ -76,6 +81,12 @@ const getNavItems = (userRole: string | null) => {
     { href: '/admin/hostels', label: 'Hostel Management', icon: Building2 },
   ];
   
+  // Check-in verification runs through an admin-only edge function
+  if (userRole === 'admin' || userRole === 'superadmin') {
+    items.push({ href: '/admin/check-in', label: 'Event Check-In', icon: ScanLine });
+    items.push({ href: '/admin/emails', label: 'Email Log', icon: Mail });
+  }
+  
   // Superadmin can access Payment Verification (same as accounts admin)
   if (userRole === 'superadmin') {
     items.push({ href: '/admin/accounts-review', label: 'Payment Verification', icon: Receipt });
@@ -90,6 +101,7 @@ const getNavItems = (userRole: string | null) => {
   if (userRole === 'superadmin') {
     items.push({ href: '/admin/activity', label: 'Activity Logs', icon: Activity });
     items.push({ href: '/admin/error-logs', label: 'Error Logs', icon: AlertCircle });
+    items.push({ href: '/admin/recycle-bin', label: 'Recycle Bin', icon: Trash2 });
   }
   
   // Admin and superadmin can access Settings
@@ -0,0 +1,281 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileSpreadsheet, Loader2, Upload, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  matchStatementRows,
+  parseBankStatement,
+  type MatchType,
+  type ReconcilableRegistration,
+  type StatementMatch,
+} from '@/lib/bankReconciliation';
+
+interface BankReconciliationDialogProps<T extends ReconcilableRegistration> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Registrations currently awaiting accounts verification */
+  registrations: T[];
+  /** Verifies the confirmed matches; resolves once all have been processed */
+  onConfirm: (matches: StatementMatch<T>[]) => Promise<void>;
+  isProcessing: boolean;
+}
+
+const matchBadges: Record<MatchType, { label: string; className: string }> = {
+  exact: { label: 'Exact', className: 'bg-secondary text-secondary-foreground' },
+  fuzzy: { label: 'Fuzzy', className: 'bg-accent text-accent-foreground' },
+  unmatched: { label: 'Unmatched', className: 'bg-muted text-muted-foreground' },
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const BankReconciliationDialog = <T extends ReconcilableRegistration>({
+  open,
+  onOpenChange,
+  registrations,
+  onConfirm,
+  isProcessing,
+}: BankReconciliationDialogProps<T>) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<StatementMatch<T>[]>([]);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<MatchType | 'all'>('all');
+
+  const counts = useMemo(() => ({
+    exact: matches.filter((m) => m.type === 'exact').length,
+    fuzzy: matches.filter((m) => m.type === 'fuzzy').length,
+    unmatched: matches.filter((m) => m.type === 'unmatched').length,
+  }), [matches]);
+
+  const visibleMatches = filter === 'all' ? matches : matches.filter((m) => m.type === filter);
+
+  const reset = () => {
+    setFileName(null);
+    setParseError(null);
+    setMatches([]);
+    setSelectedRows(new Set());
+    setFilter('all');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+    setIsParsing(true);
+    try {
+      const rows = await parseBankStatement(file);
+      const result = matchStatementRows(rows, registrations);
+      setMatches(result);
+      // Exact matches are pre-selected; fuzzy ones need an explicit tick
+      setSelectedRows(new Set(result.filter((m) => m.type === 'exact').map((m) => m.row.rowNumber)));
+    } catch (error) {
+      console.error('Error parsing bank statement:', error);
+      setMatches([]);
+      setSelectedRows(new Set());
+      setParseError(error instanceof Error ? error.message : 'Failed to read the statement file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  // Units already suggested for a statement row, so a tie can't be resolved onto one of them
+  const matchedGroupIds = useMemo(
+    () => new Set(matches.flatMap((m) => (m.unit ? [m.unit.groupId] : []))),
+    [matches]
+  );
+
+  /** Resolves a tie by swapping the suggested unit for one of the alternatives */
+  const chooseUnit = (rowNumber: number, groupId: string) => {
+    setMatches((prev) => prev.map((m) => {
+      if (m.row.rowNumber !== rowNumber || !m.unit) return m;
+      const tied = [m.unit, ...m.alternatives];
+      const chosen = tied.find((u) => u.groupId === groupId);
+      return chosen ? { ...m, unit: chosen, alternatives: tied.filter((u) => u !== chosen) } : m;
+    }));
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelectedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    await onConfirm(matches.filter((m) => m.unit && selectedRows.has(m.row.rowNumber)));
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (isProcessing) return;
+        if (!value) reset();
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Reconcile Bank Statement
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel statement. Credits are matched to pending payments by reference, amount and date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isParsing || isProcessing}>
+            {isParsing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            {fileName ? 'Choose Another File' : 'Upload Statement'}
+          </Button>
+          {fileName && <span className="text-sm text-muted-foreground truncate">{fileName}</span>}
+        </div>
+
+        {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+        {matches.length > 0 && (
+          <>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as MatchType | 'all')}>
+              <TabsList>
+                <TabsTrigger value="all">All ({matches.length})</TabsTrigger>
+                <TabsTrigger value="exact">Exact ({counts.exact})</TabsTrigger>
+                <TabsTrigger value="fuzzy">Fuzzy ({counts.fuzzy})</TabsTrigger>
+                <TabsTrigger value="unmatched">Unmatched ({counts.unmatched})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <ScrollArea className="flex-1 min-h-0 max-h-[50vh] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Statement Entry</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Registration</TableHead>
+                    <TableHead>Match</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleMatches.map((match) => (
+                    <TableRow key={match.row.rowNumber}>
+                      <TableCell>
+                        {match.unit && (
+                          <Checkbox
+                            checked={selectedRows.has(match.row.rowNumber)}
+                            onCheckedChange={() => toggleRow(match.row.rowNumber)}
+                            disabled={isProcessing}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[260px]">
+                        <p className="text-sm">
+                          {match.row.date ? format(match.row.date, 'dd MMM yyyy') : '—'}
+                          <span className="text-xs text-muted-foreground ml-2">Row {match.row.rowNumber}</span>
+                        </p>
+                        <p className="text-xs font-mono text-muted-foreground truncate" title={`${match.row.reference} ${match.row.description}`}>
+                          {match.row.reference || match.row.description || '—'}
+                        </p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatAmount(match.row.amount)}</TableCell>
+                      <TableCell>
+                        {match.unit ? (
+                          <>
+                            <p className="text-sm font-medium">
+                              {match.unit.members[0].name}
+                              {match.unit.members.length > 1 && ` +${match.unit.members.length - 1}`}
+                            </p>
+                            <p className="text-xs font-mono text-muted-foreground">
+                              {match.unit.groupId} • {formatAmount(match.unit.totalAmount)}
+                            </p>
+                            {match.alternatives.length > 0 && (
+                              <Select
+                                value={match.unit.groupId}
+                                onValueChange={(groupId) => chooseUnit(match.row.rowNumber, groupId)}
+                                disabled={isProcessing}
+                              >
+                                <SelectTrigger className="h-7 mt-1 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {[match.unit, ...match.alternatives].map((unit) => (
+                                    <SelectItem
+                                      key={unit.groupId}
+                                      value={unit.groupId}
+                                      disabled={unit !== match.unit && matchedGroupIds.has(unit.groupId)}
+                                    >
+                                      {unit.members[0].name} ({unit.groupId})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={matchBadges[match.type].className}>{matchBadges[match.type].label}</Badge>
+                        <p className="text-xs text-muted-foreground mt-1">{match.reason}</p>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={selectedRows.size === 0 || isProcessing}>
+            {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+            Verify {selectedRows.size} Payment(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankReconciliationDialog;
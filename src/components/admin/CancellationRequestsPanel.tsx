@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { fetchGroupLedger, type GroupLedger } from '@/lib/paymentLedger';
+import { ledgerGroupId, suggestedCancellationRefund, summarizeLedger } from '@shared/paymentLedger';
+import PaymentLedgerPanel from '@/components/admin/PaymentLedgerPanel';
+import { Ban, CheckCircle, Eye, Loader2, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PendingCancellation {
+  id: string;
+  reason: string;
+  requested_by_email: string;
+  created_at: string;
+  registrations: {
+    id: string;
+    application_id: string;
+    parent_application_id: string | null;
+    name: string;
+    registration_fee: number;
+    registration_status: string;
+    stay_type: string;
+  } | null;
+}
+
+interface CancellationRequestsPanelProps {
+  /** Called after a decision so the page can refresh its list */
+  onReviewed: () => void;
+}
+
+/**
+ * Pending cancellation requests from the registrant portal. Approving
+ * cancels the registration, frees its bed and books the refund in the
+ * ledger, all in the approve_cancellation_request RPC.
+ */
+const CancellationRequestsPanel = ({ onReviewed }: CancellationRequestsPanelProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<PendingCancellation[]>([]);
+  const [selected, setSelected] = useState<PendingCancellation | null>(null);
+  const [ledger, setLedger] = useState<GroupLedger | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [reviewNote, setReviewNote] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('cancellation_requests')
+      .select('id, reason, requested_by_email, created_at, registrations!inner(id, application_id, parent_application_id, name, registration_fee, registration_status, stay_type)')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching cancellation requests:', error);
+      return;
+    }
+    setRequests((data || []) as PendingCancellation[]);
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const openReview = async (request: PendingCancellation) => {
+    setSelected(request);
+    setLedger(null);
+    setRefundAmount('');
+    setReviewNote('');
+
+    if (!request.registrations) return;
+    try {
+      const groupLedger = await fetchGroupLedger(ledgerGroupId(request.registrations));
+      setLedger(groupLedger);
+      setRefundAmount(String(
+        suggestedCancellationRefund(groupLedger.members, groupLedger.transactions, request.registrations.id)
+      ));
+    } catch (error) {
+      console.error('Error loading ledger for cancellation:', error);
+      setRefundAmount('0');
+    }
+  };
+
+  const closeReview = () => {
+    setSelected(null);
+    setLedger(null);
+  };
+
+  const handleApprove = async () => {
+    if (!selected?.registrations) return;
+
+    const refund = parseInt(refundAmount || '0', 10);
+    if (!Number.isFinite(refund) || refund < 0) {
+      toast({ title: 'Invalid Refund', description: 'Enter a refund of zero or more', variant: 'destructive' });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { error } = await supabase.rpc('approve_cancellation_request', {
+        _request_id: selected.id,
+        _refund_amount: refund,
+        _note: reviewNote.trim() || undefined,
+      });
+      if (error) throw error;
+
+      await logAdminActivity({
+        actionType: 'cancellation_approval',
+        targetRegistrationId: selected.registrations.id,
+        targetApplicationId: selected.registrations.application_id,
+        details: { refundAmount: refund, reason: selected.reason, note: reviewNote.trim() || null },
+      });
+
+      toast({
+        title: 'Registration Cancelled',
+        description: refund > 0
+          ? `${selected.registrations.application_id} cancelled; refund of ₹${refund} recorded`
+          : `${selected.registrations.application_id} cancelled`,
+      });
+      closeReview();
+      fetchRequests();
+      onReviewed();
+    } catch (error) {
+      console.error('Error approving cancellation:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to approve cancellation',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!selected?.registrations || !reviewNote.trim()) return;
+
+    setIsProcessing(true);
+    try {
+      const { error } = await supabase
+        .from('cancellation_requests')
+        .update({
+          status: 'declined',
+          review_note: reviewNote.trim(),
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', selected.id)
+        .eq('status', 'pending');
+      if (error) throw error;
+
+      await logAdminActivity({
+        actionType: 'cancellation_decline',
+        targetRegistrationId: selected.registrations.id,
+        targetApplicationId: selected.registrations.application_id,
+        details: { reason: selected.reason, note: reviewNote.trim() },
+      });
+
+      toast({ title: 'Request Declined', description: `${selected.registrations.application_id} stays registered` });
+      closeReview();
+      fetchRequests();
+    } catch (error) {
+      console.error('Error declining cancellation:', error);
+      toast({ title: 'Error', description: 'Failed to decline the request', variant: 'destructive' });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  const registration = selected?.registrations;
+  const groupBalance = ledger ? summarizeLedger(ledger.members, ledger.transactions) : null;
+
+  return (
+    <>
+      <Card className="shadow-card border-destructive/30">
+        <CardHeader>
+          <CardTitle className="font-serif flex items-center gap-2 text-lg">
+            <Ban className="h-5 w-5 text-destructive" />
+            Cancellation Requests
+          </CardTitle>
+          <CardDescription>
+            {requests.length} request{requests.length > 1 ? 's' : ''} awaiting review
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Application ID</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-mono text-sm">{request.registrations?.application_id}</TableCell>
+                  <TableCell>{request.registrations?.name}</TableCell>
+                  <TableCell className="text-sm">{format(new Date(request.created_at), 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openReview(request)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && closeReview()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-serif flex items-center gap-2">
+              <Ban className="h-5 w-5" />
+              Review Cancellation
+            </DialogTitle>
+            <DialogDescription>
+              {registration?.application_id} · {registration?.name} · requested by {selected?.requested_by_email}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selected && registration && (
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm text-muted-foreground">Reason</label>
+                <p className="text-sm bg-muted p-2 rounded">{selected.reason}</p>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <label className="text-muted-foreground">Fee</label>
+                  <p className="font-medium">₹{registration.registration_fee}</p>
+                </div>
+                <div>
+                  <label className="text-muted-foreground">Stay</label>
+                  <p className="font-medium">{registration.stay_type === 'on-campus' ? 'On-Campus' : 'Outside'}</p>
+                </div>
+                <div>
+                  <label className="text-muted-foreground">Status</label>
+                  <p className="font-medium capitalize">{registration.registration_status}</p>
+                </div>
+              </div>
+
+              <div className="border-t pt-4">
+                <PaymentLedgerPanel groupApplicationId={ledgerGroupId(registration)} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 border-t pt-4">
+                <div className="space-y-1">
+                  <Label>Refund (₹)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                    disabled={!ledger}
+                  />
+                  {groupBalance && (
+                    <p className="text-xs text-muted-foreground">
+                      Group has paid ₹{groupBalance.amountPaid}; suggested refund leaves the rest of the group settled.
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label>Note (required to decline)</Label>
+                  <Textarea value={reviewNote} onChange={(e) => setReviewNote(e.target.value)} rows={3} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={handleDecline}
+              disabled={isProcessing || !reviewNote.trim()}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Decline
+            </Button>
+            <Button variant="destructive" onClick={handleApprove} disabled={isProcessing || !ledger}>
+              {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+              Cancel Registration
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CancellationRequestsPanel;
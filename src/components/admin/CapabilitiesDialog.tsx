@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { Database } from '@/integrations/supabase/types';
+import { CAPABILITIES } from '@/lib/capabilities';
+
+type AppRole = Database['public']['Enums']['app_role'];
+
+/** "default" follows the role templates; "allow"/"deny" is a per-user override */
+type OverrideSetting = 'default' | 'allow' | 'deny';
+
+interface CapabilitiesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  userEmail: string;
+  /** The user's approved roles, whose templates give the defaults */
+  roles: AppRole[];
+  onSaved?: () => void;
+}
+
+const CapabilitiesDialog = ({
+  open,
+  onOpenChange,
+  userId,
+  userEmail,
+  roles,
+  onSaved,
+}: CapabilitiesDialogProps) => {
+  const [roleDefaults, setRoleDefaults] = useState<Set<string>>(new Set());
+  const [settings, setSettings] = useState<Record<string, OverrideSetting>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCapabilities = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [templatesResult, overridesResult] = await Promise.all([
+        roles.length > 0
+          ? supabase.from('role_capabilities').select('capability').in('role', roles)
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('user_capability_overrides')
+          .select('capability, granted')
+          .eq('user_id', userId),
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+      if (overridesResult.error) throw overridesResult.error;
+
+      setRoleDefaults(new Set(templatesResult.data?.map((t) => t.capability) || []));
+      setSettings(
+        Object.fromEntries(
+          (overridesResult.data || []).map((o) => [o.capability, o.granted ? 'allow' : 'deny'])
+        )
+      );
+    } catch (err) {
+      console.error('Error fetching capabilities:', err);
+      toast.error('Failed to load capabilities');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, roles]);
+
+  useEffect(() => {
+    if (open && userId) {
+      fetchCapabilities();
+    }
+  }, [open, userId, fetchCapabilities]);
+
+  const handleResetAll = () => {
+    setSettings({});
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Replace the user's overrides with the current selection
+      const { error: deleteError } = await supabase
+        .from('user_capability_overrides')
+        .delete()
+        .eq('user_id', userId);
+
+      if (deleteError) throw deleteError;
+
+      const overrides = Object.entries(settings).filter(([, setting]) => setting !== 'default');
+      if (overrides.length > 0) {
+        const { data: { user: currentUser } } = await supabase.auth.getUser();
+
+        const { error: insertError } = await supabase
+          .from('user_capability_overrides')
+          .insert(
+            overrides.map(([capability, setting]) => ({
+              user_id: userId,
+              capability,
+              granted: setting === 'allow',
+              created_by: currentUser?.id,
+            }))
+          );
+
+        if (insertError) throw insertError;
+      }
+
+      toast.success('Capabilities updated');
+      onSaved?.();
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error saving capabilities:', err);
+      toast.error('Failed to save capabilities');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Configure Capabilities
+          </DialogTitle>
+          <DialogDescription>
+            Choose what <strong>{userEmail}</strong> can do. "Role default" follows the
+            templates of their roles ({roles.join(', ') || 'none'}).
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleResetAll}
+              >
+                Reset to Role Defaults
+              </Button>
+            </div>
+
+            <div className="grid gap-2 max-h-[50vh] overflow-y-auto">
+              {CAPABILITIES.map((capability) => {
+                const setting = settings[capability.key] || 'default';
+                const roleGrants = roleDefaults.has(capability.key);
+                const effective = setting === 'default' ? roleGrants : setting === 'allow';
+
+                return (
+                  <div
+                    key={capability.key}
+                    className="flex items-center justify-between gap-3 rounded-lg border p-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm">{capability.label}</p>
+                      <Badge
+                        variant={effective ? 'default' : 'outline'}
+                        className="mt-1 text-[10px]"
+                      >
+                        {effective ? 'Allowed' : 'Not allowed'}
+                      </Badge>
+                    </div>
+                    <Select
+                      value={setting}
+                      onValueChange={(value) =>
+                        setSettings((prev) => ({ ...prev, [capability.key]: value as OverrideSetting }))
+                      }
+                    >
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">
+                          Role default ({roleGrants ? 'on' : 'off'})
+                        </SelectItem>
+                        <SelectItem value="allow">Allow</SelectItem>
+                        <SelectItem value="deny">Deny</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Capabilities'
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CapabilitiesDialog;
@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Copy, GitMerge, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllMatchingRegistrations } from '@/lib/registrationSearch';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { findDuplicateClusters, type DuplicateCluster } from '@/lib/duplicateDetection';
+
+type Registration = Tables<'registrations'>;
+
+interface DuplicateFinderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a merge so the page can refresh its list */
+  onMerged: () => void;
+}
+
+/**
+ * Suggests which registration to keep: the one furthest along in payment
+ * and approval, then the oldest
+ */
+const suggestKeep = (members: Registration[]) => {
+  const rank = (r: Registration) =>
+    (r.accounts_verified ? 4 : 0) +
+    (r.registration_status === 'approved' ? 2 : 0) +
+    (r.payment_proof_url ? 1 : 0);
+  return [...members].sort((a, b) => rank(b) - rank(a) || a.created_at.localeCompare(b.created_at))[0].id;
+};
+
+const clusterKey = (cluster: DuplicateCluster<Registration>) =>
+  cluster.members.map((m) => m.id).sort().join(':');
+
+/**
+ * Lists clusters of likely duplicate registrations and merges each cluster
+ * into the registration the admin chooses to keep.
+ */
+const DuplicateFinderDialog = ({ open, onOpenChange, onMerged }: DuplicateFinderDialogProps) => {
+  const { toast } = useToast();
+  // Duplicates are searched across every registration, not just the page on screen
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped after a merge to reload the registrations
+  const [loadToken, setLoadToken] = useState(0);
+  const [keepChoices, setKeepChoices] = useState<Record<string, string>>({});
+  const [confirmCluster, setConfirmCluster] = useState<DuplicateCluster<Registration> | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setRegistrations([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchAllMatchingRegistrations()
+      .then((rows) => {
+        if (!cancelled) setRegistrations(rows);
+      })
+      .catch((error) => {
+        console.error('Error loading registrations:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load registrations',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, loadToken, toast]);
+
+  const clusters = useMemo(() => findDuplicateClusters(registrations), [registrations]);
+
+  const keepIdFor = (cluster: DuplicateCluster<Registration>) =>
+    keepChoices[clusterKey(cluster)] ?? suggestKeep(cluster.members);
+
+  const handleMerge = async () => {
+    if (!confirmCluster) return;
+
+    const keepId = keepIdFor(confirmCluster);
+    const keep = confirmCluster.members.find((m) => m.id === keepId)!;
+    const duplicates = confirmCluster.members.filter((m) => m.id !== keepId);
+
+    setIsMerging(true);
+    let merged = 0;
+    const preservedPayments: string[] = [];
+    try {
+      for (const duplicate of duplicates) {
+        const { data, error } = await supabase.rpc('merge_registrations', {
+          _keep_id: keep.id,
+          _duplicate_id: duplicate.id,
+        });
+        if (error) throw error;
+        merged++;
+        if ((data as { preservedPayment?: unknown } | null)?.preservedPayment) {
+          preservedPayments.push(duplicate.application_id);
+        }
+
+        await logAdminActivity({
+          actionType: 'registration_merge',
+          targetRegistrationId: keep.id,
+          targetApplicationId: keep.application_id,
+          details: {
+            summary: data,
+            reasons: confirmCluster.pairs
+              .filter((p) => [p.aId, p.bId].includes(duplicate.id))
+              .flatMap((p) => p.reasons),
+            // The duplicate row is deleted by the merge; keep a copy for the audit trail
+            removedRegistration: duplicate,
+          },
+        });
+      }
+
+      toast({
+        title: 'Registrations Merged',
+        description: `${duplicates.map((d) => d.application_id).join(', ')} merged into ${keep.application_id}`,
+      });
+      if (preservedPayments.length > 0) {
+        toast({
+          title: 'Check For A Double Payment',
+          description: `${keep.application_id} already had a payment, so the payment of ${preservedPayments.join(', ')} was kept on its record for review.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error merging registrations:', error);
+      toast({
+        title: merged > 0 ? 'Merge Partly Completed' : 'Error',
+        description: (error as { message?: string }).message || 'Failed to merge registrations',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsMerging(false);
+      setConfirmCluster(null);
+      if (merged > 0) {
+        onMerged();
+        setLoadToken((token) => token + 1);
+      }
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(value) => !isMerging && onOpenChange(value)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Copy className="h-5 w-5 text-primary" />
+              Possible Duplicates
+            </DialogTitle>
+            <DialogDescription>
+              Registrations matched by name, email, phone and batch year. Pick the registration to keep; merging moves
+              payment proofs, beds, ledger entries and attendees onto it and removes the others. If both carry a
+              payment, the other payment is kept on the registration's record for review.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : clusters.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No likely duplicates found.</p>
+          ) : (
+            <ScrollArea className="flex-1 min-h-0 pr-3">
+              <div className="space-y-4">
+                {clusters.map((cluster) => {
+                  const key = clusterKey(cluster);
+                  const keepId = keepIdFor(cluster);
+                  const reasons = Array.from(new Set(cluster.pairs.flatMap((p) => p.reasons)));
+                  return (
+                    <div key={key} className="rounded-lg border border-border p-3 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={cluster.score >= 0.9 ? 'destructive' : 'secondary'}>
+                          {Math.round(cluster.score * 100)}% match
+                        </Badge>
+                        {reasons.map((reason) => (
+                          <Badge key={reason} variant="outline" className="text-xs">{reason}</Badge>
+                        ))}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="ml-auto"
+                          onClick={() => setConfirmCluster(cluster)}
+                          disabled={isMerging}
+                        >
+                          <GitMerge className="h-4 w-4 mr-1" />
+                          Merge
+                        </Button>
+                      </div>
+                      <RadioGroup
+                        value={keepId}
+                        onValueChange={(value) => setKeepChoices((prev) => ({ ...prev, [key]: value }))}
+                      >
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-[50px]">Keep</TableHead>
+                              <TableHead>Application ID</TableHead>
+                              <TableHead>Name</TableHead>
+                              <TableHead>Contact</TableHead>
+                              <TableHead>Batch</TableHead>
+                              <TableHead>Status</TableHead>
+                              <TableHead>Registered</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {cluster.members.map((member) => (
+                              <TableRow key={member.id}>
+                                <TableCell>
+                                  <RadioGroupItem value={member.id} aria-label={`Keep ${member.application_id}`} />
+                                </TableCell>
+                                <TableCell className="font-mono text-xs">
+                                  {member.application_id}
+                                  {member.parent_application_id && (
+                                    <div className="text-muted-foreground">in {member.parent_application_id}</div>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                  {member.name}
+                                  {member.via_invite && <Badge variant="outline" className="ml-1 text-[10px]">Invite</Badge>}
+                                </TableCell>
+                                <TableCell className="text-xs">
+                                  <div>{member.email}</div>
+                                  <div className="text-muted-foreground">{member.phone}</div>
+                                </TableCell>
+                                <TableCell className="text-sm">{member.year_of_passing}</TableCell>
+                                <TableCell className="text-xs">
+                                  <div className="capitalize">{member.registration_status}</div>
+                                  <div className="text-muted-foreground">
+                                    Payment {member.accounts_verified ? 'verified' : member.payment_status}
+                                  </div>
+                                </TableCell>
+                                <TableCell className="text-xs whitespace-nowrap">
+                                  {format(new Date(member.created_at), 'MMM d, yyyy')}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </RadioGroup>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!confirmCluster} onOpenChange={(value) => !value && !isMerging && setConfirmCluster(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Registrations?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmCluster && (() => {
+                const keepId = keepIdFor(confirmCluster);
+                const keep = confirmCluster.members.find((m) => m.id === keepId);
+                const others = confirmCluster.members.filter((m) => m.id !== keepId);
+                return `${others.map((m) => m.application_id).join(', ')} will be merged into ${keep?.application_id} and removed. This cannot be undone.`;
+              })()}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isMerging}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleMerge();
+              }}
+              disabled={isMerging}
+            >
+              {isMerging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default DuplicateFinderDialog;
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { AlertTriangle, Loader2, RotateCcw, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  findUnknownPlaceholders,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type EmailTemplateKey,
+} from '@shared/emailTemplates';
+
+interface StoredTemplate extends EmailTemplate {
+  key: string;
+  updated_at: string;
+}
+
+const EmailTemplatesManager = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const [storedTemplates, setStoredTemplates] = useState<Record<string, StoredTemplate>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>(EMAIL_TEMPLATE_KEYS[0]);
+  const [draft, setDraft] = useState<EmailTemplate>(EMAIL_TEMPLATE_DEFINITIONS[EMAIL_TEMPLATE_KEYS[0]].defaults);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[selectedKey];
+  const stored = storedTemplates[selectedKey];
+  const current = stored ?? definition.defaults;
+  const isDirty = draft.subject !== current.subject || draft.body_html !== current.body_html;
+
+  const unknownPlaceholders = useMemo(() => findUnknownPlaceholders(selectedKey, draft), [selectedKey, draft]);
+  const preview = useMemo(() => renderEmailTemplate(draft, definition.sample), [draft, definition]);
+
+  // Load the selected template into the editor whenever the selection or saved copy changes
+  useEffect(() => {
+    setDraft({ subject: current.subject, body_html: current.body_html });
+  }, [selectedKey, current.subject, current.body_html]);
+
+  // Only the first load shows the spinner, so the editor stays mounted after save/reset
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('key, subject, body_html, updated_at');
+
+      if (error) throw error;
+      setStoredTemplates(Object.fromEntries((data ?? []).map((row) => [row.key, row])));
+    } catch (err) {
+      console.error('Error fetching email templates:', err);
+      toast({ title: 'Error', description: 'Failed to load email templates', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleSelect = (key: string) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this template?')) return;
+    setSelectedKey(key as EmailTemplateKey);
+  };
+
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body_html.length;
+    const end = textarea?.selectionEnd ?? start;
+
+    setDraft((prev) => ({
+      ...prev,
+      body_html: prev.body_html.slice(0, start) + token + prev.body_html.slice(end),
+    }));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.subject.trim() || !draft.body_html.trim()) {
+      toast({ title: 'Missing content', description: 'Subject and body are both required', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .upsert({
+          key: selectedKey,
+          subject: draft.subject,
+          body_html: draft.body_html,
+          updated_by: user?.id ?? null,
+        });
+
+      if (error) throw error;
+
+      toast({ title: 'Template saved', description: `${definition.name} will use the new content from now on.` });
+      await fetchTemplates();
+    } catch (err) {
+      console.error('Error saving email template:', err);
+      toast({ title: 'Error', description: 'Failed to save the template', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!stored) {
+      setDraft(definition.defaults);
+      return;
+    }
+    if (!window.confirm(`Restore the default ${definition.name} template? Your edits will be lost.`)) return;
+
+    setIsResetting(true);
+    try {
+      const { error } = await supabase.from('email_templates').delete().eq('key', selectedKey);
+      if (error) throw error;
+
+      toast({ title: 'Default restored', description: `${definition.name} is back to the built-in template.` });
+      await fetchTemplates();
+    } catch (err) {
+      console.error('Error resetting email template:', err);
+      toast({ title: 'Error', description: 'Failed to restore the default template', variant: 'destructive' });
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+          <Select value={selectedKey} onValueChange={handleSelect}>
+            <SelectTrigger className="w-full sm:w-[280px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EMAIL_TEMPLATE_KEYS.map((key) => (
+                <SelectItem key={key} value={key}>
+                  {EMAIL_TEMPLATE_DEFINITIONS[key].name}
+                  {storedTemplates[key] ? ' (edited)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {stored ? (
+            <Badge variant="secondary">Edited {format(new Date(stored.updated_at), 'dd MMM yyyy, HH:mm')}</Badge>
+          ) : (
+            <Badge variant="outline">Default</Badge>
+          )}
+        </div>
+        <CardTitle className="font-serif text-lg pt-2">{definition.name}</CardTitle>
+        <CardDescription>{definition.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Placeholders</Label>
+          <div className="flex flex-wrap gap-2">
+            {definition.placeholders.map((placeholder) => (
+              <Badge
+                key={placeholder.name}
+                variant="outline"
+                className="cursor-pointer font-mono text-xs hover:bg-muted"
+                title={placeholder.description}
+                onClick={() => insertPlaceholder(placeholder.name)}
+              >
+                {`{{${placeholder.name}}}`}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Click a placeholder to insert it into the body. Hover for a description.
+          </p>
+        </div>
+
+        <Tabs defaultValue="edit">
+          <TabsList>
+            <TabsTrigger value="edit">Edit</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-template-subject">Subject</Label>
+              <Input
+                id="email-template-subject"
+                value={draft.subject}
+                onChange={(e) => setDraft((prev) => ({ ...prev, subject: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-template-body">Body (HTML)</Label>
+              <Textarea
+                id="email-template-body"
+                ref={bodyRef}
+                value={draft.body_html}
+                onChange={(e) => setDraft((prev) => ({ ...prev, body_html: e.target.value }))}
+                className="font-mono text-xs min-h-[320px]"
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="preview" className="space-y-2">
+            <p className="text-sm">
+              <span className="text-muted-foreground">Subject:</span> {preview.subject}
+            </p>
+            <iframe
+              title="Email preview"
+              sandbox=""
+              srcDoc={preview.html}
+              className="w-full h-[480px] rounded-md border bg-white"
+            />
+            <p className="text-xs text-muted-foreground">Rendered with sample data.</p>
+          </TabsContent>
+        </Tabs>
+
+        {unknownPlaceholders.length > 0 && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            Unknown placeholder(s) will be sent as-is: {unknownPlaceholders.map((name) => `{{${name}}}`).join(', ')}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleReset}
+            disabled={isResetting || isSaving || (!stored && !isDirty)}
+          >
+            {isResetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+            {stored ? 'Restore Default' : 'Discard Changes'}
+          </Button>
+          <Button onClick={handleSave} disabled={!isDirty || isSaving || isResetting}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Template
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailTemplatesManager;
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -16,11 +16,16 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { logAdminActivity } from '@/lib/activityLogger';
 import { Tables } from '@/integrations/supabase/types';
+import { updateRegistrationChecked, type RegistrationConflict } from '@/lib/registrationConcurrency';
+import RegistrationConflictDialog from '@/components/admin/RegistrationConflictDialog';
 
 type Registration = Tables<'registrations'>;
+type RegistrationEditRequest = Tables<'registration_edit_requests'>;
 
 interface EnableEditModeDialogProps {
   registration: Registration | null;
+  /** Pending request from /my-registration; prefills the reason and is marked accepted */
+  editRequest?: RegistrationEditRequest | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
@@ -28,6 +33,7 @@ interface EnableEditModeDialogProps {
 
 const EnableEditModeDialog = ({
   registration,
+  editRequest,
   open,
   onOpenChange,
   onSuccess,
@@ -36,48 +42,77 @@ const EnableEditModeDialog = ({
   const { user } = useAuth();
   const [isProcessing, setIsProcessing] = useState(false);
   const [reason, setReason] = useState('');
+  // The registration as it was when the dialog opened; the update is checked against its version
+  const [base, setBase] = useState<Registration | null>(registration);
+  const [conflict, setConflict] = useState<RegistrationConflict | null>(null);
 
-  const handleEnableEditMode = async () => {
-    if (!registration || !reason.trim()) return;
+  useEffect(() => {
+    if (open && editRequest) {
+      setReason(`Registrant request: ${editRequest.requested_changes}`);
+    }
+  }, [open, editRequest]);
+
+  useEffect(() => {
+    setBase(registration);
+  }, [registration]);
+
+  const handleEnableEditMode = async (snapshot: Registration | null = base) => {
+    if (!snapshot || !reason.trim()) return;
 
     setIsProcessing(true);
     try {
-      const { error } = await supabase
-        .from('registrations')
-        .update({
-          edit_mode_enabled: true,
-          edit_mode_enabled_by: user?.id,
-          edit_mode_enabled_at: new Date().toISOString(),
-          edit_mode_reason: reason.trim(),
-          // Reset registration status and accounts verification
-          registration_status: 'pending',
-          accounts_verified: false,
-          accounts_verified_at: null,
-          accounts_verified_by: null,
-          // Keep existing payment_proof_url and payment_receipt_url for reference
-          // Accounts admin will upload NEW proofs during edit mode
-          // Set pending admin approval to false until accounts admin verifies
-          pending_admin_approval: false,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', registration.id);
-
-      if (error) throw error;
+      const staleConflict = await updateRegistrationChecked(snapshot, {
+        edit_mode_enabled: true,
+        edit_mode_enabled_by: user?.id,
+        edit_mode_enabled_at: new Date().toISOString(),
+        edit_mode_reason: reason.trim(),
+        // Reset registration status and accounts verification
+        registration_status: 'pending',
+        accounts_verified: false,
+        accounts_verified_at: null,
+        accounts_verified_by: null,
+        // Keep existing payment_proof_url and payment_receipt_url for reference
+        // Accounts admin will upload NEW proofs during edit mode
+        // Set pending admin approval to false until accounts admin verifies
+        pending_admin_approval: false,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (staleConflict) {
+        setConflict(staleConflict);
+        return;
+      }
+
+      if (editRequest) {
+        const { error: requestError } = await supabase
+          .from('registration_edit_requests')
+          .update({
+            status: 'accepted',
+            reviewed_by: user?.id,
+            reviewed_at: new Date().toISOString(),
+          })
+          .eq('id', editRequest.id);
+
+        if (requestError) {
+          console.error('Failed to mark edit request accepted:', requestError);
+        }
+      }
 
       // Log the activity
       await logAdminActivity({
         actionType: 'edit_mode_enabled',
-        targetRegistrationId: registration.id,
-        targetApplicationId: registration.application_id,
+        targetRegistrationId: snapshot.id,
+        targetApplicationId: snapshot.application_id,
         details: { 
           reason,
-          previousStatus: registration.registration_status,
+          previousStatus: snapshot.registration_status,
+          editRequestId: editRequest?.id,
         }
       });
 
       toast({
         title: 'Edit Mode Enabled',
-        description: `Edit mode enabled for ${registration.application_id}. Accounts admin can now upload new payment proof.`,
+        description: `Edit mode enabled for ${snapshot.application_id}. Accounts admin can now upload new payment proof.`,
       });
 
       setReason('');
@@ -98,68 +133,86 @@ const EnableEditModeDialog = ({
   if (!registration) return null;
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle className="font-serif flex items-center gap-2">
-            <Edit3 className="h-5 w-5" />
-            Enable Edit Mode
-          </DialogTitle>
-          <DialogDescription>
-            This will allow accounts admin to upload a new payment proof and receipt for{' '}
-            <span className="font-semibold">{registration.application_id}</span>.
-            After accounts admin verifies, admin can approve to notify the applicant.
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="space-y-4 py-4">
-          <div className="p-3 rounded-lg bg-accent/30 border border-accent/50">
-            <p className="text-sm text-accent-foreground">
-              <strong>Note:</strong> Enabling edit mode will:
-            </p>
-            <ul className="text-sm text-accent-foreground mt-2 list-disc list-inside space-y-1">
-              <li>Change registration status back to <strong>pending</strong></li>
-              <li>Reset accounts verification status</li>
-              <li>Keep existing payment proofs and receipts visible for reference</li>
-              <li>Require accounts admin to upload a <strong>new</strong> payment proof and receipt</li>
-              <li>Admin can edit form only <strong>after</strong> accounts admin completes verification</li>
-            </ul>
-          </div>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif flex items-center gap-2">
+              <Edit3 className="h-5 w-5" />
+              Enable Edit Mode
+            </DialogTitle>
+            <DialogDescription>
+              This will allow accounts admin to upload a new payment proof and receipt for{' '}
+              <span className="font-semibold">{registration.application_id}</span>.
+              After accounts admin verifies, admin can approve to notify the applicant.
+            </DialogDescription>
+          </DialogHeader>
 
-          <div className="space-y-2">
-            <Label htmlFor="edit-reason">Reason for enabling edit mode *</Label>
-            <Textarea
-              id="edit-reason"
-              placeholder="e.g., Changing stay type from Outside to On-Campus"
-              value={reason}
-              onChange={(e) => setReason(e.target.value)}
-              rows={3}
-            />
+          <div className="space-y-4 py-4">
+            <div className="p-3 rounded-lg bg-accent/30 border border-accent/50">
+              <p className="text-sm text-accent-foreground">
+                <strong>Note:</strong> Enabling edit mode will:
+              </p>
+              <ul className="text-sm text-accent-foreground mt-2 list-disc list-inside space-y-1">
+                <li>Change registration status back to <strong>pending</strong></li>
+                <li>Reset accounts verification status</li>
+                <li>Keep existing payment proofs and receipts visible for reference</li>
+                <li>Require accounts admin to upload a <strong>new</strong> payment proof and receipt</li>
+                <li>Admin can edit form only <strong>after</strong> accounts admin completes verification</li>
+              </ul>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-reason">Reason for enabling edit mode *</Label>
+              <Textarea
+                id="edit-reason"
+                placeholder="e.g., Changing stay type from Outside to On-Campus"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+              />
+            </div>
           </div>
-        </div>
-
-        <DialogFooter>
-          <Button
-            variant="outline"
-            onClick={() => onOpenChange(false)}
-            disabled={isProcessing}
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleEnableEditMode}
-            disabled={isProcessing || !reason.trim()}
-          >
-            {isProcessing ? (
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-            ) : (
-              <Edit3 className="h-4 w-4 mr-2" />
-            )}
-            Enable Edit Mode
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isProcessing}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handleEnableEditMode()}
+              disabled={isProcessing || !reason.trim()}
+            >
+              {isProcessing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Edit3 className="h-4 w-4 mr-2" />
+              )}
+              Enable Edit Mode
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RegistrationConflictDialog
+        conflict={conflict}
+        actionLabel="Enable edit mode"
+        onOpenChange={(isOpen) => !isOpen && setConflict(null)}
+        onReload={(current) => {
+          setConflict(null);
+          setBase(current);
+          onSuccess();
+          if (!current) onOpenChange(false);
+        }}
+        onOverwrite={(current) => {
+          setConflict(null);
+          handleEnableEditMode(current);
+        }}
+      />
+    </>
   );
 };
 
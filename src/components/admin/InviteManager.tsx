@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { applyRealtimeChange, useRealtimeTable } from "@/hooks/useRealtimeTable";
 import { Loader2, Mail, Send, RefreshCw, Clock, CheckCircle, XCircle, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -42,6 +43,11 @@ const InviteManager = () => {
     fetchInvites();
   }, []);
 
+  // Invites sent, extended or used elsewhere show up without a refresh
+  useRealtimeTable("registration_invites", (change) => {
+    setInvites((rows) => applyRealtimeChange(rows, change));
+  });
+
   const fetchInvites = async () => {
     setIsLoading(true);
     try {
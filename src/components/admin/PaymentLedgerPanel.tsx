@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { fetchGroupLedger, recordLedgerEntry, type GroupLedger } from '@/lib/paymentLedger';
+import { summarizeLedger, withRunningBalance, type LedgerEntryKind, type LedgerMethod } from '@shared/paymentLedger';
+import { BookOpen, Loader2, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+
+const KIND_LABELS: Record<LedgerEntryKind, string> = {
+  payment: 'Payment',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+const METHOD_LABELS: Record<LedgerMethod, string> = {
+  bank_transfer: 'Bank transfer',
+  online: 'Online',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+const GROUP_TARGET = 'group';
+
+const formatAmount = (amount: number) => `₹${Math.abs(amount).toLocaleString('en-IN')}`;
+
+interface PaymentLedgerPanelProps {
+  /** Primary application ID of the group */
+  groupApplicationId: string;
+}
+
+/**
+ * Ledger of a registration group with a running balance, plus a form to
+ * record payments, refunds and adjustments. Entries are append-only; a
+ * wrong entry is corrected with an adjustment.
+ */
+const PaymentLedgerPanel = ({ groupApplicationId }: PaymentLedgerPanelProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [ledger, setLedger] = useState<GroupLedger>({ members: [], transactions: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [kind, setKind] = useState<LedgerEntryKind>('payment');
+  const [amount, setAmount] = useState('');
+  const [target, setTarget] = useState(GROUP_TARGET);
+  const [method, setMethod] = useState<LedgerMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [transactionDate, setTransactionDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [note, setNote] = useState('');
+
+  const fetchLedger = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setLedger(await fetchGroupLedger(groupApplicationId));
+    } catch (error) {
+      console.error('Error fetching payment ledger:', error);
+      toast({ title: 'Error', description: 'Failed to load the payment ledger', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupApplicationId, toast]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  const resetForm = () => {
+    setKind('payment');
+    setAmount('');
+    setTarget(GROUP_TARGET);
+    setMethod('bank_transfer');
+    setReference('');
+    setTransactionDate(format(new Date(), 'yyyy-MM-dd'));
+    setNote('');
+  };
+
+  const handleRecord = async () => {
+    if (!user) return;
+
+    const value = parseInt(amount, 10);
+    if (!Number.isFinite(value) || value === 0 || (kind !== 'adjustment' && value < 0)) {
+      toast({
+        title: 'Invalid Amount',
+        description: kind === 'adjustment'
+          ? 'Enter a non-zero amount; negative adjustments increase what the group owes'
+          : 'Enter an amount greater than zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (kind === 'adjustment' && !note.trim()) {
+      toast({ title: 'Note Required', description: 'Explain what the adjustment is for', variant: 'destructive' });
+      return;
+    }
+
+    // Refunds are stored as negative credits
+    const signedAmount = kind === 'refund' ? -value : value;
+    const member = ledger.members.find((m) => m.id === target);
+
+    setIsSaving(true);
+    try {
+      await recordLedgerEntry({
+        group_application_id: groupApplicationId,
+        registration_id: member?.id ?? null,
+        kind,
+        amount: signedAmount,
+        method: kind === 'adjustment' ? null : method,
+        reference: reference.trim() || null,
+        note: note.trim() || null,
+        transaction_date: transactionDate,
+      }, user.id);
+
+      await logAdminActivity({
+        actionType: 'ledger_entry',
+        targetRegistrationId: member?.id,
+        targetApplicationId: member?.application_id ?? groupApplicationId,
+        details: { groupApplicationId, kind, amount: signedAmount, method, reference: reference.trim() || null },
+      });
+
+      toast({ title: 'Entry Recorded', description: `${KIND_LABELS[kind]} of ${formatAmount(signedAmount)} recorded` });
+      resetForm();
+      setIsFormOpen(false);
+      fetchLedger();
+    } catch (error) {
+      console.error('Error recording ledger entry:', error);
+      toast({ title: 'Error', description: 'Failed to record the entry', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summary = summarizeLedger(ledger.members, ledger.transactions);
+  const entries = withRunningBalance(ledger.members, ledger.transactions);
+  const memberLabel = (registrationId: string | null) =>
+    ledger.members.find((m) => m.id === registrationId)?.application_id ?? 'Group';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm font-medium text-foreground flex items-center gap-2">
+          <BookOpen className="h-4 w-4" />
+          Payment Ledger · {groupApplicationId}
+        </label>
+        <Button variant="outline" size="sm" onClick={() => setIsFormOpen(!isFormOpen)} disabled={isLoading}>
+          <Plus className="h-4 w-4 mr-1" />
+          Record Entry
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div className="rounded-md bg-muted/40 p-2">
+              <p className="text-muted-foreground text-xs">Fees Due</p>
+              <p className="font-medium">{formatAmount(summary.amountDue)}</p>
+            </div>
+            <div className="rounded-md bg-muted/40 p-2">
+              <p className="text-muted-foreground text-xs">Paid (net)</p>
+              <p className="font-medium">{summary.amountPaid < 0 ? '-' : ''}{formatAmount(summary.amountPaid)}</p>
+            </div>
+            <div className="rounded-md bg-muted/40 p-2">
+              <p className="text-muted-foreground text-xs">Balance</p>
+              {summary.balance > 0 ? (
+                <Badge variant="outline" className="border-accent text-accent">Due {formatAmount(summary.balance)}</Badge>
+              ) : summary.balance < 0 ? (
+                <Badge variant="destructive">Refund {formatAmount(summary.balance)}</Badge>
+              ) : (
+                <Badge className="bg-secondary text-secondary-foreground">Settled</Badge>
+              )}
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments recorded yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(`${entry.transaction_date}T00:00:00`), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{KIND_LABELS[entry.kind as LedgerEntryKind] ?? entry.kind}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {memberLabel(entry.registration_id)}
+                          {entry.method && ` · ${METHOD_LABELS[entry.method as LedgerMethod] ?? entry.method}`}
+                        </div>
+                        {entry.note && <div className="text-xs text-muted-foreground">{entry.note}</div>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{entry.reference || '—'}</TableCell>
+                      <TableCell className={`text-right text-sm ${entry.amount < 0 ? 'text-destructive' : ''}`}>
+                        {entry.amount < 0 ? '-' : '+'}{formatAmount(entry.amount)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {entry.balance < 0 ? '-' : ''}{formatAmount(entry.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+
+      {isFormOpen && (
+        <div className="rounded-lg border border-border p-3 space-y-3 bg-muted/20">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as LedgerEntryKind)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Amount (₹)</Label>
+              <Input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={kind === 'adjustment' ? 'e.g. 500 or -200' : 'e.g. 2500'}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">For</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={GROUP_TARGET}>Whole group</SelectItem>
+                  {ledger.members.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>{m.application_id} · {m.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {kind !== 'adjustment' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as LedgerMethod)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Date</Label>
+              <Input type="date" value={transactionDate} onChange={(e) => setTransactionDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Reference / UTR</Label>
+              <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Optional" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Note{kind === 'adjustment' ? ' (required)' : ''}</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. Top-up for on-campus stay" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => { resetForm(); setIsFormOpen(false); }} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleRecord} disabled={isSaving || !amount || !transactionDate}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record {KIND_LABELS[kind]}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentLedgerPanel;
@@ -0,0 +1,466 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, Database, Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { BellRing, Eye, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+
+type ReminderRule = Tables<'payment_reminder_rules'>;
+type RegistrationStatus = Database['public']['Enums']['registration_status'];
+type PaymentStatus = Database['public']['Enums']['payment_status'];
+
+/** Shape of the payment-reminder-cron response for { dryRun: true } */
+interface DryRunReport {
+  message?: string;
+  daysRemaining?: number;
+  registrationClosed?: boolean;
+  registrationEndDate?: string;
+  maxRemindersPerPerson?: number;
+  reminders?: { email: string; name: string; applicationIds: string[]; daysBefore: number }[];
+  skipped?: { email: string; applicationIds: string[]; reason: string }[];
+  rejections?: { email: string; name: string; applicationId: string }[];
+}
+
+const toggleValue = <T extends string>(values: T[], value: T, include: boolean): T[] =>
+  include ? [...values, value] : values.filter((v) => v !== value);
+
+/**
+ * Reminder rules for payment-reminder-cron: each rule emails registrations
+ * in the chosen statuses once, when the period is that many days from its end.
+ */
+const PaymentReminderSettings = () => {
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [maxReminders, setMaxReminders] = useState('4');
+  const [newDaysBefore, setNewDaysBefore] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [report, setReport] = useState<DryRunReport | null>(null);
+
+  const { toast } = useToast();
+
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [rulesResult, settingsResult] = await Promise.all([
+        supabase.from('payment_reminder_rules').select('*').order('days_before', { ascending: false }),
+        supabase.from('payment_reminder_settings').select('max_reminders_per_person').maybeSingle(),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+
+      setRules(rulesResult.data || []);
+      if (settingsResult.data) {
+        setMaxReminders(settingsResult.data.max_reminders_per_person.toString());
+      }
+    } catch (error) {
+      console.error('Error fetching payment reminder settings:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load payment reminder settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateRule = async (rule: ReminderRule, changes: Partial<ReminderRule>) => {
+    const next = { ...rule, ...changes };
+    if (next.registration_statuses.length === 0 || next.payment_statuses.length === 0) {
+      toast({
+        title: 'Invalid Rule',
+        description: 'A rule needs at least one registration status and one payment status',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingId(rule.id);
+    try {
+      const { error } = await supabase
+        .from('payment_reminder_rules')
+        .update(changes)
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? next : r)));
+    } catch (error) {
+      console.error('Error updating reminder rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update reminder rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAddRule = async () => {
+    const daysBefore = parseInt(newDaysBefore, 10);
+    if (isNaN(daysBefore) || daysBefore < 0) {
+      toast({
+        title: 'Invalid Rule',
+        description: 'Enter the number of days before the registration end date (0 or more)',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingId('new');
+    try {
+      const { data, error } = await supabase
+        .from('payment_reminder_rules')
+        .insert({ days_before: daysBefore })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setRules((prev) => [...prev, data].sort((a, b) => b.days_before - a.days_before));
+      setNewDaysBefore('');
+    } catch (error) {
+      console.error('Error adding reminder rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add reminder rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteRule = async (rule: ReminderRule) => {
+    setSavingId(rule.id);
+    try {
+      const { error } = await supabase.from('payment_reminder_rules').delete().eq('id', rule.id);
+      if (error) throw error;
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting reminder rule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete reminder rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleSaveLimit = async () => {
+    const limit = parseInt(maxReminders, 10);
+    if (isNaN(limit) || limit < 1) {
+      toast({
+        title: 'Invalid Limit',
+        description: 'Each person must be allowed at least one reminder',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSavingLimit(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('payment_reminder_settings')
+        .update({ max_reminders_per_person: limit, updated_by: user?.id })
+        .eq('id', true);
+
+      if (error) throw error;
+      toast({
+        title: 'Saved',
+        description: `Each person will receive at most ${limit} reminder${limit !== 1 ? 's' : ''} per registration period`,
+      });
+    } catch (error) {
+      console.error('Error saving reminder limit:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save reminder limit',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingLimit(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('payment-reminder-cron', {
+        body: { dryRun: true },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Dry run failed');
+      setReport(data as DryRunReport);
+    } catch (error) {
+      console.error('Error running reminder dry run:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to preview reminders',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="font-serif flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          Reminder Rules
+        </CardTitle>
+        <CardDescription>
+          Each rule sends one reminder, on the day the registration end date is that many days away.
+          If the daily job misses a day, only the latest rule reached is sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Days Before</TableHead>
+                <TableHead>Registration Status</TableHead>
+                <TableHead>Payment Status</TableHead>
+                <TableHead className="text-center">Enabled</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    No reminder rules. No payment reminders will be sent.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      {rule.days_before === 0 ? 'On the last day' : `${rule.days_before} day${rule.days_before !== 1 ? 's' : ''}`}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {Constants.public.Enums.registration_status.map((status: RegistrationStatus) => (
+                          <label key={status} className="flex items-center gap-1.5 text-sm capitalize">
+                            <Checkbox
+                              checked={rule.registration_statuses.includes(status)}
+                              disabled={savingId !== null}
+                              onCheckedChange={(checked) =>
+                                updateRule(rule, {
+                                  registration_statuses: toggleValue(rule.registration_statuses, status, checked === true),
+                                })
+                              }
+                            />
+                            {status}
+                          </label>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {Constants.public.Enums.payment_status.map((status: PaymentStatus) => (
+                          <label key={status} className="flex items-center gap-1.5 text-sm capitalize">
+                            <Checkbox
+                              checked={rule.payment_statuses.includes(status)}
+                              disabled={savingId !== null}
+                              onCheckedChange={(checked) =>
+                                updateRule(rule, {
+                                  payment_statuses: toggleValue(rule.payment_statuses, status, checked === true),
+                                })
+                              }
+                            />
+                            {status}
+                          </label>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={rule.is_enabled}
+                        disabled={savingId !== null}
+                        onCheckedChange={(checked) => updateRule(rule, { is_enabled: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteRule(rule)}
+                        disabled={savingId !== null}
+                        aria-label={`Delete ${rule.days_before}-day rule`}
+                      >
+                        {savingId === rule.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="new-rule-days">Add a rule (days before the end date)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new-rule-days"
+                type="number"
+                min={0}
+                value={newDaysBefore}
+                onChange={(e) => setNewDaysBefore(e.target.value)}
+                className="w-28"
+              />
+              <Button variant="outline" onClick={handleAddRule} disabled={savingId !== null || !newDaysBefore}>
+                {savingId === 'new' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-reminders">Maximum reminders per person</Label>
+            <div className="flex gap-2">
+              <Input
+                id="max-reminders"
+                type="number"
+                min={1}
+                value={maxReminders}
+                onChange={(e) => setMaxReminders(e.target.value)}
+                className="w-28"
+              />
+              <Button variant="outline" onClick={handleSaveLimit} disabled={isSavingLimit}>
+                {isSavingLimit ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-t border-border pt-4">
+          <p className="text-sm text-muted-foreground">
+            See who today's run would email, without sending anything.
+          </p>
+          <Button onClick={handlePreview} disabled={isPreviewing}>
+            {isPreviewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+            Preview Today's Run
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!report} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-serif">Reminder Dry Run</DialogTitle>
+            <DialogDescription>
+              {report?.message ||
+                (report?.registrationClosed
+                  ? 'The registration period has ended. These unpaid applications would be auto-rejected.'
+                  : `${report?.daysRemaining} day${report?.daysRemaining !== 1 ? 's' : ''} until the registration end date. Nothing has been sent.`)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {report && !report.message && (
+            <div className="space-y-6">
+              {(report.rejections?.length ?? 0) > 0 ? (
+                <div className="space-y-2">
+                  <h3 className="font-medium flex items-center gap-2">
+                    Would be rejected <Badge variant="destructive">{report.rejections?.length}</Badge>
+                  </h3>
+                  <ul className="space-y-1 text-sm">
+                    {report.rejections?.map((r) => (
+                      <li key={r.applicationId}>
+                        <span className="font-mono">{r.applicationId}</span> — {r.name} ({r.email})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <h3 className="font-medium flex items-center gap-2">
+                    Would be emailed <Badge variant="secondary">{report.reminders?.length ?? 0}</Badge>
+                  </h3>
+                  {(report.reminders?.length ?? 0) === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nobody is due a reminder today.</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {report.reminders?.map((r) => (
+                        <li key={r.email}>
+                          {r.name} ({r.email}) — <span className="font-mono">{r.applicationIds.join(', ')}</span>
+                          <span className="text-muted-foreground"> · {r.daysBefore}-day rule</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {(report.skipped?.length ?? 0) > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium flex items-center gap-2">
+                    Skipped <Badge variant="outline">{report.skipped?.length}</Badge>
+                  </h3>
+                  <ul className="space-y-1 text-sm">
+                    {report.skipped?.map((s) => (
+                      <li key={s.email}>
+                        {s.email} — <span className="font-mono">{s.applicationIds.join(', ')}</span>
+                        <span className="text-muted-foreground"> · {s.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PaymentReminderSettings;
@@ -0,0 +1,63 @@
+import { Badge } from '@/components/ui/badge';
+import { Eye, Pencil } from 'lucide-react';
+import type { AdminPresence } from '@/hooks/useAdminPresence';
+
+interface PresenceIndicatorProps {
+  /** Other admins with the record open (see useAdminPresence) */
+  viewers: AdminPresence[];
+  /** Icon and count only, for table rows */
+  compact?: boolean;
+}
+
+const displayName = (email: string) => email.split('@')[0] || 'Another admin';
+
+/**
+ * Shows which other admins have a registration open, so two people don't
+ * act on the same record at once. Renders nothing when nobody else does.
+ */
+const PresenceIndicator = ({ viewers, compact = false }: PresenceIndicatorProps) => {
+  // One entry per admin; acting on the record outranks viewing it in another tab
+  const byUser = new Map<string, AdminPresence>();
+  viewers.forEach((viewer) => {
+    const existing = byUser.get(viewer.userId);
+    if (!existing || viewer.activity === 'editing') byUser.set(viewer.userId, viewer);
+  });
+  const admins = Array.from(byUser.values());
+  if (admins.length === 0) return null;
+
+  const describe = (admin: AdminPresence) =>
+    `${displayName(admin.email)} is ${admin.activity === 'editing' ? 'working on' : 'viewing'} this`;
+
+  if (compact) {
+    const isEditing = admins.some((admin) => admin.activity === 'editing');
+    const Icon = isEditing ? Pencil : Eye;
+    return (
+      <span title={admins.map(describe).join('\n')}>
+        <Badge variant={isEditing ? 'destructive' : 'secondary'} className="text-xs gap-1 px-1.5 font-sans">
+          <Icon className="h-3 w-3" />
+          {admins.length}
+        </Badge>
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {admins.map((admin) => {
+        const Icon = admin.activity === 'editing' ? Pencil : Eye;
+        return (
+          <Badge
+            key={admin.userId}
+            variant={admin.activity === 'editing' ? 'destructive' : 'secondary'}
+            className="text-xs gap-1 font-normal"
+          >
+            <Icon className="h-3 w-3" />
+            {describe(admin)}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PresenceIndicator;
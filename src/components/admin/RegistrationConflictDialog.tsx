@@ -0,0 +1,131 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+import type { RegistrationConflict } from '@/lib/registrationConcurrency';
+import { formatFieldValue } from '@/lib/registrationHistory';
+
+type Registration = Tables<'registrations'>;
+
+interface RegistrationConflictDialogProps {
+  /** The conflict to show; the dialog is open while this is set */
+  conflict: RegistrationConflict | null;
+  /** What the blocked action was, e.g. "Approve registration" */
+  actionLabel?: string;
+  onOpenChange: (open: boolean) => void;
+  /** Discard the action and continue from the current record */
+  onReload: (current: Registration | null) => void;
+  /** Repeat the action against the current record */
+  onOverwrite: (current: Registration) => void;
+}
+
+/**
+ * Shown when an admin action was refused because someone else changed the
+ * registration after it was opened. Lists what changed, then lets the admin
+ * reload the current record or apply the action over it anyway.
+ */
+const RegistrationConflictDialog = ({
+  conflict,
+  actionLabel,
+  onOpenChange,
+  onReload,
+  onOverwrite,
+}: RegistrationConflictDialogProps) => {
+  const current = conflict?.current ?? null;
+  const lastAction = conflict?.lastAction;
+
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Registration Changed
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {current
+              ? `Someone changed ${current.application_id} after you opened it, so ${
+                  actionLabel ? `"${actionLabel}"` : 'your change'
+                } was not saved.`
+              : 'This registration was deleted after you opened it, so your change was not saved.'}
+            {lastAction && (
+              <span className="block mt-1">
+                Last admin action: {lastAction.actionType.replace(/_/g, ' ')}
+                {lastAction.adminEmail ? ` by ${lastAction.adminEmail}` : ''} on{' '}
+                {format(new Date(lastAction.at), 'MMM d, yyyy HH:mm')}
+              </span>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {current && (
+          conflict.changes.length > 0 ? (
+            <ScrollArea className="max-h-72 border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>When opened</TableHead>
+                    <TableHead>Now</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {conflict.changes.map((change) => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-medium">{change.label}</TableCell>
+                      <TableCell className="text-muted-foreground line-through break-all">
+                        {formatFieldValue(change.before)}
+                      </TableCell>
+                      <TableCell className="break-all">{formatFieldValue(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              None of the fields shown here changed, but the record was saved again in the meantime.
+            </p>
+          )
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onReload(current)}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reload
+          </Button>
+          {current && (
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => onOverwrite(current)}
+            >
+              Overwrite
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RegistrationConflictDialog;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  fetchRegistrationHistory,
+  formatFieldValue,
+  registrationFieldLabel,
+  type RegistrationHistoryEntry,
+} from '@/lib/registrationHistory';
+
+interface RegistrationHistoryTimelineProps {
+  registrationId: string;
+  /** Reloads the history when it changes, e.g. the registration's version */
+  refreshKey?: number;
+}
+
+/**
+ * Timeline of every recorded change to a registration: who changed which
+ * fields, when, and from what to what.
+ */
+const RegistrationHistoryTimeline = ({ registrationId, refreshKey }: RegistrationHistoryTimelineProps) => {
+  const [entries, setEntries] = useState<RegistrationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(false);
+
+    fetchRegistrationHistory(registrationId)
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch((error) => {
+        console.error('Error fetching registration history:', error);
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [registrationId, refreshKey]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return <p className="text-sm text-destructive py-4">Failed to load the change history.</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-8 text-muted-foreground">
+        <History className="h-8 w-8 mb-2" />
+        <p className="text-sm">No changes recorded since this registration was submitted.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-6 py-2">
+      {entries.map((entry) => (
+        <li key={`${entry.changedAt}-${entry.changedBy ?? 'system'}`} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <p className="text-sm font-medium">
+            {entry.changedBy ? entry.changedByEmail || 'Unknown admin' : 'System'}
+          </p>
+          <p className="text-xs text-muted-foreground mb-2">
+            {format(new Date(entry.changedAt), 'dd MMM yyyy, hh:mm a')}
+          </p>
+          <ul className="space-y-1">
+            {entry.changes.map((change) => (
+              <li key={change.id} className="text-sm flex flex-wrap items-center gap-1">
+                <span className="text-muted-foreground">{registrationFieldLabel(change.field)}:</span>
+                <span className="line-through text-muted-foreground break-all">{formatFieldValue(change.old_value)}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                <span className="font-medium break-all">{formatFieldValue(change.new_value)}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RegistrationHistoryTimeline;
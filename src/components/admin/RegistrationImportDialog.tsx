@@ -0,0 +1,375 @@
+import React, { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle, CheckCircle, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useFeeSchedule } from '@/hooks/useFeeSchedule';
+import { logAdminActivity } from '@/lib/activityLogger';
+import {
+  autoMapColumns,
+  buildImportPlan,
+  importRegistrationGroup,
+  IMPORT_FIELDS,
+  parseImportSheet,
+  unmappedRequiredFields,
+  type ColumnMapping,
+  type ImportPlan,
+  type ImportSheet,
+} from '@/lib/registrationImport';
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+interface ImportResult {
+  groupKey: string;
+  name: string;
+  applicationIds: string[];
+  error: string | null;
+}
+
+interface RegistrationImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an import so the page can refresh its list */
+  onImported: () => void;
+}
+
+const NOT_MAPPED = 'none';
+
+/**
+ * Wizard for importing offline (phone/paper) registrations from a CSV or
+ * Excel sheet: upload, map columns, review per-row errors, then import.
+ */
+const RegistrationImportDialog = ({ open, onOpenChange, onImported }: RegistrationImportDialogProps) => {
+  const { toast } = useToast();
+  const { schedule } = useFeeSchedule();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName(null);
+    setSheet(null);
+    setMapping(null);
+    setPlan(null);
+    setResults([]);
+    setProgress(0);
+    setParseError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+    setIsWorking(true);
+    try {
+      const parsed = await parseImportSheet(file);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setParseError(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!sheet || !mapping) return;
+
+    setIsWorking(true);
+    try {
+      // Only emails in this file matter; stored emails may differ in case
+      const emailColumn = mapping.email;
+      const emails = emailColumn === null ? [] : Array.from(new Set(
+        sheet.rows.flatMap((row) => {
+          const email = row.cells[emailColumn] ?? '';
+          return email ? [email, email.toLowerCase()] : [];
+        })
+      ));
+      const { data, error } = emails.length
+        ? await supabase.from('registrations').select('email').is('parent_application_id', null).in('email', emails)
+        : { data: [], error: null };
+      if (error) throw error;
+
+      setPlan(buildImportPlan(sheet, mapping, new Set((data ?? []).map((r) => r.email.toLowerCase()))));
+      setStep('review');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast({ title: 'Error', description: 'Failed to check the sheet against existing registrations', variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setIsWorking(true);
+    setProgress(0);
+    const imported: ImportResult[] = [];
+    for (const group of plan.validGroups) {
+      const registrant = group.registrant!;
+      try {
+        const applicationIds = await importRegistrationGroup(registrant, schedule);
+        imported.push({ groupKey: group.key, name: registrant.name, applicationIds, error: null });
+        await logAdminActivity({
+          actionType: 'registration_import',
+          targetApplicationId: applicationIds[0],
+          details: { fileName, rows: group.rows.map((row) => row.rowNumber), applicationIds },
+        });
+      } catch (error) {
+        console.error('Error importing group:', group.key, error);
+        imported.push({
+          groupKey: group.key,
+          name: registrant.name,
+          applicationIds: [],
+          error: (error as { message?: string }).message || 'Import failed',
+        });
+      }
+      setProgress(imported.length);
+    }
+
+    setResults(imported);
+    setStep('done');
+    setIsWorking(false);
+
+    const succeeded = imported.filter((r) => !r.error);
+    toast({
+      title: 'Import Complete',
+      description: `${succeeded.reduce((sum, r) => sum + r.applicationIds.length, 0)} registrations created in ${succeeded.length} group(s)`,
+    });
+    if (succeeded.length > 0) onImported();
+  };
+
+  const missingFields = mapping ? unmappedRequiredFields(mapping) : [];
+  const errorRows = plan ? plan.groups.flatMap((group) => group.rows.filter((row) => row.errors.length > 0)) : [];
+  const validRowCount = plan ? plan.validGroups.reduce((sum, group) => sum + group.rows.length, 0) : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (isWorking) return;
+        if (!value) reset();
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Import Registrations
+          </DialogTitle>
+          <DialogDescription>
+            One row per person. Rows sharing a Group value become one registration; the first of them is the
+            primary registrant. Imported registrations are pending with payment pending, and no emails are sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="flex flex-col items-center gap-3 py-8">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+              {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Choose CSV or Excel File
+            </Button>
+            {parseError && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <AlertCircle className="h-4 w-4" />
+                {parseError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <ScrollArea className="flex-1 min-h-0 pr-3">
+            <p className="text-sm text-muted-foreground mb-3">
+              {fileName} · {sheet.rows.length} rows. Check which column holds each field.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}{field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] === null ? NOT_MAPPED : String(mapping[field.key])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key]: value === NOT_MAPPED ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {step === 'review' && plan && (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className="bg-secondary text-secondary-foreground">
+                {plan.validGroups.length} group(s) · {validRowCount} people ready
+              </Badge>
+              {errorRows.length > 0 && (
+                <Badge variant="destructive">
+                  {errorRows.length} row(s) with errors · {plan.groups.length - plan.validGroups.length} group(s) skipped
+                </Badge>
+              )}
+            </div>
+            {errorRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <CheckCircle className="h-4 w-4 text-primary" />
+                Every row is valid.
+              </p>
+            ) : (
+              <ScrollArea className="flex-1 min-h-0 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[70px]">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {errorRows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="font-mono text-sm">{row.rowNumber}</TableCell>
+                        <TableCell className="text-sm">
+                          {row.name || '—'}
+                          <div className="text-xs text-muted-foreground">{row.role === 'primary' ? 'Primary' : 'Attendee'}</div>
+                        </TableCell>
+                        <TableCell>
+                          <ul className="text-xs text-destructive list-disc pl-4">
+                            {row.errors.map((message, index) => <li key={index}>{message}</li>)}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+            {isWorking && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Importing group {Math.min(progress + 1, plan.validGroups.length)} of {plan.validGroups.length}…
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && (
+          <ScrollArea className="flex-1 min-h-0 border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Primary Registrant</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.groupKey}>
+                    <TableCell className="text-sm">{result.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {result.error ? (
+                        <span className="text-destructive">{result.error}</span>
+                      ) : (
+                        <span className="font-mono text-xs">{result.applicationIds.join(', ')}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'map' && (
+            <>
+              {missingFields.length > 0 && (
+                <p className="text-xs text-destructive mr-auto self-center">
+                  Map required fields: {missingFields.map((f) => f.label).join(', ')}
+                </p>
+              )}
+              <Button variant="outline" onClick={reset} disabled={isWorking}>Back</Button>
+              <Button onClick={handleValidate} disabled={isWorking || missingFields.length > 0}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Validate Rows
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={isWorking}>Back</Button>
+              <Button onClick={handleImport} disabled={isWorking || !plan?.validGroups.length}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {validRowCount} Registration{validRowCount === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => { reset(); onOpenChange(false); }}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegistrationImportDialog;
@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+import { format } from "date-fns";
+
+const REASON_LABELS: Record<string, { label: string; color: string }> = {
+  CAPTCHA_MISSING: { label: "No captcha", color: "bg-amber-100 text-amber-800" },
+  CAPTCHA_FAILED: { label: "Captcha failed", color: "bg-red-100 text-red-800" },
+  CAPTCHA_UNAVAILABLE: { label: "Captcha not configured", color: "bg-red-100 text-red-800" },
+  RATE_LIMITED_IP: { label: "IP rate limit", color: "bg-purple-100 text-purple-800" },
+  RATE_LIMITED_EMAIL: { label: "Email rate limit", color: "bg-purple-100 text-purple-800" },
+};
+
+/**
+ * Registration submissions rejected by bot protection in
+ * verify-captcha-register: failed or missing captchas and rate limits.
+ */
+const RejectedAttemptsCard = () => {
+  const { data: attempts, isLoading } = useQuery({
+    queryKey: ["rejected-registration-attempts"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("registration_attempts")
+        .select("*")
+        .eq("outcome", "rejected")
+        .order("created_at", { ascending: false })
+        .limit(200);
+      if (error) throw error;
+      return data;
+    },
+    refetchInterval: 30_000,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4" />
+          Rejected Registration Attempts
+        </CardTitle>
+        <CardDescription>Blocked by captcha verification or rate limits (latest 200)</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-8">Loading…</p>
+        ) : !attempts?.length ? (
+          <p className="text-muted-foreground text-center py-8">No rejected attempts.</p>
+        ) : (
+          <ScrollArea className="h-[400px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[140px]">Time</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="w-[70px]">Score</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => {
+                  const reason = attempt.reason ? REASON_LABELS[attempt.reason] : undefined;
+                  return (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {format(new Date(attempt.created_at), "MMM d, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-xs">{attempt.email}</TableCell>
+                      <TableCell className="font-mono text-xs">{attempt.ip_address ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge className={`text-[10px] ${reason?.color ?? ""}`}>
+                          {reason?.label ?? attempt.reason ?? "Unknown"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{attempt.captcha_score ?? "—"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[260px] truncate" title={JSON.stringify(attempt.details)}>
+                        {JSON.stringify(attempt.details)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RejectedAttemptsCard;
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { Database } from '@/integrations/supabase/types';
+import { CAPABILITIES } from '@/lib/capabilities';
+
+type AppRole = Database['public']['Enums']['app_role'];
+
+/** Superadmin keeps every capability so nobody can lock themselves out */
+const TEMPLATE_ROLES: { role: AppRole; label: string; locked?: boolean }[] = [
+  { role: 'superadmin', label: 'Superadmin', locked: true },
+  { role: 'admin', label: 'Admin' },
+  { role: 'accounts_admin', label: 'Accounts Admin' },
+  { role: 'reviewer', label: 'Reviewer' },
+];
+
+const templateKey = (role: AppRole, capability: string) => `${role}:${capability}`;
+
+/**
+ * Matrix of role templates: which capabilities each role starts with.
+ * Changes apply immediately; per-user overrides are set from the users table.
+ */
+const RoleCapabilityTemplates = () => {
+  const [granted, setGranted] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const { toast } = useToast();
+  const { userRole } = useAuth();
+
+  const isSuperadmin = userRole === 'superadmin';
+
+  const fetchTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('role_capabilities')
+        .select('role, capability');
+
+      if (error) throw error;
+      setGranted(new Set((data || []).map((t) => templateKey(t.role, t.capability))));
+    } catch (error) {
+      console.error('Error fetching role capabilities:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load role templates',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isSuperadmin) {
+      fetchTemplates();
+    }
+  }, [isSuperadmin, fetchTemplates]);
+
+  const handleToggle = async (role: AppRole, capability: string, enable: boolean) => {
+    const key = templateKey(role, capability);
+    setSavingKey(key);
+    try {
+      const { error } = enable
+        ? await supabase.from('role_capabilities').insert({ role, capability })
+        : await supabase.from('role_capabilities').delete().eq('role', role).eq('capability', capability);
+
+      if (error) throw error;
+
+      setGranted((prev) => {
+        const next = new Set(prev);
+        if (enable) {
+          next.add(key);
+        } else {
+          next.delete(key);
+        }
+        return next;
+      });
+    } catch (error) {
+      console.error('Error updating role capability:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update role template',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (!isSuperadmin) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="shadow-card">
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="font-serif flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Role Capabilities
+        </CardTitle>
+        <CardDescription>
+          The capabilities each role starts with. Use "Capabilities" on a user to
+          allow or deny single actions for that user only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Capability</TableHead>
+                {TEMPLATE_ROLES.map(({ role, label }) => (
+                  <TableHead key={role} className="text-center">{label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {CAPABILITIES.map((capability) => (
+                <TableRow key={capability.key}>
+                  <TableCell className="font-medium">{capability.label}</TableCell>
+                  {TEMPLATE_ROLES.map(({ role, locked }) => {
+                    const key = templateKey(role, capability.key);
+                    return (
+                      <TableCell key={role} className="text-center">
+                        {savingKey === key ? (
+                          <Loader2 className="h-4 w-4 animate-spin mx-auto" />
+                        ) : (
+                          <Checkbox
+                            checked={granted.has(key)}
+                            disabled={locked || savingKey !== null}
+                            onCheckedChange={(checked) => handleToggle(role, capability.key, checked === true)}
+                            aria-label={`${capability.label} for ${role}`}
+                          />
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleCapabilityTemplates;
@@ -7,9 +7,12 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Plus, Trash2, Calendar, Clock, Save } from 'lucide-react';
-import { format, addDays } from 'date-fns';
+import { Loader2, Plus, Trash2, Calendar, Clock, Save, IndianRupee } from 'lucide-react';
+import { addDays } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
+import { formatFee } from '@/components/registration/types';
+import { DEFAULT_FEE_SCHEDULE, FeeScheduleRow } from '@shared/pricing';
+import { formatIST, formatTimeIST, istToUtc, isWithinWindow, toISTDate } from '@shared/schedule';
 
 interface BatchPeriod {
   id: string;
@@ -22,20 +25,122 @@ interface BatchPeriod {
   start_hour: number;
   /** Minutes component of the start time (0-59) */
   start_minute: number;
+  /** Closing time on the end date (IST); registration closes at exactly this minute */
+  end_hour: number;
+  end_minute: number;
   label: string | null;
   show_stay_option: boolean;
   show_outside_option: boolean;
+  /** Days an unpaid registration has before it expires; null turns expiry off */
+  unpaid_expiry_days: number | null;
+  /** Pricing for this period; early_bird_deadline is held as a yyyy-MM-dd date while editing */
+  fee_schedule: FeeScheduleRow;
 }
 
+type OptionalFeeField = Exclude<keyof FeeScheduleRow, 'on_campus_fee' | 'outside_fee' | 'early_bird_deadline'>;
+
+const DEFAULT_FEE_ROW: FeeScheduleRow = {
+  on_campus_fee: DEFAULT_FEE_SCHEDULE.onCampus,
+  outside_fee: DEFAULT_FEE_SCHEDULE.outside,
+  early_bird_deadline: null,
+  early_bird_on_campus_fee: null,
+  early_bird_outside_fee: null,
+  companion_on_campus_fee: null,
+  companion_outside_fee: null,
+  invite_on_campus_fee: null,
+  invite_outside_fee: null,
+};
+
+/** Optional rates shown in the fee editor, in the order they are applied */
+const OPTIONAL_RATES: { label: string; description: string; onCampus: OptionalFeeField; outside: OptionalFeeField }[] = [
+  {
+    label: 'Invite Rate',
+    description: 'Charged for registrations made through a private invite link',
+    onCampus: 'invite_on_campus_fee',
+    outside: 'invite_outside_fee',
+  },
+  {
+    label: 'Spouse / Child Rate',
+    description: 'Charged for additional attendees who are not alumni',
+    onCampus: 'companion_on_campus_fee',
+    outside: 'companion_outside_fee',
+  },
+  {
+    label: 'Early-Bird Rate',
+    description: 'Charged until the early-bird deadline (end of day IST)',
+    onCampus: 'early_bird_on_campus_fee',
+    outside: 'early_bird_outside_fee',
+  },
+];
+
+/** Empty input clears an optional rate so the next rule applies */
+const parseOptionalFee = (value: string): number | null =>
+  value === '' ? null : Math.max(0, parseInt(value) || 0);
+
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
 const MINUTES = Array.from({ length: 60 }, (_, i) => i);
 
-/** Format hour + minute as readable IST string */
-const formatTimeIST = (hour: number, minute: number) => {
-  const suffix = hour >= 12 ? 'PM' : 'AM';
-  const display = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-  return `${display}:${String(minute).padStart(2, '0')} ${suffix} IST`;
-};
+/** Opening and closing instants of a period as edited (dates are IST calendar dates) */
+const periodWindow = (period: BatchPeriod) => ({
+  opensAt: period.registration_start_date
+    ? istToUtc(period.registration_start_date, period.start_hour, period.start_minute)
+    : null,
+  closesAt: period.registration_end_date
+    ? istToUtc(period.registration_end_date, period.end_hour, period.end_minute)
+    : null,
+});
+
+/** Hour and minute selectors for a time of day in IST */
+const TimeOfDayFields = ({
+  label,
+  hour,
+  minute,
+  onHourChange,
+  onMinuteChange,
+}: {
+  label: string;
+  hour: number;
+  minute: number;
+  onHourChange: (hour: number) => void;
+  onMinuteChange: (minute: number) => void;
+}) => (
+  <div className="grid gap-4 sm:grid-cols-2">
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Clock className="h-3.5 w-3.5" /> {label} Hour (IST)
+      </Label>
+      <Select value={String(hour)} onValueChange={(val) => onHourChange(parseInt(val))}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {HOURS.map((h) => (
+            <SelectItem key={h} value={String(h)}>
+              {h === 0 ? '12 AM' : h < 12 ? `${h} AM` : h === 12 ? '12 PM' : `${h - 12} PM`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Clock className="h-3.5 w-3.5" /> {label} Minute
+      </Label>
+      <Select value={String(minute)} onValueChange={(val) => onMinuteChange(parseInt(val))}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MINUTES.map((m) => (
+            <SelectItem key={m} value={String(m)}>
+              :{String(m).padStart(2, '0')}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
 
 const ScheduledPeriodsManager = () => {
   const [periods, setPeriods] = useState<BatchPeriod[]>([]);
@@ -54,7 +159,7 @@ const ScheduledPeriodsManager = () => {
     try {
       const { data, error } = await supabase
         .from('batch_configuration')
-        .select('*')
+        .select('*, fee_schedules(*)')
         .order('registration_start_date', { ascending: true, nullsFirst: false });
 
       if (error) throw error;
@@ -65,17 +170,24 @@ const ScheduledPeriodsManager = () => {
           year_from: d.year_from,
           year_to: d.year_to,
           is_registration_open: d.is_registration_open,
-          registration_start_date: d.registration_start_date
-            ? format(new Date(d.registration_start_date), 'yyyy-MM-dd')
-            : null,
-          registration_end_date: d.registration_end_date
-            ? format(new Date(d.registration_end_date), 'yyyy-MM-dd')
-            : null,
+          registration_start_date: d.registration_start_date ? toISTDate(d.registration_start_date) : null,
+          registration_end_date: d.registration_end_date ? toISTDate(d.registration_end_date) : null,
           start_hour: d.start_hour ?? 0,
           start_minute: d.start_minute ?? 0,
+          end_hour: d.end_hour ?? 23,
+          end_minute: d.end_minute ?? 59,
           label: d.label ?? null,
           show_stay_option: d.show_stay_option ?? true,
           show_outside_option: d.show_outside_option ?? true,
+          unpaid_expiry_days: d.unpaid_expiry_days ?? null,
+          fee_schedule: d.fee_schedules
+            ? {
+                ...d.fee_schedules,
+                early_bird_deadline: d.fee_schedules.early_bird_deadline
+                  ? toISTDate(d.fee_schedules.early_bird_deadline)
+                  : null,
+              }
+            : DEFAULT_FEE_ROW,
         }))
       );
     } catch (error) {
@@ -93,41 +205,43 @@ const ScheduledPeriodsManager = () => {
         const updated = { ...p, [field]: value };
         // Auto-calculate end date when start date changes
         if (field === 'registration_start_date' && value) {
-          updated.registration_end_date = format(addDays(new Date(value), 20), 'yyyy-MM-dd');
+          updated.registration_end_date = toISTDate(addDays(istToUtc(value), 20));
         }
         return updated;
       })
     );
   };
 
+  const updateFee = (id: string, field: keyof FeeScheduleRow, value: string | number | null) => {
+    setPeriods((prev) =>
+      prev.map((p) => (p.id === id ? { ...p, fee_schedule: { ...p.fee_schedule, [field]: value } } : p))
+    );
+  };
+
   const savePeriod = async (period: BatchPeriod) => {
     setSavingId(period.id);
     try {
-      // Compute the actual start timestamp incorporating start_hour in IST
-      let startTimestamp: string | null = null;
-      let endTimestamp: string | null = null;
-
-      if (period.registration_start_date) {
-        // Create date in IST: date + hour:minute, then convert to UTC by subtracting 5:30
-        const startDate = new Date(period.registration_start_date);
-        startDate.setUTCHours(period.start_hour - 5, period.start_minute - 30, 0, 0); // IST to UTC
-        startTimestamp = startDate.toISOString();
-      }
-      if (period.registration_end_date) {
-        endTimestamp = new Date(period.registration_end_date).toISOString();
+      // Both dates are stored as the exact instants the period opens and closes
+      const { opensAt, closesAt } = periodWindow(period);
+      if (opensAt && closesAt && closesAt <= opensAt) {
+        toast({ title: 'Invalid Period', description: 'The period must close after it opens.', variant: 'destructive' });
+        return;
       }
 
       const updateData: any = {
         year_from: period.year_from,
         year_to: period.year_to,
         is_registration_open: period.is_registration_open,
-        registration_start_date: startTimestamp,
-        registration_end_date: endTimestamp,
+        registration_start_date: opensAt?.toISOString() ?? null,
+        registration_end_date: closesAt?.toISOString() ?? null,
         start_hour: period.start_hour,
         start_minute: period.start_minute,
+        end_hour: period.end_hour,
+        end_minute: period.end_minute,
         label: period.label || null,
         show_stay_option: period.show_stay_option,
         show_outside_option: period.show_outside_option,
+        unpaid_expiry_days: period.unpaid_expiry_days,
       };
 
       const { error } = await supabase
@@ -137,6 +251,31 @@ const ScheduledPeriodsManager = () => {
 
       if (error) throw error;
 
+      // One schedule per period; upsert so periods created before fee schedules get one on first save
+      const fees = period.fee_schedule;
+      const { error: feeError } = await supabase
+        .from('fee_schedules')
+        .upsert(
+          {
+            batch_configuration_id: period.id,
+            on_campus_fee: fees.on_campus_fee,
+            outside_fee: fees.outside_fee,
+            // Early bird runs to the end of the chosen day in IST
+            early_bird_deadline: fees.early_bird_deadline
+              ? new Date(`${fees.early_bird_deadline}T23:59:59.999+05:30`).toISOString()
+              : null,
+            early_bird_on_campus_fee: fees.early_bird_on_campus_fee,
+            early_bird_outside_fee: fees.early_bird_outside_fee,
+            companion_on_campus_fee: fees.companion_on_campus_fee,
+            companion_outside_fee: fees.companion_outside_fee,
+            invite_on_campus_fee: fees.invite_on_campus_fee,
+            invite_outside_fee: fees.invite_outside_fee,
+          },
+          { onConflict: 'batch_configuration_id' }
+        );
+
+      if (feeError) throw feeError;
+
       toast({ title: 'Saved', description: `Period "${period.label || 'Untitled'}" updated successfully.` });
       fetchPeriods();
     } catch (error) {
@@ -150,17 +289,23 @@ const ScheduledPeriodsManager = () => {
   const addPeriod = async () => {
     setIsAdding(true);
     try {
-      const { error } = await supabase.from('batch_configuration').insert({
+      const { data: created, error } = await supabase.from('batch_configuration').insert({
         year_from: 1950,
         year_to: 2020,
         is_registration_open: false,
         start_hour: 0,
         start_minute: 0,
         label: `Period ${periods.length + 1}`,
-      } as any);
+      } as any).select('id').single();
 
       if (error) throw error;
 
+      const { error: feeError } = await supabase
+        .from('fee_schedules')
+        .insert({ batch_configuration_id: created.id });
+
+      if (feeError) throw feeError;
+
       toast({ title: 'Added', description: 'New registration period created. Configure and save it.' });
       fetchPeriods();
     } catch (error) {
@@ -189,15 +334,8 @@ const ScheduledPeriodsManager = () => {
 
   const isCurrentlyActive = (period: BatchPeriod): boolean => {
     if (!period.is_registration_open) return false;
-    if (!period.registration_start_date || !period.registration_end_date) return period.is_registration_open;
-    const now = new Date();
-    const start = new Date(period.registration_start_date);
-    const end = new Date(period.registration_end_date);
-    // Include full end day in IST
-    const endIST = new Date(end);
-    endIST.setUTCDate(endIST.getUTCDate() + 1);
-    endIST.setUTCHours(18, 30, 0, 0);
-    return now >= start && now <= endIST;
+    const { opensAt, closesAt } = periodWindow(period);
+    return isWithinWindow(opensAt, closesAt);
   };
 
   if (isLoading) {
@@ -272,7 +410,10 @@ const ScheduledPeriodsManager = () => {
             <CardDescription>
               Batches {period.year_from}–{period.year_to}
               {period.registration_start_date && period.registration_end_date && (
-                <> · {period.registration_start_date} to {period.registration_end_date}</>
+                <>
+                  {' · '}
+                  {formatIST(periodWindow(period).opensAt!)} to {formatIST(periodWindow(period).closesAt!)} IST
+                </>
               )}
             </CardDescription>
           </CardHeader>
@@ -331,53 +472,26 @@ const ScheduledPeriodsManager = () => {
               </div>
             </div>
 
-            {/* Hour and Minute selectors */}
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div className="space-y-2">
-                <Label className="flex items-center gap-1">
-                  <Clock className="h-3.5 w-3.5" /> Start Hour (IST)
-                </Label>
-                <Select
-                  value={String(period.start_hour)}
-                  onValueChange={(val) => updatePeriod(period.id, 'start_hour', parseInt(val))}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {HOURS.map((h) => (
-                      <SelectItem key={h} value={String(h)}>
-                        {h === 0 ? '12 AM' : h < 12 ? `${h} AM` : h === 12 ? '12 PM' : `${h - 12} PM`}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label className="flex items-center gap-1">
-                  <Clock className="h-3.5 w-3.5" /> Start Minute
-                </Label>
-                <Select
-                  value={String(period.start_minute)}
-                  onValueChange={(val) => updatePeriod(period.id, 'start_minute', parseInt(val))}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {MINUTES.map((m) => (
-                      <SelectItem key={m} value={String(m)}>
-                        :{String(m).padStart(2, '0')}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-
-            {/* Computed start time display */}
+            <TimeOfDayFields
+              label="Start"
+              hour={period.start_hour}
+              minute={period.start_minute}
+              onHourChange={(hour) => updatePeriod(period.id, 'start_hour', hour)}
+              onMinuteChange={(minute) => updatePeriod(period.id, 'start_minute', minute)}
+            />
+            <TimeOfDayFields
+              label="End"
+              hour={period.end_hour}
+              minute={period.end_minute}
+              onHourChange={(hour) => updatePeriod(period.id, 'end_hour', hour)}
+              onMinuteChange={(minute) => updatePeriod(period.id, 'end_minute', minute)}
+            />
+
+            {/* Computed start and close time display */}
             <p className="text-sm text-muted-foreground">
-              Start time: <span className="font-medium text-foreground">{formatTimeIST(period.start_hour, period.start_minute)}</span>
+              Opens at <span className="font-medium text-foreground">{formatTimeIST(period.start_hour, period.start_minute)}</span>
+              {' · '}
+              Closes at <span className="font-medium text-foreground">{formatTimeIST(period.end_hour, period.end_minute)}</span>
             </p>
 
             {/* Stay Option Toggles */}
@@ -385,7 +499,7 @@ const ScheduledPeriodsManager = () => {
               <Label className="text-sm font-medium">Stay Options</Label>
               <div className="flex items-center justify-between rounded-lg border p-4">
                 <div className="space-y-0.5">
-                  <Label className="text-sm font-medium">On-Campus Stay (₹15,000)</Label>
+                  <Label className="text-sm font-medium">On-Campus Stay ({formatFee(period.fee_schedule.on_campus_fee)})</Label>
                   <p className="text-xs text-muted-foreground">
                     Allow registrants to choose on-campus accommodation
                   </p>
@@ -397,7 +511,7 @@ const ScheduledPeriodsManager = () => {
               </div>
               <div className="flex items-center justify-between rounded-lg border p-4">
                 <div className="space-y-0.5">
-                  <Label className="text-sm font-medium">Outside Stay (₹7,500)</Label>
+                  <Label className="text-sm font-medium">Outside Stay ({formatFee(period.fee_schedule.outside_fee)})</Label>
                   <p className="text-xs text-muted-foreground">
                     Allow registrants to choose outside accommodation
                   </p>
@@ -409,11 +523,103 @@ const ScheduledPeriodsManager = () => {
               </div>
               {!period.show_stay_option && !period.show_outside_option && (
                 <p className="text-xs text-amber-600">
-                  ⚠ Both options are disabled. Registrants will default to outside stay (₹7,500).
+                  ⚠ Both options are disabled. Registrants will default to outside stay ({formatFee(period.fee_schedule.outside_fee)}).
                 </p>
               )}
             </div>
 
+            {/* Unpaid Expiry */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Payment Grace Period (days)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={period.unpaid_expiry_days ?? ''}
+                onChange={(e) =>
+                  updatePeriod(period.id, 'unpaid_expiry_days', e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0))
+                }
+                placeholder="No expiry"
+                className="w-full sm:w-40"
+              />
+              <p className="text-xs text-muted-foreground">
+                Pending registrations still unpaid this many days after they were created (or after the end date, if sooner) are expired and their beds released.
+                Leave blank to keep them pending and auto-reject them when the period ends.
+              </p>
+            </div>
+
+            {/* Fee Schedule */}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium flex items-center gap-1">
+                <IndianRupee className="h-3.5 w-3.5" /> Fee Schedule
+              </Label>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">On-Campus Fee</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={period.fee_schedule.on_campus_fee}
+                    onChange={(e) => updateFee(period.id, 'on_campus_fee', Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Outside Fee</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={period.fee_schedule.outside_fee}
+                    onChange={(e) => updateFee(period.id, 'outside_fee', Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                </div>
+              </div>
+
+              {OPTIONAL_RATES.map((rate) => (
+                <div key={rate.label} className="rounded-lg border p-4 space-y-3">
+                  <div className="space-y-0.5">
+                    <Label className="text-sm font-medium">{rate.label}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {rate.description}. Leave blank to use the standard fee.
+                    </p>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label className="text-xs text-muted-foreground">On-Campus</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={period.fee_schedule[rate.onCampus] ?? ''}
+                        onChange={(e) => updateFee(period.id, rate.onCampus, parseOptionalFee(e.target.value))}
+                        placeholder={String(period.fee_schedule.on_campus_fee)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-xs text-muted-foreground">Outside</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={period.fee_schedule[rate.outside] ?? ''}
+                        onChange={(e) => updateFee(period.id, rate.outside, parseOptionalFee(e.target.value))}
+                        placeholder={String(period.fee_schedule.outside_fee)}
+                      />
+                    </div>
+                  </div>
+                  {rate.onCampus === 'early_bird_on_campus_fee' && (
+                    <div className="space-y-2">
+                      <Label className="text-xs text-muted-foreground">Early-Bird Deadline</Label>
+                      <Input
+                        type="date"
+                        value={period.fee_schedule.early_bird_deadline || ''}
+                        onChange={(e) => updateFee(period.id, 'early_bird_deadline', e.target.value || null)}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                When several rates apply, the invite rate wins over the spouse/child rate, which wins over the early-bird rate.
+              </p>
+            </div>
+
             <Button
               onClick={() => savePeriod(period)}
               disabled={savingId === period.id}
@@ -19,6 +19,8 @@ export const AVAILABLE_SCREENS = [
   { key: 'registrations', label: 'Registrations', path: '/admin/registrations' },
   { key: 'hostels', label: 'Hostel Management', path: '/admin/hostels' },
   { key: 'accounts_review', label: 'Payment Verification', path: '/admin/accounts-review' },
+  { key: 'check_in', label: 'Event Check-In', path: '/admin/check-in' },
+  { key: 'email_log', label: 'Email Log', path: '/admin/emails' },
   { key: 'settings', label: 'Settings', path: '/admin/settings' },
 ] as const;
 
@@ -0,0 +1,184 @@
+import { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, ArrowRight, Building2, Loader2, Wand2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AllocationPlan, PlannedAssignment } from '@/lib/bedAllocation';
+
+interface BedAssignment {
+  id: string;
+  room_id: string;
+  bed_number: number;
+  registration_id: string | null;
+  registration?: {
+    id: string;
+    name: string;
+    application_id: string;
+  };
+}
+
+interface RoomDiff {
+  roomId: string;
+  roomNumber: string;
+  hostelName: string;
+  beds: { bed: BedAssignment; planned?: PlannedAssignment }[];
+}
+
+interface AutoAllocateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Dry-run result; null while it is being computed */
+  plan: AllocationPlan | null;
+  /** Current beds, used to show each affected room before and after */
+  bedAssignments: BedAssignment[];
+  onConfirm: () => void;
+  isCommitting: boolean;
+}
+
+const AutoAllocateDialog = ({
+  open,
+  onOpenChange,
+  plan,
+  bedAssignments,
+  onConfirm,
+  isCommitting,
+}: AutoAllocateDialogProps) => {
+  // Group planned assignments by room, alongside every existing bed in that room
+  const roomDiffs = useMemo((): RoomDiff[] => {
+    if (!plan) return [];
+
+    const plannedByBedId = new Map(plan.assignments.map((a) => [a.bedId, a]));
+    const diffs = new Map<string, RoomDiff>();
+
+    plan.assignments.forEach((assignment) => {
+      if (diffs.has(assignment.roomId)) return;
+      diffs.set(assignment.roomId, {
+        roomId: assignment.roomId,
+        roomNumber: assignment.roomNumber,
+        hostelName: assignment.hostelName,
+        beds: bedAssignments
+          .filter((b) => b.room_id === assignment.roomId)
+          .sort((a, b) => a.bed_number - b.bed_number)
+          .map((bed) => ({ bed, planned: plannedByBedId.get(bed.id) })),
+      });
+    });
+
+    return Array.from(diffs.values());
+  }, [plan, bedAssignments]);
+
+  const hostelCount = new Set(plan?.assignments.map((a) => a.hostelName)).size;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isCommitting && onOpenChange(value)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-primary" />
+            Auto-Allocate Beds (Preview)
+          </DialogTitle>
+          <DialogDescription>
+            Review the proposed assignments. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!plan ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{plan.assignments.length} to assign</Badge>
+              <Badge variant="outline">{roomDiffs.length} room(s) in {hostelCount} hostel(s)</Badge>
+              {plan.unallocated.length > 0 && (
+                <Badge variant="destructive">{plan.unallocated.length} without a bed</Badge>
+              )}
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 max-h-[55vh] pr-3">
+              <div className="space-y-3">
+                {plan.assignments.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">
+                    Every approved on-campus registrant already has a bed, or no compatible beds are free.
+                  </p>
+                )}
+
+                {roomDiffs.map((room) => (
+                  <div key={room.roomId} className="border rounded-lg p-3">
+                    <p className="text-sm font-medium flex items-center gap-2 mb-2">
+                      <Building2 className="h-4 w-4 text-muted-foreground" />
+                      {room.hostelName} • Room {room.roomNumber}
+                    </p>
+                    <div className="space-y-1">
+                      {room.beds.map(({ bed, planned }) => (
+                        <div
+                          key={bed.id}
+                          className={cn(
+                            'flex items-center gap-2 text-sm rounded px-2 py-1',
+                            planned ? 'bg-green-50 dark:bg-green-900/20' : 'text-muted-foreground'
+                          )}
+                        >
+                          <span className="w-14 shrink-0">Bed {bed.bed_number}</span>
+                          <span className="truncate">{bed.registration?.name ?? 'Empty'}</span>
+                          {planned && (
+                            <>
+                              <ArrowRight className="h-3 w-3 shrink-0" />
+                              <span className="font-medium truncate">{planned.name}</span>
+                              <span className="font-mono text-xs text-muted-foreground">{planned.applicationId}</span>
+                              <Badge variant="outline" className="ml-auto text-xs">
+                                {planned.yearOfPassing}
+                              </Badge>
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {plan.unallocated.length > 0 && (
+                  <div className="border border-destructive/50 rounded-lg p-3">
+                    <p className="text-sm font-medium flex items-center gap-2 mb-2 text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      Could Not Be Placed
+                    </p>
+                    <div className="space-y-1">
+                      {plan.unallocated.map(({ registration, reason }) => (
+                        <div key={registration.id} className="flex items-center gap-2 text-sm">
+                          <span className="font-medium truncate">{registration.name}</span>
+                          <span className="font-mono text-xs text-muted-foreground">{registration.application_id}</span>
+                          <span className="ml-auto text-xs text-muted-foreground">{reason}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCommitting}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!plan || plan.assignments.length === 0 || isCommitting}>
+            {isCommitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+            Assign {plan?.assignments.length ?? 0} Bed(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AutoAllocateDialog;
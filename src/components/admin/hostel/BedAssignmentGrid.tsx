@@ -3,14 +3,19 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Bed, User, X, CheckCircle2, UserMinus } from 'lucide-react';
+import { Bed, User, X, CheckCircle2, UserMinus, Accessibility, Bath, Layers } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getRoomGender } from '@/lib/bedAllocation';
 
 interface Room {
   id: string;
   hostel_id: string;
   room_number: string;
   beds_count: number;
+  gender: string | null;
+  is_ground_floor: boolean;
+  is_accessible: boolean;
+  has_attached_washroom: boolean;
 }
 
 interface BedAssignment {
@@ -27,6 +32,8 @@ interface BedAssignment {
 
 interface BedAssignmentGridProps {
   rooms: Room[];
+  /** Gender of the hostel the rooms belong to; rooms may override it */
+  hostelGender: string | null;
   bedAssignments: BedAssignment[];
   selectedBedIds: string[];
   onBedSelectionChange: (bedIds: string[]) => void;
@@ -34,10 +41,18 @@ interface BedAssignmentGridProps {
   onBulkUnassign?: (bedIds: string[]) => void;
   selectedUnassignBedIds?: string[];
   onUnassignSelectionChange?: (bedIds: string[]) => void;
+  /** Shows the layout without selection or unassign actions */
+  readOnly?: boolean;
 }
 
+const genderBadgeStyles: Record<string, string> = {
+  M: 'border-blue-300 text-blue-700 dark:border-blue-800 dark:text-blue-300',
+  F: 'border-pink-300 text-pink-700 dark:border-pink-800 dark:text-pink-300',
+};
+
 const BedAssignmentGrid = ({
   rooms,
+  hostelGender,
   bedAssignments,
   selectedBedIds,
   onBedSelectionChange,
@@ -45,11 +60,13 @@ const BedAssignmentGrid = ({
   onBulkUnassign,
   selectedUnassignBedIds = [],
   onUnassignSelectionChange,
+  readOnly = false,
 }: BedAssignmentGridProps) => {
   const getBedsForRoom = (roomId: string) =>
     bedAssignments.filter((b) => b.room_id === roomId).sort((a, b) => a.bed_number - b.bed_number);
 
   const handleBedToggle = (bedId: string, isAssigned: boolean) => {
+    if (readOnly) return;
     if (isAssigned) {
       // Handle assigned bed selection for bulk unassign
       if (onUnassignSelectionChange) {
@@ -129,39 +146,41 @@ const BedAssignmentGrid = ({
             <Bed className="h-4 w-4 text-primary" />
             Room & Bed Layout
           </CardTitle>
-          <div className="flex items-center gap-2">
-            {selectedUnassignBedIds.length > 0 && onBulkUnassign && (
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={() => onBulkUnassign(selectedUnassignBedIds)}
-                className="text-xs h-7"
-              >
-                <UserMinus className="h-3 w-3 mr-1" />
-                Unassign ({selectedUnassignBedIds.length})
-              </Button>
-            )}
-            {selectedBedIds.length > 0 && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => onBedSelectionChange([])}
-                className="text-xs h-7"
-              >
-                Clear Selection
-              </Button>
-            )}
-            {selectedUnassignBedIds.length > 0 && onUnassignSelectionChange && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => onUnassignSelectionChange([])}
-                className="text-xs h-7"
-              >
-                Clear Unassign
-              </Button>
-            )}
-          </div>
+          {!readOnly && (
+            <div className="flex items-center gap-2">
+              {selectedUnassignBedIds.length > 0 && onBulkUnassign && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => onBulkUnassign(selectedUnassignBedIds)}
+                  className="text-xs h-7"
+                >
+                  <UserMinus className="h-3 w-3 mr-1" />
+                  Unassign ({selectedUnassignBedIds.length})
+                </Button>
+              )}
+              {selectedBedIds.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onBedSelectionChange([])}
+                  className="text-xs h-7"
+                >
+                  Clear Selection
+                </Button>
+              )}
+              {selectedUnassignBedIds.length > 0 && onUnassignSelectionChange && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onUnassignSelectionChange([])}
+                  className="text-xs h-7"
+                >
+                  Clear Unassign
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent className="flex-1 overflow-hidden p-0">
@@ -171,6 +190,7 @@ const BedAssignmentGrid = ({
               const stats = getRoomStats(room.id);
               const beds = getBedsForRoom(room.id);
               const hasEmptyBeds = stats.occupied < stats.total;
+              const roomGender = getRoomGender({ gender: hostelGender }, room);
 
               return (
                 <div
@@ -183,7 +203,7 @@ const BedAssignmentGrid = ({
                 >
                   {/* Room Header */}
                   <div className="flex items-center justify-between p-2 bg-muted/50 border-b gap-1">
-                    <div className="flex items-center gap-2">
+                    <div className="flex flex-wrap items-center gap-1.5">
                       <span className="font-medium text-sm">Room {room.room_number}</span>
                       <Badge
                         variant={stats.occupied === stats.total ? 'secondary' : 'outline'}
@@ -191,37 +211,57 @@ const BedAssignmentGrid = ({
                       >
                         {stats.occupied}/{stats.total}
                       </Badge>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      {stats.occupied > 0 && onUnassignSelectionChange && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 text-[10px] px-2 text-destructive hover:text-destructive"
-                          onClick={() => handleSelectAllAssigned(room.id)}
+                      {roomGender && (
+                        <Badge
+                          variant="outline"
+                          className={cn('text-[10px] px-1.5', genderBadgeStyles[roomGender])}
+                          title={room.gender ? 'Set on this room' : 'Inherited from hostel'}
                         >
-                          {beds.filter((b) => b.registration_id).every((b) =>
-                            selectedUnassignBedIds.includes(b.id)
-                          )
-                            ? 'Desel.'
-                            : 'Unassign'}
-                        </Button>
+                          {roomGender === 'M' ? 'Male' : 'Female'}
+                        </Badge>
                       )}
-                      {hasEmptyBeds && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 text-[10px] px-2"
-                          onClick={() => handleSelectAllEmpty(room.id)}
-                        >
-                          {beds.filter((b) => !b.registration_id).every((b) =>
-                            selectedBedIds.includes(b.id)
-                          )
-                            ? 'Deselect'
-                            : 'Select All'}
-                        </Button>
+                      {room.is_ground_floor && (
+                        <Layers className="h-3.5 w-3.5 text-muted-foreground" aria-label="Ground floor" />
+                      )}
+                      {room.is_accessible && (
+                        <Accessibility className="h-3.5 w-3.5 text-muted-foreground" aria-label="Accessible" />
+                      )}
+                      {room.has_attached_washroom && (
+                        <Bath className="h-3.5 w-3.5 text-muted-foreground" aria-label="Attached washroom" />
                       )}
                     </div>
+                    {!readOnly && (
+                      <div className="flex items-center gap-1">
+                        {stats.occupied > 0 && onUnassignSelectionChange && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 text-[10px] px-2 text-destructive hover:text-destructive"
+                            onClick={() => handleSelectAllAssigned(room.id)}
+                          >
+                            {beds.filter((b) => b.registration_id).every((b) =>
+                              selectedUnassignBedIds.includes(b.id)
+                            )
+                              ? 'Desel.'
+                              : 'Unassign'}
+                          </Button>
+                        )}
+                        {hasEmptyBeds && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 text-[10px] px-2"
+                            onClick={() => handleSelectAllEmpty(room.id)}
+                          >
+                            {beds.filter((b) => !b.registration_id).every((b) =>
+                              selectedBedIds.includes(b.id)
+                            )
+                              ? 'Deselect'
+                              : 'Select All'}
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   {/* Beds Grid */}
@@ -236,7 +276,8 @@ const BedAssignmentGrid = ({
                           key={bed.id}
                           onClick={() => handleBedToggle(bed.id, isAssigned)}
                           className={cn(
-                            'relative p-2 rounded border text-center transition-all cursor-pointer',
+                            'relative p-2 rounded border text-center transition-all',
+                            !readOnly && 'cursor-pointer',
                             isAssigned
                               ? isSelectedForUnassign
                                 ? 'bg-destructive/10 border-destructive ring-1 ring-destructive'
@@ -261,7 +302,7 @@ const BedAssignmentGrid = ({
                           )}
 
                           {/* Single Unassign Button - only show when not in bulk selection mode */}
-                          {isAssigned && !isSelectedForUnassign && !onUnassignSelectionChange && (
+                          {!readOnly && isAssigned && !isSelectedForUnassign && !onUnassignSelectionChange && (
                             <button
                               type="button"
                               onClick={(e) => {
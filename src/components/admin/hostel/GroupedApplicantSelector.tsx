@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, type ReactNode } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -28,6 +28,10 @@ interface GroupedApplicantSelectorProps {
   onSelectionChange: (ids: string[]) => void;
   onAssignSelected: () => void;
   isAssigning: boolean;
+  /** Rendered next to each application ID, e.g. other admins assigning that applicant */
+  renderPresence?: (applicationId: string) => ReactNode;
+  /** Hides the assign action for admins without the assign_beds capability */
+  readOnly?: boolean;
 }
 
 const GroupedApplicantSelector = ({
@@ -37,6 +41,8 @@ const GroupedApplicantSelector = ({
   onSelectionChange,
   onAssignSelected,
   isAssigning,
+  renderPresence,
+  readOnly = false,
 }: GroupedApplicantSelectorProps) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
@@ -263,8 +269,9 @@ const GroupedApplicantSelector = ({
                                 Primary
                               </Badge>
                             </div>
-                            <div className="text-xs text-muted-foreground mt-0.5">
+                            <div className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1">
                               {group.primary.application_id}
+                              {renderPresence?.(group.primary.application_id)}
                             </div>
                           </div>
                           {group.members.length > 1 && (
@@ -314,8 +321,9 @@ const GroupedApplicantSelector = ({
                                     <span className="text-sm truncate block">
                                       {member.name}
                                     </span>
-                                    <span className="text-[10px] text-muted-foreground">
+                                    <span className="text-[10px] text-muted-foreground flex items-center gap-1">
                                       {member.application_id}
+                                      {renderPresence?.(member.application_id)}
                                     </span>
                                   </div>
                                   {isAssigned && (
@@ -343,7 +351,7 @@ const GroupedApplicantSelector = ({
       </CardContent>
 
       {/* Action Footer */}
-      {selectedIds.length > 0 && (
+      {!readOnly && selectedIds.length > 0 && (
         <div className="border-t p-3 bg-muted/30">
           <Button
             onClick={onAssignSelected}
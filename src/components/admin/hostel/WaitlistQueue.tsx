@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { capacityFromRow, UNLIMITED_CAPACITY, type OnCampusCapacity } from '@shared/capacity';
+import { ArrowUpCircle, Hourglass, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface WaitlistedRegistration {
+  id: string;
+  name: string;
+  application_id: string;
+  parent_application_id: string | null;
+  registration_status: string;
+  waitlisted_at: string;
+}
+
+interface PromotionResult {
+  id: string;
+  applicationId: string;
+  name: string;
+  emailStatus: string;
+}
+
+interface WaitlistQueueProps {
+  /** Called after promotion so the page can refresh its applicant list */
+  onPromoted: () => void;
+}
+
+/**
+ * On-campus waitlist, oldest first. Promotion always takes the head of
+ * the queue and is capped at the number of free beds server-side.
+ */
+const WaitlistQueue = ({ onPromoted }: WaitlistQueueProps) => {
+  const { toast } = useToast();
+  const [waitlist, setWaitlist] = useState<WaitlistedRegistration[]>([]);
+  const [capacity, setCapacity] = useState<OnCampusCapacity>(UNLIMITED_CAPACITY);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPromoting, setIsPromoting] = useState(false);
+
+  const fetchWaitlist = useCallback(async () => {
+    try {
+      const [waitlistRes, capacityRes] = await Promise.all([
+        supabase
+          .from('registrations')
+          .select('id, name, application_id, parent_application_id, registration_status, waitlisted_at')
+          .eq('stay_type', 'on-campus')
+          .in('registration_status', ['pending', 'approved'])
+          .not('waitlisted_at', 'is', null)
+          .is('waitlist_promoted_at', null)
+          .order('waitlisted_at', { ascending: true })
+          .order('application_id', { ascending: true }),
+        supabase.rpc('get_on_campus_capacity'),
+      ]);
+
+      if (waitlistRes.error) throw waitlistRes.error;
+      if (capacityRes.error) throw capacityRes.error;
+
+      setWaitlist(waitlistRes.data as WaitlistedRegistration[]);
+      setCapacity(capacityFromRow(capacityRes.data?.[0]));
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+      toast({ title: 'Error', description: 'Failed to load the on-campus waitlist', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchWaitlist();
+  }, [fetchWaitlist]);
+
+  const freeBeds = capacity.remainingBeds ?? 0;
+  const promotable = Math.min(freeBeds, waitlist.length);
+
+  const handlePromote = async (limit: number) => {
+    if (limit < 1) return;
+
+    setIsPromoting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('promote-waitlist', {
+        body: { limit },
+      });
+
+      if (error) {
+        const errorBody = await (error.context instanceof Response
+          ? error.context.clone().json().catch(() => null)
+          : Promise.resolve(null));
+        throw new Error(errorBody?.error || error.message);
+      }
+
+      const promoted: PromotionResult[] = data.promoted ?? [];
+      const emailsFailed = promoted.filter((p) => p.emailStatus === 'failed').length;
+
+      for (const registration of promoted) {
+        await logAdminActivity({
+          actionType: 'waitlist_promotion',
+          targetRegistrationId: registration.id,
+          targetApplicationId: registration.applicationId,
+          details: { name: registration.name, emailStatus: registration.emailStatus },
+        });
+      }
+
+      toast({
+        title: promoted.length > 0 ? 'Waitlist Promoted' : 'No One Promoted',
+        description: promoted.length > 0
+          ? [
+              `${promoted.length} moved into on-campus beds`,
+              emailsFailed > 0 ? `${emailsFailed} email(s) failed - see the Email Log` : null,
+            ].filter(Boolean).join(', ')
+          : 'There are no free beds or no one is waiting.',
+        variant: promoted.length > 0 ? 'default' : 'destructive',
+      });
+
+      await fetchWaitlist();
+      if (promoted.length > 0) onPromoted();
+    } catch (error) {
+      console.error('Error promoting waitlist:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to promote from the waitlist',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Hourglass className="h-5 w-5" />
+            On-Campus Waitlist
+          </CardTitle>
+          <CardDescription>
+            Registrants who chose on-campus after every bed was taken, in the order they registered.
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{waitlist.length} waiting</Badge>
+          <Badge variant={freeBeds > 0 ? 'default' : 'secondary'}>
+            {capacity.remainingBeds === null ? 'No beds configured' : `${freeBeds} free bed${freeBeds === 1 ? '' : 's'}`}
+          </Badge>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handlePromote(1)}
+            disabled={isPromoting || promotable < 1}
+          >
+            Promote Next
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => handlePromote(promotable)}
+            disabled={isPromoting || promotable < 1}
+          >
+            {isPromoting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowUpCircle className="mr-2 h-4 w-4" />}
+            Fill Free Beds{promotable > 0 ? ` (${promotable})` : ''}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : waitlist.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No one is on the waitlist</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Application ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Waitlisted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {waitlist.map((registration, index) => (
+                  <TableRow key={registration.id} className={index < promotable ? 'bg-primary/5' : undefined}>
+                    <TableCell className="font-medium">{index + 1}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {registration.application_id}
+                      {registration.parent_application_id && (
+                        <span className="block text-muted-foreground">with {registration.parent_application_id}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{registration.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={registration.registration_status === 'approved' ? 'default' : 'outline'} className="capitalize">
+                        {registration.registration_status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(registration.waitlisted_at), 'dd MMM yyyy, HH:mm')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaitlistQueue;
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Plus, Users } from "lucide-react";
 import { RegistrantData, AttendeeData, defaultAttendee, MAX_ATTENDEES } from "./types";
 import AttendeeCard from "./AttendeeCard";
+import type { FeeSchedule } from "@shared/pricing";
 
 interface AdditionalAttendeesSectionProps {
   form: UseFormReturn<RegistrantData>;
@@ -12,9 +13,12 @@ interface AdditionalAttendeesSectionProps {
    primaryEmail: string;
    showStayOption?: boolean;
    forcedStayType?: string;
+   feeSchedule: FeeSchedule;
+   viaInvite?: boolean;
+   onCampusWaitlist?: boolean;
 }
 
-const AdditionalAttendeesSection = ({ form, yearOptions, primaryEmail, showStayOption = true, forcedStayType }: AdditionalAttendeesSectionProps) => {
+const AdditionalAttendeesSection = ({ form, yearOptions, primaryEmail, showStayOption = true, forcedStayType, feeSchedule, viaInvite = false, onCampusWaitlist = false }: AdditionalAttendeesSectionProps) => {
   const { fields, append, remove } = useFieldArray({
     control: form.control,
     name: "attendees",
@@ -85,6 +89,9 @@ const AdditionalAttendeesSection = ({ form, yearOptions, primaryEmail, showStayO
                 canRemove={true}
                 showStayOption={showStayOption}
                 forcedStayType={forcedStayType}
+                feeSchedule={feeSchedule}
+                viaInvite={viaInvite}
+                onCampusWaitlist={onCampusWaitlist}
               />
             ))}
           </AnimatePresence>
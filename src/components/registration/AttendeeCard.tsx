@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { UseFormReturn } from "react-hook-form";
-import { RegistrantData, calculateFee } from "./types";
+import { RegistrantData, calculateFee, formatFee } from "./types";
+import type { FeeSchedule } from "@shared/pricing";
 import { motion } from "framer-motion";
 import { FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -29,14 +30,21 @@ interface AttendeeCardProps {
   primaryEmail: string;
   showStayOption?: boolean;
   forcedStayType?: string;
+  feeSchedule: FeeSchedule;
+  viaInvite?: boolean;
+  /** All beds are taken, so on-campus means joining the waitlist */
+  onCampusWaitlist?: boolean;
 }
 
-const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEmail, showStayOption = true, forcedStayType }: AttendeeCardProps) => {
+const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEmail, showStayOption = true, forcedStayType, feeSchedule, viaInvite = false, onCampusWaitlist = false }: AttendeeCardProps) => {
   const [showRemoveDialog, setShowRemoveDialog] = useState(false);
   const attendeeName = form.watch(`attendees.${index}.name`) || `Attendee ${index + 1}`;
   const stayType = form.watch(`attendees.${index}.stayType`);
   const boardType = form.watch(`attendees.${index}.boardType`);
-  const fee = calculateFee(stayType);
+  const attendeeType = form.watch(`attendees.${index}.attendeeType`) ?? "alumni";
+  const isAlumnus = attendeeType === "alumni";
+  const feeOptions = { category: attendeeType, viaInvite };
+  const fee = calculateFee(stayType, feeSchedule, feeOptions);
 
   const handleRemoveConfirm = () => {
     setShowRemoveDialog(false);
@@ -198,6 +206,32 @@ const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEm
           />
         </div>
 
+        {/* Attendee Type */}
+        <FormField
+          control={form.control}
+          name={`attendees.${index}.attendeeType`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground font-semibold">Attending As</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value ?? "alumni"}>
+                <FormControl>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="alumni">Alumnus / Alumna</SelectItem>
+                  <SelectItem value="spouse">Spouse</SelectItem>
+                  <SelectItem value="child">Child</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {isAlumnus && (
+        <>
         {/* Board Type Selection */}
         <FormField
           control={form.control}
@@ -264,6 +298,8 @@ const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEm
             </FormItem>
           )}
         />
+        </>
+        )}
 
         {/* Stay Type */}
         {showStayOption ? (
@@ -286,8 +322,11 @@ const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEm
                   }`}>
                     <RadioGroupItem value="on-campus" className="mt-0.5" />
                     <div>
-                      <p className="font-medium text-foreground text-sm">On Campus Stay</p>
-                      <p className="text-lg font-bold text-primary">₹15,000</p>
+                      <p className="font-medium text-foreground text-sm">{onCampusWaitlist ? "On-Campus Waitlist" : "On Campus Stay"}</p>
+                      <p className="text-lg font-bold text-primary">{formatFee(calculateFee("on-campus", feeSchedule, feeOptions))}</p>
+                      {onCampusWaitlist && (
+                        <p className="text-xs text-muted-foreground mt-1">All beds are taken; you'll be emailed if one frees up</p>
+                      )}
                     </div>
                   </label>
                   
@@ -299,7 +338,7 @@ const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEm
                     <RadioGroupItem value="outside" className="mt-0.5" />
                     <div>
                       <p className="font-medium text-foreground text-sm">Staying Outside</p>
-                      <p className="text-lg font-bold text-primary">₹7,500</p>
+                      <p className="text-lg font-bold text-primary">{formatFee(calculateFee("outside", feeSchedule, feeOptions))}</p>
                     </div>
                   </label>
                 </RadioGroup>
@@ -310,8 +349,10 @@ const AttendeeCard = ({ index, form, onRemove, canRemove, yearOptions, primaryEm
         />
         ) : (
           <div className="rounded-lg border-2 border-primary/20 bg-primary/5 p-4">
-            <p className="font-medium text-foreground text-sm">Registration Fee</p>
-            <p className="text-lg font-bold text-primary">₹{calculateFee(forcedStayType === "on-campus" ? "on-campus" : "outside").toLocaleString('en-IN')}</p>
+            <p className="font-medium text-foreground text-sm">
+              Registration Fee{forcedStayType === "on-campus" && onCampusWaitlist ? " — On-Campus Waitlist" : ""}
+            </p>
+            <p className="text-lg font-bold text-primary">{formatFee(calculateFee(forcedStayType === "on-campus" ? "on-campus" : "outside", feeSchedule, feeOptions))}</p>
           </div>
         )}
 
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { AttendeeData, RegistrantData, calculateFee } from "./types";
 import { preparePaymentProof } from "@/lib/paymentProofPayload";
+import type { FeeSchedule } from "@shared/pricing";
 
 interface Applicant {
   id: string;
@@ -20,6 +21,8 @@ interface BulkPaymentProofUploadProps {
   paymentProofs: Map<string, File>;
   onPaymentProofBlobsChange: (proofs: Map<string, { blob: Blob; name: string; type: string }>) => void;
   onPaymentProofsChange: (proofs: Map<string, File>) => void;
+  feeSchedule: FeeSchedule;
+  viaInvite?: boolean;
 }
 
 const BulkPaymentProofUpload = ({
@@ -28,6 +31,8 @@ const BulkPaymentProofUpload = ({
   paymentProofs,
   onPaymentProofBlobsChange,
   onPaymentProofsChange,
+  feeSchedule,
+  viaInvite = false,
 }: BulkPaymentProofUploadProps) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
@@ -44,14 +49,14 @@ const BulkPaymentProofUpload = ({
       id: "primary",
       name: registrant.name || "Primary Registrant",
       stayType: registrant.stayType,
-      fee: calculateFee(registrant.stayType),
+      fee: calculateFee(registrant.stayType, feeSchedule, { viaInvite }),
       isPrimary: true,
     },
     ...additionalAttendees.map((attendee, index) => ({
       id: `attendee-${index}`,
       name: attendee.name || `Attendee ${index + 1}`,
       stayType: attendee.stayType,
-      fee: calculateFee(attendee.stayType),
+      fee: calculateFee(attendee.stayType, feeSchedule, { category: attendee.attendeeType, viaInvite }),
       isPrimary: false,
     })),
   ];
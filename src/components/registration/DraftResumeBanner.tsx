@@ -0,0 +1,41 @@
+import { History, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface DraftResumeBannerProps {
+  /** ISO string of when the draft was last saved */
+  savedAt: string;
+  registrantName: string;
+  attendeeCount: number;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Offers a registration draft saved on this device by an earlier visit
+ */
+const DraftResumeBanner = ({ savedAt, registrantName, attendeeCount, onResume, onDiscard }: DraftResumeBannerProps) => (
+  <div className="mb-8 p-4 rounded-lg border border-primary/30 bg-primary/5 flex flex-col sm:flex-row sm:items-center gap-4">
+    <History className="w-6 h-6 text-primary shrink-0" />
+    <div className="flex-1">
+      <p className="font-medium text-foreground">Resume your draft?</p>
+      <p className="text-sm text-muted-foreground">
+        {registrantName ? `${registrantName}'s registration` : "A registration"}
+        {attendeeCount > 0 && ` with ${attendeeCount} additional attendee${attendeeCount > 1 ? "s" : ""}`}
+        {" "}was saved on this device on{" "}
+        {new Date(savedAt).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}.
+        Payment proofs are not saved and need to be attached again.
+      </p>
+    </div>
+    <div className="flex gap-2">
+      <Button type="button" variant="outline" size="sm" onClick={onDiscard}>
+        <Trash2 className="w-4 h-4 mr-1" />
+        Discard
+      </Button>
+      <Button type="button" size="sm" onClick={onResume}>
+        Resume
+      </Button>
+    </div>
+  </div>
+);
+
+export default DraftResumeBanner;
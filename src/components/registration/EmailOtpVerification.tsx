@@ -7,12 +7,20 @@ import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 
+/** Returned by verify-otp when signing in to the registrant portal */
+export interface PortalSession {
+  portalToken: string;
+  expiresAt: string;
+}
+
 interface EmailOtpVerificationProps {
   email: string;
-  onVerified: () => void;
+  onVerified: (portalSession?: PortalSession) => void;
   isVerified: boolean;
   onEmailChange?: (email: string) => void;
   disabled?: boolean;
+  /** "portal" asks verify-otp to also start a /my-registration session */
+  purpose?: "portal";
 }
 
 export function EmailOtpVerification({
@@ -21,6 +29,7 @@ export function EmailOtpVerification({
   isVerified,
   onEmailChange,
   disabled = false,
+  purpose,
 }: EmailOtpVerificationProps) {
   const [otpSent, setOtpSent] = useState(false);
   const [otp, setOtp] = useState("");
@@ -56,7 +65,7 @@ export function EmailOtpVerification({
     setSending(true);
     try {
       const { data, error } = await supabase.functions.invoke("send-otp", {
-        body: { email: email.trim() },
+        body: { email: email.trim(), purpose },
       });
 
       if (error) throw error;
@@ -88,7 +97,7 @@ export function EmailOtpVerification({
     setVerifying(true);
     try {
       const { data, error } = await supabase.functions.invoke("verify-otp", {
-        body: { email: email.trim(), otp },
+        body: { email: email.trim(), otp, purpose },
       });
 
       if (error) throw error;
@@ -102,7 +111,7 @@ export function EmailOtpVerification({
       }
 
       if (data?.verified) {
-        onVerified();
+        onVerified(data.portalToken ? { portalToken: data.portalToken, expiresAt: data.expiresAt } : undefined);
         toast.success("Email verified successfully!");
       }
     } catch (err: any) {
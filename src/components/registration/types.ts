@@ -17,7 +17,7 @@
  *    - defaultAttendee: Empty attendee template
  *    - defaultRegistrant: Empty registrant template
  * 
- * 4. Fee Calculation Utilities
+ * 4. Fee Calculation Utilities (backed by the shared pricing module)
  *    - calculateFee: Single person fee
  *    - calculateTotalFee: Group total fee
  * 
@@ -30,6 +30,7 @@
  */
 
 import { z } from "zod";
+import { calculateFee as calculateSharedFee, DEFAULT_FEE_SCHEDULE, FeeOptions, FeeSchedule } from "@shared/pricing";
 
 /**
  * Schema for additional attendee data
@@ -40,8 +41,13 @@ import { z } from "zod";
  * 
  * Note: Year validation is done dynamically based on batch config,
  * so it's validated as a non-empty string here.
+ * 
+ * Spouses and children are not alumni: they skip board/year and
+ * inherit the primary registrant's batch on submission.
  */
 export const attendeeSchema = z.object({
+  /** Whether the attendee is an alumnus or a spouse/child (companion rate) */
+  attendeeType: z.enum(["alumni", "spouse", "child"]).default("alumni"),
   /** Full name of the attendee */
   name: z.string().min(2, "Name must be at least 2 characters").max(100),
   /** Primary email (auto-populated from main registrant) */
@@ -57,12 +63,12 @@ export const attendeeSchema = z.object({
       .regex(/^\+?[0-9]{10,15}$/, "Please enter a valid phone number (digits only, optional + prefix)")),
   /** Current occupation */
   occupation: z.string().min(2, "Please enter your occupation").max(100),
-  /** Board type: ISC, ICSE, or Other */
-  boardType: z.string().min(1, "Please select a board"),
+  /** Board type: ISC, ICSE, or Other (required for alumni only) */
+  boardType: z.string(),
   /** Custom board name when "Other" is selected */
   customBoardType: z.string().optional(),
-  /** Year of passing (as string for select input) */
-  yearOfPassing: z.string().min(1, "Please select a year of passing"),
+  /** Year of passing (as string for select input; required for alumni only) */
+  yearOfPassing: z.string(),
   /** Accommodation preference */
   stayType: z.enum(["on-campus", "outside"]),
   /** T-shirt size with measurements */
@@ -78,6 +84,15 @@ export const attendeeSchema = z.object({
 }, {
   message: "Please enter your board name (at least 2 characters)",
   path: ["customBoardType"],
+}).superRefine((data, ctx) => {
+  // Board and year of passing are only required for alumni
+  if (data.attendeeType !== "alumni") return;
+  if (data.boardType.length < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please select a board", path: ["boardType"] });
+  }
+  if (data.yearOfPassing.length < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Please select a year of passing", path: ["yearOfPassing"] });
+  }
 });
 
 /** TypeScript type inferred from attendee schema */
@@ -171,6 +186,7 @@ export type RegistrantData = z.infer<typeof registrantSchema>;
  * Used when adding an attendee to the form
  */
 export const defaultAttendee: AttendeeData = {
+  attendeeType: "alumni",
   name: "",
   email: "",
   secondaryEmail: "",
@@ -188,8 +204,10 @@ export const defaultAttendee: AttendeeData = {
  * Default values for a new registrant
  * Used to initialize the registration form
  */
+const { attendeeType: _attendeeType, ...defaultPersonFields } = defaultAttendee;
+
 export const defaultRegistrant: RegistrantData = {
-  ...defaultAttendee,
+  ...defaultPersonFields,
   boardType: "",
   customBoardType: "",
   addressLine1: "",
@@ -229,34 +247,57 @@ export interface RegistrationData {
   createdAt: string;
   /** Parent application ID for group registrations (null for primary) */
   parentApplicationId?: string | null;
+  /** Current registration status (pending, approved, rejected) */
+  registrationStatus?: string;
+  /** Signed check-in code, issued when the registration is approved */
+  qrCodeData?: string | null;
 }
 
 /**
  * Calculates the registration fee based on stay type
  * 
- * Fee Structure:
- * - On Campus: ₹15,000 (includes accommodation, all meals, event access)
- * - Outside: ₹7,500 (event access, lunch & dinner only)
+ * Delegates to the shared pricing module so the client always displays
+ * the same amounts the server will accept.
  * 
  * @param stayType - The type of stay selected
+ * @param schedule - Active fee schedule (see useFeeSchedule)
+ * @param options - Attendee type and invite flag
  * @returns Fee amount in INR
  */
-export const calculateFee = (stayType: "on-campus" | "outside"): number => {
-  return stayType === "on-campus" ? 15000 : 7500;
+export const calculateFee = (
+  stayType: "on-campus" | "outside",
+  schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE,
+  options: FeeOptions = {}
+): number => {
+  return calculateSharedFee(stayType, schedule, options);
 };
 
 /**
  * Calculates the total fee for a group registration
  * 
  * Sums the primary registrant's fee plus all additional attendees' fees.
- * Each person's fee is calculated independently based on their stay type.
+ * Each person's fee is calculated independently based on their stay type
+ * and attendee type.
  * 
  * @param registrant - Primary registrant data
  * @param attendees - Array of additional attendees
+ * @param schedule - Active fee schedule (see useFeeSchedule)
+ * @param viaInvite - Whether the registration uses a private invite link
  * @returns Total fee in INR for all registrants
  */
-export const calculateTotalFee = (registrant: RegistrantData, attendees: AttendeeData[]): number => {
-  const registrantFee = calculateFee(registrant.stayType);
-  const attendeesFee = attendees.reduce((sum, a) => sum + calculateFee(a.stayType), 0);
+export const calculateTotalFee = (
+  registrant: RegistrantData,
+  attendees: AttendeeData[],
+  schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE,
+  viaInvite = false
+): number => {
+  const registrantFee = calculateFee(registrant.stayType, schedule, { viaInvite });
+  const attendeesFee = attendees.reduce(
+    (sum, a) => sum + calculateFee(a.stayType, schedule, { category: a.attendeeType, viaInvite }),
+    0
+  );
   return registrantFee + attendeesFee;
 };
+
+/** Formats an INR amount for display, e.g. ₹15,000 */
+export const formatFee = (fee: number): string => `₹${fee.toLocaleString("en-IN")}`;
@@ -0,0 +1,125 @@
+/**
+ * useAdminPresence.ts - Who Else Has This Application Open
+ *
+ * Shares, over a Supabase Realtime presence channel, which applications each
+ * signed-in admin has open and whether they are just viewing them or acting
+ * on them (approving, verifying a payment, assigning beds). Screens show the
+ * other admins on a record with PresenceIndicator so two people don't act
+ * on the same registration at once.
+ *
+ * The channel is private, so only signed-in staff can join it or see who
+ * has what open. Presence is advisory: it never blocks an action by itself.
+ *
+ * @example
+ * ```tsx
+ * const { othersOn } = useAdminPresence({
+ *   screen: "registrations",
+ *   applicationIds: selected ? [selected.application_id] : [],
+ *   activity: isProcessing ? "editing" : "viewing",
+ * });
+ * <PresenceIndicator viewers={othersOn(selected.application_id)} />
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+
+export type PresenceActivity = "viewing" | "editing";
+
+export interface AdminPresence {
+  userId: string;
+  email: string;
+  /** Admin screen the record is open on, e.g. "registrations" */
+  screen: string;
+  applicationIds: string[];
+  activity: PresenceActivity;
+}
+
+interface Options {
+  screen: string;
+  /** Applications this admin currently has open */
+  applicationIds: string[];
+  activity?: PresenceActivity;
+}
+
+/** One channel for every admin screen, so presence shows across screens */
+const PRESENCE_CHANNEL = "admin-presence";
+
+/**
+ * useAdminPresence Hook
+ *
+ * @returns Object containing:
+ * - others: What every other admin currently has open
+ * - othersOn: The other admins with the given application open
+ */
+export const useAdminPresence = ({ screen, applicationIds, activity = "viewing" }: Options) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const email = user?.email ?? "";
+  const [others, setOthers] = useState<AdminPresence[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const ownStateRef = useRef<AdminPresence | null>(null);
+
+  // Stable dependency for the list of open applications
+  const applicationKey = [...applicationIds].sort().join(",");
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // Private: Realtime only lets staff join (see the realtime.messages policies)
+    const channel = supabase.channel(PRESENCE_CHANNEL, {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const entries = Object.values(channel.presenceState<AdminPresence>()).flat();
+        setOthers(
+          entries
+            .filter((entry) => entry.userId !== userId)
+            .map(({ userId, email, screen, applicationIds, activity }) => ({
+              userId,
+              email,
+              screen,
+              applicationIds,
+              activity,
+            }))
+        );
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED" && ownStateRef.current) {
+          void channel.track(ownStateRef.current);
+        }
+      });
+
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // Re-announce whenever what this admin has open changes
+  useEffect(() => {
+    if (!userId) return;
+
+    ownStateRef.current = {
+      userId,
+      email,
+      screen,
+      applicationIds: applicationKey ? applicationKey.split(",") : [],
+      activity,
+    };
+    void channelRef.current?.track(ownStateRef.current);
+  }, [userId, email, screen, applicationKey, activity]);
+
+  const othersOn = useCallback(
+    (applicationId: string | null | undefined) =>
+      applicationId ? others.filter((entry) => entry.applicationIds.includes(applicationId)) : [],
+    [others]
+  );
+
+  return { others, othersOn };
+};
@@ -9,6 +9,7 @@
  * - Multi-role support (superadmin, admin, accounts_admin, reviewer)
  * - Role switching for users with multiple roles
  * - Approval workflow (users need admin approval to access admin features)
+ * - Capabilities: the named actions the user may perform (see lib/capabilities)
  * 
  * Role Hierarchy:
  * 1. superadmin - Full access to all features
@@ -25,6 +26,7 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Capability } from '@/lib/capabilities';
 
 /**
  * Available user roles in the system
@@ -55,6 +57,8 @@ interface AuthContextType {
   allRoles: UserRole[];
   /** Function to switch between roles (for multi-role users) */
   switchRole: (role: UserRole) => void;
+  /** True if the user may perform the action; same rule the database enforces */
+  can: (capability: Capability) => boolean;
   /** Sign in with email and password */
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   /** Sign out the current user */
@@ -85,6 +89,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [isPendingApproval, setIsPendingApproval] = useState(false);
   const [userRole, setUserRole] = useState<UserRole>(null);
   const [allRoles, setAllRoles] = useState<UserRole[]>([]);
+  const [capabilities, setCapabilities] = useState<Set<string>>(new Set());
 
   /**
    * Initialize auth state and set up listeners
@@ -120,6 +125,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           setIsPendingApproval(false);
           setUserRole(null);
           setAllRoles([]);
+          setCapabilities(new Set());
         }
       }
     );
@@ -179,6 +185,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setIsPendingApproval(false);
         setUserRole(null);
         setAllRoles([]);
+        setCapabilities(new Set());
         return;
       }
 
@@ -200,6 +207,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       setAllRoles(approvedRoles);
 
+      // Capabilities come from all approved roles plus per-user overrides
+      if (approvedRoles.length > 0) {
+        const { data: capabilityKeys, error: capabilitiesError } = await supabase.rpc('get_my_capabilities');
+        if (capabilitiesError) {
+          console.error('Error loading capabilities:', capabilitiesError);
+        }
+        setCapabilities(new Set(capabilityKeys ?? []));
+      } else {
+        setCapabilities(new Set());
+      }
+
       // Check for any pending (unapproved) role
       const pendingRole = userRoles?.find(r => !r.is_approved);
       
@@ -231,6 +249,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setIsPendingApproval(false);
       setUserRole(null);
       setAllRoles([]);
+      setCapabilities(new Set());
     }
   };
 
@@ -246,6 +265,13 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  /**
+   * Checks whether the user may perform a named admin action
+   * 
+   * @param capability - The action, e.g. 'approve_registration'
+   */
+  const can = (capability: Capability) => capabilities.has(capability);
+
   /**
    * Signs in a user with email and password
    * 
@@ -271,11 +297,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setIsPendingApproval(false);
     setUserRole(null);
     setAllRoles([]);
+    setCapabilities(new Set());
   };
 
   // Provide auth context to children
   return (
-    <AuthContext.Provider value={{ user, session, isLoading, isAdmin, isApproved, isPendingApproval, userRole, allRoles, switchRole, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, isLoading, isAdmin, isApproved, isPendingApproval, userRole, allRoles, switchRole, can, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   );
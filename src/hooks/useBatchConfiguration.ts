@@ -9,8 +9,8 @@
  * - yearFrom: Earliest graduation year eligible for registration
  * - yearTo: Latest graduation year eligible for registration
  * - isRegistrationOpen: Master toggle for registration availability
- * - registrationStartDate: When registration opens
- * - registrationEndDate: When registration closes
+ * - registrationStartDate: The instant registration opens
+ * - registrationEndDate: The instant registration closes
  * 
  * This allows admins to control:
  * - Which batches can register (phased rollout)
@@ -29,8 +29,10 @@
 
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { isWithinWindow } from "@shared/schedule";
 
-const BATCH_CONFIG_CACHE_KEY = "batch_config_cache_v1";
+// v2: registration_end_date became the exact closing instant
+const BATCH_CONFIG_CACHE_KEY = "batch_config_cache_v2";
 
 /**
  * Interface for batch configuration data
@@ -42,9 +44,9 @@ interface BatchConfiguration {
   yearTo: number;
   /** Master toggle for registration */
   isRegistrationOpen: boolean;
-  /** Start date for registration period (ISO string or null) */
+  /** Instant the registration period opens (ISO string or null) */
   registrationStartDate: string | null;
-  /** End date for registration period (ISO string or null) */
+  /** Instant the registration period closes (ISO string or null) */
   registrationEndDate: string | null;
   /** Whether to show the on-campus stay option */
   showStayOption: boolean;
@@ -192,33 +194,14 @@ export const useBatchConfiguration = () => {
    * Logic:
    * - If no config, return false
    * - If no start/end dates are set, return true (only isRegistrationOpen matters)
-   * - Otherwise, check if current time is between start and end dates
+   * - Otherwise, check if the current time is at or after the opening
+   *   instant and before the closing instant (same rule as the server)
    * 
    * @returns Boolean indicating if registration is currently allowed
    */
   const isWithinRegistrationPeriod = (): boolean => {
     if (!config) return false;
-    
-    const now = new Date();
-    const startDate = config.registrationStartDate ? new Date(config.registrationStartDate) : null;
-    const endDate = config.registrationEndDate ? new Date(config.registrationEndDate) : null;
-    
-    // If no dates are set, allow submission (only isRegistrationOpen matters)
-    if (!startDate && !endDate) return true;
-    
-    // Check if before start date
-    if (startDate && now < startDate) return false;
-    // Check if after end date - include the full end date in IST (UTC+5:30)
-    // End of day in IST (23:59:59.999) = next day 18:29:59.999 UTC
-    if (endDate) {
-      const endOfDayIST = new Date(endDate);
-      // Set to next day 18:30 UTC (= end of day 23:59:59 IST + buffer)
-      endOfDayIST.setUTCDate(endOfDayIST.getUTCDate() + 1);
-      endOfDayIST.setUTCHours(18, 30, 0, 0);
-      if (now > endOfDayIST) return false;
-    }
-    
-    return true;
+    return isWithinWindow(config.registrationStartDate, config.registrationEndDate);
   };
 
   return {
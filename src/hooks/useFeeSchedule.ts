@@ -0,0 +1,54 @@
+/**
+ * useFeeSchedule.ts - Active Fee Schedule Hook
+ *
+ * Fetches the fee schedule attached to the active registration period
+ * via the `get_active_fee_schedule` RPC. The same RPC is used by the
+ * `verify-captcha-register` edge function, so the amounts shown in the
+ * form are exactly the amounts the server will accept.
+ *
+ * Falls back to DEFAULT_FEE_SCHEDULE when no schedule is configured,
+ * keeping the form usable.
+ *
+ * @example
+ * ```tsx
+ * const { schedule } = useFeeSchedule();
+ * const fee = calculateFee("on-campus", schedule);
+ * ```
+ */
+
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_FEE_SCHEDULE, FeeSchedule, FeeScheduleRow, feeScheduleFromRow } from "@shared/pricing";
+
+/**
+ * useFeeSchedule Hook
+ *
+ * @returns Object containing:
+ * - schedule: The active fee schedule (defaults until loaded)
+ * - isLoading: True while fetching the schedule
+ */
+export const useFeeSchedule = () => {
+  const [schedule, setSchedule] = useState<FeeSchedule>(DEFAULT_FEE_SCHEDULE);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const { data, error } = await supabase.rpc("get_active_fee_schedule");
+        if (error) throw error;
+
+        const rows = data as FeeScheduleRow[] | null;
+        setSchedule(feeScheduleFromRow(rows?.[0]));
+      } catch (err) {
+        console.error("Error fetching fee schedule:", err);
+        setSchedule(DEFAULT_FEE_SCHEDULE);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, []);
+
+  return { schedule, isLoading };
+};
@@ -9,6 +9,10 @@
  * "Activity" = any keypress, mouse click, scroll, or touch on the page.
  * The timer resets on every interaction.
  *
+ * Pass `onBeforeRefresh` to persist state (e.g. flush the registration
+ * draft) before the reload; the warning then tells the user their
+ * progress is kept.
+ *
  * Pass `enabled = false` once the form is successfully submitted to stop the timer.
  */
 import { useEffect, useRef } from "react";
@@ -18,14 +22,20 @@ interface Options {
   enabled?: boolean;
   warnAfterMs?: number;     // default 5 min
   refreshAfterMs?: number;  // default 10 min
+  /** Awaited before reloading; failures don't block the reload */
+  onBeforeRefresh?: () => void | Promise<void>;
 }
 
 export const useIdleAutoRefresh = ({
   enabled = true,
   warnAfterMs = 5 * 60 * 1000,
   refreshAfterMs = 10 * 60 * 1000,
+  onBeforeRefresh,
 }: Options = {}) => {
   const warnTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Kept in a ref so a new callback identity doesn't restart the idle timers
+  const onBeforeRefreshRef = useRef(onBeforeRefresh);
+  onBeforeRefreshRef.current = onBeforeRefresh;
   const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const warnedRef = useRef(false);
 
@@ -45,13 +55,22 @@ export const useIdleAutoRefresh = ({
         warnedRef.current = true;
         const minutesLeft = Math.round((refreshAfterMs - warnAfterMs) / 60000);
         toast.warning("Please complete your registration soon", {
-          description: `For your security, this page will auto-refresh in about ${minutesLeft} minute${minutesLeft === 1 ? "" : "s"} if left idle. Any unsaved changes will be lost.`,
+          description: `For your security, this page will auto-refresh in about ${minutesLeft} minute${minutesLeft === 1 ? "" : "s"} if left idle. ${
+            onBeforeRefreshRef.current
+              ? "Your progress is saved as a draft on this device."
+              : "Any unsaved changes will be lost."
+          }`,
           duration: 10000,
         });
       }, warnAfterMs);
 
-      refreshTimerRef.current = setTimeout(() => {
+      refreshTimerRef.current = setTimeout(async () => {
         toast("Refreshing page due to inactivity…", { duration: 2000 });
+        try {
+          await onBeforeRefreshRef.current?.();
+        } catch (error) {
+          console.warn("onBeforeRefresh failed:", error);
+        }
         setTimeout(() => window.location.reload(), 1500);
       }, refreshAfterMs);
     };
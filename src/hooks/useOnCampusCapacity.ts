@@ -0,0 +1,54 @@
+/**
+ * useOnCampusCapacity.ts - On-Campus Bed Capacity Hook
+ *
+ * Fetches how many on-campus beds are still free via the
+ * `get_on_campus_capacity` RPC. The same RPC is used by the
+ * `verify-captcha-register` edge function, which has the final say on
+ * who is waitlisted.
+ *
+ * Falls back to UNLIMITED_CAPACITY when the capacity cannot be read,
+ * so the form never offers the waitlist by mistake.
+ *
+ * @example
+ * ```tsx
+ * const { capacity } = useOnCampusCapacity();
+ * const isFull = isOnCampusFull(capacity);
+ * ```
+ */
+
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { UNLIMITED_CAPACITY, OnCampusCapacity, OnCampusCapacityRow, capacityFromRow } from "@shared/capacity";
+
+/**
+ * useOnCampusCapacity Hook
+ *
+ * @returns Object containing:
+ * - capacity: Current on-campus capacity (unlimited until loaded)
+ * - isLoading: True while fetching the capacity
+ */
+export const useOnCampusCapacity = () => {
+  const [capacity, setCapacity] = useState<OnCampusCapacity>(UNLIMITED_CAPACITY);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCapacity = async () => {
+      try {
+        const { data, error } = await supabase.rpc("get_on_campus_capacity");
+        if (error) throw error;
+
+        const rows = data as OnCampusCapacityRow[] | null;
+        setCapacity(capacityFromRow(rows?.[0]));
+      } catch (err) {
+        console.error("Error fetching on-campus capacity:", err);
+        setCapacity(UNLIMITED_CAPACITY);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCapacity();
+  }, []);
+
+  return { capacity, isLoading };
+};
@@ -0,0 +1,37 @@
+/**
+ * useOnlinePayment.ts - Online Payment Availability Hook
+ *
+ * Asks the `payment-gateway` edge function whether a payment provider is
+ * configured. Online payment options are only shown when it is; manual
+ * proof upload is always available.
+ *
+ * @example
+ * ```tsx
+ * const { isEnabled } = useOnlinePayment();
+ * if (isEnabled) await payOnline(applicationId);
+ * ```
+ */
+
+import { useState, useEffect } from "react";
+import { getOnlinePaymentConfig, OnlinePaymentConfig } from "@/lib/onlinePayment";
+
+/**
+ * useOnlinePayment Hook
+ *
+ * @returns Object containing:
+ * - isEnabled: True when online payment can be offered
+ * - provider: Configured provider name, if any
+ * - isLoading: True while checking
+ */
+export const useOnlinePayment = () => {
+  const [config, setConfig] = useState<OnlinePaymentConfig>({ enabled: false, provider: null });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getOnlinePaymentConfig()
+      .then(setConfig)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return { isEnabled: config.enabled, provider: config.provider, isLoading };
+};
@@ -0,0 +1,98 @@
+/**
+ * useRealtimeTable.ts - Live Table Changes Hook
+ *
+ * Subscribes to Supabase Realtime changes on one table and hands each change
+ * to `onChange`, so admin screens can merge it into the rows they already
+ * hold instead of refetching everything. `applyRealtimeChange` does that
+ * merge for the usual "rows keyed by id" list.
+ *
+ * RLS decides which changes a user receives; the table must be part of the
+ * `supabase_realtime` publication.
+ *
+ * @example
+ * ```tsx
+ * useRealtimeTable("registration_invites", (change) =>
+ *   setInvites((rows) => applyRealtimeChange(rows, change))
+ * );
+ * ```
+ */
+
+import { useEffect, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type RealtimeTable = "registrations" | "bed_assignments" | "registration_invites";
+
+export interface RealtimeChange<T> {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  /** ID of the changed row */
+  id: string;
+  /** The row after the change; null when it was deleted */
+  row: T | null;
+}
+
+// Each subscription needs its own channel, even for the same table
+let channelCount = 0;
+
+/**
+ * useRealtimeTable Hook
+ *
+ * @param table - Table to watch
+ * @param onChange - Called for every insert, update and delete. Always the
+ *   latest callback is used, so it may read current state without being memoized
+ * @param enabled - Pass false to unsubscribe
+ */
+export const useRealtimeTable = <K extends RealtimeTable>(
+  table: K,
+  onChange: (change: RealtimeChange<Tables<K>>) => void,
+  enabled = true
+) => {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`realtime-${table}-${++channelCount}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table },
+        (payload: RealtimePostgresChangesPayload<Tables<K>>) => {
+          const row = payload.eventType === "DELETE" ? null : (payload.new as Tables<K>);
+          const id = ((row ?? payload.old) as { id?: string }).id;
+          if (!id) return;
+          onChangeRef.current({ eventType: payload.eventType, id, row });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, enabled]);
+};
+
+/**
+ * Merges a change into a list of rows. Changed rows are updated in place,
+ * new rows go first (lists are newest first), and deleted rows - or rows
+ * failing `include`, e.g. no longer matching the screen's query - are dropped.
+ */
+export const applyRealtimeChange = <T extends { id: string }, R extends T>(
+  rows: T[],
+  change: RealtimeChange<R>,
+  include: (row: R) => boolean = () => true
+): T[] => {
+  const others = rows.filter((row) => row.id !== change.id);
+  if (!change.row || !include(change.row)) {
+    return others.length === rows.length ? rows : others;
+  }
+
+  const index = rows.findIndex((row) => row.id === change.id);
+  if (index === -1) return [change.row, ...rows];
+
+  const next = [...rows];
+  next[index] = { ...rows[index], ...change.row };
+  return next;
+};
@@ -1,28 +1,26 @@
 /**
  * useRecaptcha.ts - Google reCAPTCHA v3 Integration Hook
  * 
- * NOTE: This hook is currently NOT USED in the application.
- * The application uses useHoneypot for bot protection instead,
- * which provides a simpler, zero-dependency solution.
+ * The registration forms send a token for the "register" action with
+ * every submission. verify-captcha-register checks it server-side
+ * (see supabase/functions/_shared/botProtection.ts) alongside per-IP and
+ * per-email rate limits; useHoneypot signals are recorded but not enforced.
  * 
- * This hook remains for potential future use if stronger bot
- * protection is needed. reCAPTCHA v3 provides:
+ * reCAPTCHA v3 provides:
  * - Invisible verification (no user interaction)
  * - Risk scoring for each action
  * - Machine learning-based bot detection
  * 
  * Considerations:
- * - Requires Google account and API setup
  * - Adds external script dependency (~100KB)
- * - May be blocked by ad-blockers or firewalls
+ * - May be blocked by ad-blockers or firewalls; the server then rejects
+ *   the submission with CAPTCHA_MISSING and an actionable message
  * - GDPR compliance considerations
- * 
- * @deprecated Currently unused - see useHoneypot.ts
  */
 
 import { useEffect, useCallback } from "react";
 
-// reCAPTCHA v3 Site Key - replace with actual key if re-enabled
+// reCAPTCHA v3 Site Key (public); the matching secret is RECAPTCHA_SECRET_KEY on the server
 const RECAPTCHA_SITE_KEY = "6LchWkgsAAAAAIWpNxur7VomXXyOQVuy9eoDUD3d";
 
 /**
@@ -0,0 +1,134 @@
+/**
+ * useRegistrationDraft.ts - Registration Form Autosave Hook
+ *
+ * Autosaves the registration form to an encrypted local draft (see
+ * lib/applicationStorage.ts) a second after the last change, and offers
+ * a draft left by an earlier visit for resuming.
+ *
+ * While a saved draft is waiting for the user to resume or discard it,
+ * nothing is autosaved, so an untouched fresh form never overwrites it.
+ * Payment proofs live outside the form and are never saved.
+ *
+ * @example
+ * ```tsx
+ * const { pendingDraft, resumeDraft, discardDraft, flushDraft, clearSavedDraft } =
+ *   useRegistrationDraft({ form, scope: "public", enabled: viewState === "form", paymentMethod, onRestore });
+ * useIdleAutoRefresh({ onBeforeRefresh: flushDraft });
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { clearDraft, loadDraft, saveDraft, type RegistrationDraft } from "@/lib/applicationStorage";
+import type { RegistrantData } from "@/components/registration/types";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const cancelTimer = (timerRef: MutableRefObject<ReturnType<typeof setTimeout> | null>) => {
+  if (timerRef.current) clearTimeout(timerRef.current);
+  timerRef.current = null;
+};
+
+/** Everything a draft restores */
+export interface RegistrationDraftData {
+  values: RegistrantData;
+  paymentMethod: "proof" | "online";
+}
+
+interface Options {
+  form: UseFormReturn<RegistrantData>;
+  /** Separates drafts of different forms, e.g. the public form and each invite */
+  scope: string;
+  /** Autosave only while the form is being filled in */
+  enabled: boolean;
+  paymentMethod: "proof" | "online";
+  /** Applies restored state that lives outside the form */
+  onRestore: (data: RegistrationDraftData) => void;
+}
+
+export const useRegistrationDraft = ({ form, scope, enabled, paymentMethod, onRestore }: Options) => {
+  const [pendingDraft, setPendingDraft] = useState<RegistrationDraft<RegistrationDraftData> | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped on clear so a save still in flight removes what it wrote
+  const generationRef = useRef(0);
+
+  // Subscribe to dirtiness so unchanged forms aren't saved
+  const { isDirty } = form.formState;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsReady(false);
+    loadDraft<RegistrationDraftData>(scope).then((draft) => {
+      if (cancelled) return;
+      setPendingDraft(draft);
+      setIsReady(!draft);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const save = useCallback(async () => {
+    cancelTimer(timerRef);
+    if (!isReady || !enabled || !form.formState.isDirty) return;
+
+    const generation = generationRef.current;
+    await saveDraft<RegistrationDraftData>(scope, { values: form.getValues(), paymentMethod });
+    if (generation !== generationRef.current) clearDraft(scope);
+  }, [isReady, enabled, form, scope, paymentMethod]);
+
+  // Debounced autosave on every form change
+  useEffect(() => {
+    if (!isReady || !enabled) return;
+    const subscription = form.watch(() => {
+      cancelTimer(timerRef);
+      timerRef.current = setTimeout(save, AUTOSAVE_DELAY_MS);
+    });
+    return () => {
+      subscription.unsubscribe();
+      cancelTimer(timerRef);
+    };
+  }, [form, isReady, enabled, save]);
+
+  // Payment method is component state, not a form field. save() is read
+  // through a ref so that only a change of method triggers a save here;
+  // it skips forms that are not dirty.
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  useEffect(() => {
+    saveRef.current();
+  }, [paymentMethod]);
+
+  const resumeDraft = useCallback(() => {
+    if (!pendingDraft) return;
+    form.reset(pendingDraft.data.values);
+    onRestore(pendingDraft.data);
+    setPendingDraft(null);
+    setIsReady(true);
+  }, [pendingDraft, form, onRestore]);
+
+  /** Removes the saved draft, e.g. once the registration is submitted */
+  const clearSavedDraft = useCallback(() => {
+    cancelTimer(timerRef);
+    generationRef.current++;
+    clearDraft(scope);
+  }, [scope]);
+
+  const discardDraft = useCallback(() => {
+    clearSavedDraft();
+    setPendingDraft(null);
+    setIsReady(true);
+  }, [clearSavedDraft]);
+
+  return {
+    /** A draft from an earlier visit awaiting resume or discard */
+    pendingDraft,
+    resumeDraft,
+    discardDraft,
+    /** Saves immediately, skipping the autosave delay */
+    flushDraft: save,
+    clearSavedDraft,
+  };
+};
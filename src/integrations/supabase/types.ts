@@ -51,6 +51,8 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          end_hour: number
+          end_minute: number
           id: string
           is_registration_open: boolean
           label: string | null
@@ -60,6 +62,7 @@ export type Database = {
           show_stay_option: boolean
           start_hour: number
           start_minute: number
+          unpaid_expiry_days: number | null
           updated_at: string
           year_from: number
           year_to: number
@@ -67,6 +70,8 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          end_hour?: number
+          end_minute?: number
           id?: string
           is_registration_open?: boolean
           label?: string | null
@@ -76,6 +81,7 @@ export type Database = {
           show_stay_option?: boolean
           start_hour?: number
           start_minute?: number
+          unpaid_expiry_days?: number | null
           updated_at?: string
           year_from: number
           year_to: number
@@ -83,6 +89,8 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          end_hour?: number
+          end_minute?: number
           id?: string
           is_registration_open?: boolean
           label?: string | null
@@ -92,6 +100,7 @@ export type Database = {
           show_stay_option?: boolean
           start_hour?: number
           start_minute?: number
+          unpaid_expiry_days?: number | null
           updated_at?: string
           year_from?: number
           year_to?: number
@@ -140,6 +149,71 @@ export type Database = {
           },
         ]
       }
+      cancellation_requests: {
+        Row: {
+          created_at: string
+          id: string
+          reason: string
+          refund_amount: number | null
+          registration_id: string
+          requested_by_email: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reason: string
+          refund_amount?: number | null
+          registration_id: string
+          requested_by_email: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reason?: string
+          refund_amount?: number | null
+          registration_id?: string
+          requested_by_email?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_requests_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      capabilities: {
+        Row: {
+          description: string
+          key: string
+        }
+        Insert: {
+          description: string
+          key: string
+        }
+        Update: {
+          description?: string
+          key?: string
+        }
+        Relationships: []
+      }
       client_error_logs: {
         Row: {
           console_logs: Json | null
@@ -190,31 +264,188 @@ export type Database = {
       }
       email_otps: {
         Row: {
+          attempts: number
           created_at: string
           email: string
           expires_at: string
           id: string
           otp_code: string
+          purpose: string
           verified: boolean
         }
         Insert: {
+          attempts?: number
           created_at?: string
           email: string
           expires_at: string
           id?: string
           otp_code: string
+          purpose?: string
           verified?: boolean
         }
         Update: {
+          attempts?: number
           created_at?: string
           email?: string
           expires_at?: string
           id?: string
           otp_code?: string
+          purpose?: string
           verified?: boolean
         }
         Relationships: []
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          category: string
+          created_at: string
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string | null
+          payload: Json | null
+          provider: string | null
+          provider_message_id: string | null
+          registration_id: string | null
+          sensitive: boolean
+          sent_at: string | null
+          status: string
+          subject: string
+          to_email: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          category: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          payload?: Json | null
+          provider?: string | null
+          provider_message_id?: string | null
+          registration_id?: string | null
+          sensitive?: boolean
+          sent_at?: string | null
+          status?: string
+          subject: string
+          to_email: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          category?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          payload?: Json | null
+          provider?: string | null
+          provider_message_id?: string | null
+          registration_id?: string | null
+          sensitive?: boolean
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          to_email?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body_html: string
+          created_at: string
+          key: string
+          subject: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          body_html: string
+          created_at?: string
+          key: string
+          subject: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          body_html?: string
+          created_at?: string
+          key?: string
+          subject?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      fee_schedules: {
+        Row: {
+          batch_configuration_id: string
+          companion_on_campus_fee: number | null
+          companion_outside_fee: number | null
+          created_at: string
+          early_bird_deadline: string | null
+          early_bird_on_campus_fee: number | null
+          early_bird_outside_fee: number | null
+          id: string
+          invite_on_campus_fee: number | null
+          invite_outside_fee: number | null
+          on_campus_fee: number
+          outside_fee: number
+          updated_at: string
+        }
+        Insert: {
+          batch_configuration_id: string
+          companion_on_campus_fee?: number | null
+          companion_outside_fee?: number | null
+          created_at?: string
+          early_bird_deadline?: string | null
+          early_bird_on_campus_fee?: number | null
+          early_bird_outside_fee?: number | null
+          id?: string
+          invite_on_campus_fee?: number | null
+          invite_outside_fee?: number | null
+          on_campus_fee?: number
+          outside_fee?: number
+          updated_at?: string
+        }
+        Update: {
+          batch_configuration_id?: string
+          companion_on_campus_fee?: number | null
+          companion_outside_fee?: number | null
+          created_at?: string
+          early_bird_deadline?: string | null
+          early_bird_on_campus_fee?: number | null
+          early_bird_outside_fee?: number | null
+          id?: string
+          invite_on_campus_fee?: number | null
+          invite_outside_fee?: number | null
+          on_campus_fee?: number
+          outside_fee?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_schedules_batch_configuration_id_fkey"
+            columns: ["batch_configuration_id"]
+            isOneToOne: true
+            referencedRelation: "batch_configuration"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       geofence_settings: {
         Row: {
           created_at: string
@@ -252,22 +483,34 @@ export type Database = {
         Row: {
           beds_count: number
           created_at: string
+          gender: string | null
+          has_attached_washroom: boolean
           hostel_id: string
           id: string
+          is_accessible: boolean
+          is_ground_floor: boolean
           room_number: string
         }
         Insert: {
           beds_count?: number
           created_at?: string
+          gender?: string | null
+          has_attached_washroom?: boolean
           hostel_id: string
           id?: string
+          is_accessible?: boolean
+          is_ground_floor?: boolean
           room_number: string
         }
         Update: {
           beds_count?: number
           created_at?: string
+          gender?: string | null
+          has_attached_washroom?: boolean
           hostel_id?: string
           id?: string
+          is_accessible?: boolean
+          is_ground_floor?: boolean
           room_number?: string
         }
         Relationships: [
@@ -284,6 +527,7 @@ export type Database = {
         Row: {
           beds_per_room: number
           created_at: string
+          gender: string | null
           id: string
           name: string
           total_rooms: number
@@ -293,6 +537,7 @@ export type Database = {
         Insert: {
           beds_per_room?: number
           created_at?: string
+          gender?: string | null
           id?: string
           name: string
           total_rooms?: number
@@ -302,6 +547,7 @@ export type Database = {
         Update: {
           beds_per_room?: number
           created_at?: string
+          gender?: string | null
           id?: string
           name?: string
           total_rooms?: number
@@ -310,6 +556,165 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_orders: {
+        Row: {
+          amount: number
+          application_ids: string[]
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          id: string
+          paid_at: string | null
+          provider: string
+          provider_order_id: string
+          provider_payment_id: string | null
+          refund_application_ids: string[]
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          application_ids: string[]
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          paid_at?: string | null
+          provider: string
+          provider_order_id: string
+          provider_payment_id?: string | null
+          refund_application_ids?: string[]
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          application_ids?: string[]
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_order_id?: string
+          provider_payment_id?: string | null
+          refund_application_ids?: string[]
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_reminder_rules: {
+        Row: {
+          created_at: string
+          days_before: number
+          id: string
+          is_enabled: boolean
+          payment_statuses: Database["public"]["Enums"]["payment_status"][]
+          registration_statuses: Database["public"]["Enums"]["registration_status"][]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          days_before: number
+          id?: string
+          is_enabled?: boolean
+          payment_statuses?: Database["public"]["Enums"]["payment_status"][]
+          registration_statuses?: Database["public"]["Enums"]["registration_status"][]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          days_before?: number
+          id?: string
+          is_enabled?: boolean
+          payment_statuses?: Database["public"]["Enums"]["payment_status"][]
+          registration_statuses?: Database["public"]["Enums"]["registration_status"][]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_reminder_settings: {
+        Row: {
+          id: boolean
+          max_reminders_per_person: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          max_reminders_per_person?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          max_reminders_per_person?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      payment_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          group_application_id: string
+          id: string
+          kind: string
+          method: string | null
+          note: string | null
+          payment_order_id: string | null
+          recorded_by: string | null
+          reference: string | null
+          registration_id: string | null
+          transaction_date: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          group_application_id: string
+          id?: string
+          kind: string
+          method?: string | null
+          note?: string | null
+          payment_order_id?: string | null
+          recorded_by?: string | null
+          reference?: string | null
+          registration_id?: string | null
+          transaction_date?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          group_application_id?: string
+          id?: string
+          kind?: string
+          method?: string | null
+          note?: string | null
+          payment_order_id?: string | null
+          recorded_by?: string | null
+          reference?: string | null
+          registration_id?: string | null
+          transaction_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_transactions_payment_order_id_fkey"
+            columns: ["payment_order_id"]
+            isOneToOne: false
+            referencedRelation: "payment_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_transactions_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -334,6 +739,151 @@ export type Database = {
         }
         Relationships: []
       }
+      registrant_portal_sessions: {
+        Row: {
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          token_hash?: string
+        }
+        Relationships: []
+      }
+      registration_attempts: {
+        Row: {
+          captcha_score: number | null
+          created_at: string
+          details: Json
+          email: string
+          id: string
+          ip_address: string | null
+          outcome: string
+          reason: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          captcha_score?: number | null
+          created_at?: string
+          details?: Json
+          email: string
+          id?: string
+          ip_address?: string | null
+          outcome: string
+          reason?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          captcha_score?: number | null
+          created_at?: string
+          details?: Json
+          email?: string
+          id?: string
+          ip_address?: string | null
+          outcome?: string
+          reason?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      registration_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          field: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          registration_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          field: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          registration_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          field?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          registration_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_changes_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_edit_requests: {
+        Row: {
+          created_at: string
+          id: string
+          registration_id: string
+          requested_by_email: string
+          requested_changes: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          registration_id: string
+          requested_by_email: string
+          requested_changes: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          registration_id?: string
+          requested_by_email?: string
+          requested_changes?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "registration_edit_requests_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       registration_invites: {
         Row: {
           created_at: string
@@ -390,11 +940,18 @@ export type Database = {
           approval_email_sent: boolean | null
           approved_at: string | null
           approved_by: string | null
+          attendee_type: string
           board_type: string
+          checked_in_at: string | null
+          checked_in_by: string | null
           city: string
           confirmation_email_sent: boolean | null
           country: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          deleted_by_email: string | null
+          deletion_reason: string | null
           district: string
           edit_changes_summary: string | null
           edit_mode_enabled: boolean | null
@@ -402,10 +959,12 @@ export type Database = {
           edit_mode_enabled_by: string | null
           edit_mode_reason: string | null
           email: string
+          expired_at: string | null
           gender: string
           hostel_name: string | null
           id: string
           invite_token: string | null
+          merged_payments: Json
           name: string
           occupation: string
           parent_application_id: string | null
@@ -418,6 +977,7 @@ export type Database = {
           phone: string
           postal_code: string
           qr_code_data: string | null
+          reenabled_at: string | null
           registration_fee: number
           registration_status: Database["public"]["Enums"]["registration_status"]
           rejection_reason: string | null
@@ -425,7 +985,10 @@ export type Database = {
           stay_type: string
           tshirt_size: string
           updated_at: string
+          version: number
           via_invite: boolean
+          waitlist_promoted_at: string | null
+          waitlisted_at: string | null
           year_of_passing: number
         }
         Insert: {
@@ -438,11 +1001,18 @@ export type Database = {
           approval_email_sent?: boolean | null
           approved_at?: string | null
           approved_by?: string | null
+          attendee_type?: string
           board_type?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           city: string
           confirmation_email_sent?: boolean | null
           country?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deleted_by_email?: string | null
+          deletion_reason?: string | null
           district: string
           edit_changes_summary?: string | null
           edit_mode_enabled?: boolean | null
@@ -450,10 +1020,12 @@ export type Database = {
           edit_mode_enabled_by?: string | null
           edit_mode_reason?: string | null
           email: string
+          expired_at?: string | null
           gender: string
           hostel_name?: string | null
           id?: string
           invite_token?: string | null
+          merged_payments?: Json
           name: string
           occupation: string
           parent_application_id?: string | null
@@ -466,6 +1038,7 @@ export type Database = {
           phone: string
           postal_code: string
           qr_code_data?: string | null
+          reenabled_at?: string | null
           registration_fee: number
           registration_status?: Database["public"]["Enums"]["registration_status"]
           rejection_reason?: string | null
@@ -473,7 +1046,10 @@ export type Database = {
           stay_type: string
           tshirt_size: string
           updated_at?: string
+          version?: number
           via_invite?: boolean
+          waitlist_promoted_at?: string | null
+          waitlisted_at?: string | null
           year_of_passing: number
         }
         Update: {
@@ -486,11 +1062,18 @@ export type Database = {
           approval_email_sent?: boolean | null
           approved_at?: string | null
           approved_by?: string | null
+          attendee_type?: string
           board_type?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           city?: string
           confirmation_email_sent?: boolean | null
           country?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deleted_by_email?: string | null
+          deletion_reason?: string | null
           district?: string
           edit_changes_summary?: string | null
           edit_mode_enabled?: boolean | null
@@ -498,10 +1081,12 @@ export type Database = {
           edit_mode_enabled_by?: string | null
           edit_mode_reason?: string | null
           email?: string
+          expired_at?: string | null
           gender?: string
           hostel_name?: string | null
           id?: string
           invite_token?: string | null
+          merged_payments?: Json
           name?: string
           occupation?: string
           parent_application_id?: string | null
@@ -514,6 +1099,7 @@ export type Database = {
           phone?: string
           postal_code?: string
           qr_code_data?: string | null
+          reenabled_at?: string | null
           registration_fee?: number
           registration_status?: Database["public"]["Enums"]["registration_status"]
           rejection_reason?: string | null
@@ -521,7 +1107,10 @@ export type Database = {
           stay_type?: string
           tshirt_size?: string
           updated_at?: string
+          version?: number
           via_invite?: boolean
+          waitlist_promoted_at?: string | null
+          waitlisted_at?: string | null
           year_of_passing?: number
         }
         Relationships: [
@@ -534,6 +1123,116 @@ export type Database = {
           },
         ]
       }
+      reminder_log: {
+        Row: {
+          application_ids: string[]
+          batch_configuration_id: string
+          created_at: string
+          days_remaining: number
+          email: string
+          id: string
+          registration_id: string | null
+          rule_id: string | null
+        }
+        Insert: {
+          application_ids: string[]
+          batch_configuration_id: string
+          created_at?: string
+          days_remaining: number
+          email: string
+          id?: string
+          registration_id?: string | null
+          rule_id?: string | null
+        }
+        Update: {
+          application_ids?: string[]
+          batch_configuration_id?: string
+          created_at?: string
+          days_remaining?: number
+          email?: string
+          id?: string
+          registration_id?: string | null
+          rule_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_log_batch_configuration_id_fkey"
+            columns: ["batch_configuration_id"]
+            isOneToOne: false
+            referencedRelation: "batch_configuration"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminder_log_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminder_log_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "payment_reminder_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_capabilities: {
+        Row: {
+          capability: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          capability: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          capability?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_capabilities_capability_fkey"
+            columns: ["capability"]
+            isOneToOne: false
+            referencedRelation: "capabilities"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      user_capability_overrides: {
+        Row: {
+          capability: string
+          created_at: string
+          created_by: string | null
+          granted: boolean
+          user_id: string
+        }
+        Insert: {
+          capability: string
+          created_at?: string
+          created_by?: string | null
+          granted: boolean
+          user_id: string
+        }
+        Update: {
+          capability?: string
+          created_at?: string
+          created_by?: string | null
+          granted?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_capability_overrides_capability_fkey"
+            columns: ["capability"]
+            isOneToOne: false
+            referencedRelation: "capabilities"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
       user_device_sessions: {
         Row: {
           browser: string | null
@@ -647,8 +1346,37 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      approve_cancellation_request: {
+        Args: { _note?: string; _refund_amount: number; _request_id: string }
+        Returns: undefined
+      }
       cleanup_expired_otps: { Args: never; Returns: undefined }
+      expire_unpaid_registrations: {
+        Args: never
+        Returns: {
+          application_id: string
+          email: string
+          id: string
+          name: string
+          released_bed: boolean
+        }[]
+      }
       generate_application_id: { Args: never; Returns: string }
+      get_active_fee_schedule: {
+        Args: never
+        Returns: {
+          batch_configuration_id: string
+          companion_on_campus_fee: number
+          companion_outside_fee: number
+          early_bird_deadline: string
+          early_bird_on_campus_fee: number
+          early_bird_outside_fee: number
+          invite_on_campus_fee: number
+          invite_outside_fee: number
+          on_campus_fee: number
+          outside_fee: number
+        }[]
+      }
       get_geofence_settings: {
         Args: never
         Returns: {
@@ -658,6 +1386,16 @@ export type Database = {
           radius_km: number
         }[]
       }
+      get_my_capabilities: { Args: never; Returns: string[] }
+      get_on_campus_capacity: {
+        Args: never
+        Returns: {
+          remaining_beds: number
+          reserved_beds: number
+          total_beds: number
+          waitlist_count: number
+        }[]
+      }
       get_open_batch_configuration: {
         Args: never
         Returns: {
@@ -670,6 +1408,18 @@ export type Database = {
           year_to: number
         }[]
       }
+      get_registration_window: {
+        Args: never
+        Returns: {
+          closes_at: string
+          id: string
+          opens_at: string
+        }[]
+      }
+      has_capability: {
+        Args: { _capability: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -681,11 +1431,131 @@ export type Database = {
       is_admin_or_superadmin: { Args: { _user_id: string }; Returns: boolean }
       is_registration_manager: { Args: { _user_id: string }; Returns: boolean }
       is_user_superadmin: { Args: { _user_id: string }; Returns: boolean }
+      list_deleted_registrations: {
+        Args: never
+        Returns: {
+          accounts_verified: boolean
+          accounts_verified_at: string | null
+          accounts_verified_by: string | null
+          address_line1: string
+          address_line2: string | null
+          application_id: string
+          approval_email_sent: boolean | null
+          approved_at: string | null
+          approved_by: string | null
+          attendee_type: string
+          board_type: string
+          checked_in_at: string | null
+          checked_in_by: string | null
+          city: string
+          confirmation_email_sent: boolean | null
+          country: string
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          deleted_by_email: string | null
+          deletion_reason: string | null
+          district: string
+          edit_changes_summary: string | null
+          edit_mode_enabled: boolean | null
+          edit_mode_enabled_at: string | null
+          edit_mode_enabled_by: string | null
+          edit_mode_reason: string | null
+          email: string
+          expired_at: string | null
+          gender: string
+          hostel_name: string | null
+          id: string
+          invite_token: string | null
+          merged_payments: Json
+          name: string
+          occupation: string
+          parent_application_id: string | null
+          payment_date: string | null
+          payment_proof_url: string | null
+          payment_receipt_url: string | null
+          payment_reference: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          pending_admin_approval: boolean | null
+          phone: string
+          postal_code: string
+          qr_code_data: string | null
+          reenabled_at: string | null
+          registration_fee: number
+          registration_status: Database["public"]["Enums"]["registration_status"]
+          rejection_reason: string | null
+          state: string
+          stay_type: string
+          tshirt_size: string
+          updated_at: string
+          version: number
+          via_invite: boolean
+          waitlist_promoted_at: string | null
+          waitlisted_at: string | null
+          year_of_passing: number
+        }[]
+      }
+      merge_registrations: {
+        Args: { _duplicate_id: string; _keep_id: string }
+        Returns: Json
+      }
+      promote_waitlisted_registrations: {
+        Args: { _limit: number }
+        Returns: {
+          application_id: string
+          email: string
+          id: string
+          name: string
+        }[]
+      }
+      registration_search_vector: {
+        Args: {
+          _application_id: string
+          _email: string
+          _name: string
+          _phone: string
+        }
+        Returns: unknown
+      }
+      require_capability: { Args: { _capability: string }; Returns: undefined }
+      restore_registration: {
+        Args: { _registration_id: string }
+        Returns: undefined
+      }
+      search_registrations: {
+        Args: {
+          _board_type?: string
+          _gender?: string
+          _hostel?: string
+          _limit?: number
+          _offset?: number
+          _payment_status?: Database["public"]["Enums"]["payment_status"]
+          _registration_status?: Database["public"]["Enums"]["registration_status"]
+          _search?: string
+          _stay_type?: string
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: Json
+      }
+      soft_delete_registration: {
+        Args: {
+          _expected_version: number
+          _reason: string
+          _registration_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "superadmin" | "admin" | "user" | "accounts_admin" | "reviewer"
       payment_status: "pending" | "submitted" | "verified" | "rejected"
-      registration_status: "pending" | "approved" | "rejected" | "expired"
+      registration_status:
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "expired"
+        | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -815,7 +1685,13 @@ export const Constants = {
     Enums: {
       app_role: ["superadmin", "admin", "user", "accounts_admin", "reviewer"],
       payment_status: ["pending", "submitted", "verified", "rejected"],
-      registration_status: ["pending", "approved", "rejected", "expired"],
+      registration_status: [
+        "pending",
+        "approved",
+        "rejected",
+        "expired",
+        "cancelled",
+      ],
     },
   },
 } as const
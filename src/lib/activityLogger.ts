@@ -39,7 +39,18 @@ export type AdminActionType =
   | 'bed_unassignment'      // Removed bed assignment
   | 'edit_mode_enabled'     // Superadmin enabled edit mode for a registration
   | 'edit_mode_proof_upload'// Accounts admin uploaded new proof in edit mode
-  | 'edit_mode_final_approval'; // Admin final approval after edit mode changes
+  | 'edit_mode_final_approval' // Admin final approval after edit mode changes
+  | 'check_in'              // Recorded an attendee's arrival by QR code
+  | 'email_resend'          // Resent failed emails from the Email Log
+  | 'waitlist_promotion'    // Moved a registrant from the on-campus waitlist into a bed
+  | 'ledger_entry'          // Recorded a payment, refund or adjustment in the ledger
+  | 'cancellation_approval' // Approved a registrant's cancellation request
+  | 'cancellation_decline'  // Declined a registrant's cancellation request
+  | 'registration_import'   // Created a registration group from a spreadsheet import
+  | 'registration_merge'    // Merged a duplicate registration into the one kept
+  | 'registration_deletion' // Moved a registration to the recycle bin
+  | 'registration_restore'  // Restored a registration from the recycle bin
+  | 'registration_purge';   // Permanently removed registrations from the recycle bin
 
 /**
  * Parameters for logging admin activity
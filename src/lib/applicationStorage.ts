@@ -1,172 +1,177 @@
 /**
- * applicationStorage.ts - Local Storage Utilities for Applications
- * 
- * LEGACY MODULE: This was used before Supabase integration for local-only storage.
- * Now primarily kept for backwards compatibility and potential offline scenarios.
- * 
- * The current application uses Supabase for persistent storage instead.
- * These utilities could be useful for:
- * - Offline form draft saving
- * - Caching application data locally
- * - Development/testing without database
- * 
- * Data Structure:
- * - Applications are stored as a Record<applicationId, ApplicationData>
- * - Each application has a unique ID in format ALM-{timestamp}-{random}
- * - Timestamps track creation and last update times
+ * applicationStorage.ts - Encrypted Registration Drafts
+ *
+ * Keeps an in-progress registration on this device so a refresh, a crash
+ * or the idle auto-refresh (see useIdleAutoRefresh) doesn't wipe a form
+ * that may hold dozens of attendees.
+ *
+ * Storage:
+ * - The draft is AES-GCM encrypted and stored in localStorage
+ * - The key is a non-extractable CryptoKey kept in IndexedDB, so the
+ *   draft's personal details are unreadable in a localStorage export or
+ *   a copied browser profile. It does not protect against script running
+ *   on this origin, which can use the key like we do.
+ * - Drafts expire after DRAFT_TTL_MS and are scoped (public form vs. a
+ *   specific invite) so two forms never restore each other's data
+ *
+ * Everything is best effort: without Web Crypto or IndexedDB (e.g. an
+ * insecure context or private browsing) drafts are simply not saved.
+ * Payment proofs are never part of a draft.
  */
 
+/** Bump when the draft shape changes; older drafts are discarded */
+const DRAFT_VERSION = 1;
+
+/** Drafts older than this are discarded */
+export const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DRAFT_KEY_PREFIX = "alumni_registration_draft";
+const KEY_DB_NAME = "alumni_registration";
+const KEY_STORE = "keys";
+const KEY_ID = "draft";
+
+export interface RegistrationDraft<T> {
+  /** ISO string of the last save */
+  savedAt: string;
+  data: T;
+}
+
+interface StoredDraft {
+  version: number;
+  /** Base64 AES-GCM initialisation vector */
+  iv: string;
+  /** Base64 ciphertext of the JSON-encoded RegistrationDraft */
+  ciphertext: string;
+}
+
+const storageKey = (scope: string) => `${DRAFT_KEY_PREFIX}:${scope}`;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(""));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const isSupported = () =>
+  typeof window !== "undefined" && !!window.crypto?.subtle && !!window.indexedDB && !!window.localStorage;
+
 /**
- * Interface for application data stored locally
- * Mirrors the structure used in the Supabase registrations table
+ * Opens the key store
  */
-export interface ApplicationData {
-  /** Unique application identifier (e.g., ALM-ABC123-XYZ) */
-  applicationId: string;
-  /** Applicant's full name */
-  name: string;
-  /** Applicant's email address */
-  email: string;
-  /** Applicant's phone number */
-  phone: string;
-  /** Applicant's current occupation */
-  occupation: string;
-  /** Year of passing from school */
-  yearOfPassing: string;
-  /** Full address (legacy field) */
-  address: string;
-  /** Type of stay: on-campus or outside */
-  stayType: "on-campus" | "outside";
-  /** T-shirt size selection */
-  tshirtSize: "S" | "M" | "L" | "XL";
-  /** Gender: Male or Female */
-  gender: "M" | "F";
-  /** Current payment status */
-  paymentStatus: "pending" | "submitted";
-  /** Payment reference number (optional) */
-  paymentReference?: string;
-  /** Date of payment (optional) */
-  paymentDate?: string;
-  /** ISO string of when application was created */
-  createdAt: string;
-  /** ISO string of when application was last modified */
-  updatedAt: string;
-}
+const openKeyDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 
-/** localStorage key for storing applications */
-const STORAGE_KEY = "alumni_registrations";
+/** Singleton so concurrent saves don't race to create two keys */
+let keyPromise: Promise<CryptoKey> | null = null;
 
 /**
- * Generates a unique application ID
- * 
- * Format: ALM-{timestamp_base36}-{random_4chars}
- * Example: ALM-M2X9KLP-A7B3
- * 
- * Using base36 for timestamp keeps it short while maintaining uniqueness.
- * The random suffix adds collision resistance for simultaneous creations.
- * 
- * @returns A unique application ID string
+ * Loads the draft key, creating it on first use
  */
-export const generateApplicationId = (): string => {
-  // Convert current timestamp to base36 (alphanumeric, shorter than decimal)
-  const timestamp = Date.now().toString(36).toUpperCase();
-  // Generate 4 random characters for additional uniqueness
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `ALM-${timestamp}-${random}`;
+const getDraftKey = (): Promise<CryptoKey> => {
+  if (keyPromise) return keyPromise;
+
+  keyPromise = (async () => {
+    const db = await openKeyDb();
+    try {
+      const existing = await new Promise<CryptoKey | undefined>((resolve, reject) => {
+        const request = db.transaction(KEY_STORE, "readonly").objectStore(KEY_STORE).get(KEY_ID);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(KEY_STORE, "readwrite");
+        tx.objectStore(KEY_STORE).put(key, KEY_ID);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+      return key;
+    } finally {
+      db.close();
+    }
+  })();
+
+  // Let a later call retry if this attempt failed
+  keyPromise.catch(() => {
+    keyPromise = null;
+  });
+  return keyPromise;
 };
 
 /**
- * Retrieves all applications from localStorage
- * 
- * @returns Record of application ID to ApplicationData, or empty object
+ * Encrypts and stores a draft, replacing any previous one for the scope
+ *
+ * @returns Whether the draft was saved
  */
-export const getAllApplications = (): Record<string, ApplicationData> => {
+export const saveDraft = async <T>(scope: string, data: T): Promise<boolean> => {
+  if (!isSupported()) return false;
+
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : {};
-  } catch {
-    // If localStorage is unavailable or data is corrupted, return empty
-    return {};
+    const key = await getDraftKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const draft: RegistrationDraft<T> = { savedAt: new Date().toISOString(), data };
+    const plaintext = new TextEncoder().encode(JSON.stringify(draft));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext));
+
+    const stored: StoredDraft = { version: DRAFT_VERSION, iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+    localStorage.setItem(storageKey(scope), JSON.stringify(stored));
+    return true;
+  } catch (error) {
+    console.warn("Failed to save registration draft:", error);
+    return false;
   }
 };
 
 /**
- * Saves a new application to localStorage
- * 
- * Automatically generates:
- * - applicationId
- * - createdAt timestamp
- * - updatedAt timestamp
- * 
- * @param data - Application data without auto-generated fields
- * @returns The complete ApplicationData with all fields populated
+ * Loads and decrypts the draft for a scope
+ *
+ * Expired, outdated or undecryptable drafts (e.g. the key store was
+ * cleared) are removed.
+ *
+ * @returns The draft, or null if there is none
  */
-export const saveApplication = (data: Omit<ApplicationData, "applicationId" | "createdAt" | "updatedAt">): ApplicationData => {
-  const applications = getAllApplications();
-  const applicationId = generateApplicationId();
-  const now = new Date().toISOString();
-  
-  // Create complete application object
-  const application: ApplicationData = {
-    ...data,
-    applicationId,
-    createdAt: now,
-    updatedAt: now,
-  };
-  
-  // Store in the applications record
-  applications[applicationId] = application;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(applications));
-  
-  return application;
-};
+export const loadDraft = async <T>(scope: string): Promise<RegistrationDraft<T> | null> => {
+  if (!isSupported()) return null;
 
-/**
- * Retrieves a single application by its ID
- * 
- * @param applicationId - The application ID to look up
- * @returns The ApplicationData if found, null otherwise
- */
-export const getApplicationById = (applicationId: string): ApplicationData | null => {
-  const applications = getAllApplications();
-  return applications[applicationId] || null;
+  const raw = localStorage.getItem(storageKey(scope));
+  if (!raw) return null;
+
+  try {
+    const stored = JSON.parse(raw) as StoredDraft;
+    if (stored.version !== DRAFT_VERSION) throw new Error(`Unsupported draft version ${stored.version}`);
+
+    const key = await getDraftKey();
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(stored.iv) },
+      key,
+      fromBase64(stored.ciphertext)
+    );
+    const draft = JSON.parse(new TextDecoder().decode(plaintext)) as RegistrationDraft<T>;
+
+    if (Date.now() - new Date(draft.savedAt).getTime() > DRAFT_TTL_MS) {
+      clearDraft(scope);
+      return null;
+    }
+    return draft;
+  } catch (error) {
+    console.warn("Discarding unreadable registration draft:", error);
+    clearDraft(scope);
+    return null;
+  }
 };
 
 /**
- * Updates payment details for an existing application
- * 
- * Sets:
- * - paymentStatus to "submitted"
- * - paymentReference to the provided value
- * - paymentDate to the provided value
- * - updatedAt to current timestamp
- * 
- * @param applicationId - The application to update
- * @param paymentReference - Transaction reference number
- * @param paymentDate - Date of payment
- * @returns Updated ApplicationData if found, null otherwise
+ * Removes the draft for a scope
  */
-export const updatePaymentDetails = (
-  applicationId: string, 
-  paymentReference: string, 
-  paymentDate: string
-): ApplicationData | null => {
-  const applications = getAllApplications();
-  const application = applications[applicationId];
-  
-  if (!application) {
-    return null;
+export const clearDraft = (scope: string) => {
+  try {
+    localStorage.removeItem(storageKey(scope));
+  } catch {
+    // localStorage unavailable; nothing was saved
   }
-  
-  // Update payment-related fields
-  application.paymentStatus = "submitted";
-  application.paymentReference = paymentReference;
-  application.paymentDate = paymentDate;
-  application.updatedAt = new Date().toISOString();
-  
-  // Save back to localStorage
-  applications[applicationId] = application;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(applications));
-  
-  return application;
 };
@@ -0,0 +1,287 @@
+/**
+ * bankReconciliation.ts - Bank Statement Parsing and Payment Matching
+ *
+ * Lets accounts admins reconcile submitted payments against a bank
+ * statement instead of checking each reference by eye.
+ *
+ * Parsing:
+ * - Accepts CSV or XLSX exports (read with the `xlsx` package, loaded lazily)
+ * - Finds the header row by looking for date and amount/credit columns, so
+ *   bank-specific preamble rows above the table are skipped
+ * - Only credit (incoming) rows are kept
+ *
+ * Matching:
+ * Registrations are matched as payment units: a group's primary applicant
+ * and their attendees (via parent_application_id) pay one combined amount.
+ * - exact:   reference (UTR or application ID) found in the row, amount equal
+ *            to the unit total, and date within DATE_TOLERANCE_DAYS
+ * - fuzzy:   reference found but amount or date differs, a partial reference
+ *            match on the amount, or amount + date only. A row that matches
+ *            several units equally well is always fuzzy, with every tied
+ *            unit listed so the admin can pick the right one
+ * - unmatched: nothing plausible; left for manual review
+ */
+
+import { differenceInCalendarDays, isValid, parse } from 'date-fns';
+
+/** Registration fields needed for matching */
+export interface ReconcilableRegistration {
+  id: string;
+  application_id: string;
+  name: string;
+  registration_fee: number;
+  payment_reference: string | null;
+  payment_date: string | null;
+  created_at: string;
+  parent_application_id: string | null;
+  accounts_verified: boolean;
+  edit_mode_enabled: boolean;
+}
+
+export interface BankStatementRow {
+  /** 1-based row number in the uploaded sheet */
+  rowNumber: number;
+  date: Date | null;
+  amount: number;
+  reference: string;
+  description: string;
+}
+
+export type MatchType = 'exact' | 'fuzzy' | 'unmatched';
+
+/** A group (or single registrant) that paid with one transfer */
+export interface PaymentUnit<T extends ReconcilableRegistration = ReconcilableRegistration> {
+  /** Application ID of the primary applicant */
+  groupId: string;
+  members: T[];
+  totalAmount: number;
+}
+
+export interface StatementMatch<T extends ReconcilableRegistration = ReconcilableRegistration> {
+  row: BankStatementRow;
+  type: MatchType;
+  unit: PaymentUnit<T> | null;
+  /** Other units that matched this row as well as `unit` did */
+  alternatives: PaymentUnit<T>[];
+  /** Why the row was matched the way it was */
+  reason: string;
+}
+
+/** Statement dates may lag the date the registrant reported by a few days */
+const DATE_TOLERANCE_DAYS = 3;
+
+/** Amounts within this many rupees are considered equal (bank rounding) */
+const AMOUNT_TOLERANCE = 1;
+
+/** Shortest reference we trust as a substring match */
+const MIN_REFERENCE_LENGTH = 6;
+
+/** Length of the reference tail used for partial matches */
+const PARTIAL_REFERENCE_LENGTH = 6;
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'dd-MM-yyyy', 'dd/MM/yy', 'dd-MM-yy', 'dd-MMM-yyyy', 'dd MMM yyyy', 'dd-MMM-yy', 'yyyy-MM-dd'];
+
+const HEADER_PATTERNS = {
+  date: /date/i,
+  credit: /credit|deposit|\bcr\b/i,
+  amount: /amount|amt/i,
+  reference: /utr|ref|chq|cheque|transaction id|txn id/i,
+  description: /description|narration|particulars|remarks|details/i,
+};
+
+/** Uppercase alphanumerics only, so references compare regardless of spacing/punctuation */
+const normalizeReference = (value: string | null | undefined) =>
+  (value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const cleaned = String(value ?? '').replace(/[^0-9.-]/g, '');
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const parseStatementDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isValid(value) ? value : null;
+
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  for (const pattern of DATE_FORMATS) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+
+  const fallback = new Date(text);
+  return isValid(fallback) ? fallback : null;
+};
+
+const findColumn = (headers: string[], pattern: RegExp, exclude: number[] = []) =>
+  headers.findIndex((h, index) => !exclude.includes(index) && pattern.test(h));
+
+/**
+ * Reads the first sheet of a CSV/XLSX bank statement into credit rows
+ *
+ * @throws Error if no header row with date and amount columns is found
+ */
+export const parseBankStatement = async (file: File): Promise<BankStatementRow[]> => {
+  const XLSX = await import('xlsx');
+  // raw: keep CSV text as-is so dd/mm dates are not read as US mm/dd
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true, raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The statement file has no sheets');
+
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+
+  // Banks put account details above the table; the header is the first row naming a date and an amount
+  const headerIndex = grid.slice(0, 30).findIndex((cells) => {
+    const headers = cells.map((c) => String(c));
+    return findColumn(headers, HEADER_PATTERNS.date) >= 0 &&
+      (findColumn(headers, HEADER_PATTERNS.credit) >= 0 || findColumn(headers, HEADER_PATTERNS.amount) >= 0);
+  });
+
+  if (headerIndex < 0) {
+    throw new Error('Could not find a header row with Date and Amount/Credit columns');
+  }
+
+  const headers = grid[headerIndex].map((c) => String(c).trim());
+  const dateCol = findColumn(headers, HEADER_PATTERNS.date);
+  const creditCol = findColumn(headers, HEADER_PATTERNS.credit);
+  const amountCol = creditCol >= 0 ? creditCol : findColumn(headers, HEADER_PATTERNS.amount);
+  const referenceCol = findColumn(headers, HEADER_PATTERNS.reference, [dateCol, amountCol]);
+  const descriptionCol = findColumn(headers, HEADER_PATTERNS.description, [dateCol, amountCol, referenceCol]);
+
+  return grid
+    .slice(headerIndex + 1)
+    .map((cells, index): BankStatementRow => ({
+      rowNumber: headerIndex + index + 2,
+      date: parseStatementDate(cells[dateCol]),
+      amount: parseAmount(cells[amountCol]),
+      reference: referenceCol >= 0 ? String(cells[referenceCol] ?? '').trim() : '',
+      description: descriptionCol >= 0 ? String(cells[descriptionCol] ?? '').trim() : '',
+    }))
+    .filter((row) => row.amount > 0);
+};
+
+/**
+ * Groups registrations awaiting verification into payment units
+ */
+export const buildPaymentUnits = <T extends ReconcilableRegistration>(registrations: T[]): PaymentUnit<T>[] => {
+  const units = new Map<string, T[]>();
+
+  registrations
+    .filter((r) => !r.accounts_verified && !r.edit_mode_enabled)
+    .forEach((reg) => {
+      const groupId = reg.parent_application_id ?? reg.application_id;
+      units.set(groupId, [...(units.get(groupId) ?? []), reg]);
+    });
+
+  return Array.from(units.entries()).map(([groupId, members]) => ({
+    groupId,
+    members,
+    totalAmount: members.reduce((sum, m) => sum + (m.registration_fee || 0), 0),
+  }));
+};
+
+const unitReferences = (unit: PaymentUnit) =>
+  [
+    ...unit.members.map((m) => normalizeReference(m.payment_reference)),
+    ...unit.members.map((m) => normalizeReference(m.application_id)),
+  ].filter((ref) => ref.length >= MIN_REFERENCE_LENGTH);
+
+const unitDate = (unit: PaymentUnit): Date | null => {
+  const primary = unit.members.find((m) => m.application_id === unit.groupId) ?? unit.members[0];
+  const value = primary.payment_date ?? primary.created_at;
+  return value ? new Date(value) : null;
+};
+
+const dateWithinTolerance = (row: BankStatementRow, unit: PaymentUnit) => {
+  const expected = unitDate(unit);
+  if (!row.date || !expected) return true;
+  return Math.abs(differenceInCalendarDays(row.date, expected)) <= DATE_TOLERANCE_DAYS;
+};
+
+const amountsEqual = (a: number, b: number) => Math.abs(a - b) <= AMOUNT_TOLERANCE;
+
+interface Candidate {
+  unit: PaymentUnit;
+  type: Exclude<MatchType, 'unmatched'>;
+  score: number;
+  reason: string;
+}
+
+const scoreCandidate = (row: BankStatementRow, unit: PaymentUnit): Candidate | null => {
+  const rowText = normalizeReference(`${row.reference} ${row.description}`);
+  const refs = unitReferences(unit);
+  const fullRef = refs.some((ref) => rowText.includes(ref));
+  const partialRef = !fullRef && refs.some((ref) => rowText.includes(ref.slice(-PARTIAL_REFERENCE_LENGTH)));
+  const amountMatch = amountsEqual(row.amount, unit.totalAmount);
+  const dateMatch = dateWithinTolerance(row, unit);
+
+  if (fullRef && amountMatch && dateMatch) {
+    return { unit, type: 'exact', score: 100, reason: 'Reference, amount and date match' };
+  }
+  if (fullRef && amountMatch) {
+    return { unit, type: 'fuzzy', score: 80, reason: 'Reference and amount match; date differs' };
+  }
+  if (fullRef) {
+    return { unit, type: 'fuzzy', score: 70, reason: `Reference matches; expected ₹${unit.totalAmount.toLocaleString('en-IN')}` };
+  }
+  if (partialRef && amountMatch) {
+    return { unit, type: 'fuzzy', score: 60, reason: 'Partial reference and amount match' };
+  }
+  if (amountMatch && dateMatch && unitDate(unit) && row.date) {
+    return { unit, type: 'fuzzy', score: 40, reason: 'Amount and date match; no reference found' };
+  }
+  return null;
+};
+
+/**
+ * Matches statement rows to payment units. Each unit is used at most once;
+ * stronger matches claim their unit first.
+ */
+export const matchStatementRows = <T extends ReconcilableRegistration>(
+  rows: BankStatementRow[],
+  registrations: T[]
+): StatementMatch<T>[] => {
+  const units = buildPaymentUnits(registrations);
+
+  const candidatesByRow = rows.map((row) =>
+    units
+      .map((unit) => scoreCandidate(row, unit))
+      .filter((c): c is Candidate => c !== null)
+      .sort((a, b) => b.score - a.score)
+  );
+
+  const claimedUnits = new Set<string>();
+  const matches = new Map<number, StatementMatch<T>>();
+
+  // Resolve strongest candidates first across all rows
+  const ranked = candidatesByRow
+    .flatMap((candidates, rowIndex) => candidates.map((candidate) => ({ candidate, rowIndex })))
+    .sort((a, b) => b.candidate.score - a.candidate.score);
+
+  ranked.forEach(({ candidate, rowIndex }) => {
+    if (matches.has(rowIndex) || claimedUnits.has(candidate.unit.groupId)) return;
+
+    // A tie is only a suggestion: downgrade it and list every tied unit
+    const alternatives = candidatesByRow[rowIndex]
+      .filter((c) => c.score === candidate.score && c.unit !== candidate.unit && !claimedUnits.has(c.unit.groupId))
+      .map((c) => c.unit as PaymentUnit<T>);
+    const reason = alternatives.length > 0
+      ? `${candidate.reason}; ${alternatives.length + 1} registrations match equally: ${[candidate.unit, ...alternatives].map((u) => u.groupId).join(', ')}`
+      : candidate.reason;
+
+    claimedUnits.add(candidate.unit.groupId);
+    matches.set(rowIndex, {
+      row: rows[rowIndex],
+      type: alternatives.length > 0 ? 'fuzzy' : candidate.type,
+      unit: candidate.unit as PaymentUnit<T>,
+      alternatives,
+      reason,
+    });
+  });
+
+  return rows.map((row, rowIndex) =>
+    matches.get(rowIndex) ?? { row, type: 'unmatched', unit: null, alternatives: [], reason: 'No registration matches this payment' }
+  );
+};
@@ -0,0 +1,291 @@
+/**
+ * bedAllocation.ts - Automatic Hostel Bed Allocation
+ *
+ * Plans bed assignments for approved on-campus registrations that do not
+ * have a bed yet. The planner is pure: it never writes to the database, so
+ * the admin can review the result as a dry run before committing it from
+ * the Hostel Management screen.
+ *
+ * Allocation Rules:
+ * 1. Gender - rooms tagged 'M' / 'F' (directly, or through their hostel)
+ *    only take that gender. Untagged rooms in mixed hostels keep genders
+ *    apart per room, based on current occupants.
+ * 2. Groups - members of a group registration (same parent_application_id)
+ *    of the same gender are placed together in one room when one fits, or
+ *    in consecutive rooms otherwise.
+ * 3. Batches - alumni from the same year_of_passing are placed in, or as
+ *    close as possible to, the room used for the previous unit of the batch.
+ * 4. Fill first - rooms are walked in order (gender-specific rooms, then
+ *    mixed, then hostel and room number) so partially filled rooms are topped up
+ *    before empty ones are opened.
+ */
+
+export interface AllocationHostel {
+  id: string;
+  name: string;
+  gender: string | null;
+}
+
+export interface AllocationRoom {
+  id: string;
+  hostel_id: string;
+  room_number: string;
+  /** Overrides the hostel's gender when set */
+  gender?: string | null;
+}
+
+export interface AllocationBed {
+  id: string;
+  room_id: string;
+  bed_number: number;
+  registration_id: string | null;
+}
+
+export interface AllocationRegistration {
+  id: string;
+  name: string;
+  application_id: string;
+  parent_application_id: string | null;
+  gender: string;
+  year_of_passing: number;
+}
+
+/** A single bed the planner intends to fill */
+export interface PlannedAssignment {
+  bedId: string;
+  bedNumber: number;
+  roomId: string;
+  roomNumber: string;
+  hostelId: string;
+  hostelName: string;
+  registrationId: string;
+  applicationId: string;
+  name: string;
+  gender: string;
+  yearOfPassing: number;
+  /** Application ID of the group's primary applicant */
+  groupId: string;
+}
+
+export interface UnallocatedRegistration {
+  registration: AllocationRegistration;
+  reason: string;
+}
+
+export interface AllocationPlan {
+  assignments: PlannedAssignment[];
+  unallocated: UnallocatedRegistration[];
+}
+
+interface RoomSlot {
+  room: AllocationRoom;
+  hostel: AllocationHostel;
+  freeBeds: AllocationBed[];
+  /** Gender the room is tagged for, from the room or its hostel */
+  requiredGender: string | null;
+  /** Gender currently occupying the room; only tracked for untagged rooms */
+  occupantGender: string | null;
+}
+
+interface AllocationUnit {
+  groupId: string;
+  gender: string;
+  yearOfPassing: number;
+  members: AllocationRegistration[];
+}
+
+/**
+ * Resolves the gender a room is restricted to
+ *
+ * @returns 'M' / 'F', or null when the room and its hostel are both mixed
+ */
+export const getRoomGender = (hostel: { gender: string | null }, room: { gender?: string | null }) =>
+  room.gender ?? hostel.gender ?? null;
+
+/**
+ * Human-readable label for a hostel or room gender tag
+ */
+export const genderTagLabel = (gender: string | null) =>
+  gender === 'M' ? 'Male only' : gender === 'F' ? 'Female only' : 'Mixed';
+
+const compareRoomNumbers = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const canHost = (slot: RoomSlot, gender: string) =>
+  slot.requiredGender
+    ? slot.requiredGender === gender
+    : slot.occupantGender === null || slot.occupantGender === gender;
+
+/**
+ * Builds the ordered list of rooms with their free beds
+ */
+const buildRoomSlots = (
+  hostels: AllocationHostel[],
+  rooms: AllocationRoom[],
+  beds: AllocationBed[],
+  genderByRegistrationId: Map<string, string>
+): RoomSlot[] => {
+  const hostelById = new Map(hostels.map((h) => [h.id, h]));
+
+  const slots = rooms
+    .filter((room) => hostelById.has(room.hostel_id))
+    .map((room): RoomSlot => {
+      const roomBeds = beds
+        .filter((b) => b.room_id === room.id)
+        .sort((a, b) => a.bed_number - b.bed_number);
+      const occupant = roomBeds.find((b) => b.registration_id && genderByRegistrationId.has(b.registration_id));
+      const hostel = hostelById.get(room.hostel_id)!;
+
+      return {
+        room,
+        hostel,
+        freeBeds: roomBeds.filter((b) => !b.registration_id),
+        requiredGender: getRoomGender(hostel, room),
+        occupantGender: occupant ? genderByRegistrationId.get(occupant.registration_id!)! : null,
+      };
+    });
+
+  return slots.sort((a, b) => {
+    // Gender-specific rooms first so mixed rooms stay available for overflow
+    if (!!a.requiredGender !== !!b.requiredGender) return a.requiredGender ? -1 : 1;
+    if (a.hostel.id !== b.hostel.id) return a.hostel.name.localeCompare(b.hostel.name);
+    return compareRoomNumbers(a.room.room_number, b.room.room_number);
+  });
+};
+
+/**
+ * Splits unassigned registrations into placement units: one per group and gender
+ */
+const buildUnits = (registrations: AllocationRegistration[]): AllocationUnit[] => {
+  const units = new Map<string, AllocationUnit>();
+
+  registrations.forEach((reg) => {
+    const groupId = reg.parent_application_id ?? reg.application_id;
+    const key = `${groupId}:${reg.gender}`;
+    const unit = units.get(key);
+
+    if (unit) {
+      unit.members.push(reg);
+      unit.yearOfPassing = Math.min(unit.yearOfPassing, reg.year_of_passing);
+    } else {
+      units.set(key, { groupId, gender: reg.gender, yearOfPassing: reg.year_of_passing, members: [reg] });
+    }
+  });
+
+  return Array.from(units.values())
+    .map((unit) => ({
+      ...unit,
+      // Primary applicant first, then companions in application order
+      members: unit.members.sort((a, b) =>
+        a.parent_application_id === b.parent_application_id
+          ? a.application_id.localeCompare(b.application_id)
+          : a.parent_application_id ? 1 : -1
+      ),
+    }))
+    .sort((a, b) =>
+      a.yearOfPassing - b.yearOfPassing ||
+      // Larger groups first within a batch while whole rooms are still free
+      b.members.length - a.members.length ||
+      a.groupId.localeCompare(b.groupId)
+    );
+};
+
+/**
+ * Plans bed assignments for every registration without a bed
+ *
+ * @param input.registrations - Approved on-campus registrations, including
+ *   ones that already hold a bed (used to work out room genders)
+ * @returns The planned assignments and the registrations that could not be placed
+ */
+export const planBedAllocation = ({
+  hostels,
+  rooms,
+  beds,
+  registrations,
+}: {
+  hostels: AllocationHostel[];
+  rooms: AllocationRoom[];
+  beds: AllocationBed[];
+  registrations: AllocationRegistration[];
+}): AllocationPlan => {
+  const assignedIds = new Set(beds.filter((b) => b.registration_id).map((b) => b.registration_id!));
+  const genderByRegistrationId = new Map(registrations.map((r) => [r.id, r.gender]));
+  const slots = buildRoomSlots(hostels, rooms, beds, genderByRegistrationId);
+  const units = buildUnits(registrations.filter((r) => !assignedIds.has(r.id)));
+
+  const assignments: PlannedAssignment[] = [];
+  const unallocated: UnallocatedRegistration[] = [];
+  // Last room index used per batch and gender, so the next unit of that batch lands nearby
+  const batchAnchors = new Map<string, number>();
+
+  const place = (unit: AllocationUnit, member: AllocationRegistration, slotIndex: number) => {
+    const slot = slots[slotIndex];
+    const bed = slot.freeBeds.shift()!;
+    if (!slot.requiredGender) slot.occupantGender = unit.gender;
+
+    assignments.push({
+      bedId: bed.id,
+      bedNumber: bed.bed_number,
+      roomId: slot.room.id,
+      roomNumber: slot.room.room_number,
+      hostelId: slot.hostel.id,
+      hostelName: slot.hostel.name,
+      registrationId: member.id,
+      applicationId: member.application_id,
+      name: member.name,
+      gender: unit.gender,
+      yearOfPassing: member.year_of_passing,
+      groupId: unit.groupId,
+    });
+  };
+
+  units.forEach((unit) => {
+    const compatible = slots
+      .map((slot, index) => ({ slot, index }))
+      .filter(({ slot }) => slot.freeBeds.length > 0 && canHost(slot, unit.gender));
+
+    if (compatible.length === 0) {
+      unit.members.forEach((registration) =>
+        unallocated.push({ registration, reason: 'No free bed in a room that accepts this gender' })
+      );
+      return;
+    }
+
+    const batchKey = `${unit.yearOfPassing}:${unit.gender}`;
+    const anchor = batchAnchors.get(batchKey);
+    const fitting = compatible.filter(({ slot }) => slot.freeBeds.length >= unit.members.length);
+
+    if (fitting.length > 0) {
+      // Whole unit fits in one room: take the one nearest the batch, else the first
+      const target = anchor === undefined
+        ? fitting[0]
+        : fitting.reduce((best, candidate) =>
+            Math.abs(candidate.index - anchor) < Math.abs(best.index - anchor) ? candidate : best
+          );
+
+      unit.members.forEach((member) => place(unit, member, target.index));
+      batchAnchors.set(batchKey, target.index);
+      return;
+    }
+
+    // Spill across consecutive compatible rooms, starting from the batch's room
+    const ordered = anchor === undefined
+      ? compatible
+      : [...compatible.filter(({ index }) => index >= anchor), ...compatible.filter(({ index }) => index < anchor)];
+    let cursor = 0;
+
+    unit.members.forEach((member) => {
+      while (cursor < ordered.length && ordered[cursor].slot.freeBeds.length === 0) cursor++;
+
+      if (cursor >= ordered.length) {
+        unallocated.push({ registration: member, reason: 'Not enough free beds for the rest of the group' });
+        return;
+      }
+
+      place(unit, member, ordered[cursor].index);
+      batchAnchors.set(batchKey, ordered[cursor].index);
+    });
+  });
+
+  return { assignments, unallocated };
+};
@@ -0,0 +1,31 @@
+/**
+ * capabilities.ts - Named Admin Actions
+ *
+ * What an admin may do is a set of capabilities: each role starts from a
+ * template (role_capabilities) and superadmins can grant or deny single
+ * capabilities per user (user_capability_overrides). The database enforces
+ * the same set through has_capability(), so screens only hide what would
+ * be refused anyway - except export_pii. Anyone who can view registrations
+ * reads every column of them through RLS, so export_pii only gates the
+ * export and bulk-download screens; it does not keep personal data from
+ * other staff. Use `can` from useAuth
+ * to check one.
+ *
+ * Keys must match the rows of the `capabilities` table.
+ */
+
+export const CAPABILITIES = [
+  { key: 'approve_registration', label: 'Approve registrations' },
+  { key: 'reject_registration', label: 'Reject registrations' },
+  { key: 'edit_registration', label: 'Edit registration details' },
+  { key: 'delete_registration', label: 'Delete registrations' },
+  { key: 'merge_registrations', label: 'Merge duplicates' },
+  { key: 'enable_edit_mode', label: 'Enable edit mode' },
+  { key: 'reenable_registration', label: 'Re-enable expired or rejected registrations' },
+  { key: 'verify_payment', label: 'Verify payments' },
+  { key: 'assign_beds', label: 'Assign hostels and beds' },
+  /** Screen-level only: see above */
+  { key: 'export_pii', label: 'Export personal data' },
+] as const;
+
+export type Capability = typeof CAPABILITIES[number]['key'];
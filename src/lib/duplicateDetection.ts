@@ -0,0 +1,201 @@
+/**
+ * duplicateDetection.ts - Likely Duplicate Registrations
+ *
+ * The database only rejects exact duplicates. People still register twice
+ * with a different email casing, a phone with or without +91, or once via
+ * an invite and once publicly. This module clusters such registrations so
+ * an admin can merge them (see the merge_registrations RPC).
+ *
+ * Scoring (0–1) compares normalized fields:
+ * - name similarity (bigram Dice on sorted name tokens)   NAME_WEIGHT
+ * - same email (case-insensitive, +tags removed)           EMAIL_WEIGHT
+ * - same phone (last 10 digits)                            PHONE_WEIGHT
+ * - same batch year                                        YEAR_WEIGHT
+ * Pairs scoring at least DUPLICATE_THRESHOLD are linked; linked
+ * registrations form a cluster.
+ *
+ * Members of one group share the primary registrant's email by design, so
+ * registrations in the same group are never compared.
+ */
+
+export interface DuplicateCandidate {
+  id: string;
+  application_id: string;
+  parent_application_id: string | null;
+  name: string;
+  email: string;
+  phone: string;
+  year_of_passing: number;
+}
+
+export interface DuplicatePair {
+  aId: string;
+  bId: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicateCluster<T extends DuplicateCandidate = DuplicateCandidate> {
+  members: T[];
+  pairs: DuplicatePair[];
+  /** Highest pair score in the cluster */
+  score: number;
+}
+
+const NAME_WEIGHT = 0.45;
+const EMAIL_WEIGHT = 0.25;
+const PHONE_WEIGHT = 0.2;
+const YEAR_WEIGHT = 0.1;
+
+/** Same name and batch alone (0.55) is not enough; a shared contact detail is */
+export const DUPLICATE_THRESHOLD = 0.7;
+
+/** Names below this similarity don't count as "similar" in the reasons */
+const SIMILAR_NAME = 0.8;
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'shri', 'smt', 'sri']);
+
+export const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !HONORIFICS.has(token))
+    .sort()
+    .join(' ');
+
+/** Lowercases and drops +tags, so Ravi+reunion@x.com matches ravi@x.com */
+export const normalizeEmail = (email: string) => {
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  return domain ? `${local.split('+')[0]}@${domain}` : local;
+};
+
+/** Last 10 digits, so +91, 0091 and a leading 0 all compare equal */
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+const bigrams = (value: string) => {
+  const compact = value.replace(/\s/g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+/** Dice coefficient over character bigrams of the normalized names */
+export const nameSimilarity = (a: string, b: string) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftGrams.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let overlap = 0;
+  rightGrams.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+};
+
+const groupOf = (registration: DuplicateCandidate) =>
+  registration.parent_application_id ?? registration.application_id;
+
+/**
+ * Scores how likely two registrations are the same person
+ */
+export const scorePair = (a: DuplicateCandidate, b: DuplicateCandidate): DuplicatePair => {
+  const reasons: string[] = [];
+  const similarity = nameSimilarity(a.name, b.name);
+  const sameEmail = normalizeEmail(a.email) === normalizeEmail(b.email);
+  const phoneA = normalizePhone(a.phone);
+  const samePhone = phoneA.length === 10 && phoneA === normalizePhone(b.phone);
+  const sameYear = a.year_of_passing === b.year_of_passing;
+
+  if (similarity === 1) reasons.push('Same name');
+  else if (similarity >= SIMILAR_NAME) reasons.push(`Similar name (${Math.round(similarity * 100)}%)`);
+  if (sameEmail) reasons.push(a.email === b.email ? 'Same email' : 'Same email (different format)');
+  if (samePhone) reasons.push(a.phone === b.phone ? 'Same phone' : 'Same phone (different format)');
+  if (sameYear) reasons.push('Same batch year');
+
+  const score =
+    NAME_WEIGHT * similarity +
+    (sameEmail ? EMAIL_WEIGHT : 0) +
+    (samePhone ? PHONE_WEIGHT : 0) +
+    (sameYear ? YEAR_WEIGHT : 0);
+
+  return { aId: a.id, bId: b.id, score: Math.round(score * 100) / 100, reasons };
+};
+
+/**
+ * Keys under which a registration is compared with others; registrations
+ * sharing no key are never compared, keeping the search near-linear
+ */
+const blockingKeys = (registration: DuplicateCandidate) => {
+  const keys = [`e:${normalizeEmail(registration.email)}`];
+  const phone = normalizePhone(registration.phone);
+  if (phone.length === 10) keys.push(`p:${phone}`);
+  normalizeName(registration.name)
+    .split(' ')
+    .filter((token) => token.length > 2)
+    .forEach((token) => keys.push(`n:${token}:${registration.year_of_passing}`));
+  return keys;
+};
+
+/**
+ * Finds clusters of likely duplicates, most likely first
+ */
+export const findDuplicateClusters = <T extends DuplicateCandidate>(
+  registrations: T[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateCluster<T>[] => {
+  const blocks = new Map<string, T[]>();
+  registrations.forEach((registration) => {
+    blockingKeys(registration).forEach((key) => blocks.set(key, [...(blocks.get(key) ?? []), registration]));
+  });
+
+  const pairs = new Map<string, DuplicatePair>();
+  blocks.forEach((members) => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [a, b] = members[i].id < members[j].id ? [members[i], members[j]] : [members[j], members[i]];
+        const key = `${a.id}:${b.id}`;
+        if (pairs.has(key) || groupOf(a) === groupOf(b)) continue;
+        const pair = scorePair(a, b);
+        if (pair.score >= threshold) pairs.set(key, pair);
+      }
+    }
+  });
+
+  // Union-find over linked pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  pairs.forEach(({ aId, bId }) => parent.set(find(aId), find(bId)));
+
+  const byId = new Map(registrations.map((registration) => [registration.id, registration]));
+  const clusters = new Map<string, DuplicateCluster<T>>();
+  pairs.forEach((pair) => {
+    const root = find(pair.aId);
+    const cluster = clusters.get(root) ?? { members: [], pairs: [], score: 0 };
+    [pair.aId, pair.bId].forEach((id) => {
+      if (!cluster.members.some((member) => member.id === id)) cluster.members.push(byId.get(id)!);
+    });
+    cluster.pairs.push(pair);
+    cluster.score = Math.max(cluster.score, pair.score);
+    clusters.set(root, cluster);
+  });
+
+  return Array.from(clusters.values()).sort((a, b) => b.score - a.score);
+};
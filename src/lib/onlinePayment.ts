@@ -0,0 +1,183 @@
+/**
+ * onlinePayment.ts - Online Payment Checkout
+ *
+ * Browser side of the `payment-gateway` edge function: creates an order
+ * for the amount due, opens the provider's checkout and sends the signed
+ * result back for verification. Verified payments mark the registrations
+ * as paid server-side; the provider's webhook (`payment-webhook`) records
+ * the payment too, in case the page is closed before verification completes.
+ *
+ * With the mock provider (PAYMENT_PROVIDER=mock on the server) checkout
+ * is simulated with a confirmation prompt.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type PaymentProviderName = "razorpay" | "mock";
+
+export interface OnlinePaymentConfig {
+  enabled: boolean;
+  provider: PaymentProviderName | null;
+}
+
+interface PaymentOrderResponse {
+  provider: PaymentProviderName;
+  keyId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  applicationIds: string[];
+  /** Only returned by the mock provider */
+  mockPayment?: { paymentId: string; signature: string };
+}
+
+/** Contact details the payer has already entered, shown pre-filled in checkout */
+export interface CheckoutPrefill {
+  name?: string;
+  email?: string;
+  contact?: string;
+}
+
+interface CheckoutResult {
+  paymentId: string;
+  signature: string;
+}
+
+export type OnlinePaymentResult =
+  | { status: "paid"; applicationIds: string[] }
+  | { status: "cancelled" }
+  | { status: "failed"; error: string };
+
+interface RazorpayResponse {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayInstance {
+  open(): void;
+  on(event: "payment.failed", handler: (response: { error?: { description?: string } }) => void): void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayInstance;
+  }
+}
+
+const RAZORPAY_CHECKOUT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+/** Invokes payment-gateway, surfacing the structured error body of non-2xx responses */
+const invokeGateway = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("payment-gateway", { body });
+
+  if (error) {
+    const errorBody = await (error.context instanceof Response
+      ? error.context.clone().json().catch(() => null)
+      : Promise.resolve(null));
+    throw new Error(errorBody?.error || error.message);
+  }
+
+  return data as T;
+};
+
+export const getOnlinePaymentConfig = async (): Promise<OnlinePaymentConfig> => {
+  try {
+    const data = await invokeGateway<OnlinePaymentConfig>({ action: "config" });
+    return { enabled: !!data.enabled, provider: data.provider ?? null };
+  } catch (err) {
+    console.error("Error loading online payment config:", err);
+    return { enabled: false, provider: null };
+  }
+};
+
+let razorpayScript: Promise<void> | null = null;
+
+const loadRazorpayCheckout = (): Promise<void> => {
+  if (window.Razorpay) return Promise.resolve();
+
+  razorpayScript ??= new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RAZORPAY_CHECKOUT_URL;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      razorpayScript = null;
+      reject(new Error("Unable to load the payment page. Please check your connection and try again."));
+    };
+    document.body.appendChild(script);
+  });
+
+  return razorpayScript;
+};
+
+/**
+ * Resolves with the signed payment, or null if the payer closes checkout.
+ * Rejects with the last failure if they close it after a failed attempt.
+ */
+const openCheckout = async (order: PaymentOrderResponse, prefill?: CheckoutPrefill): Promise<CheckoutResult | null> => {
+  if (order.provider === "mock") {
+    const confirmed = window.confirm(`[Test mode] Simulate a successful payment of ₹${order.amount.toLocaleString("en-IN")}?`);
+    return confirmed && order.mockPayment ? order.mockPayment : null;
+  }
+
+  await loadRazorpayCheckout();
+  const Razorpay = window.Razorpay;
+  if (!Razorpay) throw new Error("Payment page failed to load");
+
+  return new Promise((resolve, reject) => {
+    // Checkout shows a failed attempt and lets the payer retry, so a failure
+    // only ends the payment once they close checkout without succeeding
+    let lastFailure: string | null = null;
+
+    const checkout = new Razorpay({
+      key: order.keyId,
+      order_id: order.orderId,
+      amount: Math.round(order.amount * 100),
+      currency: order.currency,
+      name: "Rishi Valley Alumni Meet",
+      description: `Registration ${order.applicationIds.join(", ")}`,
+      prefill,
+      handler: (response: RazorpayResponse) =>
+        resolve({ paymentId: response.razorpay_payment_id, signature: response.razorpay_signature }),
+      modal: { ondismiss: () => (lastFailure ? reject(new Error(lastFailure)) : resolve(null)) },
+    });
+    checkout.on("payment.failed", (response) => {
+      lastFailure = response.error?.description || "Payment failed";
+      console.warn("Payment attempt failed:", lastFailure);
+    });
+    checkout.open();
+  });
+};
+
+/**
+ * Pays online for everything still due on an application's group
+ *
+ * @param applicationId - Application being paid for; a primary applicant covers their group
+ * @param applicationIds - Restricts payment to these registrations in the group
+ * @param prefill - Payer details already known to the page (the server does not return them)
+ */
+export const payOnline = async (
+  applicationId: string,
+  applicationIds?: string[],
+  prefill?: CheckoutPrefill
+): Promise<OnlinePaymentResult> => {
+  try {
+    const order = await invokeGateway<PaymentOrderResponse>({ action: "create-order", applicationId, applicationIds });
+
+    const payment = await openCheckout(order, prefill);
+    if (!payment) return { status: "cancelled" };
+
+    const verified = await invokeGateway<{ applicationIds: string[] }>({
+      action: "verify",
+      orderId: order.orderId,
+      paymentId: payment.paymentId,
+      signature: payment.signature,
+    });
+
+    return { status: "paid", applicationIds: verified.applicationIds };
+  } catch (err) {
+    console.error("Online payment failed:", err);
+    return { status: "failed", error: err instanceof Error ? err.message : "Payment failed" };
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * paymentLedger.ts - Payment Ledger Data Access
+ *
+ * Loads and appends `payment_transactions` entries for the accounts
+ * pages. Balance rules live in `@shared/paymentLedger` so the registrant
+ * portal and payment gateway derive the same numbers.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { ledgerGroupId, paymentToRecordOnVerification } from '@shared/paymentLedger';
+
+export type PaymentTransaction = Tables<'payment_transactions'>;
+
+/** Group member fields shown next to the ledger */
+export interface LedgerGroupMember {
+  id: string;
+  application_id: string;
+  parent_application_id: string | null;
+  name: string;
+  registration_fee: number;
+  registration_status: string;
+}
+
+export interface GroupLedger {
+  members: LedgerGroupMember[];
+  transactions: PaymentTransaction[];
+}
+
+/** Every registration in a group and every ledger entry recorded for it */
+export const fetchGroupLedger = async (groupApplicationId: string): Promise<GroupLedger> => {
+  const [{ data: members, error: membersError }, { data: transactions, error: transactionsError }] = await Promise.all([
+    supabase
+      .from('registrations')
+      .select('id, application_id, parent_application_id, name, registration_fee, registration_status')
+      .or(`application_id.eq.${groupApplicationId},parent_application_id.eq.${groupApplicationId}`)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('group_application_id', groupApplicationId),
+  ]);
+
+  if (membersError) throw membersError;
+  if (transactionsError) throw transactionsError;
+
+  return { members: members ?? [], transactions: transactions ?? [] };
+};
+
+export const recordLedgerEntry = async (
+  entry: Omit<TablesInsert<'payment_transactions'>, 'recorded_by'>,
+  recordedBy: string
+) => {
+  const { error } = await supabase
+    .from('payment_transactions')
+    .insert({ ...entry, recorded_by: recordedBy });
+
+  if (error) throw error;
+};
+
+/**
+ * Books the payment behind an accounts verification
+ *
+ * Records only what the registration still owes, so re-verifying after an
+ * edit books just the top-up and nothing is recorded twice.
+ *
+ * @returns The amount recorded (0 if nothing was outstanding)
+ */
+export const recordVerifiedPayment = async (
+  registration: { id: string; application_id: string; parent_application_id: string | null; payment_reference: string | null; payment_date: string | null },
+  recordedBy: string,
+  reference?: string | null
+): Promise<number> => {
+  const groupApplicationId = ledgerGroupId(registration);
+  const { members, transactions } = await fetchGroupLedger(groupApplicationId);
+
+  const member = members.find((m) => m.id === registration.id);
+  if (!member) return 0;
+
+  const amount = paymentToRecordOnVerification(member, members, transactions);
+  if (amount <= 0) return 0;
+
+  await recordLedgerEntry({
+    group_application_id: groupApplicationId,
+    registration_id: registration.id,
+    kind: 'payment',
+    amount,
+    method: 'bank_transfer',
+    reference: reference ?? registration.payment_reference,
+    ...(registration.payment_date ? { transaction_date: registration.payment_date } : {}),
+  }, recordedBy);
+
+  return amount;
+};
@@ -0,0 +1,143 @@
+/**
+ * registrationConcurrency.ts - Version-Checked Registration Updates
+ *
+ * Every registration carries a `version` that a trigger bumps on each
+ * update. Admin actions write "where id = X and version = the version I
+ * loaded", so when another admin changed the row in the meantime nothing
+ * is written and the caller gets a RegistrationConflict describing what
+ * changed. RegistrationConflictDialog shows it with options to reload or
+ * overwrite (repeat the action against the current version).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { registrationFieldLabel } from '@/lib/registrationHistory';
+
+type Registration = Tables<'registrations'>;
+
+/** The fields a version check needs; any loaded registration row has them */
+export interface VersionedRegistration {
+  id: string;
+  version: number;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  /** Value when the admin loaded the registration */
+  before: unknown;
+  /** Value now */
+  after: unknown;
+}
+
+export interface RegistrationConflict {
+  /** The registration as it is now; null if it was deleted */
+  current: Registration | null;
+  changes: FieldChange[];
+  /** Most recent admin action on the registration, when the log is readable */
+  lastAction: { actionType: string; adminEmail: string | null; at: string } | null;
+}
+
+/** Bookkeeping columns that change on every write */
+const IGNORED_FIELDS = new Set(['version', 'updated_at', 'qr_code_data']);
+
+/**
+ * Lists the fields of the loaded snapshot whose value differs now
+ */
+export const diffRegistration = (snapshot: object, current: Registration): FieldChange[] =>
+  Object.entries(snapshot)
+    .filter(([field]) => !IGNORED_FIELDS.has(field) && field in current)
+    .filter(([field, value]) => JSON.stringify(value) !== JSON.stringify(current[field as keyof Registration]))
+    .map(([field, value]) => ({
+      field,
+      label: registrationFieldLabel(field),
+      before: value,
+      after: current[field as keyof Registration],
+    }));
+
+const buildConflict = async (snapshot: VersionedRegistration): Promise<RegistrationConflict> => {
+  const [{ data: current, error }, { data: lastLog }] = await Promise.all([
+    supabase.from('registrations').select('*').eq('id', snapshot.id).maybeSingle(),
+    supabase
+      .from('admin_activity_logs')
+      .select('action_type, admin_email, created_at')
+      .eq('target_registration_id', snapshot.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (error) throw error;
+
+  return {
+    current,
+    changes: current ? diffRegistration(snapshot, current) : [],
+    lastAction: lastLog
+      ? { actionType: lastLog.action_type, adminEmail: lastLog.admin_email, at: lastLog.created_at }
+      : null,
+  };
+};
+
+/**
+ * Checks, without writing, whether the registration changed since it was
+ * loaded. Used before side effects such as emails that must not go out
+ * for a stale record.
+ *
+ * @returns The conflict, or null if the snapshot is still current
+ */
+export const findRegistrationConflict = async (
+  snapshot: VersionedRegistration
+): Promise<RegistrationConflict | null> => {
+  const { data, error } = await supabase
+    .from('registrations')
+    .select('version')
+    .eq('id', snapshot.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data && data.version === snapshot.version) return null;
+  return buildConflict(snapshot);
+};
+
+/**
+ * Updates the registration only if nobody changed it since `snapshot` was loaded
+ *
+ * @returns The conflict, or null once the update is written
+ */
+export const updateRegistrationChecked = async (
+  snapshot: VersionedRegistration,
+  patch: TablesUpdate<'registrations'>
+): Promise<RegistrationConflict | null> => {
+  const { data, error } = await supabase
+    .from('registrations')
+    .update(patch)
+    .eq('id', snapshot.id)
+    .eq('version', snapshot.version)
+    .select('id');
+
+  if (error) throw error;
+  if (data && data.length > 0) return null;
+  return buildConflict(snapshot);
+};
+
+/**
+ * Moves the registration to the recycle bin, only if nobody changed it
+ * since `snapshot` was loaded. Superadmins can restore it from there until
+ * the scheduled purge removes it for good.
+ *
+ * @returns The conflict, or null once the registration is deleted
+ */
+export const deleteRegistrationChecked = async (
+  snapshot: VersionedRegistration,
+  reason: string
+): Promise<RegistrationConflict | null> => {
+  const { data: deleted, error } = await supabase.rpc('soft_delete_registration', {
+    _registration_id: snapshot.id,
+    _expected_version: snapshot.version,
+    _reason: reason,
+  });
+
+  if (error) throw error;
+  if (deleted) return null;
+  return buildConflict(snapshot);
+};
@@ -0,0 +1,65 @@
+/**
+ * registrationHistory.ts - Field-level Registration History
+ *
+ * A trigger on `registrations` writes one registration_changes row per
+ * changed column, with the before and after value and the user who made
+ * the change. This module loads them as a timeline: one entry per update,
+ * newest first.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+type RegistrationChange = Tables<'registration_changes'>;
+
+export interface RegistrationHistoryEntry {
+  changedAt: string;
+  /** Null for changes made without a user session (edge functions, cron jobs) */
+  changedBy: string | null;
+  changedByEmail: string | null;
+  changes: RegistrationChange[];
+}
+
+/** payment_status → "Payment status" */
+export const registrationFieldLabel = (field: string) => {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** Renders a stored column value for display */
+export const formatFieldValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Fetches the change history of a registration, newest first. Columns
+ * changed by the same update are grouped into one entry.
+ */
+export const fetchRegistrationHistory = async (registrationId: string): Promise<RegistrationHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('registration_changes')
+    .select('*')
+    .eq('registration_id', registrationId)
+    .order('changed_at', { ascending: false })
+    .order('field');
+
+  if (error) throw error;
+
+  const entries: RegistrationHistoryEntry[] = [];
+  for (const change of data || []) {
+    const last = entries[entries.length - 1];
+    if (last && last.changedAt === change.changed_at && last.changedBy === change.changed_by) {
+      last.changes.push(change);
+    } else {
+      entries.push({
+        changedAt: change.changed_at,
+        changedBy: change.changed_by,
+        changedByEmail: change.changed_by_email,
+        changes: [change],
+      });
+    }
+  }
+  return entries;
+};
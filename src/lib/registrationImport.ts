@@ -0,0 +1,380 @@
+/**
+ * registrationImport.ts - Bulk Import of Offline Registrations
+ *
+ * Lets admins create registrations taken by phone or on paper from a
+ * CSV/XLSX sheet, one row per person.
+ *
+ * Steps:
+ * 1. parseImportSheet reads the first sheet (via `xlsx`, loaded lazily)
+ * 2. autoMapColumns guesses which column holds which field; the admin
+ *    can adjust the mapping
+ * 3. buildImportPlan groups rows and validates each group with the same
+ *    Zod schemas as the public form (registrantSchema/attendeeSchema),
+ *    reporting errors per sheet row
+ * 4. importRegistrationGroup inserts one valid group, priced with the
+ *    shared pricing rules; the database waitlists on-campus attendees once
+ *    every bed is spoken for, as for the public form
+ *
+ * Grouping:
+ * Rows sharing a value in the Group column form one registration: the
+ * first such row is the primary registrant (address required), the rest
+ * become attendees linked by parent_application_id. Rows without a group
+ * value are registrations of their own.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  registrantSchema,
+  MAX_ATTENDEES,
+  type AttendeeData,
+  type RegistrantData,
+} from '@/components/registration/types';
+import { buildPricingContext, priceRegistration, type FeeSchedule } from '@shared/pricing';
+
+export type ImportField =
+  | 'group'
+  | 'attendeeType'
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'occupation'
+  | 'boardType'
+  | 'yearOfPassing'
+  | 'stayType'
+  | 'tshirtSize'
+  | 'gender'
+  | 'addressLine1'
+  | 'addressLine2'
+  | 'city'
+  | 'district'
+  | 'state'
+  | 'postalCode'
+  | 'country';
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  /** Whether the wizard insists on a column before validating */
+  required: boolean;
+  /** Header names recognised by autoMapColumns */
+  pattern: RegExp;
+}
+
+/** In matching order: more specific patterns come before looser ones */
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'group', label: 'Group', required: false, pattern: /group|family|household|parent/i },
+  { key: 'attendeeType', label: 'Attendee type', required: false, pattern: /attendee.?type|relation|category/i },
+  { key: 'email', label: 'Email', required: true, pattern: /e-?mail/i },
+  { key: 'phone', label: 'Phone', required: true, pattern: /phone|mobile|whatsapp|contact/i },
+  { key: 'occupation', label: 'Occupation', required: true, pattern: /occupation|profession|job/i },
+  { key: 'boardType', label: 'Board', required: true, pattern: /board/i },
+  { key: 'yearOfPassing', label: 'Year of passing', required: true, pattern: /year|batch/i },
+  { key: 'stayType', label: 'Stay type', required: true, pattern: /stay|accommodation/i },
+  { key: 'tshirtSize', label: 'T-shirt size', required: true, pattern: /t-?shirt|size/i },
+  { key: 'gender', label: 'Gender', required: true, pattern: /gender|sex/i },
+  { key: 'addressLine1', label: 'Address line 1', required: true, pattern: /address.*(1|one)|^address$|street/i },
+  { key: 'addressLine2', label: 'Address line 2', required: false, pattern: /address.*(2|two)|landmark|area/i },
+  { key: 'city', label: 'City', required: true, pattern: /city|town|post office/i },
+  { key: 'district', label: 'District', required: true, pattern: /district/i },
+  { key: 'state', label: 'State', required: true, pattern: /state|province/i },
+  { key: 'postalCode', label: 'PIN code', required: true, pattern: /pin|postal|zip/i },
+  { key: 'country', label: 'Country', required: false, pattern: /country/i },
+  { key: 'name', label: 'Name', required: true, pattern: /name/i },
+];
+
+/** Column index per field; null when the sheet has no such column */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: { rowNumber: number; cells: string[] }[];
+}
+
+export interface ImportRowReport {
+  /** 1-based row number in the uploaded sheet */
+  rowNumber: number;
+  name: string;
+  role: 'primary' | 'attendee';
+  errors: string[];
+}
+
+export interface ImportGroup {
+  /** Group column value, or the row number for ungrouped rows */
+  key: string;
+  rows: ImportRowReport[];
+  /** Validated data; null when any row of the group has errors */
+  registrant: RegistrantData | null;
+}
+
+export interface ImportPlan {
+  groups: ImportGroup[];
+  validGroups: ImportGroup[];
+  rowCount: number;
+  errorRowCount: number;
+}
+
+const TSHIRT_SIZES: Record<string, AttendeeData['tshirtSize']> = {
+  S: 'S (Chest: 36")',
+  M: 'M (Chest: 38-40")',
+  L: 'L (Chest: 42")',
+  XL: 'XL (Chest: 44")',
+};
+
+/**
+ * Reads the first sheet of a CSV/XLSX file
+ *
+ * @throws Error if the sheet is missing or has no data rows
+ */
+export const parseImportSheet = async (file: File): Promise<ImportSheet> => {
+  const XLSX = await import('xlsx');
+  // raw: keep CSV text as-is so phone numbers and PIN codes keep leading digits
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets');
+
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+  if (grid.length < 2) throw new Error('The sheet needs a header row and at least one registration');
+
+  return {
+    headers: grid[0].map((cell) => String(cell).trim()),
+    rows: grid
+      .slice(1)
+      .map((cells, index) => ({ rowNumber: index + 2, cells: cells.map((cell) => String(cell ?? '').trim()) }))
+      .filter((row) => row.cells.some(Boolean)),
+  };
+};
+
+/**
+ * Guesses the column for each field from the header names
+ */
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && field.pattern.test(header));
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+  return mapping;
+};
+
+/** Required fields that have no column mapped */
+export const unmappedRequiredFields = (mapping: ColumnMapping) =>
+  IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === null);
+
+const normalizeStayType = (value: string) => {
+  if (/campus|hostel|school|^on/i.test(value)) return 'on-campus';
+  if (/outside|off|hotel|own/i.test(value)) return 'outside';
+  return value;
+};
+
+const normalizeGender = (value: string) => {
+  if (/^(m|male)$/i.test(value)) return 'M';
+  if (/^(f|female)$/i.test(value)) return 'F';
+  return value;
+};
+
+/** Accepts "L" as well as the form's 'L (Chest: 42")' */
+const normalizeTshirtSize = (value: string) => {
+  const size = value.toUpperCase().split(/[\s(]/)[0];
+  return TSHIRT_SIZES[size] ?? value;
+};
+
+/** ISC and ICSE are form options; anything else is a custom board */
+const normalizeBoard = (value: string) => {
+  const upper = value.toUpperCase();
+  if (upper === 'ISC' || upper === 'ICSE') return { boardType: upper, customBoardType: '' };
+  return value ? { boardType: 'Other', customBoardType: value } : { boardType: '', customBoardType: '' };
+};
+
+const normalizeAttendeeType = (value: string) => {
+  const lower = value.toLowerCase();
+  if (!lower || lower.includes('alum')) return 'alumni';
+  if (lower.includes('spouse') || lower.includes('wife') || lower.includes('husband')) return 'spouse';
+  if (lower.includes('child') || lower.includes('son') || lower.includes('daughter')) return 'child';
+  return lower;
+};
+
+/** Spreadsheet-facing name for a schema path segment */
+const fieldLabel = (key: unknown) =>
+  key === 'customBoardType' ? 'Board' : IMPORT_FIELDS.find((field) => field.key === key)?.label ?? String(key);
+
+const readRow = (cells: string[], mapping: ColumnMapping) => {
+  const get = (field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : cells[index] ?? '';
+  };
+  return {
+    group: get('group'),
+    person: {
+      attendeeType: normalizeAttendeeType(get('attendeeType')),
+      name: get('name'),
+      email: get('email'),
+      phone: get('phone'),
+      occupation: get('occupation'),
+      ...normalizeBoard(get('boardType')),
+      yearOfPassing: get('yearOfPassing'),
+      stayType: normalizeStayType(get('stayType')),
+      tshirtSize: normalizeTshirtSize(get('tshirtSize')),
+      gender: normalizeGender(get('gender')),
+    },
+    address: {
+      addressLine1: get('addressLine1'),
+      addressLine2: get('addressLine2'),
+      city: get('city'),
+      district: get('district'),
+      state: get('state'),
+      postalCode: get('postalCode'),
+      // Matches the public form's server-side default
+      country: get('country') || 'India',
+    },
+  };
+};
+
+/**
+ * Groups and validates every row
+ *
+ * @param existingEmails - Lower-cased emails of primary registrants already
+ *   in the database; a second registration for one is reported as an error
+ */
+export const buildImportPlan = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existingEmails: Set<string>
+): ImportPlan => {
+  const grouped = new Map<string, { rowNumber: number; row: ReturnType<typeof readRow> }[]>();
+  for (const { rowNumber, cells } of sheet.rows) {
+    const row = readRow(cells, mapping);
+    const key = row.group || `row ${rowNumber}`;
+    grouped.set(key, [...(grouped.get(key) ?? []), { rowNumber, row }]);
+  }
+
+  const seenEmails = new Set<string>();
+  const groups: ImportGroup[] = Array.from(grouped.entries()).map(([key, members]) => {
+    const [primary, ...attendees] = members;
+    const reports: ImportRowReport[] = members.map(({ rowNumber, row }, index) => ({
+      rowNumber,
+      name: row.person.name,
+      role: index === 0 ? 'primary' : 'attendee',
+      errors: [],
+    }));
+
+    const { attendeeType, ...primaryPerson } = primary.row.person;
+    if (attendeeType !== 'alumni') {
+      reports[0].errors.push('The first row of a group is the primary registrant and must be an alumnus');
+    }
+    if (attendees.length > MAX_ATTENDEES) {
+      reports[0].errors.push(`A group can have at most ${MAX_ATTENDEES} attendees besides the primary registrant`);
+    }
+
+    const email = primaryPerson.email.toLowerCase();
+    if (existingEmails.has(email)) {
+      reports[0].errors.push('A registration with this email already exists');
+    } else if (seenEmails.has(email)) {
+      reports[0].errors.push('Another group in this file uses the same email');
+    }
+    seenEmails.add(email);
+
+    // Spouses and children inherit the primary registrant's batch, as in the public form
+    const attendeeData = attendees.map(({ row }) =>
+      row.person.attendeeType === 'alumni'
+        ? { ...row.person, email: primaryPerson.email }
+        : { ...row.person, email: primaryPerson.email, boardType: primaryPerson.boardType, customBoardType: primaryPerson.customBoardType, yearOfPassing: primaryPerson.yearOfPassing }
+    );
+
+    const result = registrantSchema.safeParse({ ...primaryPerson, ...primary.row.address, attendees: attendeeData });
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const [first, index, field] = issue.path;
+        if (first === 'attendees' && typeof index === 'number') {
+          reports[index + 1].errors.push(`${fieldLabel(field ?? 'attendee')}: ${issue.message}`);
+        } else {
+          reports[0].errors.push(`${fieldLabel(first)}: ${issue.message}`);
+        }
+      }
+    }
+
+    const hasErrors = reports.some((report) => report.errors.length > 0);
+    return { key, rows: reports, registrant: !hasErrors && result.success ? result.data : null };
+  });
+
+  const rows = groups.flatMap((group) => group.rows);
+  return {
+    groups,
+    validGroups: groups.filter((group) => group.registrant),
+    rowCount: rows.length,
+    errorRowCount: rows.filter((row) => row.errors.length > 0).length,
+  };
+};
+
+/** Board stored for a person, resolving "Other" to the custom name */
+const storedBoard = (person: { boardType?: string; customBoardType?: string }) =>
+  person.boardType === 'Other' ? person.customBoardType ?? '' : person.boardType;
+
+/**
+ * Creates the registrations of one validated group
+ *
+ * All rows of the group go in one insert, so a group is never left half
+ * imported.
+ *
+ * @returns Application IDs created, primary registrant first
+ */
+export const importRegistrationGroup = async (registrant: RegistrantData, schedule: FeeSchedule): Promise<string[]> => {
+  const people = [registrant, ...registrant.attendees];
+
+  const pricing = priceRegistration(
+    [
+      { name: registrant.name, stayType: registrant.stayType },
+      ...registrant.attendees.map((attendee) => ({ name: attendee.name, stayType: attendee.stayType, category: attendee.attendeeType })),
+    ],
+    buildPricingContext({ schedule })
+  );
+  if ('error' in pricing) throw new Error(pricing.error.message);
+
+  const applicationIds: string[] = [];
+  for (let i = 0; i < people.length; i++) {
+    const { data, error } = await supabase.rpc('generate_application_id');
+    if (error) throw error;
+    applicationIds.push(data);
+  }
+
+  const address = {
+    address_line1: registrant.addressLine1,
+    address_line2: registrant.addressLine2 || null,
+    city: registrant.city,
+    district: registrant.district,
+    state: registrant.state,
+    postal_code: registrant.postalCode,
+    country: registrant.country,
+  };
+
+  const rows: TablesInsert<'registrations'>[] = people.map((person, index) => ({
+    application_id: applicationIds[index],
+    parent_application_id: index === 0 ? null : applicationIds[0],
+    name: person.name,
+    email: registrant.email,
+    phone: person.phone,
+    occupation: person.occupation,
+    attendee_type: pricing.breakdown.lines[index].category,
+    board_type: storedBoard(person),
+    year_of_passing: parseInt(person.yearOfPassing, 10),
+    ...address,
+    stay_type: person.stayType,
+    tshirt_size: person.tshirtSize,
+    gender: person.gender,
+    registration_fee: pricing.breakdown.lines[index].fee,
+    // Set by the waitlist_when_on_campus_full trigger once every bed is spoken for
+    waitlisted_at: null,
+    payment_status: 'pending',
+    registration_status: 'pending',
+  }));
+
+  const { error } = await supabase.from('registrations').insert(rows);
+  if (error) {
+    throw error.code === '23505' ? new Error('A registration with this email already exists') : error;
+  }
+
+  return applicationIds;
+};
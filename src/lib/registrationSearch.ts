@@ -0,0 +1,110 @@
+/**
+ * registrationSearch.ts - Server-side Registration Search
+ *
+ * Thin client for the search_registrations RPC, which filters, searches
+ * and pages registrations in Postgres so admin screens never have to load
+ * the whole table. Counts come back with every page, so dashboards can
+ * call it with limit 0 to get counts alone.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, Database } from '@/integrations/supabase/types';
+
+type Registration = Tables<'registrations'>;
+type RegistrationStatus = Database['public']['Enums']['registration_status'];
+type PaymentStatus = Database['public']['Enums']['payment_status'];
+
+/** Undefined filters are ignored */
+export interface RegistrationFilters {
+  /** Matches name, email, application ID and phone */
+  search?: string;
+  registrationStatus?: RegistrationStatus;
+  paymentStatus?: PaymentStatus;
+  stayType?: string;
+  gender?: string;
+  boardType?: string;
+  /** Hostel name, or 'unassigned' for registrations without a hostel */
+  hostel?: string;
+  yearFrom?: number;
+  yearTo?: number;
+}
+
+export interface RegistrationCounts {
+  registrationStatus: Partial<Record<RegistrationStatus, number>>;
+  paymentStatus: Partial<Record<PaymentStatus, number>>;
+  stayType: Record<string, number>;
+}
+
+export interface RegistrationSearchResult {
+  rows: Registration[];
+  /** Registrations matching the filters */
+  total: number;
+  /** All registrations the caller can see */
+  grandTotal: number;
+  /** Breakdown of the matching registrations */
+  counts: RegistrationCounts;
+}
+
+/** Rows per request when loading every match (exports, duplicate search) */
+const FETCH_ALL_CHUNK = 1000;
+
+/**
+ * Fetches one page of registrations matching the filters, newest first
+ */
+export const searchRegistrations = async (
+  filters: RegistrationFilters,
+  { limit, offset = 0 }: { limit: number; offset?: number }
+): Promise<RegistrationSearchResult> => {
+  const { data, error } = await supabase.rpc('search_registrations', {
+    _search: filters.search,
+    _registration_status: filters.registrationStatus,
+    _payment_status: filters.paymentStatus,
+    _stay_type: filters.stayType,
+    _gender: filters.gender,
+    _board_type: filters.boardType,
+    _hostel: filters.hostel,
+    _year_from: filters.yearFrom,
+    _year_to: filters.yearTo,
+    _limit: limit,
+    _offset: offset,
+  });
+
+  if (error) throw error;
+  return data as unknown as RegistrationSearchResult;
+};
+
+/**
+ * Fetches every registration matching the filters, in chunks
+ */
+export const fetchAllMatchingRegistrations = async (filters: RegistrationFilters = {}) => {
+  const rows: Registration[] = [];
+  for (;;) {
+    const page = await searchRegistrations(filters, { limit: FETCH_ALL_CHUNK, offset: rows.length });
+    rows.push(...page.rows);
+    if (page.rows.length < FETCH_ALL_CHUNK || rows.length >= page.total) return rows;
+  }
+};
+
+/**
+ * Whether a row still matches the filters, applying the field filters the
+ * way search_registrations does. The text search is not mirrored here:
+ * returns undefined when a search term is set, so callers refetch instead.
+ */
+export const matchesRegistrationFilters = (
+  row: Registration,
+  filters: RegistrationFilters
+): boolean | undefined => {
+  const fieldsMatch =
+    (!filters.registrationStatus || row.registration_status === filters.registrationStatus) &&
+    (!filters.paymentStatus || row.payment_status === filters.paymentStatus) &&
+    (!filters.stayType || row.stay_type === filters.stayType) &&
+    (!filters.gender || row.gender === filters.gender) &&
+    (!filters.boardType || row.board_type === filters.boardType) &&
+    (!filters.hostel ||
+      (filters.hostel === 'unassigned' ? row.hostel_name === null : row.hostel_name === filters.hostel)) &&
+    (filters.yearFrom === undefined || row.year_of_passing >= filters.yearFrom) &&
+    (filters.yearTo === undefined || row.year_of_passing <= filters.yearTo);
+
+  if (!fieldsMatch) return false;
+  return filters.search ? undefined : true;
+};
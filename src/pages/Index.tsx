@@ -18,6 +18,8 @@
  */
 
 import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { hasClosed } from "@shared/schedule";
 import HeroSection from "@/components/HeroSection";
 import RegistrationForm from "@/components/RegistrationForm";
 import RegistrationFormLegacy from "@/components/RegistrationFormLegacy";
@@ -26,16 +28,6 @@ import ImportantNotes from "@/components/ImportantNotes";
 import Footer from "@/components/Footer";
 import RegistrationsClosed from "./RegistrationsClosed";
 
-/**
- * Hard cutoff for public registration: 24 Apr 2026 at 00:01 IST.
- * IST is UTC+5:30, so the equivalent UTC moment is 23 Apr 2026 18:31 UTC.
- * After this moment, the public landing page shows the "Registrations Closed"
- * banner. Invite-link registrations (/invite/:token) remain fully functional.
- */
-const PUBLIC_REGISTRATION_CUTOFF_UTC = new Date("2026-04-23T18:31:00Z");
-
-const isPublicRegistrationClosed = () => new Date() >= PUBLIC_REGISTRATION_CUTOFF_UTC;
-
 /**
  * Index Component
  * 
@@ -46,7 +38,9 @@ const isPublicRegistrationClosed = () => new Date() >= PUBLIC_REGISTRATION_CUTOF
  */
 const Index = ({ forceLegacy = false, yearFromOverride, yearToOverride, forceOutsideOnly = false }: { forceLegacy?: boolean; yearFromOverride?: number; yearToOverride?: number; forceOutsideOnly?: boolean }) => {
   const [showLegacyForm, setShowLegacyForm] = useState(forceLegacy);
-  const [closed, setClosed] = useState(isPublicRegistrationClosed());
+  // Closing instant of the active registration period (batch_configuration.registration_end_date)
+  const [closesAt, setClosesAt] = useState<string | null>(null);
+  const [closed, setClosed] = useState(false);
 
   useEffect(() => {
     if (forceLegacy) {
@@ -68,16 +62,29 @@ const Index = ({ forceLegacy = false, yearFromOverride, yearToOverride, forceOut
     return () => window.removeEventListener("hashchange", checkHash);
   }, [forceLegacy]);
 
-  // Poll once per minute so the cutoff flips automatically without a refresh
   useEffect(() => {
-    if (closed) return;
-    const interval = setInterval(() => {
-      if (isPublicRegistrationClosed()) setClosed(true);
-    }, 60 * 1000);
+    const fetchWindow = async () => {
+      const { data, error } = await supabase.rpc("get_registration_window");
+      if (error) {
+        // The form still checks the window itself, and the server rejects late submissions
+        console.error("Error fetching registration window:", error);
+        return;
+      }
+      setClosesAt(data?.[0]?.closes_at ?? null);
+    };
+
+    fetchWindow();
+  }, []);
+
+  // Re-check once per minute so the page closes automatically without a refresh
+  useEffect(() => {
+    setClosed(hasClosed(closesAt));
+    if (!closesAt) return;
+    const interval = setInterval(() => setClosed(hasClosed(closesAt)), 60 * 1000);
     return () => clearInterval(interval);
-  }, [closed]);
+  }, [closesAt]);
 
-  // After 24 Apr 2026 00:01 IST, public registration is closed.
+  // Once the active period has closed, public registration is closed.
   // Invite-link registrations continue to work via /invite/:token.
   if (closed) {
     return <RegistrationsClosed />;
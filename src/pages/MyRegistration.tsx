@@ -0,0 +1,507 @@
+/**
+ * MyRegistration.tsx - Registrant Portal
+ *
+ * Lets a registrant sign in with the email OTP (send-otp / verify-otp) and
+ * see every application under their email, including the other members of
+ * their group. Data is served by the registrant-portal edge function, which
+ * resolves the portal session token issued by verify-otp.
+ *
+ * Edit requests are stored in registration_edit_requests and surface in the
+ * admin registration details, where a superadmin can enable edit mode.
+ * Cancellation requests go to cancellation_requests and are reviewed on the
+ * accounts page, which records any refund in the payment ledger.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Loader2, LogOut, Mail, Bed, FileText, Edit3, Users, QrCode, ArrowLeft, Ban } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmailOtpVerification, PortalSession } from "@/components/registration/EmailOtpVerification";
+import { formatFee } from "@/components/registration/types";
+import CheckInQRCode from "@/components/CheckInQRCode";
+import Footer from "@/components/Footer";
+
+const SESSION_STORAGE_KEY = "my-registration-session";
+
+interface StoredSession extends PortalSession {
+  email: string;
+}
+
+interface PortalRegistration {
+  id: string;
+  applicationId: string;
+  parentApplicationId: string | null;
+  name: string;
+  isOwn: boolean;
+  stayType: string;
+  attendeeType: string;
+  registrationFee: number;
+  paymentStatus: string;
+  registrationStatus: string;
+  accountsVerified: boolean;
+  rejectionReason: string | null;
+  editModeEnabled: boolean | null;
+  receiptUrl: string | null;
+  hostelName: string | null;
+  roomNumber: string | null;
+  bedNumber: number | null;
+  qrCodeData: string | null;
+  checkedInAt: string | null;
+  createdAt: string;
+  editRequest: { changes: string; status: string; createdAt: string } | null;
+  cancellationRequest: { reason: string; status: string; refundAmount: number | null; createdAt: string } | null;
+}
+
+interface GroupBalance {
+  amountDue: number;
+  amountPaid: number;
+  balance: number;
+}
+
+const CLOSED_STATUSES = ["rejected", "expired", "cancelled"];
+
+const loadStoredSession = (): StoredSession | null => {
+  try {
+    const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as StoredSession;
+    return new Date(session.expiresAt) > new Date() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+const paymentBadge = (reg: PortalRegistration) => {
+  if (reg.paymentStatus === "verified" || reg.accountsVerified) return <Badge className="bg-green-600">Payment Verified</Badge>;
+  if (reg.paymentStatus === "submitted") return <Badge variant="secondary">Payment Under Review</Badge>;
+  if (reg.paymentStatus === "rejected") return <Badge variant="destructive">Payment Rejected</Badge>;
+  return <Badge variant="outline">Payment Pending</Badge>;
+};
+
+const statusBadge = (reg: PortalRegistration) => {
+  if (reg.editModeEnabled) return <Badge variant="secondary">Being Updated</Badge>;
+  if (reg.cancellationRequest?.status === "pending") return <Badge variant="secondary">Cancellation Requested</Badge>;
+  if (reg.registrationStatus === "approved") return <Badge className="bg-green-600">Approved</Badge>;
+  if (reg.registrationStatus === "rejected") return <Badge variant="destructive">Rejected</Badge>;
+  if (reg.registrationStatus === "expired") return <Badge variant="outline">Expired</Badge>;
+  if (reg.registrationStatus === "cancelled") return <Badge variant="outline">Cancelled</Badge>;
+  return <Badge variant="outline">Pending Approval</Badge>;
+};
+
+const MyRegistration = () => {
+  const [session, setSession] = useState<StoredSession | null>(loadStoredSession);
+  const [email, setEmail] = useState("");
+  const [registrations, setRegistrations] = useState<PortalRegistration[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editTarget, setEditTarget] = useState<PortalRegistration | null>(null);
+  const [editChanges, setEditChanges] = useState("");
+  const [isSubmittingEdit, setIsSubmittingEdit] = useState(false);
+  const [balances, setBalances] = useState<Record<string, GroupBalance>>({});
+  const [cancelTarget, setCancelTarget] = useState<PortalRegistration | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [isSubmittingCancel, setIsSubmittingCancel] = useState(false);
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    setSession(null);
+    setRegistrations([]);
+    setBalances({});
+  }, []);
+
+  /** Calls registrant-portal; returns null (after toasting) on failure */
+  const callPortal = useCallback(async (body: Record<string, unknown>) => {
+    if (!session) return null;
+
+    const { data, error } = await supabase.functions.invoke("registrant-portal", {
+      body: { portalToken: session.portalToken, ...body },
+    });
+
+    if (error) {
+      // Non-2xx responses carry the structured { error, code } body in error.context
+      const errorBody = await (error.context instanceof Response
+        ? error.context.clone().json().catch(() => null)
+        : Promise.resolve(null));
+
+      if (errorBody?.code === "SESSION_EXPIRED") {
+        toast.error("Session expired", { description: errorBody.error });
+        signOut();
+        return null;
+      }
+
+      toast.error(errorBody?.error || "Something went wrong. Please try again.");
+      return null;
+    }
+
+    return data;
+  }, [session, signOut]);
+
+  const fetchRegistrations = useCallback(async () => {
+    setIsLoading(true);
+    const data = await callPortal({ action: "list" });
+    if (data) {
+      setRegistrations(data.registrations ?? []);
+      setBalances(data.balances ?? {});
+    }
+    setIsLoading(false);
+  }, [callPortal]);
+
+  useEffect(() => {
+    if (session) fetchRegistrations();
+  }, [session, fetchRegistrations]);
+
+  const handleVerified = (portalSession?: PortalSession) => {
+    if (!portalSession) {
+      toast.error("Sign-in failed. Please try again.");
+      return;
+    }
+    const stored = { ...portalSession, email: email.trim().toLowerCase() };
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(stored));
+    setSession(stored);
+  };
+
+  const handleSignOut = async () => {
+    await callPortal({ action: "sign_out" });
+    signOut();
+  };
+
+  const submitEditRequest = async () => {
+    if (!editTarget || !editChanges.trim()) return;
+
+    setIsSubmittingEdit(true);
+    const data = await callPortal({
+      action: "request_edit",
+      registrationId: editTarget.id,
+      changes: editChanges.trim(),
+    });
+    setIsSubmittingEdit(false);
+
+    if (data?.success) {
+      toast.success("Edit request sent", {
+        description: "The organizing committee will review it and contact you by email.",
+      });
+      setEditTarget(null);
+      setEditChanges("");
+      fetchRegistrations();
+    }
+  };
+
+  const submitCancellationRequest = async () => {
+    if (!cancelTarget || !cancelReason.trim()) return;
+
+    setIsSubmittingCancel(true);
+    const data = await callPortal({
+      action: "request_cancellation",
+      registrationId: cancelTarget.id,
+      reason: cancelReason.trim(),
+    });
+    setIsSubmittingCancel(false);
+
+    if (data?.success) {
+      toast.success("Cancellation request sent", {
+        description: "The organizing committee will review it and email you about any refund.",
+      });
+      setCancelTarget(null);
+      setCancelReason("");
+      fetchRegistrations();
+    }
+  };
+
+  const balanceLine = (balance: GroupBalance | undefined) => {
+    if (!balance || (balance.amountPaid === 0 && balance.balance === 0)) return null;
+    if (balance.balance > 0) return `Paid ${formatFee(balance.amountPaid)} · Balance due ${formatFee(balance.balance)}`;
+    if (balance.balance < 0) return `Paid ${formatFee(balance.amountPaid)} · Refund due ${formatFee(-balance.balance)}`;
+    return `Paid ${formatFee(balance.amountPaid)} · Fully paid`;
+  };
+
+  // Group members under their primary application
+  const groups = registrations.reduce<Map<string, PortalRegistration[]>>((acc, reg) => {
+    const key = reg.parentApplicationId ?? reg.applicationId;
+    acc.set(key, [...(acc.get(key) ?? []), reg]);
+    return acc;
+  }, new Map());
+
+  return (
+    <main className="min-h-screen flex flex-col">
+      <section className="flex-1 py-12 gradient-warm">
+        <div className="container max-w-4xl px-4 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Link to="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+                <ArrowLeft className="w-4 h-4 mr-1" /> Back to registration
+              </Link>
+              <h1 className="font-serif text-3xl font-bold text-foreground">My Registration</h1>
+              <p className="text-muted-foreground">
+                {session ? `Signed in as ${session.email}` : "Sign in with the email you registered with"}
+              </p>
+            </div>
+            {session && (
+              <Button variant="outline" onClick={handleSignOut}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign Out
+              </Button>
+            )}
+          </div>
+
+          {!session && (
+            <Card className="max-w-md">
+              <CardHeader>
+                <CardTitle className="font-serif flex items-center gap-2">
+                  <Mail className="w-5 h-5 text-primary" />
+                  Sign In
+                </CardTitle>
+                <CardDescription>We will email you a 6-digit verification code.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="portal-email">Email Address</Label>
+                  <Input
+                    id="portal-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                  />
+                </div>
+                <EmailOtpVerification
+                  email={email}
+                  onVerified={handleVerified}
+                  isVerified={false}
+                  purpose="portal"
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {session && isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {session && !isLoading && registrations.length === 0 && (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">
+                No registrations were found for {session.email}.
+              </CardContent>
+            </Card>
+          )}
+
+          {session && !isLoading && Array.from(groups.entries()).map(([groupId, members]) => (
+            <Card key={groupId}>
+              <CardHeader>
+                <CardTitle className="font-serif flex items-center gap-2">
+                  {members.length > 1 && <Users className="w-5 h-5 text-primary" />}
+                  {members.length > 1 ? `Group ${groupId}` : members[0].name}
+                </CardTitle>
+                <CardDescription>
+                  Registered on {format(new Date(members[0].createdAt), "dd MMM yyyy")}
+                  {members.length > 1 && ` · ${members.length} attendees · Total ${formatFee(members.reduce((sum, m) => sum + m.registrationFee, 0))}`}
+                  {balanceLine(balances[groupId]) && (
+                    <span className="block mt-1 text-foreground">{balanceLine(balances[groupId])}</span>
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {members.map((reg) => (
+                  <div key={reg.id} className="rounded-lg border border-border p-4 space-y-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-foreground">
+                          {reg.name}
+                          {reg.attendeeType !== "alumni" && (
+                            <span className="ml-2 text-xs text-muted-foreground capitalize">({reg.attendeeType})</span>
+                          )}
+                        </p>
+                        <p className="font-mono text-xs text-muted-foreground">{reg.applicationId}</p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {paymentBadge(reg)}
+                        {statusBadge(reg)}
+                      </div>
+                    </div>
+
+                    <div className="grid gap-2 text-sm sm:grid-cols-2">
+                      <p>
+                        <span className="text-muted-foreground">Stay: </span>
+                        {reg.stayType === "on-campus" ? "On Campus" : "Outside"}
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">Fee: </span>
+                        {formatFee(reg.registrationFee)}
+                      </p>
+                      {reg.stayType === "on-campus" && (
+                        <p className="flex items-center gap-1 sm:col-span-2">
+                          <Bed className="w-4 h-4 text-muted-foreground" />
+                          {reg.hostelName
+                            ? `${reg.hostelName}${reg.roomNumber ? `, Room ${reg.roomNumber}` : ""}${reg.bedNumber ? `, Bed ${reg.bedNumber}` : ""}`
+                            : "Accommodation not yet assigned"}
+                        </p>
+                      )}
+                      {reg.checkedInAt && (
+                        <p className="sm:col-span-2 text-green-700">
+                          Checked in on {format(new Date(reg.checkedInAt), "dd MMM yyyy, hh:mm a")}
+                        </p>
+                      )}
+                    </div>
+
+                    {reg.registrationStatus === "rejected" && reg.rejectionReason && (
+                      <p className="text-sm text-destructive">Reason: {reg.rejectionReason}</p>
+                    )}
+
+                    {reg.qrCodeData && (
+                      <div className="flex items-center gap-4">
+                        <div className="p-2 bg-white rounded-lg border border-border">
+                          <CheckInQRCode code={reg.qrCodeData} applicationId={reg.applicationId} size={120} />
+                        </div>
+                        <p className="text-sm text-muted-foreground flex items-center gap-1">
+                          <QrCode className="w-4 h-4" />
+                          Show this code at the registration desk
+                        </p>
+                      </div>
+                    )}
+
+                    {reg.cancellationRequest?.status === "pending" && (
+                      <p className="text-sm text-muted-foreground">
+                        Cancellation requested on {format(new Date(reg.cancellationRequest.createdAt), "dd MMM yyyy")}: “{reg.cancellationRequest.reason}”
+                      </p>
+                    )}
+                    {reg.registrationStatus === "cancelled" && reg.cancellationRequest?.status === "approved" && (
+                      <p className="text-sm text-muted-foreground">
+                        {reg.cancellationRequest.refundAmount
+                          ? `Cancelled. A refund of ${formatFee(reg.cancellationRequest.refundAmount)} has been recorded.`
+                          : "Cancelled at your request."}
+                      </p>
+                    )}
+                    {reg.cancellationRequest?.status === "declined" && reg.registrationStatus !== "cancelled" && (
+                      <p className="text-sm text-muted-foreground">
+                        Your cancellation request was declined. Please contact the organizing committee.
+                      </p>
+                    )}
+
+                    {reg.editRequest?.status === "pending" && (
+                      <p className="text-sm text-muted-foreground">
+                        Edit requested on {format(new Date(reg.editRequest.createdAt), "dd MMM yyyy")}: “{reg.editRequest.changes}”
+                      </p>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {reg.receiptUrl && (
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={reg.receiptUrl} target="_blank" rel="noopener noreferrer" download>
+                            <FileText className="w-4 h-4 mr-2" />
+                            Download Receipt
+                          </a>
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditTarget(reg)}
+                        disabled={reg.editRequest?.status === "pending" || !!reg.editModeEnabled}
+                      >
+                        <Edit3 className="w-4 h-4 mr-2" />
+                        Request Edit
+                      </Button>
+                      {!CLOSED_STATUSES.includes(reg.registrationStatus) && !reg.checkedInAt && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCancelTarget(reg)}
+                          disabled={reg.cancellationRequest?.status === "pending"}
+                        >
+                          <Ban className="w-4 h-4 mr-2" />
+                          Request Cancellation
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </section>
+
+      <Dialog open={!!editTarget} onOpenChange={(open) => !open && setEditTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Request an Edit</DialogTitle>
+            <DialogDescription>
+              Describe what should change for <span className="font-semibold">{editTarget?.applicationId}</span>.
+              The organizing committee will review your request; changes to stay type may require an additional payment.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={editChanges}
+            onChange={(e) => setEditChanges(e.target.value)}
+            placeholder="e.g., Please change my stay from Outside to On-Campus"
+            rows={4}
+            maxLength={1000}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(null)} disabled={isSubmittingEdit}>
+              Cancel
+            </Button>
+            <Button onClick={submitEditRequest} disabled={isSubmittingEdit || editChanges.trim().length < 5}>
+              {isSubmittingEdit && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-serif">Request Cancellation</DialogTitle>
+            <DialogDescription>
+              Ask to cancel <span className="font-semibold">{cancelTarget?.applicationId}</span>
+              {cancelTarget && ` (${cancelTarget.name})`}. The organizing committee will review your request
+              and let you know about any refund. Other attendees in your group are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Reason for cancelling"
+            rows={4}
+            maxLength={1000}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={isSubmittingCancel}>
+              Keep Registration
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={submitCancellationRequest}
+              disabled={isSubmittingCancel || cancelReason.trim().length < 5}
+            >
+              {isSubmittingCancel && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Request Cancellation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </main>
+  );
+};
+
+export default MyRegistration;
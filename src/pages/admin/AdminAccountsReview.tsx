@@ -45,7 +45,8 @@ import {
   Upload,
   Users,
   ChevronRight,
-  Edit3
+  Edit3,
+  FileSpreadsheet
 } from 'lucide-react';
 import {
   Pagination,
@@ -58,6 +59,26 @@ import {
 } from '@/components/ui/pagination';
 import { format } from 'date-fns';
 import { resolveLatestPaymentProofUrlFromStorage } from '@/lib/paymentProofResolver';
+import type { StatementMatch } from '@/lib/bankReconciliation';
+import BankReconciliationDialog from '@/components/admin/BankReconciliationDialog';
+import PaymentLedgerPanel from '@/components/admin/PaymentLedgerPanel';
+import CancellationRequestsPanel from '@/components/admin/CancellationRequestsPanel';
+import PresenceIndicator from '@/components/admin/PresenceIndicator';
+import RegistrationConflictDialog from '@/components/admin/RegistrationConflictDialog';
+import { applyRealtimeChange, useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { useAdminPresence } from '@/hooks/useAdminPresence';
+import { recordVerifiedPayment } from '@/lib/paymentLedger';
+import {
+  findRegistrationConflict,
+  updateRegistrationChecked,
+  type RegistrationConflict,
+} from '@/lib/registrationConcurrency';
+import { Tables } from '@/integrations/supabase/types';
+import { ledgerGroupId } from '@shared/paymentLedger';
+
+/** Registrations that need the accounts team: a submitted proof, or edit mode awaiting a new one */
+const needsAccountsReview = (r: { payment_status: string; edit_mode_enabled: boolean }) =>
+  r.payment_status === 'submitted' || r.edit_mode_enabled;
 
 interface AccountsRegistration {
   id: string;
@@ -78,6 +99,7 @@ interface AccountsRegistration {
   edit_mode_enabled_at: string | null;
   edit_mode_reason: string | null;
   stay_type: string | null;
+  version: number;
 }
 
 const AdminAccountsReview = () => {
@@ -106,9 +128,38 @@ const AdminAccountsReview = () => {
   
   // Group view state
   const [showGrouped, setShowGrouped] = useState(true);
+
+  // Bank statement reconciliation state
+  const [isReconcileOpen, setIsReconcileOpen] = useState(false);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  // An action refused because someone else changed the registration; overwrite repeats it
+  const [pendingConflict, setPendingConflict] = useState<{
+    conflict: RegistrationConflict;
+    actionLabel: string;
+    overwrite: (current: Tables<'registrations'>) => void;
+  } | null>(null);
   
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+
+  // Tell other admins which application is open here, and see theirs
+  const { othersOn } = useAdminPresence({
+    screen: 'accounts',
+    applicationIds: selectedRegistration && (isDetailOpen || isRejectDialogOpen) ? [selectedRegistration.application_id] : [],
+    activity: isProcessing || isUploadingReceipt || isRejectDialogOpen ? 'editing' : 'viewing',
+  });
+
+  // Merge changes made by other admins into the list instead of refetching it
+  useRealtimeTable('registrations', (change) => {
+    setRegistrations((rows) =>
+      applyRealtimeChange(rows, change, needsAccountsReview).sort((a, b) => b.created_at.localeCompare(a.created_at))
+    );
+    if (change.row) {
+      const updated = change.row;
+      setSelectedRegistration((current) => (current?.id === updated.id ? { ...current, ...updated } : current));
+    }
+  });
 
   const toPublicPaymentProofUrl = (value: string | null) => {
     if (!value) return null;
@@ -200,26 +251,6 @@ const AdminAccountsReview = () => {
 
   useEffect(() => {
     fetchRegistrations();
-
-    // Subscribe to real-time changes
-    const channel = supabase
-      .channel('accounts-registrations-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'registrations'
-        },
-        () => {
-          fetchRegistrations();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
   }, []);
 
   useEffect(() => {
@@ -234,7 +265,7 @@ const AdminAccountsReview = () => {
       // Also include edit_mode_enabled registrations that need new payment proof
       const { data, error } = await supabase
         .from('registrations')
-        .select('id, application_id, name, registration_fee, payment_status, payment_proof_url, payment_receipt_url, payment_reference, payment_date, accounts_verified, accounts_verified_at, created_at, parent_application_id, edit_mode_enabled, edit_mode_enabled_at, edit_mode_reason, stay_type')
+        .select('id, application_id, name, registration_fee, payment_status, payment_proof_url, payment_receipt_url, payment_reference, payment_date, accounts_verified, accounts_verified_at, created_at, parent_application_id, edit_mode_enabled, edit_mode_enabled_at, edit_mode_reason, stay_type, version')
         .or('payment_status.eq.submitted,edit_mode_enabled.eq.true')
         .order('created_at', { ascending: false });
 
@@ -248,7 +279,7 @@ const AdminAccountsReview = () => {
         // Re-fetch to pick up the newly linked proofs
         const { data: refreshedData } = await supabase
           .from('registrations')
-          .select('id, application_id, name, registration_fee, payment_status, payment_proof_url, payment_receipt_url, payment_reference, payment_date, accounts_verified, accounts_verified_at, created_at, parent_application_id, edit_mode_enabled, edit_mode_enabled_at, edit_mode_reason, stay_type')
+          .select('id, application_id, name, registration_fee, payment_status, payment_proof_url, payment_receipt_url, payment_reference, payment_date, accounts_verified, accounts_verified_at, created_at, parent_application_id, edit_mode_enabled, edit_mode_enabled_at, edit_mode_reason, stay_type, version')
           .or('payment_status.eq.submitted,edit_mode_enabled.eq.true')
           .order('created_at', { ascending: false });
         if (refreshedData) {
@@ -360,14 +391,43 @@ const AdminAccountsReview = () => {
 
       setEditModeProofUrl(urlData.publicUrl);
 
-      // Update registration with the new proof URL
-      await supabase
-        .from('registrations')
-        .update({ 
-          payment_proof_url: urlData.publicUrl,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedRegistration.id);
+      await linkEditModeProof(selectedRegistration, urlData.publicUrl);
+    } catch (error) {
+      console.error('Error uploading edit mode proof:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to upload payment proof',
+        variant: 'destructive',
+      });
+      setEditModeProofFile(null);
+    } finally {
+      setIsUploadingEditModeProof(false);
+    }
+  };
+
+  // Update registration with the new proof URL
+  const linkEditModeProof = async (registration: AccountsRegistration, proofUrl: string) => {
+    try {
+      const conflict = await updateRegistrationChecked(registration, {
+        payment_proof_url: proofUrl,
+        updated_at: new Date().toISOString()
+      });
+
+      if (conflict) {
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Link new payment proof',
+          overwrite: (current) => linkEditModeProof({ ...registration, ...current }, proofUrl),
+        });
+        return;
+      }
+
+      // Keep verifying against the version this update produced
+      setSelectedRegistration((current) =>
+        current?.id === registration.id
+          ? { ...current, payment_proof_url: proofUrl, version: Math.max(current.version, registration.version + 1) }
+          : current
+      );
 
       toast({
         title: 'Payment Proof Uploaded',
@@ -377,15 +437,12 @@ const AdminAccountsReview = () => {
       // Refresh registrations to get updated data
       fetchRegistrations();
     } catch (error) {
-      console.error('Error uploading edit mode proof:', error);
+      console.error('Error linking edit mode proof:', error);
       toast({
         title: 'Error',
-        description: 'Failed to upload payment proof',
+        description: 'Failed to link payment proof',
         variant: 'destructive',
       });
-      setEditModeProofFile(null);
-    } finally {
-      setIsUploadingEditModeProof(false);
     }
   };
 
@@ -436,6 +493,107 @@ const AdminAccountsReview = () => {
   };
 
 
+  /**
+   * Marks a registration's payment as verified by accounts, books the
+   * payment in the ledger and logs it.
+   * Shared by the manual review flow and bank statement reconciliation.
+   *
+   * @returns The conflict if someone else changed the registration since it
+   *   was loaded (nothing is written then), otherwise null
+   */
+  const markPaymentVerified = async (
+    registration: AccountsRegistration,
+    receiptUrl: string | null,
+    extraDetails: Record<string, unknown> = {}
+  ): Promise<RegistrationConflict | null> => {
+    const verifiedAt = new Date().toISOString();
+
+    // For edit mode registrations, do NOT set pending_admin_approval here.
+    // The admin must first edit the registration (e.g. update paid amount, stay type),
+    // and saving those edits will set pending_admin_approval = true.
+    const conflict = await updateRegistrationChecked(registration, {
+      accounts_verified: true,
+      accounts_verified_at: verifiedAt,
+      accounts_verified_by: user?.id,
+      payment_receipt_url: receiptUrl,
+    });
+
+    if (conflict) return conflict;
+
+    // Only the part of the fee not yet in the ledger is booked, so an edit-mode top-up records the difference
+    let ledgerAmount = 0;
+    if (user) {
+      try {
+        const statementReference = typeof extraDetails.statementReference === 'string' ? extraDetails.statementReference : null;
+        ledgerAmount = await recordVerifiedPayment(registration, user.id, statementReference);
+      } catch (ledgerError) {
+        console.error(`Error recording ledger payment for ${registration.application_id}:`, ledgerError);
+      }
+    }
+
+    // Log account approval activity
+    await logAdminActivity({
+      actionType: 'account_approval',
+      targetRegistrationId: registration.id,
+      targetApplicationId: registration.application_id,
+      details: { 
+        registrationFee: registration.registration_fee,
+        isEditMode: registration.edit_mode_enabled,
+        ledgerAmount,
+        ...extraDetails
+      }
+    });
+
+    return null;
+  };
+
+  /**
+   * Verifies every registration in the confirmed statement matches.
+   * The statement line stands in for the receipt check; existing receipts are kept.
+   */
+  const handleReconcileStatement = async (matches: StatementMatch<AccountsRegistration>[]) => {
+    setIsReconciling(true);
+    let verifiedCount = 0;
+    const failed: string[] = [];
+
+    for (const match of matches) {
+      for (const member of match.unit?.members ?? []) {
+        try {
+          const conflict = await markPaymentVerified(member, member.payment_receipt_url, {
+            source: 'bank_statement',
+            matchType: match.type,
+            matchReason: match.reason,
+            statementRow: match.row.rowNumber,
+            statementAmount: match.row.amount,
+            statementDate: match.row.date ? format(match.row.date, 'yyyy-MM-dd') : null,
+            statementReference: match.row.reference || match.row.description,
+            groupTotal: match.unit!.totalAmount,
+          });
+          if (conflict) {
+            failed.push(`${member.application_id} (changed by someone else)`);
+            continue;
+          }
+          verifiedCount++;
+        } catch (error) {
+          console.error(`Error verifying ${member.application_id} from statement:`, error);
+          failed.push(member.application_id);
+        }
+      }
+    }
+
+    toast({
+      title: failed.length > 0 ? 'Reconciliation Partially Complete' : 'Payments Verified',
+      description: failed.length > 0
+        ? `Verified ${verifiedCount} registration(s). Failed: ${failed.join(', ')}`
+        : `Verified ${verifiedCount} registration(s) from the bank statement. Admin can now approve.`,
+      variant: failed.length > 0 ? 'destructive' : 'default',
+    });
+
+    setIsReconciling(false);
+    setIsReconcileOpen(false);
+    fetchRegistrations();
+  };
+
   const handleVerifyPayment = async (registration: AccountsRegistration) => {
     // For edit mode registrations, require NEW payment proof (editModeProofUrl) AND receipt
     if (registration.edit_mode_enabled) {
@@ -468,6 +626,17 @@ const AdminAccountsReview = () => {
 
     setIsProcessing(true);
     try {
+      // Don't replace the receipt of a record someone else has just changed
+      const staleConflict = await findRegistrationConflict(registration);
+      if (staleConflict) {
+        setPendingConflict({
+          conflict: staleConflict,
+          actionLabel: 'Verify payment',
+          overwrite: (current) => handleVerifyPayment({ ...registration, ...current }),
+        });
+        return;
+      }
+
       let receiptUrl = registration.payment_receipt_url;
 
       // Upload receipt if a new file was selected
@@ -486,35 +655,15 @@ const AdminAccountsReview = () => {
         });
       }
 
-      const verifiedAt = new Date().toISOString();
-
-      // For edit mode registrations, do NOT set pending_admin_approval here.
-      // The admin must first edit the registration (e.g. update paid amount, stay type),
-      // and saving those edits will set pending_admin_approval = true.
-      const updateData: Record<string, unknown> = {
-        accounts_verified: true,
-        accounts_verified_at: verifiedAt,
-        accounts_verified_by: user?.id,
-        payment_receipt_url: receiptUrl,
-      };
-
-      const { error } = await supabase
-        .from('registrations')
-        .update(updateData)
-        .eq('id', registration.id);
-
-      if (error) throw error;
-
-      // Log account approval activity
-      await logAdminActivity({
-        actionType: 'account_approval',
-        targetRegistrationId: registration.id,
-        targetApplicationId: registration.application_id,
-        details: { 
-          registrationFee: registration.registration_fee,
-          isEditMode: registration.edit_mode_enabled 
-        }
-      });
+      const conflict = await markPaymentVerified(registration, receiptUrl);
+      if (conflict) {
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Verify payment',
+          overwrite: (current) => handleVerifyPayment({ ...registration, ...current }),
+        });
+        return;
+      }
 
       toast({
         title: registration.edit_mode_enabled ? 'Edit Mode Payment Verified' : 'Payment Verified',
@@ -541,34 +690,38 @@ const AdminAccountsReview = () => {
     }
   };
 
-  const handleRejectPayment = async () => {
-    if (!selectedRegistration || !rejectionReason.trim()) return;
+  const handleRejectPayment = async (registration = selectedRegistration) => {
+    if (!registration || !rejectionReason.trim()) return;
 
     setIsProcessing(true);
     try {
       // Reject the payment by setting payment_status back to pending and clearing proof
-      const { error } = await supabase
-        .from('registrations')
-        .update({
-          payment_status: 'pending',
-          payment_proof_url: null,
-          payment_reference: null,
-        })
-        .eq('id', selectedRegistration.id);
+      const conflict = await updateRegistrationChecked(registration, {
+        payment_status: 'pending',
+        payment_proof_url: null,
+        payment_reference: null,
+      });
 
-      if (error) throw error;
+      if (conflict) {
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Reject payment',
+          overwrite: (current) => handleRejectPayment({ ...registration, ...current }),
+        });
+        return;
+      }
 
       // Log account rejection activity
       await logAdminActivity({
         actionType: 'account_rejection',
-        targetRegistrationId: selectedRegistration.id,
-        targetApplicationId: selectedRegistration.application_id,
+        targetRegistrationId: registration.id,
+        targetApplicationId: registration.application_id,
         details: { rejectionReason }
       });
 
       toast({
         title: 'Payment Rejected',
-        description: `Payment proof for ${selectedRegistration.application_id} has been rejected. They will need to resubmit.`,
+        description: `Payment proof for ${registration.application_id} has been rejected. They will need to resubmit.`,
       });
 
       fetchRegistrations();
@@ -587,6 +740,18 @@ const AdminAccountsReview = () => {
     }
   };
 
+  // Reload after a conflict: show the registration as it is now
+  const handleConflictReload = (current: Tables<'registrations'> | null) => {
+    setPendingConflict(null);
+    if (current) {
+      setSelectedRegistration((selected) => (selected?.id === current.id ? { ...selected, ...current } : selected));
+    } else {
+      setIsDetailOpen(false);
+      setIsRejectDialogOpen(false);
+    }
+    fetchRegistrations();
+  };
+
   const getVerificationBadge = (registration: AccountsRegistration) => {
     if (registration.edit_mode_enabled) {
       return <Badge className="bg-accent text-accent-foreground">Edit Mode</Badge>;
@@ -685,6 +850,12 @@ const AdminAccountsReview = () => {
               <Users className="h-4 w-4 mr-2" />
               {showGrouped ? 'Grouped' : 'Flat'}
             </Button>
+            {can('verify_payment') && (
+              <Button onClick={() => setIsReconcileOpen(true)} variant="outline" size="sm">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Reconcile Statement
+              </Button>
+            )}
             <Button onClick={fetchRegistrations} variant="outline" size="sm">
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
@@ -692,6 +863,8 @@ const AdminAccountsReview = () => {
           </div>
         </div>
 
+        <CancellationRequestsPanel onReviewed={fetchRegistrations} />
+
         <Card className="shadow-card">
           <CardHeader>
             <div className="flex flex-col sm:flex-row gap-4">
@@ -783,6 +956,7 @@ const AdminAccountsReview = () => {
                                           <div className="flex items-center gap-2">
                                             {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
                                             {registration.application_id}
+                                            <PresenceIndicator compact viewers={othersOn(registration.application_id)} />
                                             {index === 0 && (
                                               <Badge variant="outline" className="text-xs">Primary</Badge>
                                             )}
@@ -811,7 +985,10 @@ const AdminAccountsReview = () => {
                                 {standalone.map((registration) => (
                                   <TableRow key={registration.id}>
                                     <TableCell className="font-mono text-sm font-medium">
-                                      {registration.application_id}
+                                      <div className="flex items-center gap-2">
+                                        {registration.application_id}
+                                        <PresenceIndicator compact viewers={othersOn(registration.application_id)} />
+                                      </div>
                                     </TableCell>
                                     <TableCell>₹{registration.registration_fee}</TableCell>
                                     <TableCell>{registration.name}</TableCell>
@@ -839,7 +1016,10 @@ const AdminAccountsReview = () => {
                         paginatedRegistrations.map((registration) => (
                           <TableRow key={registration.id}>
                             <TableCell className="font-mono text-sm font-medium">
-                              {registration.application_id}
+                              <div className="flex items-center gap-2">
+                                {registration.application_id}
+                                <PresenceIndicator compact viewers={othersOn(registration.application_id)} />
+                              </div>
                             </TableCell>
                             <TableCell>₹{registration.registration_fee}</TableCell>
                             <TableCell>{registration.name}</TableCell>
@@ -926,6 +1106,7 @@ const AdminAccountsReview = () => {
             <DialogDescription>
               Application ID: {selectedRegistration?.application_id}
             </DialogDescription>
+            <PresenceIndicator viewers={othersOn(selectedRegistration?.application_id)} />
           </DialogHeader>
 
           {selectedRegistration && (
@@ -1117,6 +1298,10 @@ const AdminAccountsReview = () => {
                 <div className="mt-1">{getVerificationBadge(selectedRegistration)}</div>
               </div>
 
+              <div className="border-t pt-4">
+                <PaymentLedgerPanel groupApplicationId={ledgerGroupId(selectedRegistration)} />
+              </div>
+
               {/* Receipt Upload Section - Show if not verified OR if edit mode is enabled */}
               {(!selectedRegistration.accounts_verified || selectedRegistration.edit_mode_enabled) && (
                 <div className="border-t pt-4">
@@ -1196,7 +1381,7 @@ const AdminAccountsReview = () => {
           )}
 
           <DialogFooter className="gap-2">
-            {selectedRegistration && (!selectedRegistration.accounts_verified || selectedRegistration.edit_mode_enabled) && (
+            {can('verify_payment') && selectedRegistration && (!selectedRegistration.accounts_verified || selectedRegistration.edit_mode_enabled) && (
               <>
                 <Button
                   variant="outline"
@@ -1267,7 +1452,7 @@ const AdminAccountsReview = () => {
             </Button>
             <Button
               variant="destructive"
-              onClick={handleRejectPayment}
+              onClick={() => handleRejectPayment()}
               disabled={isProcessing || !rejectionReason.trim()}
             >
               {isProcessing ? (
@@ -1280,6 +1465,27 @@ const AdminAccountsReview = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <BankReconciliationDialog
+        open={isReconcileOpen}
+        onOpenChange={setIsReconcileOpen}
+        registrations={registrations}
+        onConfirm={handleReconcileStatement}
+        isProcessing={isReconciling}
+      />
+
+      {/* Someone else changed the registration an action was meant for */}
+      <RegistrationConflictDialog
+        conflict={pendingConflict?.conflict ?? null}
+        actionLabel={pendingConflict?.actionLabel}
+        onOpenChange={(open) => !open && setPendingConflict(null)}
+        onReload={handleConflictReload}
+        onOverwrite={(current) => {
+          const overwrite = pendingConflict?.overwrite;
+          setPendingConflict(null);
+          overwrite?.(current);
+        }}
+      />
     </AdminLayout>
   );
 };
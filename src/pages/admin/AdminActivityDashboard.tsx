@@ -107,7 +107,18 @@ const AdminActivityDashboard = () => {
       registration_approval: { label: 'Registration Approved', variant: 'default' },
       registration_rejection: { label: 'Registration Rejected', variant: 'destructive' },
       bed_assignment: { label: 'Bed Assigned', variant: 'secondary' },
-      bed_unassignment: { label: 'Bed Unassigned', variant: 'outline' }
+      bed_unassignment: { label: 'Bed Unassigned', variant: 'outline' },
+      check_in: { label: 'Checked In', variant: 'default' },
+      email_resend: { label: 'Email Resent', variant: 'outline' },
+      waitlist_promotion: { label: 'Waitlist Promoted', variant: 'secondary' },
+      ledger_entry: { label: 'Ledger Entry', variant: 'secondary' },
+      cancellation_approval: { label: 'Cancellation Approved', variant: 'destructive' },
+      cancellation_decline: { label: 'Cancellation Declined', variant: 'outline' },
+      registration_import: { label: 'Registration Imported', variant: 'secondary' },
+      registration_merge: { label: 'Registrations Merged', variant: 'outline' },
+      registration_deletion: { label: 'Registration Deleted', variant: 'destructive' },
+      registration_restore: { label: 'Registration Restored', variant: 'secondary' },
+      registration_purge: { label: 'Registrations Purged', variant: 'destructive' }
     };
     
     const actionConfig = config[actionType] || { label: actionType, variant: 'outline' as const };
@@ -262,6 +273,17 @@ const AdminActivityDashboard = () => {
                         <SelectItem value="registration_rejection">Registration Rejection</SelectItem>
                         <SelectItem value="bed_assignment">Bed Assignment</SelectItem>
                         <SelectItem value="bed_unassignment">Bed Unassignment</SelectItem>
+                        <SelectItem value="check_in">Check-In</SelectItem>
+                        <SelectItem value="email_resend">Email Resend</SelectItem>
+                        <SelectItem value="waitlist_promotion">Waitlist Promotion</SelectItem>
+                        <SelectItem value="ledger_entry">Ledger Entry</SelectItem>
+                        <SelectItem value="cancellation_approval">Cancellation Approval</SelectItem>
+                        <SelectItem value="cancellation_decline">Cancellation Decline</SelectItem>
+                        <SelectItem value="registration_import">Registration Import</SelectItem>
+                        <SelectItem value="registration_merge">Registration Merge</SelectItem>
+                        <SelectItem value="registration_deletion">Registration Deletion</SelectItem>
+                        <SelectItem value="registration_restore">Registration Restore</SelectItem>
+                        <SelectItem value="registration_purge">Registration Purge</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
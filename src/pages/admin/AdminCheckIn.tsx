@@ -0,0 +1,309 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import jsQR from 'jsqr';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { Camera, CameraOff, CheckCircle2, AlertTriangle, XCircle, Loader2, ScanLine } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface CheckInAttendee {
+  applicationId: string;
+  parentApplicationId: string | null;
+  name: string;
+  stayType: string;
+}
+
+interface CheckInResult {
+  status: 'checked_in' | 'duplicate' | 'rejected';
+  message: string;
+  attendee?: CheckInAttendee;
+  checkedInAt?: string | null;
+}
+
+/** Ignore repeated reads of the same code while it is still in front of the camera */
+const RESCAN_COOLDOWN_MS = 4000;
+
+const resultStyles: Record<CheckInResult['status'], { className: string; icon: typeof CheckCircle2; title: string }> = {
+  checked_in: { className: 'border-green-500 bg-green-50 dark:bg-green-900/20', icon: CheckCircle2, title: 'Checked In' },
+  duplicate: { className: 'border-amber-500 bg-amber-50 dark:bg-amber-900/20', icon: AlertTriangle, title: 'Already Checked In' },
+  rejected: { className: 'border-destructive bg-destructive/10', icon: XCircle, title: 'Rejected' },
+};
+
+const AdminCheckIn = () => {
+  const { toast } = useToast();
+  const [manualCode, setManualCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [lastResult, setLastResult] = useState<CheckInResult | null>(null);
+  const [recentCheckIns, setRecentCheckIns] = useState<(CheckInAttendee & { checkedInAt: string })[]>([]);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const busyRef = useRef(false);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  const verifyCode = useCallback(async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed || busyRef.current) return;
+
+    busyRef.current = true;
+    setIsVerifying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('verify-check-in', {
+        body: { code: trimmed },
+      });
+
+      if (error) {
+        // Non-2xx responses carry the structured { error, code } body in error.context
+        const errorBody = await (error.context instanceof Response
+          ? error.context.clone().json().catch(() => null)
+          : Promise.resolve(null));
+
+        setLastResult({
+          status: errorBody?.code === 'ALREADY_CHECKED_IN' ? 'duplicate' : 'rejected',
+          message: errorBody?.error || error.message || 'Failed to verify check-in code',
+          attendee: errorBody?.attendee,
+          checkedInAt: errorBody?.checkedInAt,
+        });
+        return;
+      }
+
+      setLastResult({
+        status: 'checked_in',
+        message: 'Welcome! Arrival has been recorded.',
+        attendee: data.attendee,
+        checkedInAt: data.checkedInAt,
+      });
+      setRecentCheckIns((prev) => [{ ...data.attendee, checkedInAt: data.checkedInAt }, ...prev].slice(0, 20));
+      setManualCode('');
+
+      await logAdminActivity({
+        actionType: 'check_in',
+        targetRegistrationId: data.registrationId,
+        targetApplicationId: data.attendee.applicationId,
+        details: { name: data.attendee.name, checkedInAt: data.checkedInAt },
+      });
+    } catch (err) {
+      console.error('Error verifying check-in:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to verify check-in code',
+        variant: 'destructive',
+      });
+    } finally {
+      busyRef.current = false;
+      setIsVerifying(false);
+    }
+  }, [toast]);
+
+  const stopCamera = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  }, []);
+
+  const scanFrame = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !streamRef.current) return;
+
+    if (video.readyState === video.HAVE_ENOUGH_DATA) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (context) {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const decoded = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+        const now = Date.now();
+        const last = lastScanRef.current;
+        if (decoded?.data && !(last && last.code === decoded.data && now - last.at < RESCAN_COOLDOWN_MS)) {
+          lastScanRef.current = { code: decoded.data, at: now };
+          verifyCode(decoded.data);
+        }
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(scanFrame);
+  }, [verifyCode]);
+
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false,
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setIsCameraOn(true);
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (err) {
+      console.error('Camera access failed:', err);
+      toast({
+        title: 'Camera Unavailable',
+        description: 'Could not access the camera. Allow camera access or enter the code manually.',
+        variant: 'destructive',
+      });
+      stopCamera();
+    }
+  };
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const ResultIcon = lastResult ? resultStyles[lastResult.status].icon : null;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Event Check-In</h1>
+          <p className="text-muted-foreground">Scan attendee QR codes to record arrivals</p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanLine className="h-5 w-5 text-primary" />
+                Scan QR Code
+              </CardTitle>
+              <CardDescription>Point the camera at the QR code from the approval email</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="relative aspect-square w-full max-w-sm mx-auto overflow-hidden rounded-lg bg-muted">
+                <video
+                  ref={videoRef}
+                  playsInline
+                  muted
+                  className={`h-full w-full object-cover ${isCameraOn ? '' : 'hidden'}`}
+                />
+                {!isCameraOn && (
+                  <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                    <CameraOff className="h-10 w-10" />
+                  </div>
+                )}
+                <canvas ref={canvasRef} className="hidden" />
+              </div>
+              <div className="flex justify-center">
+                {isCameraOn ? (
+                  <Button variant="outline" onClick={stopCamera}>
+                    <CameraOff className="mr-2 h-4 w-4" />
+                    Stop Camera
+                  </Button>
+                ) : (
+                  <Button onClick={startCamera}>
+                    <Camera className="mr-2 h-4 w-4" />
+                    Start Camera
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-2 border-t pt-4">
+                <p className="text-sm font-medium">Manual Entry</p>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    verifyCode(manualCode);
+                  }}
+                >
+                  <Input
+                    value={manualCode}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    placeholder="Paste the check-in code (RVAM1...)"
+                    className="font-mono text-xs"
+                  />
+                  <Button type="submit" disabled={isVerifying || !manualCode.trim()}>
+                    {isVerifying ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Check In'}
+                  </Button>
+                </form>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className={lastResult ? `border-2 ${resultStyles[lastResult.status].className}` : ''}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {isVerifying ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    ResultIcon && <ResultIcon className="h-5 w-5" />
+                  )}
+                  {lastResult ? resultStyles[lastResult.status].title : 'Waiting for Scan'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {lastResult ? (
+                  <>
+                    {lastResult.attendee && (
+                      <div>
+                        <p className="text-lg font-semibold">{lastResult.attendee.name}</p>
+                        <p className="font-mono text-sm text-muted-foreground">{lastResult.attendee.applicationId}</p>
+                        <Badge variant="outline" className="mt-1">
+                          {lastResult.attendee.stayType === 'on-campus' ? 'On Campus' : 'Outside'}
+                        </Badge>
+                      </div>
+                    )}
+                    <p className="text-sm">{lastResult.message}</p>
+                    {lastResult.checkedInAt && (
+                      <p className="text-sm text-muted-foreground">
+                        Arrived: {format(new Date(lastResult.checkedInAt), 'dd MMM yyyy, hh:mm a')}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Scan or enter a code to check an attendee in.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Check-Ins</CardTitle>
+                <CardDescription>Arrivals recorded on this device during this session</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {recentCheckIns.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No check-ins yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {recentCheckIns.map((entry) => (
+                      <div key={entry.applicationId} className="flex items-center justify-between border-b pb-2 last:border-b-0">
+                        <div>
+                          <p className="text-sm font-medium">{entry.name}</p>
+                          <p className="font-mono text-xs text-muted-foreground">{entry.applicationId}</p>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(entry.checkedInAt), 'hh:mm a')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default AdminCheckIn;
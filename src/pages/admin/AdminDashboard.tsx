@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { supabase } from '@/integrations/supabase/client';
+import { searchRegistrations } from '@/lib/registrationSearch';
 import { Users, Clock, CheckCircle, Loader2 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 
@@ -25,19 +25,16 @@ const AdminDashboard = () => {
 
   const fetchStats = async () => {
     try {
-      const { data: registrations, error } = await supabase
-        .from('registrations')
-        .select('registration_status, payment_status, stay_type');
-
-      if (error) throw error;
+      // Counts only; the aggregation happens in the database
+      const { total, counts } = await searchRegistrations({}, { limit: 0 });
 
       const stats: DashboardStats = {
-        totalRegistrations: registrations?.length || 0,
-        pendingRegistrations: registrations?.filter(r => r.registration_status === 'pending').length || 0,
-        approvedRegistrations: registrations?.filter(r => r.registration_status === 'approved').length || 0,
-        onCampusCount: registrations?.filter(r => r.stay_type === 'on-campus').length || 0,
-        pendingPayments: registrations?.filter(r => r.payment_status === 'pending' || r.payment_status === 'submitted').length || 0,
-        verifiedPayments: registrations?.filter(r => r.payment_status === 'verified').length || 0,
+        totalRegistrations: total,
+        pendingRegistrations: counts.registrationStatus.pending || 0,
+        approvedRegistrations: counts.registrationStatus.approved || 0,
+        onCampusCount: counts.stayType['on-campus'] || 0,
+        pendingPayments: (counts.paymentStatus.pending || 0) + (counts.paymentStatus.submitted || 0),
+        verifiedPayments: counts.paymentStatus.verified || 0,
       };
 
       setStats(stats);
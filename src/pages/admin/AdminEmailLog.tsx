@@ -0,0 +1,388 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { Loader2, Mail, RefreshCw, Search, Send } from 'lucide-react';
+import { format } from 'date-fns';
+
+type OutboxEmail = Omit<Tables<'email_outbox'>, 'payload'>;
+
+/** Columns for the list; the stored payload (HTML, attachments) is never loaded here */
+const EMAIL_COLUMNS =
+  'id, category, to_email, subject, status, attempts, max_attempts, next_attempt_at, last_error, provider, provider_message_id, registration_id, sensitive, sent_at, created_at, updated_at';
+
+/** Must match MAX_RESEND_BATCH in the process-email-outbox function */
+const MAX_RESEND_BATCH = 50;
+
+const statusConfig: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-muted text-muted-foreground' },
+  sending: { label: 'Sending', className: 'bg-blue-500 text-white' },
+  sent: { label: 'Sent', className: 'bg-green-600 text-white' },
+  retrying: { label: 'Retrying', className: 'bg-amber-500 text-white' },
+  failed: { label: 'Failed', className: 'bg-destructive text-destructive-foreground' },
+};
+
+const categoryLabels: Record<string, string> = {
+  registration_confirmation: 'Registration Confirmation',
+  attendee_confirmation: 'Attendee Confirmation',
+  registration_approved: 'Approval',
+  registration_rejected: 'Rejection',
+  payment_reminder: 'Payment Reminder',
+  auto_rejection: 'Auto-Rejection',
+  registration_expired: 'Expiry Notice',
+  invite_link: 'Invite Link',
+  otp: 'Verification Code',
+  waitlist_promotion: 'Waitlist Promotion',
+};
+
+/** Failed emails can be resent unless their content was discarded (OTP codes) */
+const canResend = (email: OutboxEmail) => email.status === 'failed' && !email.sensitive;
+
+const AdminEmailLog = () => {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectedEmail, setSelectedEmail] = useState<OutboxEmail | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  const { data: emails, isLoading, refetch } = useQuery({
+    queryKey: ['email-outbox'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_outbox')
+        .select(EMAIL_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return data as OutboxEmail[];
+    },
+    refetchInterval: 30_000,
+  });
+
+  const filteredEmails = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return (emails ?? []).filter((email) =>
+      (statusFilter === 'all' || email.status === statusFilter) &&
+      (categoryFilter === 'all' || email.category === categoryFilter) &&
+      (!query || email.to_email.toLowerCase().includes(query) || email.subject.toLowerCase().includes(query))
+    );
+  }, [emails, statusFilter, categoryFilter, searchQuery]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    (emails ?? []).forEach((email) => {
+      counts[email.status] = (counts[email.status] ?? 0) + 1;
+    });
+    return counts;
+  }, [emails]);
+
+  const resendableVisible = filteredEmails.filter(canResend);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds((prev) =>
+      resendableVisible.every((e) => prev.has(e.id))
+        ? new Set()
+        : new Set(resendableVisible.slice(0, MAX_RESEND_BATCH).map((e) => e.id))
+    );
+  };
+
+  const handleResend = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    setIsResending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('process-email-outbox', {
+        body: { ids },
+      });
+
+      if (error) {
+        const errorBody = await (error.context instanceof Response
+          ? error.context.clone().json().catch(() => null)
+          : Promise.resolve(null));
+        throw new Error(errorBody?.error || error.message);
+      }
+
+      const results: { id: string; status: string }[] = data.results ?? [];
+      const sent = results.filter((r) => r.status === 'sent').length;
+      const stillFailing = results.length - sent;
+
+      await logAdminActivity({
+        actionType: 'email_resend',
+        targetRegistrationId: ids.length === 1 ? emails?.find((e) => e.id === ids[0])?.registration_id ?? undefined : undefined,
+        details: { emailIds: ids, sent, stillFailing, skipped: data.skipped },
+      });
+
+      toast({
+        title: sent > 0 ? 'Emails Resent' : 'Resend Failed',
+        description: [
+          `${sent} sent`,
+          stillFailing > 0 ? `${stillFailing} still failing` : null,
+          data.skipped > 0 ? `${data.skipped} skipped (no longer failed)` : null,
+        ].filter(Boolean).join(', '),
+        variant: sent > 0 ? 'default' : 'destructive',
+      });
+
+      setSelectedIds(new Set());
+      setSelectedEmail(null);
+      refetch();
+    } catch (error) {
+      console.error('Error resending emails:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to resend emails',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold text-foreground flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Email Log
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {filteredEmails.length} email(s)
+              {(statusCounts.failed ?? 0) > 0 && ` • ${statusCounts.failed} failed`}
+              {(statusCounts.retrying ?? 0) > 0 && ` • ${statusCounts.retrying} awaiting retry`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            {selectedIds.size > 0 && (
+              <Button size="sm" className="gap-1 h-8" onClick={() => handleResend(Array.from(selectedIds))} disabled={isResending}>
+                {isResending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+                Resend {selectedIds.size}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="gap-1 h-8">
+              <RefreshCw className="w-3 h-3" /> Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by recipient or subject..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setSelectedIds(new Set()); }}>
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {Object.entries(statusConfig).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label} ({statusCounts[value] ?? 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={categoryFilter} onValueChange={(value) => { setCategoryFilter(value); setSelectedIds(new Set()); }}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {Object.entries(categoryLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : filteredEmails.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No emails match the current filters.</p>
+            ) : (
+              <ScrollArea className="h-[550px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        {resendableVisible.length > 0 && (
+                          <Checkbox
+                            checked={resendableVisible.every((e) => selectedIds.has(e.id))}
+                            onCheckedChange={toggleAllVisible}
+                            aria-label="Select all failed emails"
+                          />
+                        )}
+                      </TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredEmails.map((email) => (
+                      <TableRow
+                        key={email.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setSelectedEmail(email)}
+                      >
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          {canResend(email) && (
+                            <Checkbox
+                              checked={selectedIds.has(email.id)}
+                              onCheckedChange={() => toggleSelected(email.id)}
+                              disabled={!selectedIds.has(email.id) && selectedIds.size >= MAX_RESEND_BATCH}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {format(new Date(email.created_at), 'MMM d HH:mm')}
+                        </TableCell>
+                        <TableCell className="max-w-[280px]">
+                          <p className="text-sm truncate">{email.to_email}</p>
+                          <p className="text-xs text-muted-foreground truncate">{email.subject}</p>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {categoryLabels[email.category] ?? email.category}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusConfig[email.status]?.className ?? 'bg-muted'}>
+                            {statusConfig[email.status]?.label ?? email.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {email.attempts}/{email.max_attempts}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selectedEmail} onOpenChange={() => setSelectedEmail(null)}>
+          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Email Details</DialogTitle>
+            </DialogHeader>
+            {selectedEmail && (
+              <div className="space-y-4 text-sm">
+                <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <div>
+                    <span className="text-muted-foreground">Status:</span>
+                    <Badge className={`ml-2 ${statusConfig[selectedEmail.status]?.className ?? ''}`}>
+                      {statusConfig[selectedEmail.status]?.label ?? selectedEmail.status}
+                    </Badge>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Type:</span>{' '}
+                    {categoryLabels[selectedEmail.category] ?? selectedEmail.category}
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">To:</span> {selectedEmail.to_email}
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Subject:</span> {selectedEmail.subject}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Created:</span>{' '}
+                    {format(new Date(selectedEmail.created_at), 'MMM d, HH:mm:ss')}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Sent:</span>{' '}
+                    {selectedEmail.sent_at ? format(new Date(selectedEmail.sent_at), 'MMM d, HH:mm:ss') : '—'}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Attempts:</span>{' '}
+                    {selectedEmail.attempts}/{selectedEmail.max_attempts}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Next attempt:</span>{' '}
+                    {selectedEmail.status === 'retrying' && selectedEmail.next_attempt_at
+                      ? format(new Date(selectedEmail.next_attempt_at), 'MMM d, HH:mm')
+                      : '—'}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Provider:</span> {selectedEmail.provider ?? '—'}
+                  </div>
+                  <div className="truncate">
+                    <span className="text-muted-foreground">Message ID:</span>{' '}
+                    <span className="font-mono text-xs">{selectedEmail.provider_message_id ?? '—'}</span>
+                  </div>
+                </div>
+
+                {selectedEmail.last_error && (
+                  <div>
+                    <p className="font-medium mb-1">Last Error</p>
+                    <pre className="bg-muted p-3 rounded text-xs whitespace-pre-wrap break-all">
+                      {selectedEmail.last_error}
+                    </pre>
+                  </div>
+                )}
+
+                {selectedEmail.sensitive && (
+                  <p className="text-xs text-muted-foreground">
+                    This message contained a verification code; its content is not stored and it cannot be resent.
+                  </p>
+                )}
+
+                {canResend(selectedEmail) && (
+                  <div className="flex justify-end">
+                    <Button onClick={() => handleResend([selectedEmail.id])} disabled={isResending}>
+                      {isResending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                      Resend Email
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default AdminEmailLog;
@@ -2,6 +2,7 @@ import { useState, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import AdminLayout from "@/components/admin/AdminLayout";
+import RejectedAttemptsCard from "@/components/admin/RejectedAttemptsCard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -340,6 +341,8 @@ const AdminErrorLogs = () => {
           </CardContent>
         </Card>
 
+        <RejectedAttemptsCard />
+
         {/* Group detail dialog */}
         <Dialog open={!!selectedGroup} onOpenChange={() => setSelectedGroup(null)}>
           <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -1,7 +1,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { applyRealtimeChange, useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { useAdminPresence } from '@/hooks/useAdminPresence';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,11 +17,17 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Bed, Users, Building2, Edit, Loader2 } from 'lucide-react';
+import { Plus, Trash2, Bed, Users, Building2, Edit, Loader2, Wand2, Accessibility, Bath, Layers } from 'lucide-react';
 import GroupedApplicantSelector from '@/components/admin/hostel/GroupedApplicantSelector';
 import BedAssignmentGrid from '@/components/admin/hostel/BedAssignmentGrid';
+import AutoAllocateDialog from '@/components/admin/hostel/AutoAllocateDialog';
+import WaitlistQueue from '@/components/admin/hostel/WaitlistQueue';
+import PresenceIndicator from '@/components/admin/PresenceIndicator';
 import { logAdminActivity } from '@/lib/activityLogger';
+import { planBedAllocation, getRoomGender, genderTagLabel, type AllocationPlan } from '@/lib/bedAllocation';
 
 interface Hostel {
   id: string;
@@ -26,6 +35,8 @@ interface Hostel {
   total_rooms: number;
   beds_per_room: number;
   washrooms: number;
+  /** 'M' / 'F' for single-gender hostels, null for mixed */
+  gender: string | null;
 }
 
 interface Room {
@@ -33,8 +44,15 @@ interface Room {
   hostel_id: string;
   room_number: string;
   beds_count: number;
+  /** Overrides the hostel's gender when set */
+  gender: string | null;
+  is_ground_floor: boolean;
+  is_accessible: boolean;
+  has_attached_washroom: boolean;
 }
 
+type RoomAttributes = Partial<Pick<Room, 'gender' | 'is_ground_floor' | 'is_accessible' | 'has_attached_washroom'>>;
+
 interface BedAssignment {
   id: string;
   room_id: string;
@@ -53,12 +71,33 @@ interface Registration {
   application_id: string;
   parent_application_id: string | null;
   hostel_name: string | null;
+  gender: string;
+  year_of_passing: number;
 }
 
+/** Approved on-campus registrations get a bed; waitlisted ones only once promoted */
+const needsBed = (r: Tables<'registrations'>) =>
+  r.registration_status === 'approved' &&
+  r.stay_type === 'on-campus' &&
+  (!r.waitlisted_at || !!r.waitlist_promoted_at);
+
+/** Select value standing in for a NULL (mixed) hostel gender */
+const MIXED_GENDER = 'mixed';
+
+/** Select value standing in for a NULL room gender (follow the hostel) */
+const INHERIT_GENDER = 'inherit';
+
+const ROOM_FLAGS: { key: 'is_ground_floor' | 'is_accessible' | 'has_attached_washroom'; label: string; icon: typeof Bath }[] = [
+  { key: 'is_ground_floor', label: 'Ground floor', icon: Layers },
+  { key: 'is_accessible', label: 'Accessible', icon: Accessibility },
+  { key: 'has_attached_washroom', label: 'Attached washroom', icon: Bath },
+];
+
 const AdminHostelManagement = () => {
   const { toast } = useToast();
-  const { userRole } = useAuth();
+  const { userRole, can } = useAuth();
   const isSuperadmin = userRole === 'superadmin';
+  const canAssignBeds = can('assign_beds');
   const [hostels, setHostels] = useState<Hostel[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [bedAssignments, setBedAssignments] = useState<BedAssignment[]>([]);
@@ -76,9 +115,13 @@ const AdminHostelManagement = () => {
     name: '',
     total_rooms: 0,
     beds_per_room: 1,
+    gender: null as string | null,
   });
   const [roomBedCounts, setRoomBedCounts] = useState<number[]>([]);
   const [isUpdatingRooms, setIsUpdatingRooms] = useState(false);
+  const [isAutoAllocateOpen, setIsAutoAllocateOpen] = useState(false);
+  const [allocationPlan, setAllocationPlan] = useState<AllocationPlan | null>(null);
+  const [isCommittingAllocation, setIsCommittingAllocation] = useState(false);
 
   // Computed values
   const assignedRegistrationIds = useMemo(() => {
@@ -91,6 +134,43 @@ const AdminHostelManagement = () => {
     return allRegistrations.filter((r) => !assignedRegistrationIds.has(r.id));
   }, [allRegistrations, assignedRegistrationIds]);
 
+  // Applicants selected here are announced as being assigned, so other admins don't pick them too
+  const { othersOn } = useAdminPresence({
+    screen: 'hostels',
+    applicationIds: allRegistrations
+      .filter((r) => selectedApplicantIds.includes(r.id))
+      .map((r) => r.application_id),
+    activity: 'editing',
+  });
+
+  // Merge bed and registration changes made by other admins instead of refetching
+  useRealtimeTable('bed_assignments', (change) => {
+    setBedAssignments((rows) =>
+      applyRealtimeChange(rows, change).map((bed) => {
+        if (bed.id !== change.id || bed.registration?.id === bed.registration_id) return bed;
+        if (!bed.registration_id) return { ...bed, registration: undefined };
+        const registration = allRegistrations.find((r) => r.id === bed.registration_id);
+        return {
+          ...bed,
+          registration: registration && {
+            id: registration.id,
+            name: registration.name,
+            application_id: registration.application_id,
+          },
+        };
+      })
+    );
+    // A bed taken elsewhere can no longer be part of this admin's selection
+    if (change.row?.registration_id) {
+      setSelectedBedIds((ids) => ids.filter((id) => id !== change.id));
+      setSelectedApplicantIds((ids) => ids.filter((id) => id !== change.row?.registration_id));
+    }
+  });
+
+  useRealtimeTable('registrations', (change) => {
+    setAllRegistrations((rows) => applyRealtimeChange(rows, change, needsBed));
+  });
+
   const fetchData = async () => {
     setIsLoading(true);
     try {
@@ -98,9 +178,11 @@ const AdminHostelManagement = () => {
         supabase.from('hostels').select('*').order('name'),
         supabase.from('hostel_rooms').select('*').order('room_number'),
         supabase.from('bed_assignments').select('*, registration:registrations(id, name, application_id)'),
-        supabase.from('registrations').select('id, name, application_id, parent_application_id, hostel_name')
+        supabase.from('registrations').select('id, name, application_id, parent_application_id, hostel_name, gender, year_of_passing')
           .eq('registration_status', 'approved')
-          .eq('stay_type', 'on-campus'),
+          .eq('stay_type', 'on-campus')
+          // Waitlisted registrants only get a bed once promoted
+          .or('waitlisted_at.is.null,waitlist_promoted_at.not.is.null'),
       ]);
 
       if (hostelsRes.error) throw hostelsRes.error;
@@ -180,6 +262,7 @@ const AdminHostelManagement = () => {
           name: newHostel.name.trim(),
           total_rooms: newHostel.total_rooms,
           beds_per_room: newHostel.beds_per_room,
+          gender: newHostel.gender,
         })
         .select()
         .single();
@@ -220,7 +303,7 @@ const AdminHostelManagement = () => {
 
       toast({ title: 'Success', description: 'Hostel added successfully' });
       setIsAddHostelOpen(false);
-      setNewHostel({ name: '', total_rooms: 0, beds_per_room: 1 });
+      setNewHostel({ name: '', total_rooms: 0, beds_per_room: 1, gender: null });
       setRoomBedCounts([]);
       fetchData();
     } catch (error: any) {
@@ -241,6 +324,7 @@ const AdminHostelManagement = () => {
         .from('hostels')
         .update({
           name: editingHostel.name,
+          gender: editingHostel.gender,
         })
         .eq('id', editingHostel.id);
 
@@ -470,6 +554,88 @@ const AdminHostelManagement = () => {
     }
   };
 
+  const handleUpdateRoomAttributes = async (roomId: string, attributes: RoomAttributes) => {
+    try {
+      const { error } = await supabase
+        .from('hostel_rooms')
+        .update(attributes)
+        .eq('id', roomId);
+
+      if (error) throw error;
+
+      setRooms(prev => prev.map(r => (r.id === roomId ? { ...r, ...attributes } : r)));
+    } catch (error) {
+      console.error('Error updating room:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to update room',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  /**
+   * Checks proposed bed -> registrant pairs against room and hostel gender tags.
+   * Tagged rooms are a hard block; mixing genders in an untagged room is only a warning.
+   */
+  const checkGenderCompatibility = (pairs: { bedId: string; registrationId: string }[]) => {
+    const blocked: string[] = [];
+    const mixed: string[] = [];
+    const gendersByRoom = new Map<string, Set<string>>();
+
+    // Genders already in each room, plus those being added in this batch
+    bedAssignments.forEach((b) => {
+      const occupant = allRegistrations.find(r => r.id === b.registration_id);
+      if (!occupant) return;
+      gendersByRoom.set(b.room_id, (gendersByRoom.get(b.room_id) ?? new Set()).add(occupant.gender));
+    });
+
+    pairs.forEach(({ bedId, registrationId }) => {
+      const bed = bedAssignments.find(b => b.id === bedId);
+      const room = rooms.find(r => r.id === bed?.room_id);
+      const hostel = hostels.find(h => h.id === room?.hostel_id);
+      const registration = allRegistrations.find(r => r.id === registrationId);
+      if (!room || !hostel || !registration) return;
+
+      const requiredGender = getRoomGender(hostel, room);
+      const label = `${registration.name} → ${hostel.name} Room ${room.room_number}`;
+
+      if (requiredGender) {
+        if (requiredGender !== registration.gender) blocked.push(`${label} (${genderTagLabel(requiredGender)})`);
+        return;
+      }
+
+      const roomGenders = gendersByRoom.get(room.id) ?? new Set<string>();
+      if (roomGenders.size > 0 && !roomGenders.has(registration.gender)) mixed.push(label);
+      gendersByRoom.set(room.id, roomGenders.add(registration.gender));
+    });
+
+    return { blocked, mixed };
+  };
+
+  /**
+   * Blocks on gender-tag mismatches and asks for confirmation before mixing genders
+   * @returns true when the assignment may proceed
+   */
+  const confirmGenderCompatibility = (pairs: { bedId: string; registrationId: string }[]) => {
+    const { blocked, mixed } = checkGenderCompatibility(pairs);
+
+    if (blocked.length > 0) {
+      toast({
+        title: 'Gender Mismatch',
+        description: `These rooms are restricted by gender: ${blocked.join('; ')}`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    if (mixed.length > 0) {
+      return confirm(`This will place different genders in the same room:\n\n${mixed.join('\n')}\n\nContinue anyway?`);
+    }
+
+    return true;
+  };
+
   const handleDeleteHostel = async (hostelId: string) => {
     if (!confirm('Are you sure you want to delete this hostel? All rooms and assignments will be removed.')) {
       return;
@@ -492,6 +658,8 @@ const AdminHostelManagement = () => {
   };
 
   const handleAssignBed = async (bedAssignmentId: string, registrationId: string | null) => {
+    if (registrationId && !confirmGenderCompatibility([{ bedId: bedAssignmentId, registrationId }])) return;
+
     try {
       const { error } = await supabase
         .from('bed_assignments')
@@ -532,6 +700,24 @@ const AdminHostelManagement = () => {
       return;
     }
 
+    const pairs = selectedApplicantIds.map((registrationId, index) => ({
+      bedId: selectedBedIds[index],
+      registrationId,
+    }));
+    if (!confirmGenderCompatibility(pairs)) return;
+
+    const contested = allRegistrations.filter(
+      (r) => selectedApplicantIds.includes(r.id) && othersOn(r.application_id).some((o) => o.screen === 'hostels')
+    );
+    if (contested.length > 0) {
+      toast({
+        title: 'Being Assigned Elsewhere',
+        description: `Another admin has ${contested.map((r) => r.application_id).join(', ')} selected for a bed. Coordinate before assigning.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     // Get the active hostel name for syncing to registrations
     const activeHostel = hostels.find(h => h.id === activeHostelId);
     const hostelName = activeHostel?.name || null;
@@ -539,12 +725,7 @@ const AdminHostelManagement = () => {
     setIsAssigning(true);
     try {
       // Assign each applicant to a bed in order
-      const updates = selectedApplicantIds.map((regId, index) => ({
-        bedId: selectedBedIds[index],
-        registrationId: regId,
-      }));
-
-      for (const update of updates) {
+      for (const update of pairs) {
         // Update bed assignment
         const { error: bedError } = await supabase
           .from('bed_assignments')
@@ -579,7 +760,7 @@ const AdminHostelManagement = () => {
 
       toast({
         title: 'Beds Assigned',
-        description: `Successfully assigned ${updates.length} applicant(s) to beds${hostelName ? ` in ${activeHostel?.name}` : ''}`,
+        description: `Successfully assigned ${pairs.length} applicant(s) to beds${hostelName ? ` in ${activeHostel?.name}` : ''}`,
       });
 
       setSelectedApplicantIds([]);
@@ -669,6 +850,91 @@ const AdminHostelManagement = () => {
     }
   };
 
+  // Dry run: plan assignments for everyone without a bed, without saving anything
+  const handleOpenAutoAllocate = () => {
+    setAllocationPlan(
+      planBedAllocation({
+        hostels,
+        rooms,
+        beds: bedAssignments,
+        registrations: allRegistrations,
+      })
+    );
+    setIsAutoAllocateOpen(true);
+  };
+
+  // Commit the previewed plan, skipping beds that were filled since the preview
+  const handleCommitAllocation = async () => {
+    if (!allocationPlan) return;
+
+    setIsCommittingAllocation(true);
+    let assignedCount = 0;
+    let skippedCount = 0;
+    try {
+      for (const assignment of allocationPlan.assignments) {
+        const { data: updated, error: bedError } = await supabase
+          .from('bed_assignments')
+          .update({ registration_id: assignment.registrationId })
+          .eq('id', assignment.bedId)
+          .is('registration_id', null)
+          .select('id');
+
+        if (bedError) throw bedError;
+
+        if (!updated || updated.length === 0) {
+          skippedCount++;
+          continue;
+        }
+        assignedCount++;
+
+        // Sync hostel_name to registrations table
+        const { error: regError } = await supabase
+          .from('registrations')
+          .update({ hostel_name: assignment.hostelName })
+          .eq('id', assignment.registrationId);
+
+        if (regError) {
+          console.error('Failed to sync hostel_name to registration:', regError);
+        }
+
+        await logAdminActivity({
+          actionType: 'bed_assignment',
+          targetRegistrationId: assignment.registrationId,
+          targetApplicationId: assignment.applicationId,
+          details: {
+            name: assignment.name,
+            hostel: assignment.hostelName,
+            room: assignment.roomNumber,
+            bed: assignment.bedNumber,
+            auto: true,
+          },
+        });
+      }
+
+      toast({
+        title: 'Beds Allocated',
+        description: skippedCount > 0
+          ? `Assigned ${assignedCount} bed(s). ${skippedCount} bed(s) were taken since the preview; run auto-allocate again for the rest.`
+          : `Assigned ${assignedCount} bed(s)`,
+      });
+
+      setIsAutoAllocateOpen(false);
+      setAllocationPlan(null);
+    } catch (error) {
+      console.error('Error auto-allocating beds:', error);
+      toast({
+        title: 'Allocation Failed',
+        description: `${(error as { message?: string }).message || 'Failed to allocate beds'}${assignedCount > 0 ? ` (${assignedCount} bed(s) were assigned before the error)` : ''}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCommittingAllocation(false);
+      setSelectedApplicantIds([]);
+      setSelectedBedIds([]);
+      fetchData();
+    }
+  };
+
   const getRoomsForHostel = (hostelId: string) => rooms.filter(r => r.hostel_id === hostelId);
   const getOccupiedBeds = (hostelId: string) => {
     const hostelRoomIds = new Set(getRoomsForHostel(hostelId).map(r => r.id));
@@ -701,83 +967,111 @@ const AdminHostelManagement = () => {
             <h1 className="text-2xl font-bold text-foreground">Hostel Management</h1>
             <p className="text-muted-foreground">Manage hostels, rooms, and bed assignments</p>
           </div>
-          {isSuperadmin && (
-            <Dialog open={isAddHostelOpen} onOpenChange={setIsAddHostelOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Hostel
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New Hostel</DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4 pt-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="hostel-name">Hostel Name</Label>
-                    <Input
-                      id="hostel-name"
-                      value={newHostel.name}
-                      onChange={(e) => setNewHostel({ ...newHostel, name: e.target.value })}
-                      placeholder="Enter hostel name"
-                    />
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
+          <div className="flex items-center gap-2">
+            {canAssignBeds && (
+              <Button
+                variant="outline"
+                onClick={handleOpenAutoAllocate}
+                disabled={rooms.length === 0 || availableRegistrations.length === 0}
+              >
+                <Wand2 className="mr-2 h-4 w-4" />
+                Auto-Allocate
+              </Button>
+            )}
+            {isSuperadmin && (
+              <Dialog open={isAddHostelOpen} onOpenChange={setIsAddHostelOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Hostel
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Add New Hostel</DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4 pt-4">
                     <div className="space-y-2">
-                      <Label htmlFor="total-rooms">Number of Rooms</Label>
+                      <Label htmlFor="hostel-name">Hostel Name</Label>
                       <Input
-                        id="total-rooms"
-                        type="number"
-                        min="0"
-                        value={newHostel.total_rooms}
-                        onChange={(e) => handleRoomCountChange(parseInt(e.target.value) || 0)}
+                        id="hostel-name"
+                        value={newHostel.name}
+                        onChange={(e) => setNewHostel({ ...newHostel, name: e.target.value })}
+                        placeholder="Enter hostel name"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="beds-per-room">Default Beds per Room</Label>
-                      <Input
-                        id="beds-per-room"
-                        type="number"
-                        min="1"
-                        value={newHostel.beds_per_room}
-                        onChange={(e) => handleDefaultBedsChange(parseInt(e.target.value) || 1)}
-                      />
+                      <Label htmlFor="hostel-gender">Allowed Gender</Label>
+                      <Select
+                        value={newHostel.gender ?? MIXED_GENDER}
+                        onValueChange={(value) => setNewHostel({ ...newHostel, gender: value === MIXED_GENDER ? null : value })}
+                      >
+                        <SelectTrigger id="hostel-gender">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={MIXED_GENDER}>Mixed (separate rooms)</SelectItem>
+                          <SelectItem value="M">Male only</SelectItem>
+                          <SelectItem value="F">Female only</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
-                  </div>
-                  
-                  {/* Individual Room Bed Configuration */}
-                  {roomBedCounts.length > 0 && (
-                    <div className="space-y-2">
-                      <Label>Beds per Room (customize individually)</Label>
-                      <div className="max-h-48 overflow-y-auto border rounded-md p-3 space-y-2">
-                        {roomBedCounts.map((beds, index) => (
-                          <div key={index} className="flex items-center justify-between gap-3">
-                            <span className="text-sm font-medium min-w-[80px]">Room {index + 1}</span>
-                            <Input
-                              type="number"
-                              min="1"
-                              value={beds}
-                              onChange={(e) => handleRoomBedCountChange(index, parseInt(e.target.value) || 1)}
-                              className="w-24 h-8"
-                            />
-                            <span className="text-xs text-muted-foreground">bed{beds > 1 ? 's' : ''}</span>
-                          </div>
-                        ))}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="total-rooms">Number of Rooms</Label>
+                        <Input
+                          id="total-rooms"
+                          type="number"
+                          min="0"
+                          value={newHostel.total_rooms}
+                          onChange={(e) => handleRoomCountChange(parseInt(e.target.value) || 0)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="beds-per-room">Default Beds per Room</Label>
+                        <Input
+                          id="beds-per-room"
+                          type="number"
+                          min="1"
+                          value={newHostel.beds_per_room}
+                          onChange={(e) => handleDefaultBedsChange(parseInt(e.target.value) || 1)}
+                        />
                       </div>
-                      <p className="text-xs text-muted-foreground">
-                        Total beds: {roomBedCounts.reduce((sum, count) => sum + count, 0)}
-                      </p>
                     </div>
-                  )}
-                  
-                  <Button onClick={handleAddHostel} className="w-full">
-                    Add Hostel
-                  </Button>
-                </div>
-              </DialogContent>
-            </Dialog>
-          )}
+                    
+                    {/* Individual Room Bed Configuration */}
+                    {roomBedCounts.length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Beds per Room (customize individually)</Label>
+                        <div className="max-h-48 overflow-y-auto border rounded-md p-3 space-y-2">
+                          {roomBedCounts.map((beds, index) => (
+                            <div key={index} className="flex items-center justify-between gap-3">
+                              <span className="text-sm font-medium min-w-[80px]">Room {index + 1}</span>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={beds}
+                                onChange={(e) => handleRoomBedCountChange(index, parseInt(e.target.value) || 1)}
+                                className="w-24 h-8"
+                              />
+                              <span className="text-xs text-muted-foreground">bed{beds > 1 ? 's' : ''}</span>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Total beds: {roomBedCounts.reduce((sum, count) => sum + count, 0)}
+                        </p>
+                      </div>
+                    )}
+                    
+                    <Button onClick={handleAddHostel} className="w-full">
+                      Add Hostel
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
         </div>
 
         {/* Summary Cards */}
@@ -813,6 +1107,8 @@ const AdminHostelManagement = () => {
           </Card>
         </div>
 
+        <WaitlistQueue onPromoted={fetchData} />
+
         {/* Hostels List */}
         {hostels.length === 0 ? (
           <Card>
@@ -858,6 +1154,9 @@ const AdminHostelManagement = () => {
                       <CardTitle className="flex items-center gap-2 text-lg">
                         <Building2 className="h-5 w-5 text-primary" />
                         {hostel.name}
+                        <Badge variant="outline" className="font-normal">
+                          {genderTagLabel(hostel.gender)}
+                        </Badge>
                       </CardTitle>
                       <p className="text-sm text-muted-foreground mt-1">
                         {getRoomsForHostel(hostel.id).length} rooms • {getOccupiedBeds(hostel.id)}/{getTotalBeds(hostel.id)} beds occupied
@@ -900,11 +1199,16 @@ const AdminHostelManagement = () => {
                     onSelectionChange={setSelectedApplicantIds}
                     onAssignSelected={handleBulkAssign}
                     isAssigning={isAssigning}
+                    readOnly={!canAssignBeds}
+                    renderPresence={(applicationId) => (
+                      <PresenceIndicator compact viewers={othersOn(applicationId)} />
+                    )}
                   />
 
                   {/* Right: Bed Grid */}
                   <BedAssignmentGrid
                     rooms={getRoomsForHostel(hostel.id)}
+                    hostelGender={hostel.gender}
                     bedAssignments={getHostelBedAssignments(hostel.id)}
                     selectedBedIds={selectedBedIds}
                     onBedSelectionChange={setSelectedBedIds}
@@ -912,6 +1216,7 @@ const AdminHostelManagement = () => {
                     onBulkUnassign={handleBulkUnassign}
                     selectedUnassignBedIds={selectedUnassignBedIds}
                     onUnassignSelectionChange={setSelectedUnassignBedIds}
+                    readOnly={!canAssignBeds}
                   />
                 </div>
               </TabsContent>
@@ -936,6 +1241,24 @@ const AdminHostelManagement = () => {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="edit-hostel-gender">Allowed Gender</Label>
+                  <Select
+                    value={editingHostel.gender ?? MIXED_GENDER}
+                    onValueChange={(value) => setEditingHostel({ ...editingHostel, gender: value === MIXED_GENDER ? null : value })}
+                  >
+                    <SelectTrigger id="edit-hostel-gender">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={MIXED_GENDER}>Mixed (separate rooms)</SelectItem>
+                      <SelectItem value="M">Male only</SelectItem>
+                      <SelectItem value="F">Female only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Used by auto-allocate. Existing assignments are not changed.</p>
+                </div>
+
                 {/* Current Stats */}
                 <div className="p-4 bg-muted rounded-lg">
                   <p className="text-sm font-medium mb-2">Current Configuration</p>
@@ -983,17 +1306,48 @@ const AdminHostelManagement = () => {
 
                 {/* Bed Management per Room */}
                 <div className="space-y-3">
-                  <Label>Manage Beds by Room</Label>
+                  <Label>Manage Rooms and Beds</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Set a room's gender to override the hostel, and toggle ground floor, accessible and attached washroom.
+                  </p>
                   <div className="max-h-48 overflow-y-auto border rounded-md">
                     {getRoomsForHostel(editingHostel.id).map((room) => {
                       const roomBeds = bedAssignments.filter(b => b.room_id === room.id);
                       const occupiedBeds = roomBeds.filter(b => b.registration_id).length;
                       return (
-                        <div key={room.id} className="flex items-center justify-between p-2 border-b last:border-b-0">
+                        <div key={room.id} className="flex flex-wrap items-center justify-between gap-2 p-2 border-b last:border-b-0">
                           <span className="text-sm">
                             Room {room.room_number}: {roomBeds.length} beds ({occupiedBeds} occupied)
                           </span>
                           <div className="flex items-center gap-1">
+                            <Select
+                              value={room.gender ?? INHERIT_GENDER}
+                              onValueChange={(value) =>
+                                handleUpdateRoomAttributes(room.id, { gender: value === INHERIT_GENDER ? null : value })
+                              }
+                            >
+                              <SelectTrigger className="h-7 w-[130px] text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={INHERIT_GENDER}>As hostel</SelectItem>
+                                <SelectItem value="M">Male only</SelectItem>
+                                <SelectItem value="F">Female only</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {ROOM_FLAGS.map(({ key, label, icon: Icon }) => (
+                              <Button
+                                key={key}
+                                variant={room[key] ? 'secondary' : 'ghost'}
+                                size="sm"
+                                title={label}
+                                aria-pressed={room[key]}
+                                onClick={() => handleUpdateRoomAttributes(room.id, { [key]: !room[key] })}
+                                className={room[key] ? 'text-primary' : 'text-muted-foreground'}
+                              >
+                                <Icon className="h-3 w-3" />
+                              </Button>
+                            ))}
                             <Button
                               variant="ghost"
                               size="sm"
@@ -1022,12 +1376,21 @@ const AdminHostelManagement = () => {
                 </div>
 
                 <Button onClick={handleEditHostel} className="w-full">
-                  Save Name Changes
+                  Save Changes
                 </Button>
               </div>
             )}
           </DialogContent>
         </Dialog>
+
+        <AutoAllocateDialog
+          open={isAutoAllocateOpen}
+          onOpenChange={setIsAutoAllocateOpen}
+          plan={allocationPlan}
+          bedAssignments={bedAssignments}
+          onConfirm={handleCommitAllocation}
+          isCommitting={isCommittingAllocation}
+        />
       </div>
     </AdminLayout>
   );
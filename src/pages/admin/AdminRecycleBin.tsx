@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from 'react';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useNavigate } from 'react-router-dom';
+import { logAdminActivity } from '@/lib/activityLogger';
+import { Loader2, RefreshCw, RotateCcw, Search, Trash2 } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+
+type Registration = Tables<'registrations'>;
+
+/** Must match RETENTION_DAYS in the purge-deleted-registrations function */
+const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+const AdminRecycleBin = () => {
+  const { userRole, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<Registration | null>(null);
+
+  const isSuperadmin = userRole === 'superadmin';
+
+  useEffect(() => {
+    if (!authLoading && !isSuperadmin) {
+      navigate('/admin');
+    }
+  }, [authLoading, isSuperadmin, navigate]);
+
+  const fetchDeleted = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('list_deleted_registrations');
+      if (error) throw error;
+      setRegistrations(data || []);
+    } catch (error) {
+      console.error('Error fetching deleted registrations:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the recycle bin',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isSuperadmin) {
+      fetchDeleted();
+    }
+  }, [isSuperadmin, fetchDeleted]);
+
+  const handleRestore = async (registration: Registration) => {
+    setProcessingId(registration.id);
+    try {
+      const { error } = await supabase.rpc('restore_registration', {
+        _registration_id: registration.id,
+      });
+      if (error) throw error;
+
+      await logAdminActivity({
+        actionType: 'registration_restore',
+        targetRegistrationId: registration.id,
+        targetApplicationId: registration.application_id,
+        details: { deletionReason: registration.deletion_reason, deletedBy: registration.deleted_by_email },
+      });
+
+      toast({
+        title: 'Registration Restored',
+        description: `${registration.application_id} is back in the registrations list. Assign a bed again if needed.`,
+      });
+      setRegistrations((prev) => prev.filter((r) => r.id !== registration.id));
+    } catch (error) {
+      console.error('Error restoring registration:', error);
+      // 55000: an attendee whose group primary is still deleted
+      const { code, message } = (error ?? {}) as { code?: string; message?: string };
+      toast({
+        title: 'Error',
+        description: code === '55000' && message ? message : 'Failed to restore registration',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePurge = async (registration: Registration) => {
+    setProcessingId(registration.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('purge-deleted-registrations', {
+        body: { registrationIds: [registration.id] },
+      });
+      if (error) throw error;
+      if (!data?.success || !data.purged?.includes(registration.application_id)) {
+        throw new Error(data?.errors?.[0]?.message || data?.error || 'Registration was not purged');
+      }
+
+      await logAdminActivity({
+        actionType: 'registration_purge',
+        targetApplicationId: registration.application_id,
+        details: { filesRemoved: data.filesRemoved, removedRegistration: registration },
+      });
+
+      toast({
+        title: 'Registration Purged',
+        description: `${registration.application_id} and ${data.filesRemoved} payment file(s) were permanently removed.`,
+      });
+      setRegistrations((prev) => prev.filter((r) => r.id !== registration.id));
+    } catch (error) {
+      console.error('Error purging registration:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to purge registration',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingId(null);
+      setPurgeTarget(null);
+    }
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredRegistrations = registrations.filter((r) =>
+    !query ||
+    r.application_id.toLowerCase().includes(query) ||
+    r.name.toLowerCase().includes(query) ||
+    r.email.toLowerCase().includes(query)
+  );
+
+  if (authLoading || !isSuperadmin) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="font-serif text-3xl font-bold text-foreground">Recycle Bin</h1>
+            <p className="text-muted-foreground">
+              Deleted registrations are purged, with their payment files, {RECYCLE_BIN_RETENTION_DAYS} days after deletion
+            </p>
+          </div>
+          <Button onClick={fetchDeleted} variant="outline" size="sm" disabled={isLoading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="font-serif flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-primary" />
+              Deleted Registrations
+              <Badge variant="secondary">{registrations.length}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Restoring brings a registration back with its history; its bed has to be assigned again.
+            </CardDescription>
+            <div className="relative max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by application ID, name or email..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : filteredRegistrations.length === 0 ? (
+              <p className="text-center py-12 text-muted-foreground">
+                {registrations.length === 0 ? 'The recycle bin is empty.' : 'No deleted registrations match your search.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Application ID</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Purge On</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRegistrations.map((registration) => (
+                      <TableRow key={registration.id}>
+                        <TableCell className="font-mono text-sm font-medium">
+                          {registration.application_id}
+                          {registration.parent_application_id && (
+                            <p className="text-xs text-muted-foreground">
+                              Group of {registration.parent_application_id}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium">{registration.name}</p>
+                          <p className="text-xs text-muted-foreground">{registration.email}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{registration.registration_status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {registration.deleted_at && format(new Date(registration.deleted_at), 'dd MMM yyyy, hh:mm a')}
+                          <p className="text-xs text-muted-foreground">{registration.deleted_by_email || 'Unknown admin'}</p>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs break-words">{registration.deletion_reason}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {registration.deleted_at &&
+                            format(addDays(new Date(registration.deleted_at), RECYCLE_BIN_RETENTION_DAYS), 'dd MMM yyyy')}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRestore(registration)}
+                              disabled={processingId !== null}
+                            >
+                              {processingId === registration.id ? (
+                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                              )}
+                              Restore
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => setPurgeTarget(registration)}
+                              disabled={processingId !== null}
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Purge
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge Registration</AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete <span className="font-semibold">{purgeTarget?.application_id}</span> (
+              {purgeTarget?.name}), its change history and its payment proofs and receipts?
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && handlePurge(purgeTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Purge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminRecycleBin;
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -39,6 +39,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
@@ -62,12 +63,22 @@ import {
   Pencil,
   Edit3,
   Download,
+  Upload,
+  Copy,
   FileSpreadsheet,
   KeyRound,
+  History,
 } from 'lucide-react';
 import EditRegistrationDialog from '@/components/admin/EditRegistrationDialog';
 import EnableEditModeDialog from '@/components/admin/EnableEditModeDialog';
 import ExportRegistrationsDialog from '@/components/admin/ExportRegistrationsDialog';
+import RegistrationImportDialog from '@/components/admin/RegistrationImportDialog';
+import DuplicateFinderDialog from '@/components/admin/DuplicateFinderDialog';
+import RegistrationConflictDialog from '@/components/admin/RegistrationConflictDialog';
+import RegistrationHistoryTimeline from '@/components/admin/RegistrationHistoryTimeline';
+import PresenceIndicator from '@/components/admin/PresenceIndicator';
+import { useRealtimeTable } from '@/hooks/useRealtimeTable';
+import { useAdminPresence } from '@/hooks/useAdminPresence';
 import EditModePaymentProofUpload from '@/components/admin/EditModePaymentProofUpload';
 import {
   Pagination,
@@ -81,19 +92,46 @@ import {
 import { format } from 'date-fns';
 import { Tables } from '@/integrations/supabase/types';
 import { resolveLatestPaymentProofUrlFromStorage } from '@/lib/paymentProofResolver';
+import {
+  deleteRegistrationChecked,
+  findRegistrationConflict,
+  updateRegistrationChecked,
+  type RegistrationConflict,
+} from '@/lib/registrationConcurrency';
+import {
+  fetchAllMatchingRegistrations,
+  matchesRegistrationFilters,
+  searchRegistrations,
+  type RegistrationFilters,
+} from '@/lib/registrationSearch';
 
 // ... keep existing code (rest of file)
 
 type Registration = Tables<'registrations'>;
-type RegistrationInvite = Pick<Tables<'registration_invites'>, 'email' | 'token' | 'used'>;
+type RegistrationEditRequest = Tables<'registration_edit_requests'>;
+
+/** A duplicate's payment kept on the surviving registration by merge_registrations */
+interface MergedPayment {
+  applicationId: string;
+  paymentStatus: string;
+  paymentProofUrl: string | null;
+  paymentReference: string | null;
+  paymentDate: string | null;
+  registrationFee: number;
+  accountsVerified: boolean | null;
+  mergedAt: string;
+}
 
 // Hostel options fetched from database
 
 const AdminRegistrations = () => {
+  // Current page of registrations matching the filters; filtering and paging happen server-side
   const [registrations, setRegistrations] = useState<Registration[]>([]);
-  const [filteredRegistrations, setFilteredRegistrations] = useState<Registration[]>([]);
+  const [totalMatching, setTotalMatching] = useState(0);
+  const [grandTotal, setGrandTotal] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [yearFromFilter, setYearFromFilter] = useState<string>('');
   const [yearToFilter, setYearToFilter] = useState<string>('');
@@ -107,6 +145,7 @@ const AdminRegistrations = () => {
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [isRejectDialogOpen, setIsRejectDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [deleteReason, setDeleteReason] = useState('');
   const [rejectionReason, setRejectionReason] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSyncingProofs, setIsSyncingProofs] = useState(false);
@@ -116,7 +155,8 @@ const AdminRegistrations = () => {
   const [groupRejectionReason, setGroupRejectionReason] = useState('');
   
   // Bulk hostel assignment state
-  const [selectedForHostel, setSelectedForHostel] = useState<Set<string>>(new Set());
+  // Kept by ID across pages, with the row so the bulk dialog can list names from other pages
+  const [selectedForHostel, setSelectedForHostel] = useState<Map<string, Registration>>(new Map());
   const [isBulkHostelDialogOpen, setIsBulkHostelDialogOpen] = useState(false);
   const [bulkHostelSelection, setBulkHostelSelection] = useState<string>('');
   
@@ -130,6 +170,10 @@ const AdminRegistrations = () => {
   // Enable edit mode dialog state (superadmin only)
   const [isEnableEditModeDialogOpen, setIsEnableEditModeDialogOpen] = useState(false);
   
+  // Edit requests submitted by registrants from /my-registration
+  const [pendingEditRequestIds, setPendingEditRequestIds] = useState<Set<string>>(new Set());
+  const [pendingEditRequest, setPendingEditRequest] = useState<RegistrationEditRequest | null>(null);
+  
   // Single application sync state
   const [isSyncingSingleProof, setIsSyncingSingleProof] = useState(false);
   
@@ -150,13 +194,41 @@ const AdminRegistrations = () => {
 
   // Export dialog state
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isPreparingExport, setIsPreparingExport] = useState(false);
+  const [exportRows, setExportRows] = useState<{ filtered: Registration[]; all: Registration[] }>({ filtered: [], all: [] });
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isDuplicateFinderOpen, setIsDuplicateFinderOpen] = useState(false);
+
+  // An action refused because someone else changed the registration; overwrite repeats it
+  const [pendingConflict, setPendingConflict] = useState<{
+    conflict: RegistrationConflict;
+    actionLabel: string;
+    overwrite: (current: Registration) => void;
+  } | null>(null);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
+
+  // Bumped by the realtime subscription to reload the current page
+  const [reloadToken, setReloadToken] = useState(0);
+  // Ignores responses that arrive after a newer request was made
+  const latestRequestRef = useRef(0);
+
+  // Tell other admins which applications are open here, and see theirs
+  const { othersOn } = useAdminPresence({
+    screen: 'registrations',
+    applicationIds: [
+      ...(selectedRegistration && (isDetailOpen || isEditDialogOpen || isRejectDialogOpen)
+        ? [selectedRegistration.application_id]
+        : []),
+      ...(selectedGroup && isGroupRejectDialogOpen ? selectedGroup.map((m) => m.application_id) : []),
+    ],
+    activity: isProcessing || isEditDialogOpen || isRejectDialogOpen || isGroupRejectDialogOpen ? 'editing' : 'viewing',
+  });
   
   const { toast } = useToast();
-  const { userRole, user } = useAuth();
+  const { userRole, user, can } = useAuth();
 
   const toPublicPaymentProofUrl = (value: string | null) => {
     if (!value) return null;
@@ -472,19 +544,97 @@ const AdminRegistrations = () => {
     if (!isDetailOpen || !selectedRegistration) return;
     fetchAllReceipts(selectedRegistration.application_id, selectedRegistration.payment_receipt_url);
     fetchAllPaymentProofs(selectedRegistration.application_id, selectedRegistration.payment_proof_url);
+    fetchPendingEditRequest(selectedRegistration.id);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isDetailOpen, selectedRegistration?.id]);
 
+  const fetchPendingEditRequest = async (registrationId: string) => {
+    setPendingEditRequest(null);
+    const { data, error } = await supabase
+      .from('registration_edit_requests')
+      .select('*')
+      .eq('registration_id', registrationId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching edit request:', error);
+      return;
+    }
+    setPendingEditRequest(data);
+  };
+
+  const handleDismissEditRequest = async () => {
+    if (!pendingEditRequest) return;
 
-  const handleHostelAssign = async (registration: Registration, hostelName: string) => {
     try {
       const { error } = await supabase
-        .from('registrations')
-        .update({ hostel_name: hostelName })
-        .eq('id', registration.id);
+        .from('registration_edit_requests')
+        .update({
+          status: 'dismissed',
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', pendingEditRequest.id);
 
       if (error) throw error;
 
+      toast({
+        title: 'Edit Request Dismissed',
+        description: 'The registrant\'s edit request has been dismissed.',
+      });
+      setPendingEditRequest(null);
+      fetchRegistrations();
+    } catch (error) {
+      console.error('Error dismissing edit request:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to dismiss edit request',
+        variant: 'destructive',
+      });
+    }
+  };
+
+
+  // Reload after a conflict: show the registration as it is now
+  const handleConflictReload = (current: Registration | null) => {
+    setPendingConflict(null);
+    if (current) {
+      setSelectedRegistration((selected) =>
+        selected && selected.id === current.id ? { ...selected, ...current, via_invite: selected.via_invite || current.via_invite } : selected
+      );
+    } else {
+      setIsDetailOpen(false);
+      setIsRejectDialogOpen(false);
+      setIsDeleteDialogOpen(false);
+    }
+    fetchRegistrations();
+  };
+
+  // Group and bulk actions skip registrations changed by someone else and list them instead
+  const toastChangedElsewhere = (members: Registration[], action: string) => {
+    toast({
+      title: 'Some Registrations Changed',
+      description: `Not ${action} because someone else changed them in the meantime: ${members.map((m) => m.name).join(', ')}. Review them and try again.`,
+      variant: 'destructive',
+    });
+  };
+
+  const handleHostelAssign = async (registration: Registration, hostelName: string) => {
+    try {
+      const conflict = await updateRegistrationChecked(registration, { hostel_name: hostelName });
+
+      if (conflict) {
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Assign hostel',
+          overwrite: (current) => handleHostelAssign(current, hostelName),
+        });
+        return;
+      }
+
       toast({
         title: 'Hostel Assigned',
         description: `${registration.name} has been assigned to ${hostelName.charAt(0).toUpperCase() + hostelName.slice(1)} hostel.`,
@@ -507,19 +657,26 @@ const AdminRegistrations = () => {
 
     setIsProcessing(true);
     try {
-      const { error } = await supabase
-        .from('registrations')
-        .update({ hostel_name: bulkHostelSelection })
-        .in('id', Array.from(selectedForHostel));
+      const selected = Array.from(selectedForHostel.values());
+      const results = await Promise.all(
+        selected.map(async (registration) => ({
+          registration,
+          conflict: await updateRegistrationChecked(registration, { hostel_name: bulkHostelSelection }),
+        }))
+      );
+      const stale = results.filter((r) => r.conflict).map((r) => r.registration);
+      const assignedCount = results.length - stale.length;
 
-      if (error) throw error;
+      if (assignedCount > 0) {
+        toast({
+          title: 'Hostels Assigned',
+          description: `${assignedCount} registration(s) assigned to ${bulkHostelSelection.charAt(0).toUpperCase() + bulkHostelSelection.slice(1)} hostel.`,
+        });
+      }
 
-      toast({
-        title: 'Hostels Assigned',
-        description: `${selectedForHostel.size} registration(s) assigned to ${bulkHostelSelection.charAt(0).toUpperCase() + bulkHostelSelection.slice(1)} hostel.`,
-      });
+      if (stale.length > 0) toastChangedElsewhere(stale, 'assigned');
 
-      setSelectedForHostel(new Set());
+      setSelectedForHostel(new Map());
       setBulkHostelSelection('');
       setIsBulkHostelDialogOpen(false);
       fetchRegistrations();
@@ -536,33 +693,40 @@ const AdminRegistrations = () => {
   };
 
   // Toggle selection for bulk hostel assignment
-  const toggleHostelSelection = (id: string) => {
+  const toggleHostelSelection = (registration: Registration) => {
     setSelectedForHostel(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(id)) {
-        newSet.delete(id);
+      const newMap = new Map(prev);
+      if (newMap.has(registration.id)) {
+        newMap.delete(registration.id);
       } else {
-        newSet.add(id);
+        newMap.set(registration.id, registration);
       }
-      return newSet;
+      return newMap;
     });
   };
 
-  // Get eligible registrations for hostel assignment (approved + on-campus)
+  // Get eligible registrations on the current page for hostel assignment (approved + on-campus)
   const getHostelEligibleRegistrations = () => {
-    return filteredRegistrations.filter(
+    if (!can('assign_beds')) return [];
+    return registrations.filter(
       r => r.registration_status === 'approved' && r.stay_type === 'on-campus'
     );
   };
 
-  // Select/deselect all eligible registrations
+  const isAllHostelEligibleSelected = () => {
+    const eligible = getHostelEligibleRegistrations();
+    return eligible.length > 0 && eligible.every(r => selectedForHostel.has(r.id));
+  };
+
+  // Select/deselect all eligible registrations on the current page
   const toggleSelectAllHostel = () => {
     const eligible = getHostelEligibleRegistrations();
-    if (selectedForHostel.size === eligible.length) {
-      setSelectedForHostel(new Set());
-    } else {
-      setSelectedForHostel(new Set(eligible.map(r => r.id)));
-    }
+    const selectAll = !isAllHostelEligibleSelected();
+    setSelectedForHostel(prev => {
+      const newMap = new Map(prev);
+      eligible.forEach(r => (selectAll ? newMap.set(r.id, r) : newMap.delete(r.id)));
+      return newMap;
+    });
   };
 
   // Fetch hostels from database for filter dropdown
@@ -581,100 +745,130 @@ const AdminRegistrations = () => {
   };
 
   useEffect(() => {
-    fetchRegistrations();
     fetchHostels();
+  }, []);
 
-    // Subscribe to real-time changes on registrations table
-    const channel = supabase
-      .channel('registrations-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'registrations'
-        },
-        (payload) => {
-          console.log('Registration change detected:', payload.eventType);
-          // Refresh the registrations list when any change occurs
-          fetchRegistrations();
-        }
-      )
-      .subscribe();
+  // Merge changes made by other admins into the rows on screen
+  useRealtimeTable('registrations', (change) => {
+    if (change.eventType !== 'UPDATE' || !change.row) {
+      // New and removed registrations shift paging and counts; reload the page
+      setReloadToken((token) => token + 1);
+      return;
+    }
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+    const updated = change.row;
+    const matchesFilters = matchesRegistrationFilters(updated, filters);
+    const isOnPage = registrations.some((row) => row.id === updated.id);
+    const withoutUpdated = (rows: Registration[]) => rows.filter((row) => row.id !== updated.id);
 
-  useEffect(() => {
-    filterRegistrations();
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [registrations, searchQuery, statusFilter, yearFromFilter, yearToFilter, stayTypeFilter, genderFilter, boardTypeFilter, hostelFilter, paymentStatusFilter]);
+    // A deleted registration, or one on the page that no longer matches the
+    // filters, leaves the page like a removed one
+    if (updated.deleted_at || (matchesFilters === false && isOnPage)) {
+      setRegistrations(withoutUpdated);
+      setReloadToken((token) => token + 1);
+    }
 
-  const fetchRegistrations = async () => {
-    setIsLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('registrations')
-        .select('*')
-        .order('created_at', { ascending: false });
+    // One moved to the recycle bin leaves every view of it
+    if (updated.deleted_at) {
+      setSelectedGroup((group) => group && withoutUpdated(group));
+      setSelectedForHostel((selected) => {
+        if (!selected.has(updated.id)) return selected;
+        const next = new Map(selected);
+        next.delete(updated.id);
+        return next;
+      });
+      return;
+    }
 
-      if (error) throw error;
-      const rows = (data || []) as Registration[];
+    // via_invite and invite_token on screen may be derived from invite history; keep them
+    const mergeRow = (row: Registration) =>
+      row.id === updated.id
+        ? { ...row, ...updated, via_invite: row.via_invite || updated.via_invite, invite_token: updated.invite_token ?? row.invite_token }
+        : row;
+
+    setRegistrations((rows) => rows.map(mergeRow));
+    // The edit dialogs save against the registration as it was when they opened
+    if (!isEditDialogOpen && !isEnableEditModeDialogOpen) {
+      setSelectedRegistration((current) => current && mergeRow(current));
+    }
+    setSelectedGroup((group) => group && group.map(mergeRow));
+    setSelectedForHostel((selected) => {
+      const row = selected.get(updated.id);
+      return row ? new Map(selected).set(updated.id, mergeRow(row)) : selected;
+    });
 
-      // Some older invite registrations predate the stored via_invite flag. Derive the
-      // marker from used invite records so the admin view reflects historical data too.
-      const { data: inviteData, error: inviteError } = await supabase
-        .from('registration_invites')
-        .select('email, token, used')
-        .eq('used', true);
+    // Only the server can tell whether a row on the page still matches the search term
+    if (matchesFilters === undefined && isOnPage) {
+      setReloadToken((token) => token + 1);
+    }
+  });
 
-      if (inviteError) {
-        console.warn('Unable to derive invite registrations from invite history:', inviteError);
-      }
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const filters = useMemo<RegistrationFilters>(() => {
+    const parseYear = (value: string) => {
+      const year = parseInt(value, 10);
+      return isNaN(year) ? undefined : year;
+    };
+    const selected = <T extends string>(value: string) => (value === 'all' ? undefined : (value as T));
+
+    return {
+      search: debouncedSearch || undefined,
+      registrationStatus: selected<NonNullable<RegistrationFilters['registrationStatus']>>(statusFilter),
+      paymentStatus: selected<NonNullable<RegistrationFilters['paymentStatus']>>(paymentStatusFilter),
+      stayType: selected(stayTypeFilter),
+      gender: selected(genderFilter),
+      boardType: selected(boardTypeFilter),
+      hostel: selected(hostelFilter),
+      yearFrom: parseYear(yearFromFilter),
+      yearTo: parseYear(yearToFilter),
+    };
+  }, [debouncedSearch, statusFilter, paymentStatusFilter, stayTypeFilter, genderFilter, boardTypeFilter, hostelFilter, yearFromFilter, yearToFilter]);
 
-      const inviteTokenByEmail = new Map<string, string | null>();
-      ((inviteData || []) as RegistrationInvite[]).forEach((invite) => {
-        const email = String(invite.email || '').trim().toLowerCase();
-        if (email) inviteTokenByEmail.set(email, invite.token || null);
-      });
+  useEffect(() => {
+    setCurrentPage(1); // Reset to first page when filters change
+  }, [filters]);
 
-      const rowsWithPrimaryInviteFlags = rows.map((registration) => {
-        const email = registration.email.trim().toLowerCase();
-        const inviteToken = inviteTokenByEmail.get(email);
-        if (!inviteTokenByEmail.has(email)) return registration;
+  useEffect(() => {
+    fetchRegistrations();
+  }, [filters, currentPage, reloadToken]);
 
-        return {
-          ...registration,
-          via_invite: true,
-          invite_token: registration.invite_token || inviteToken,
-        };
+  const fetchRegistrations = async () => {
+    const requestId = ++latestRequestRef.current;
+    setIsLoading(true);
+    try {
+      const result = await searchRegistrations(filters, {
+        limit: itemsPerPage,
+        offset: (currentPage - 1) * itemsPerPage,
       });
+      if (requestId !== latestRequestRef.current) return;
 
-      const inviteTokenByParentApplicationId = new Map<string, string | null>();
-      rowsWithPrimaryInviteFlags.forEach((registration) => {
-        if (registration.via_invite) {
-          inviteTokenByParentApplicationId.set(registration.application_id, registration.invite_token || null);
-        }
-      });
+      // Rows come back with via_invite already derived from invite history
+      setRegistrations(result.rows);
+      setTotalMatching(result.total);
+      setGrandTotal(result.grandTotal);
 
-      const rowsWithInviteFlags = rowsWithPrimaryInviteFlags.map((registration) => {
-        if (!registration.parent_application_id || registration.via_invite) return registration;
-        if (!inviteTokenByParentApplicationId.has(registration.parent_application_id)) return registration;
+      // A change elsewhere can leave the current page past the end
+      const lastPage = Math.max(1, Math.ceil(result.total / itemsPerPage));
+      if (currentPage > lastPage) setCurrentPage(lastPage);
 
-        return {
-          ...registration,
-          via_invite: true,
-          invite_token: registration.invite_token || inviteTokenByParentApplicationId.get(registration.parent_application_id) || null,
-        };
-      });
+      const { data: editRequestData, error: editRequestError } = await supabase
+        .from('registration_edit_requests')
+        .select('registration_id')
+        .eq('status', 'pending');
 
-      setRegistrations(rowsWithInviteFlags);
+      if (editRequestError) {
+        console.warn('Unable to load pending edit requests:', editRequestError);
+      }
+      setPendingEditRequestIds(new Set((editRequestData || []).map((request) => request.registration_id)));
 
       // Ensure admins can always see payment proofs even if a registration was created
       // but the client-side DB link failed right after upload.
-      void backfillMissingPaymentProofUrls(rowsWithInviteFlags);
+      void backfillMissingPaymentProofUrls(result.rows);
     } catch (error) {
       console.error('Error fetching registrations:', error);
       toast({
@@ -683,73 +877,8 @@ const AdminRegistrations = () => {
         variant: 'destructive',
       });
     } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const filterRegistrations = () => {
-    let filtered = [...registrations];
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (r) =>
-          r.name.toLowerCase().includes(query) ||
-          r.email.toLowerCase().includes(query) ||
-          r.application_id.toLowerCase().includes(query) ||
-          r.phone.includes(query)
-      );
-    }
-
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter((r) => r.registration_status === statusFilter);
-    }
-
-    // Year range filter
-    if (yearFromFilter !== '') {
-      const fromYear = parseInt(yearFromFilter, 10);
-      if (!isNaN(fromYear)) {
-        filtered = filtered.filter((r) => r.year_of_passing >= fromYear);
-      }
-    }
-    if (yearToFilter !== '') {
-      const toYear = parseInt(yearToFilter, 10);
-      if (!isNaN(toYear)) {
-        filtered = filtered.filter((r) => r.year_of_passing <= toYear);
-      }
-    }
-
-    if (stayTypeFilter !== 'all') {
-      filtered = filtered.filter((r) => r.stay_type === stayTypeFilter);
-    }
-
-    if (genderFilter !== 'all') {
-      filtered = filtered.filter((r) => r.gender === genderFilter);
+      if (requestId === latestRequestRef.current) setIsLoading(false);
     }
-
-    if (boardTypeFilter !== 'all') {
-      filtered = filtered.filter((r) => r.board_type === boardTypeFilter);
-    }
-
-    if (hostelFilter !== 'all') {
-      if (hostelFilter === 'unassigned') {
-        filtered = filtered.filter((r) => !r.hostel_name);
-      } else {
-        filtered = filtered.filter((r) => r.hostel_name === hostelFilter);
-      }
-    }
-
-    if (paymentStatusFilter !== 'all') {
-      filtered = filtered.filter((r) => r.payment_status === paymentStatusFilter);
-    }
-
-    setFilteredRegistrations(filtered);
-  };
-
-  // Get unique years from registrations for filter dropdown
-  const getUniqueYears = () => {
-    const years = [...new Set(registrations.map(r => r.year_of_passing))].sort((a, b) => b - a);
-    return years;
   };
 
   // Reset all filters
@@ -778,13 +907,34 @@ const AdminRegistrations = () => {
            paymentStatusFilter !== 'all';
   };
 
+  /**
+   * Opens the export dialog once every matching registration (and the full set,
+   * for the "ignore filters" option) has been loaded, since the page only holds one page.
+   */
+  const openExportDialog = async () => {
+    setIsPreparingExport(true);
+    try {
+      const [filtered, all] = await Promise.all([
+        fetchAllMatchingRegistrations(filters),
+        hasActiveFilters() ? fetchAllMatchingRegistrations() : null,
+      ]);
+      setExportRows({ filtered, all: all ?? filtered });
+      setIsExportDialogOpen(true);
+    } catch (error) {
+      console.error('Error loading registrations for export:', error);
+      toast({ title: 'Error', description: 'Failed to load registrations for export', variant: 'destructive' });
+    } finally {
+      setIsPreparingExport(false);
+    }
+  };
+
   /**
    * Quick export: download the currently filtered registrations as an .xlsx file
    * using a sensible default set of columns. No dialog, one-click.
    */
   const quickExportFilteredToExcel = async () => {
     try {
-      const rowsData = filteredRegistrations;
+      const rowsData = await fetchAllMatchingRegistrations(filters);
       if (rowsData.length === 0) {
         toast({ title: 'Nothing to export', description: 'No registrations match the current filters.', variant: 'destructive' });
         return;
@@ -957,34 +1107,53 @@ const AdminRegistrations = () => {
     }
   };
 
-  const handleApprove = async (registration: Registration) => {
+  const handleApprove = async (registration: Registration, emailAlreadySent = false) => {
     setIsProcessing(true);
     try {
-      // Send notification email FIRST before approving
-      const emailSent = await sendNotificationEmail(registration, 'approved');
+      if (!emailAlreadySent) {
+        // Don't email the registrant about a record someone else has just changed
+        const staleConflict = await findRegistrationConflict(registration);
+        if (staleConflict) {
+          setPendingConflict({
+            conflict: staleConflict,
+            actionLabel: 'Approve registration',
+            overwrite: (current) => handleApprove(current),
+          });
+          return;
+        }
 
-      if (!emailSent) {
-        toast({
-          title: 'Email Sending Failed',
-          description: `Could not send approval email to ${registration.email}. Registration was NOT approved. Please try again or check email configuration.`,
-          variant: 'destructive',
-        });
-        setIsProcessing(false);
-        return;
+        // Send notification email FIRST before approving. The email function also
+        // issues the attendee's signed check-in QR code and stores it in qr_code_data.
+        const emailSent = await sendNotificationEmail(registration, 'approved');
+
+        if (!emailSent) {
+          toast({
+            title: 'Email Sending Failed',
+            description: `Could not send approval email to ${registration.email}. Registration was NOT approved. Please try again or check email configuration.`,
+            variant: 'destructive',
+          });
+          setIsProcessing(false);
+          return;
+        }
       }
 
       // Only approve if email was sent successfully
-      const { error } = await supabase
-        .from('registrations')
-        .update({
-          registration_status: 'approved',
-          approved_at: new Date().toISOString(),
-          approved_by: user?.id,
-          approval_email_sent: true,
-        })
-        .eq('id', registration.id);
+      const conflict = await updateRegistrationChecked(registration, {
+        registration_status: 'approved',
+        approved_at: new Date().toISOString(),
+        approved_by: user?.id,
+        approval_email_sent: true,
+      });
 
-      if (error) throw error;
+      if (conflict) {
+        // The email is out; overwriting only records the approval
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Approve registration (email already sent)',
+          overwrite: (current) => handleApprove(current, true),
+        });
+        return;
+      }
 
       // Log registration approval activity
       await logAdminActivity({
@@ -1017,50 +1186,68 @@ const AdminRegistrations = () => {
     }
   };
 
-  const handleReject = async () => {
-    if (!selectedRegistration || !rejectionReason.trim()) return;
+  const handleReject = async (registration = selectedRegistration, emailAlreadySent = false) => {
+    if (!registration || !rejectionReason.trim()) return;
 
     setIsProcessing(true);
     try {
-      // Send notification email FIRST before rejecting
-      const emailSent = await sendNotificationEmail(selectedRegistration, 'rejected', rejectionReason);
+      if (!emailAlreadySent) {
+        // Don't email the registrant about a record someone else has just changed
+        const staleConflict = await findRegistrationConflict(registration);
+        if (staleConflict) {
+          setPendingConflict({
+            conflict: staleConflict,
+            actionLabel: 'Reject registration',
+            overwrite: (current) => handleReject(current),
+          });
+          return;
+        }
 
-      if (!emailSent) {
-        toast({
-          title: 'Email Sending Failed',
-          description: `Could not send rejection email to ${selectedRegistration.email}. Registration was NOT rejected. Please try again or check email configuration.`,
-          variant: 'destructive',
-        });
-        setIsProcessing(false);
-        return;
+        // Send notification email FIRST before rejecting
+        const emailSent = await sendNotificationEmail(registration, 'rejected', rejectionReason);
+
+        if (!emailSent) {
+          toast({
+            title: 'Email Sending Failed',
+            description: `Could not send rejection email to ${registration.email}. Registration was NOT rejected. Please try again or check email configuration.`,
+            variant: 'destructive',
+          });
+          setIsProcessing(false);
+          return;
+        }
       }
 
       // Only reject if email was sent successfully
-      const { error } = await supabase
-        .from('registrations')
-        .update({
-          registration_status: 'rejected',
-          rejection_reason: rejectionReason,
-          approval_email_sent: true,
-        })
-        .eq('id', selectedRegistration.id);
+      const conflict = await updateRegistrationChecked(registration, {
+        registration_status: 'rejected',
+        rejection_reason: rejectionReason,
+        approval_email_sent: true,
+      });
 
-      if (error) throw error;
+      if (conflict) {
+        // The email is out; overwriting only records the rejection
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Reject registration (email already sent)',
+          overwrite: (current) => handleReject(current, true),
+        });
+        return;
+      }
 
       // Log registration rejection activity
       await logAdminActivity({
         actionType: 'registration_rejection',
-        targetRegistrationId: selectedRegistration.id,
-        targetApplicationId: selectedRegistration.application_id,
+        targetRegistrationId: registration.id,
+        targetApplicationId: registration.application_id,
         details: { 
-          name: selectedRegistration.name,
+          name: registration.name,
           rejectionReason 
         }
       });
 
       toast({
         title: 'Registration Rejected',
-        description: `${selectedRegistration.name}'s registration has been rejected and notification email sent successfully.`,
+        description: `${registration.name}'s registration has been rejected and notification email sent successfully.`,
       });
 
       fetchRegistrations();
@@ -1079,31 +1266,45 @@ const AdminRegistrations = () => {
     }
   };
 
-  const handleDelete = async () => {
-    if (!selectedRegistration) return;
+  const handleDelete = async (registration = selectedRegistration, reason = deleteReason.trim()) => {
+    if (!registration || !reason) return;
 
     setIsProcessing(true);
     try {
-      const { error } = await supabase
-        .from('registrations')
-        .delete()
-        .eq('id', selectedRegistration.id);
+      const conflict = await deleteRegistrationChecked(registration, reason);
 
-      if (error) throw error;
+      if (conflict) {
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Delete registration',
+          overwrite: (current) => handleDelete(current, reason),
+        });
+        return;
+      }
+
+      await logAdminActivity({
+        actionType: 'registration_deletion',
+        targetRegistrationId: registration.id,
+        targetApplicationId: registration.application_id,
+        details: { reason },
+      });
 
       toast({
         title: 'Registration Deleted',
-        description: `${selectedRegistration.name}'s registration has been permanently deleted.`,
+        description: `${registration.name}'s registration has been moved to the recycle bin.`,
       });
 
       fetchRegistrations();
       setIsDeleteDialogOpen(false);
+      setDeleteReason('');
       setIsDetailOpen(false);
     } catch (error) {
       console.error('Error deleting registration:', error);
+      // 55000: a group primary whose attendees are still registered
+      const { code, message } = (error ?? {}) as { code?: string; message?: string };
       toast({
         title: 'Error',
-        description: 'Failed to delete registration',
+        description: code === '55000' && message ? message : 'Failed to delete registration',
         variant: 'destructive',
       });
     } finally {
@@ -1111,23 +1312,35 @@ const AdminRegistrations = () => {
     }
   };
 
-  // Handle re-enabling expired registration (superadmin only)
+  // Handle re-enabling an expired or rejected registration. The payment grace
+  // period restarts from now, so the expiry job does not expire it again at once.
   const handleReEnableRegistration = async (registration: Registration) => {
     setIsProcessing(true);
     try {
-      const { error } = await supabase
-        .from('registrations')
-        .update({
-          registration_status: 'pending',
-          rejection_reason: null,
-        })
-        .eq('id', registration.id);
+      const conflict = await updateRegistrationChecked(registration, {
+        registration_status: 'pending',
+        rejection_reason: null,
+        expired_at: null,
+        reenabled_at: new Date().toISOString(),
+      });
 
-      if (error) throw error;
+      if (conflict) {
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Re-enable registration',
+          overwrite: (current) => handleReEnableRegistration(current),
+        });
+        return;
+      }
+
+      // Expiry released the bed; it is not taken back automatically
+      const needsBed = registration.registration_status === 'expired' && registration.stay_type === 'on-campus';
 
       toast({
         title: 'Registration Re-enabled',
-        description: `${registration.name}'s registration has been re-enabled for processing.`,
+        description: needsBed
+          ? `${registration.name}'s registration has been re-enabled for processing. Assign a bed again if needed.`
+          : `${registration.name}'s registration has been re-enabled for processing.`,
       });
 
       fetchRegistrations();
@@ -1146,7 +1359,7 @@ const AdminRegistrations = () => {
 
   // Handle final approval for edit mode registrations
   // This sends a notification email about the changes made with ALL receipts attached
-  const handleEditModeFinalApproval = async (registration: Registration) => {
+  const handleEditModeFinalApproval = async (registration: Registration, emailAlreadySent = false) => {
     setIsProcessing(true);
     try {
       // Build change summary from edit_mode_reason
@@ -1157,45 +1370,54 @@ const AdminRegistrations = () => {
         .filter(r => r.url.toLowerCase().endsWith('.pdf'))
         .map(r => r.url);
 
-      console.log(`Sending final approval email with ${allReceiptUrls.length} receipt(s)`);
+      if (!emailAlreadySent) {
+        // Don't email the registrant about a record someone else has just changed
+        const staleConflict = await findRegistrationConflict(registration);
+        if (staleConflict) {
+          setPendingConflict({
+            conflict: staleConflict,
+            actionLabel: 'Final approval',
+            overwrite: (current) => handleEditModeFinalApproval(current),
+          });
+          return;
+        }
 
-      // Send notification email about the changes with all receipts
-      const emailSent = await sendNotificationEmail(registration, 'approved', undefined, allReceiptUrls);
+        console.log(`Sending final approval email with ${allReceiptUrls.length} receipt(s)`);
 
-      if (!emailSent) {
-        toast({
-          title: 'Email Sending Failed',
-          description: `Could not send notification email to ${registration.email}. Please try again.`,
-          variant: 'destructive',
-        });
-        setIsProcessing(false);
-        return;
-      }
+        // Send notification email about the changes with all receipts
+        const emailSent = await sendNotificationEmail(registration, 'approved', undefined, allReceiptUrls);
 
-      // If a new payment proof was uploaded during edit mode, update it in the database
-      if (editModeProofUrl) {
-        await supabase
-          .from('registrations')
-          .update({
-            payment_proof_url: editModeProofUrl,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', registration.id);
+        if (!emailSent) {
+          toast({
+            title: 'Email Sending Failed',
+            description: `Could not send notification email to ${registration.email}. Please try again.`,
+            variant: 'destructive',
+          });
+          setIsProcessing(false);
+          return;
+        }
       }
 
-      // Clear edit mode flags after successful email
-      const { error } = await supabase
-        .from('registrations')
-        .update({
-          edit_mode_enabled: false,
-          pending_admin_approval: false,
-          edit_changes_summary: changeSummary,
-          approval_email_sent: true,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', registration.id);
+      // Clear edit mode flags after successful email, linking a payment proof
+      // uploaded during edit mode in the same (version-checked) update
+      const conflict = await updateRegistrationChecked(registration, {
+        ...(editModeProofUrl ? { payment_proof_url: editModeProofUrl } : {}),
+        edit_mode_enabled: false,
+        pending_admin_approval: false,
+        edit_changes_summary: changeSummary,
+        approval_email_sent: true,
+        updated_at: new Date().toISOString(),
+      });
 
-      if (error) throw error;
+      if (conflict) {
+        // The email is out; overwriting only records the approval
+        setPendingConflict({
+          conflict,
+          actionLabel: 'Final approval (email already sent)',
+          overwrite: (current) => handleEditModeFinalApproval(current, true),
+        });
+        return;
+      }
 
       // Log the activity
       await logAdminActivity({
@@ -1250,9 +1472,15 @@ const AdminRegistrations = () => {
 
     setIsProcessing(true);
     try {
-      // Send notification emails FIRST before approving
+      // Don't email members someone else has just changed
+      const checks = await Promise.all(
+        approvableMembers.map(async (member) => ({ member, conflict: await findRegistrationConflict(member) }))
+      );
+      const staleMembers = checks.filter(c => c.conflict).map(c => c.member);
+
+      // Send notification emails FIRST before approving (each issues that member's check-in QR code)
       const emailResults = await Promise.all(
-        approvableMembers.map(async (member) => ({
+        checks.filter(c => !c.conflict).map(async ({ member }) => ({
           member,
           success: await sendNotificationEmail(member, 'approved'),
         }))
@@ -1272,24 +1500,27 @@ const AdminRegistrations = () => {
 
       // Only approve registrations where email was sent successfully
       if (successfulEmails.length > 0) {
-        const successfulIds = successfulEmails.map(r => r.member.id);
-        const { error } = await supabase
-          .from('registrations')
-          .update({
-            registration_status: 'approved',
-            approved_at: new Date().toISOString(),
-            approval_email_sent: true,
-          })
-          .in('id', successfulIds);
-
-        if (error) throw error;
+        const updates = await Promise.all(
+          successfulEmails.map(async ({ member }) => ({
+            member,
+            conflict: await updateRegistrationChecked(member, {
+              registration_status: 'approved',
+              approved_at: new Date().toISOString(),
+              approval_email_sent: true,
+            }),
+          }))
+        );
+        staleMembers.push(...updates.filter(u => u.conflict).map(u => u.member));
+        const approvedCount = updates.length - updates.filter(u => u.conflict).length;
 
         toast({
           title: 'Group Approved',
-          description: `${successfulEmails.length} registration(s) have been approved and notified.${failedEmails.length > 0 ? ` ${failedEmails.length} failed.` : ''}`,
+          description: `${approvedCount} registration(s) have been approved and notified.${failedEmails.length > 0 ? ` ${failedEmails.length} failed.` : ''}`,
         });
       }
 
+      if (staleMembers.length > 0) toastChangedElsewhere(staleMembers, 'approved');
+
       fetchRegistrations();
     } catch (error) {
       console.error('Error approving group:', error);
@@ -1319,9 +1550,15 @@ const AdminRegistrations = () => {
 
     setIsProcessing(true);
     try {
+      // Don't email members someone else has just changed
+      const checks = await Promise.all(
+        pendingMembers.map(async (member) => ({ member, conflict: await findRegistrationConflict(member) }))
+      );
+      const staleMembers = checks.filter(c => c.conflict).map(c => c.member);
+
       // Send notification emails FIRST before rejecting
       const emailResults = await Promise.all(
-        pendingMembers.map(async (member) => ({
+        checks.filter(c => !c.conflict).map(async ({ member }) => ({
           member,
           success: await sendNotificationEmail(member, 'rejected', groupRejectionReason),
         }))
@@ -1341,21 +1578,22 @@ const AdminRegistrations = () => {
 
       // Only reject registrations where email was sent successfully
       if (successfulEmails.length > 0) {
-        const successfulIds = successfulEmails.map(r => r.member.id);
-        const { error } = await supabase
-          .from('registrations')
-          .update({
-            registration_status: 'rejected',
-            rejection_reason: groupRejectionReason,
-            approval_email_sent: true,
-          })
-          .in('id', successfulIds);
-
-        if (error) throw error;
+        const updates = await Promise.all(
+          successfulEmails.map(async ({ member }) => ({
+            member,
+            conflict: await updateRegistrationChecked(member, {
+              registration_status: 'rejected',
+              rejection_reason: groupRejectionReason,
+              approval_email_sent: true,
+            }),
+          }))
+        );
+        staleMembers.push(...updates.filter(u => u.conflict).map(u => u.member));
+        const rejectedCount = updates.length - updates.filter(u => u.conflict).length;
 
         toast({
           title: 'Group Rejected',
-          description: `${successfulEmails.length} registration(s) have been rejected and notified.${failedEmails.length > 0 ? ` ${failedEmails.length} failed.` : ''}`,
+          description: `${rejectedCount} registration(s) have been rejected and notified.${failedEmails.length > 0 ? ` ${failedEmails.length} failed.` : ''}`,
         });
 
         setIsGroupRejectDialogOpen(false);
@@ -1363,6 +1601,8 @@ const AdminRegistrations = () => {
         setGroupRejectionReason('');
       }
 
+      if (staleMembers.length > 0) toastChangedElsewhere(staleMembers, 'rejected');
+
       fetchRegistrations();
     } catch (error) {
       console.error('Error rejecting group:', error);
@@ -1392,6 +1632,8 @@ const AdminRegistrations = () => {
         return <Badge variant="destructive">Rejected</Badge>;
       case 'expired':
         return <Badge variant="outline" className="border-destructive text-destructive">Expired</Badge>;
+      case 'cancelled':
+        return <Badge variant="outline" className="text-muted-foreground">Cancelled</Badge>;
       default:
         // Show different pending status based on accounts verification
         if (accountsVerified) {
@@ -1419,12 +1661,12 @@ const AdminRegistrations = () => {
     return members.some(m => m.registration_status === 'pending');
   };
 
-  // Pagination logic
-  const totalItems = filteredRegistrations.length;
+  // Pagination logic (the server returns only the current page)
+  const totalItems = totalMatching;
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const paginatedRegistrations = filteredRegistrations.slice(startIndex, endIndex);
+  const paginatedRegistrations = registrations;
 
   const getVisiblePageNumbers = () => {
     const pages: (number | 'ellipsis')[] = [];
@@ -1471,12 +1713,28 @@ const AdminRegistrations = () => {
               <Users className="h-4 w-4 mr-2" />
               {showGrouped ? 'Grouped' : 'Flat'}
             </Button>
-            {userRole === 'superadmin' && (
-              <Button onClick={() => setIsExportDialogOpen(true)} variant="outline" size="sm">
-                <Download className="h-4 w-4 mr-2" />
+            {can('export_pii') && (
+              <Button onClick={openExportDialog} variant="outline" size="sm" disabled={isPreparingExport}>
+                {isPreparingExport ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
                 Export
               </Button>
             )}
+            {userRole === 'superadmin' && (
+              <Button onClick={() => setIsImportDialogOpen(true)} variant="outline" size="sm">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            )}
+            {can('merge_registrations') && can('export_pii') && (
+              <Button onClick={() => setIsDuplicateFinderOpen(true)} variant="outline" size="sm">
+                <Copy className="h-4 w-4 mr-2" />
+                Duplicates
+              </Button>
+            )}
             <Button onClick={fetchRegistrations} variant="outline" size="sm">
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
@@ -1598,6 +1856,7 @@ const AdminRegistrations = () => {
                     <SelectItem value="approved">Approved</SelectItem>
                     <SelectItem value="rejected">Rejected</SelectItem>
                     <SelectItem value="expired">Expired</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -1630,17 +1889,19 @@ const AdminRegistrations = () => {
               {/* Active filters summary */}
               {hasActiveFilters() && (
                 <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
-                  <span>Showing {filteredRegistrations.length} of {registrations.length} registrations</span>
-                  <Button
-                    onClick={quickExportFilteredToExcel}
-                    variant="outline"
-                    size="sm"
-                    className="h-8"
-                    title="Export filtered rows to Excel"
-                  >
-                    <FileSpreadsheet className="h-4 w-4 mr-2 text-emerald-600" />
-                    Export filtered ({filteredRegistrations.length})
-                  </Button>
+                  <span>Showing {totalMatching} of {grandTotal} registrations</span>
+                  {can('export_pii') && (
+                    <Button
+                      onClick={quickExportFilteredToExcel}
+                      variant="outline"
+                      size="sm"
+                      className="h-8"
+                      title="Export filtered rows to Excel"
+                    >
+                      <FileSpreadsheet className="h-4 w-4 mr-2 text-emerald-600" />
+                      Export filtered ({totalMatching})
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
@@ -1650,7 +1911,7 @@ const AdminRegistrations = () => {
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
-            ) : filteredRegistrations.length === 0 ? (
+            ) : registrations.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 No registrations found
               </div>
@@ -1661,11 +1922,13 @@ const AdminRegistrations = () => {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-10">
-                        <Checkbox
-                          checked={getHostelEligibleRegistrations().length > 0 && selectedForHostel.size === getHostelEligibleRegistrations().length}
-                          onCheckedChange={toggleSelectAllHostel}
-                          aria-label="Select all eligible for hostel"
-                        />
+                        {can('assign_beds') && (
+                          <Checkbox
+                            checked={isAllHostelEligibleSelected()}
+                            onCheckedChange={toggleSelectAllHostel}
+                            aria-label="Select all eligible for hostel"
+                          />
+                        )}
                       </TableHead>
                       <TableHead>Application ID</TableHead>
                       <TableHead>Name</TableHead>
@@ -1709,39 +1972,43 @@ const AdminRegistrations = () => {
                                     <TableCell colSpan={5} className="text-right py-2">
                                       {hasGroupPendingRegistrations(members) && (
                                         <div className="flex items-center justify-end gap-2">
-                                          <Button
-                                            size="sm"
-                                            variant="outline"
-                                            onClick={() => {
-                                              setSelectedGroup(members);
-                                              setIsGroupRejectDialogOpen(true);
-                                            }}
-                                            disabled={isProcessing}
-                                            className="text-destructive border-destructive hover:bg-destructive hover:text-destructive-foreground"
-                                          >
-                                            <XOctagon className="h-4 w-4 mr-1" />
-                                            Reject All
-                                          </Button>
-                                          <Button
-                                            size="sm"
-                                            onClick={() => handleGroupApprove(members)}
-                                            disabled={isProcessing || !hasGroupApprovableRegistrations(members)}
-                                            title={!hasGroupApprovableRegistrations(members) ? 'Payment must be submitted before approval' : undefined}
-                                          >
-                                            {isProcessing ? (
-                                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                                            ) : (
-                                              <CheckCheck className="h-4 w-4 mr-1" />
-                                            )}
-                                            Approve All
-                                          </Button>
+                                          {can('reject_registration') && (
+                                            <Button
+                                              size="sm"
+                                              variant="outline"
+                                              onClick={() => {
+                                                setSelectedGroup(members);
+                                                setIsGroupRejectDialogOpen(true);
+                                              }}
+                                              disabled={isProcessing}
+                                              className="text-destructive border-destructive hover:bg-destructive hover:text-destructive-foreground"
+                                            >
+                                              <XOctagon className="h-4 w-4 mr-1" />
+                                              Reject All
+                                            </Button>
+                                          )}
+                                          {can('approve_registration') && (
+                                            <Button
+                                              size="sm"
+                                              onClick={() => handleGroupApprove(members)}
+                                              disabled={isProcessing || !hasGroupApprovableRegistrations(members)}
+                                              title={!hasGroupApprovableRegistrations(members) ? 'Payment must be submitted before approval' : undefined}
+                                            >
+                                              {isProcessing ? (
+                                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                              ) : (
+                                                <CheckCheck className="h-4 w-4 mr-1" />
+                                              )}
+                                              Approve All
+                                            </Button>
+                                          )}
                                         </div>
                                       )}
                                     </TableCell>
                                   </TableRow>
                                   {/* Group members */}
                                   {members.map((registration, index) => {
-                                    const isHostelEligible = registration.registration_status === 'approved' && registration.stay_type === 'on-campus';
+                                    const isHostelEligible = can('assign_beds') && registration.registration_status === 'approved' && registration.stay_type === 'on-campus';
                                     return (
                                     <TableRow 
                                       key={registration.id}
@@ -1751,7 +2018,7 @@ const AdminRegistrations = () => {
                                         {isHostelEligible && (
                                           <Checkbox
                                             checked={selectedForHostel.has(registration.id)}
-                                            onCheckedChange={() => toggleHostelSelection(registration.id)}
+                                            onCheckedChange={() => toggleHostelSelection(registration)}
                                             aria-label={`Select ${registration.name} for hostel assignment`}
                                           />
                                         )}
@@ -1762,6 +2029,7 @@ const AdminRegistrations = () => {
                                           <span className={registration.via_invite ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : ''}>
                                             {registration.application_id}
                                           </span>
+                                          <PresenceIndicator compact viewers={othersOn(registration.application_id)} />
                                           {index === 0 && (
                                             <Badge variant="outline" className="text-xs">Primary</Badge>
                                           )}
@@ -1776,7 +2044,12 @@ const AdminRegistrations = () => {
                                       <TableCell className="font-medium">{registration.name}</TableCell>
                                       <TableCell>{registration.email}</TableCell>
                                       <TableCell>{registration.year_of_passing}</TableCell>
-                                      <TableCell>{getStatusBadge(registration.registration_status, registration.accounts_verified, registration.edit_mode_enabled ?? false)}</TableCell>
+                                      <TableCell>
+                                        {getStatusBadge(registration.registration_status, registration.accounts_verified, registration.edit_mode_enabled ?? false)}
+                                        {pendingEditRequestIds.has(registration.id) && (
+                                          <Badge variant="outline" className="mt-1 block w-fit">Edit Requested</Badge>
+                                        )}
+                                      </TableCell>
                                       <TableCell>{getPaymentBadge(registration.payment_status)}</TableCell>
                                       <TableCell>
                                         {registration.hostel_name ? (
@@ -1811,14 +2084,14 @@ const AdminRegistrations = () => {
                           } else {
                             // Standalone registration
                             const registration = item.registration;
-                                const isHostelEligible = registration.registration_status === 'approved' && registration.stay_type === 'on-campus';
+                                const isHostelEligible = can('assign_beds') && registration.registration_status === 'approved' && registration.stay_type === 'on-campus';
                                 return (
                                 <TableRow key={registration.id}>
                                   <TableCell>
                                     {isHostelEligible && (
                                       <Checkbox
                                         checked={selectedForHostel.has(registration.id)}
-                                        onCheckedChange={() => toggleHostelSelection(registration.id)}
+                                        onCheckedChange={() => toggleHostelSelection(registration)}
                                         aria-label={`Select ${registration.name} for hostel assignment`}
                                       />
                                     )}
@@ -1828,6 +2101,7 @@ const AdminRegistrations = () => {
                                       <span className={registration.via_invite ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : ''}>
                                         {registration.application_id}
                                       </span>
+                                      <PresenceIndicator compact viewers={othersOn(registration.application_id)} />
                                       {registration.via_invite && (
                                         <Badge className="text-xs bg-yellow-100 text-yellow-800 border border-yellow-400 hover:bg-yellow-100 dark:bg-yellow-900/40 dark:text-yellow-200 dark:border-yellow-600 gap-1">
                                           <KeyRound className="h-3 w-3" />
@@ -1839,7 +2113,12 @@ const AdminRegistrations = () => {
                                   <TableCell className="font-medium">{registration.name}</TableCell>
                                   <TableCell>{registration.email}</TableCell>
                                   <TableCell>{registration.year_of_passing}</TableCell>
-                                  <TableCell>{getStatusBadge(registration.registration_status, registration.accounts_verified, registration.edit_mode_enabled ?? false)}</TableCell>
+                                  <TableCell>
+                                    {getStatusBadge(registration.registration_status, registration.accounts_verified, registration.edit_mode_enabled ?? false)}
+                                    {pendingEditRequestIds.has(registration.id) && (
+                                      <Badge variant="outline" className="mt-1 block w-fit">Edit Requested</Badge>
+                                    )}
+                                  </TableCell>
                                   <TableCell>{getPaymentBadge(registration.payment_status)}</TableCell>
                                   <TableCell>
                                     {registration.hostel_name ? (
@@ -1875,14 +2154,14 @@ const AdminRegistrations = () => {
                     ) : (
                       /* Flat view - original behavior */
                       paginatedRegistrations.map((registration) => {
-                        const isHostelEligible = registration.registration_status === 'approved' && registration.stay_type === 'on-campus';
+                        const isHostelEligible = can('assign_beds') && registration.registration_status === 'approved' && registration.stay_type === 'on-campus';
                         return (
                         <TableRow key={registration.id}>
                           <TableCell>
                             {isHostelEligible && (
                               <Checkbox
                                 checked={selectedForHostel.has(registration.id)}
-                                onCheckedChange={() => toggleHostelSelection(registration.id)}
+                                onCheckedChange={() => toggleHostelSelection(registration)}
                                 aria-label={`Select ${registration.name} for hostel assignment`}
                               />
                             )}
@@ -1892,6 +2171,7 @@ const AdminRegistrations = () => {
                               <span className={registration.via_invite ? 'text-yellow-700 dark:text-yellow-300 font-semibold' : ''}>
                                 {registration.application_id}
                               </span>
+                              <PresenceIndicator compact viewers={othersOn(registration.application_id)} />
                               {registration.parent_application_id && (
                                 <Badge variant="outline" className="text-xs">
                                   → {registration.parent_application_id}
@@ -1908,7 +2188,12 @@ const AdminRegistrations = () => {
                           <TableCell className="font-medium">{registration.name}</TableCell>
                           <TableCell>{registration.email}</TableCell>
                           <TableCell>{registration.year_of_passing}</TableCell>
-                          <TableCell>{getStatusBadge(registration.registration_status, registration.accounts_verified, registration.edit_mode_enabled ?? false)}</TableCell>
+                          <TableCell>
+                            {getStatusBadge(registration.registration_status, registration.accounts_verified, registration.edit_mode_enabled ?? false)}
+                            {pendingEditRequestIds.has(registration.id) && (
+                              <Badge variant="outline" className="mt-1 block w-fit">Edit Requested</Badge>
+                            )}
+                          </TableCell>
                           <TableCell>{getPaymentBadge(registration.payment_status)}</TableCell>
                           <TableCell>
                             {registration.hostel_name ? (
@@ -2002,345 +2287,438 @@ const AdminRegistrations = () => {
             <DialogDescription>
               Application ID: {selectedRegistration?.application_id}
             </DialogDescription>
+            <PresenceIndicator viewers={othersOn(selectedRegistration?.application_id)} />
           </DialogHeader>
 
           {selectedRegistration && (
-            <div className="space-y-6">
-              {/* Edit Mode Banner */}
-              {selectedRegistration.edit_mode_enabled && (
-                <div className="space-y-4">
-                  <div className="p-4 rounded-lg bg-accent/20 border border-accent/50">
-                    <div className="flex items-start gap-2">
-                      <Edit3 className="h-5 w-5 text-accent-foreground mt-0.5 flex-shrink-0" />
-                      <div>
-                        <p className="font-medium text-accent-foreground">
-                          {selectedRegistration.pending_admin_approval 
-                            ? 'Edit Mode - Ready for Final Approval' 
-                            : selectedRegistration.accounts_verified 
-                              ? 'Edit Mode - Accounts Verified (Admin Can Edit)'
-                              : 'Edit Mode - Awaiting Accounts Verification'}
-                        </p>
-                        {selectedRegistration.edit_mode_reason && (
-                          <p className="text-sm text-muted-foreground mt-1">
-                            <strong>Reason:</strong> {selectedRegistration.edit_mode_reason}
-                          </p>
-                        )}
-                        {/* Step-by-step status messages */}
-                        {!selectedRegistration.accounts_verified && !selectedRegistration.pending_admin_approval && (
-                          <p className="text-sm font-medium text-accent-foreground mt-2">
-                            Step 1: Accounts admin must upload new payment proof & receipt
-                          </p>
-                        )}
-                        {selectedRegistration.accounts_verified && !selectedRegistration.pending_admin_approval && (
-                          <p className="text-sm font-medium text-primary mt-2">
-                            Step 2: Admin can now edit the form and save changes
-                          </p>
-                        )}
-                        {selectedRegistration.pending_admin_approval && (
-                          <p className="text-sm font-medium text-primary mt-2">
-                            Step 3: Click Approve to send notification to applicant
-                          </p>
+            <Tabs key={selectedRegistration.id} defaultValue="details">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="details">
+                <div className="space-y-6">
+                  {/* Registrant Edit Request Banner */}
+                  {pendingEditRequest && !selectedRegistration.edit_mode_enabled && (
+                    <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex items-start gap-2">
+                          <Edit3 className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
+                          <div>
+                            <p className="font-medium">Edit Requested by Registrant</p>
+                            <p className="text-sm mt-1">{pendingEditRequest.requested_changes}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {pendingEditRequest.requested_by_email} · {format(new Date(pendingEditRequest.created_at), 'dd MMM yyyy, hh:mm a')}
+                            </p>
+                            {can('enable_edit_mode') && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Use Enable Edit Mode to act on this request.
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        {can('enable_edit_mode') && (
+                          <Button variant="ghost" size="sm" onClick={handleDismissEditRequest}>
+                            Dismiss
+                          </Button>
                         )}
                       </div>
                     </div>
-                  </div>
-                </div>
-              )}
+                  )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="text-sm text-muted-foreground">Name</label>
-                  <p className="font-medium">{selectedRegistration.name}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Gender</label>
-                  <p className="font-medium capitalize">{selectedRegistration.gender}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Email</label>
-                  <p className="font-medium">{selectedRegistration.email}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Phone</label>
-                  <p className="font-medium">{selectedRegistration.phone}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Board</label>
-                  <p className="font-medium">{selectedRegistration.board_type || 'N/A'}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Year of Passing</label>
-                  <p className="font-medium">{selectedRegistration.year_of_passing}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Occupation</label>
-                  <p className="font-medium">{selectedRegistration.occupation}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Stay Type</label>
-                  <p className="font-medium capitalize">{selectedRegistration.stay_type}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">T-Shirt Size</label>
-                  <p className="font-medium">{selectedRegistration.tshirt_size}</p>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Registration Fee</label>
-                  <p className="font-medium">₹{selectedRegistration.registration_fee}</p>
-                </div>
-                {/* Hostel Assignment - Read-only display */}
-                {selectedRegistration.stay_type === 'on-campus' && (
-                  <div>
-                    <label className="text-sm text-muted-foreground flex items-center gap-1">
-                      <Building2 className="h-3 w-3" />
-                      Hostel Accommodation
-                    </label>
-                    <p className="font-medium mt-1">
-                      {selectedRegistration.hostel_name || 'Not yet assigned'}
-                    </p>
-                  </div>
-                )}
-                <div className="col-span-2">
-                  <label className="text-sm text-muted-foreground">
-                    Payment Proofs
-                    {allPaymentProofs.length > 0 && <span className="ml-1 text-xs">({allPaymentProofs.length} found)</span>}
-                  </label>
-                  {isLoadingProofs ? (
-                    <div className="flex items-center gap-2 mt-2 text-muted-foreground">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span className="text-sm">Loading payment proofs...</span>
+                  {/* Edit Mode Banner */}
+                  {selectedRegistration.edit_mode_enabled && (
+                    <div className="space-y-4">
+                      <div className="p-4 rounded-lg bg-accent/20 border border-accent/50">
+                        <div className="flex items-start gap-2">
+                          <Edit3 className="h-5 w-5 text-accent-foreground mt-0.5 flex-shrink-0" />
+                          <div>
+                            <p className="font-medium text-accent-foreground">
+                              {selectedRegistration.pending_admin_approval 
+                                ? 'Edit Mode - Ready for Final Approval' 
+                                : selectedRegistration.accounts_verified 
+                                  ? 'Edit Mode - Accounts Verified (Admin Can Edit)'
+                                  : 'Edit Mode - Awaiting Accounts Verification'}
+                            </p>
+                            {selectedRegistration.edit_mode_reason && (
+                              <p className="text-sm text-muted-foreground mt-1">
+                                <strong>Reason:</strong> {selectedRegistration.edit_mode_reason}
+                              </p>
+                            )}
+                            {/* Step-by-step status messages */}
+                            {!selectedRegistration.accounts_verified && !selectedRegistration.pending_admin_approval && (
+                              <p className="text-sm font-medium text-accent-foreground mt-2">
+                                Step 1: Accounts admin must upload new payment proof & receipt
+                              </p>
+                            )}
+                            {selectedRegistration.accounts_verified && !selectedRegistration.pending_admin_approval && (
+                              <p className="text-sm font-medium text-primary mt-2">
+                                Step 2: Admin can now edit the form and save changes
+                              </p>
+                            )}
+                            {selectedRegistration.pending_admin_approval && (
+                              <p className="text-sm font-medium text-primary mt-2">
+                                Step 3: Click Approve to send notification to applicant
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </div>
                     </div>
-                  ) : allPaymentProofs.length > 0 ? (
-                    <div className="mt-2 space-y-2">
-                      {allPaymentProofs.map((proof, index) => {
-                        const isPdf = proof.name.toLowerCase().endsWith('.pdf');
-                        const isEditMode = proof.name.includes('edit-mode-');
-                        return (
-                          <div key={proof.name} className="flex items-center gap-2">
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm text-muted-foreground">Name</label>
+                      <p className="font-medium">{selectedRegistration.name}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Gender</label>
+                      <p className="font-medium capitalize">{selectedRegistration.gender}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Email</label>
+                      <p className="font-medium">{selectedRegistration.email}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Phone</label>
+                      <p className="font-medium">{selectedRegistration.phone}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Board</label>
+                      <p className="font-medium">{selectedRegistration.board_type || 'N/A'}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Year of Passing</label>
+                      <p className="font-medium">{selectedRegistration.year_of_passing}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Occupation</label>
+                      <p className="font-medium">{selectedRegistration.occupation}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Stay Type</label>
+                      <p className="font-medium capitalize">{selectedRegistration.stay_type}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">T-Shirt Size</label>
+                      <p className="font-medium">{selectedRegistration.tshirt_size}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Registration Fee</label>
+                      <p className="font-medium">₹{selectedRegistration.registration_fee}</p>
+                    </div>
+                    {/* Hostel Assignment - Read-only display */}
+                    {selectedRegistration.stay_type === 'on-campus' && (
+                      <div>
+                        <label className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Building2 className="h-3 w-3" />
+                          Hostel Accommodation
+                        </label>
+                        <p className="font-medium mt-1">
+                          {selectedRegistration.hostel_name || 'Not yet assigned'}
+                        </p>
+                      </div>
+                    )}
+                    <div className="col-span-2">
+                      <label className="text-sm text-muted-foreground">
+                        Payment Proofs
+                        {allPaymentProofs.length > 0 && <span className="ml-1 text-xs">({allPaymentProofs.length} found)</span>}
+                      </label>
+                      {isLoadingProofs ? (
+                        <div className="flex items-center gap-2 mt-2 text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          <span className="text-sm">Loading payment proofs...</span>
+                        </div>
+                      ) : allPaymentProofs.length > 0 ? (
+                        <div className="mt-2 space-y-2">
+                          {allPaymentProofs.map((proof, index) => {
+                            const isPdf = proof.name.toLowerCase().endsWith('.pdf');
+                            const isEditMode = proof.name.includes('edit-mode-');
+                            return (
+                              <div key={proof.name} className="flex items-center gap-2">
+                                <a 
+                                  href={proof.url} 
+                                  target="_blank" 
+                                  rel="noopener noreferrer"
+                                  className="inline-flex items-center gap-2 text-primary hover:underline text-sm"
+                                >
+                                  <Eye className="h-4 w-4" />
+                                  {isPdf ? 'PDF Proof' : 'Image Proof'} {allPaymentProofs.length - index}
+                                  {isEditMode && (
+                                    <span className="text-xs text-muted-foreground italic ml-1">
+                                      (re-uploaded)
+                                    </span>
+                                  )}
+                                  {proof.created_at && (
+                                    <span className="text-xs text-muted-foreground">
+                                      ({format(new Date(proof.created_at), 'dd MMM yyyy')})
+                                    </span>
+                                  )}
+                                </a>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ) : selectedRegistration.payment_proof_url ? (
+                        <div className="mt-2">
+                          {(() => {
+                            const proofUrl = toPublicPaymentProofUrl(selectedRegistration.payment_proof_url);
+                            if (!proofUrl) return null;
+                            return selectedRegistration.payment_proof_url.toLowerCase().endsWith('.pdf') ? (
                             <a 
-                              href={proof.url} 
+                              href={proofUrl} 
                               target="_blank" 
                               rel="noopener noreferrer"
-                              className="inline-flex items-center gap-2 text-primary hover:underline text-sm"
+                              className="inline-flex items-center gap-2 text-primary hover:underline"
                             >
                               <Eye className="h-4 w-4" />
-                              {isPdf ? 'PDF Proof' : 'Image Proof'} {allPaymentProofs.length - index}
-                              {isEditMode && (
-                                <span className="text-xs text-muted-foreground italic ml-1">
-                                  (re-uploaded)
-                                </span>
-                              )}
-                              {proof.created_at && (
-                                <span className="text-xs text-muted-foreground">
-                                  ({format(new Date(proof.created_at), 'dd MMM yyyy')})
-                                </span>
-                              )}
+                              View PDF Payment Proof
                             </a>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  ) : selectedRegistration.payment_proof_url ? (
-                    <div className="mt-2">
-                      {(() => {
-                        const proofUrl = toPublicPaymentProofUrl(selectedRegistration.payment_proof_url);
-                        if (!proofUrl) return null;
-                        return selectedRegistration.payment_proof_url.toLowerCase().endsWith('.pdf') ? (
-                        <a 
-                          href={proofUrl} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="inline-flex items-center gap-2 text-primary hover:underline"
-                        >
-                          <Eye className="h-4 w-4" />
-                          View PDF Payment Proof
-                        </a>
-                      ) : (
-                        <a 
-                          href={proofUrl} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                        >
-                          <img 
-                            src={proofUrl} 
-                            alt="Payment proof" 
-                            className="max-w-full max-h-64 rounded-lg border border-border cursor-pointer hover:opacity-90 transition-opacity"
-                          />
-                        </a>
-                      );
-                      })()}
-                    </div>
-                  ) : (
-                    <div className="flex items-center gap-3">
-                      <p className="font-medium text-muted-foreground">No proof uploaded</p>
-                      {userRole === 'superadmin' && (
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          disabled={isSyncingSingleProof}
-                          onClick={() => {
-                            const appId = selectedRegistration.parent_application_id || selectedRegistration.application_id;
-                            syncSingleApplicationProof(appId);
-                          }}
-                        >
-                          {isSyncingSingleProof ? (
-                            <Loader2 className="h-3 w-3 animate-spin mr-1" />
                           ) : (
-                            <Link2 className="h-3 w-3 mr-1" />
+                            <a 
+                              href={proofUrl} 
+                              target="_blank" 
+                              rel="noopener noreferrer"
+                            >
+                              <img 
+                                src={proofUrl} 
+                                alt="Payment proof" 
+                                className="max-w-full max-h-64 rounded-lg border border-border cursor-pointer hover:opacity-90 transition-opacity"
+                              />
+                            </a>
+                          );
+                          })()}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-3">
+                          <p className="font-medium text-muted-foreground">No proof uploaded</p>
+                          {userRole === 'superadmin' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isSyncingSingleProof}
+                              onClick={() => {
+                                const appId = selectedRegistration.parent_application_id || selectedRegistration.application_id;
+                                syncSingleApplicationProof(appId);
+                              }}
+                            >
+                              {isSyncingSingleProof ? (
+                                <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                              ) : (
+                                <Link2 className="h-3 w-3 mr-1" />
+                              )}
+                              Sync from Storage
+                            </Button>
                           )}
-                          Sync from Storage
-                        </Button>
+                        </div>
                       )}
                     </div>
-                  )}
-                </div>
-                <div className="col-span-2">
-                  <label className="text-sm text-muted-foreground">
-                    Payment Receipts (Accounts Admin)
-                    {allReceipts.length > 0 && <span className="ml-1 text-xs">({allReceipts.length} found)</span>}
-                  </label>
-                  {isLoadingReceipts ? (
-                    <div className="flex items-center gap-2 mt-2 text-muted-foreground">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span className="text-sm">Loading receipts...</span>
-                    </div>
-                  ) : allReceipts.length > 0 ? (
-                    <div className="mt-2 space-y-2">
-                      {allReceipts.map((receipt, index) => (
-                        <div key={receipt.name} className="flex items-center gap-2">
+                    <div className="col-span-2">
+                      <label className="text-sm text-muted-foreground">
+                        Payment Receipts (Accounts Admin)
+                        {allReceipts.length > 0 && <span className="ml-1 text-xs">({allReceipts.length} found)</span>}
+                      </label>
+                      {isLoadingReceipts ? (
+                        <div className="flex items-center gap-2 mt-2 text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          <span className="text-sm">Loading receipts...</span>
+                        </div>
+                      ) : allReceipts.length > 0 ? (
+                        <div className="mt-2 space-y-2">
+                          {allReceipts.map((receipt, index) => (
+                            <div key={receipt.name} className="flex items-center gap-2">
+                              <a 
+                                href={receipt.url} 
+                                target="_blank" 
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-2 text-primary hover:underline text-sm"
+                              >
+                                <Eye className="h-4 w-4" />
+                                Receipt {allReceipts.length - index}
+                                <span className="text-xs text-muted-foreground">
+                                  ({receipt.name.split('-').pop()?.replace('.pdf', '')})
+                                </span>
+                              </a>
+                            </div>
+                          ))}
+                        </div>
+                      ) : selectedRegistration.payment_receipt_url ? (
+                        <div className="mt-2">
                           <a 
-                            href={receipt.url} 
+                            href={toPublicPaymentReceiptUrl(selectedRegistration.payment_receipt_url) || '#'} 
                             target="_blank" 
                             rel="noopener noreferrer"
-                            className="inline-flex items-center gap-2 text-primary hover:underline text-sm"
+                            className="inline-flex items-center gap-2 text-primary hover:underline"
                           >
                             <Eye className="h-4 w-4" />
-                            Receipt {allReceipts.length - index}
-                            <span className="text-xs text-muted-foreground">
-                              ({receipt.name.split('-').pop()?.replace('.pdf', '')})
-                            </span>
+                            View Payment Receipt (PDF)
                           </a>
                         </div>
-                      ))}
-                    </div>
-                  ) : selectedRegistration.payment_receipt_url ? (
-                    <div className="mt-2">
-                      <a 
-                        href={toPublicPaymentReceiptUrl(selectedRegistration.payment_receipt_url) || '#'} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="inline-flex items-center gap-2 text-primary hover:underline"
-                      >
-                        <Eye className="h-4 w-4" />
-                        View Payment Receipt (PDF)
-                      </a>
+                      ) : (
+                        <p className="font-medium text-muted-foreground">Not uploaded yet</p>
+                      )}
                     </div>
-                  ) : (
-                    <p className="font-medium text-muted-foreground">Not uploaded yet</p>
-                  )}
-                </div>
-              </div>
-
-              <div>
-                <label className="text-sm text-muted-foreground">Address</label>
-                <p className="font-medium">
-                  {selectedRegistration.address_line1}
-                  {selectedRegistration.address_line2 && `, ${selectedRegistration.address_line2}`}
-                  <br />
-                  {selectedRegistration.city}, {selectedRegistration.district}
-                  <br />
-                  {selectedRegistration.state} - {selectedRegistration.postal_code}
-                  <br />
-                  {selectedRegistration.country}
-                </p>
-              </div>
-
-              <div className="flex flex-wrap gap-4">
-                <div>
-                  <label className="text-sm text-muted-foreground">Registration Status</label>
-                  <div className="mt-1">{getStatusBadge(selectedRegistration.registration_status, selectedRegistration.accounts_verified, selectedRegistration.edit_mode_enabled ?? false)}</div>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Payment Status</label>
-                  <div className="mt-1">{getPaymentBadge(selectedRegistration.payment_status)}</div>
-                </div>
-                <div>
-                  <label className="text-sm text-muted-foreground">Accounts Verified</label>
-                  <div className="mt-1">
-                    {selectedRegistration.accounts_verified ? (
-                      <Badge className="bg-secondary text-secondary-foreground">Verified</Badge>
-                    ) : (
-                      <Badge variant="outline">Pending</Badge>
+                    {/* Payments of merged duplicates, e.g. when someone paid twice */}
+                    {Array.isArray(selectedRegistration.merged_payments) && selectedRegistration.merged_payments.length > 0 && (
+                      <div className="col-span-2">
+                        <label className="text-sm text-muted-foreground">Payments From Merged Duplicates</label>
+                        <div className="mt-2 space-y-2">
+                          {(selectedRegistration.merged_payments as unknown as MergedPayment[]).map((payment) => {
+                            const proofUrl = toPublicPaymentProofUrl(payment.paymentProofUrl);
+                            return (
+                              <div
+                                key={`${payment.applicationId}-${payment.mergedAt}`}
+                                className="rounded-md border border-amber-200 bg-amber-50 p-2 text-sm"
+                              >
+                                <p className="font-medium">
+                                  {payment.applicationId} · ₹{payment.registrationFee} · {payment.paymentStatus}
+                                  {payment.accountsVerified && ' (accounts verified)'}
+                                </p>
+                                <p className="text-muted-foreground">
+                                  Reference: {payment.paymentReference || '—'}
+                                  {payment.paymentDate && ` · Paid ${format(new Date(payment.paymentDate), 'dd MMM yyyy')}`}
+                                  {` · Merged ${format(new Date(payment.mergedAt), 'dd MMM yyyy')}`}
+                                </p>
+                                {proofUrl && (
+                                  <a
+                                    href={proofUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center gap-2 text-primary hover:underline"
+                                  >
+                                    <Eye className="h-4 w-4" />
+                                    View Payment Proof
+                                  </a>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
                     )}
                   </div>
-                </div>
-                {/* Edit Mode Status - Only show when not ready for final approval */}
-                {selectedRegistration.edit_mode_enabled && 
-                  !selectedRegistration.pending_admin_approval && 
-                  !selectedRegistration.accounts_verified && (
+
                   <div>
-                    <label className="text-sm text-muted-foreground">Edit Mode</label>
-                    <div className="mt-1">
-                      <Badge className="bg-accent text-accent-foreground">
-                        <Edit3 className="h-3 w-3 mr-1" />
-                        Active
-                      </Badge>
-                    </div>
+                    <label className="text-sm text-muted-foreground">Address</label>
+                    <p className="font-medium">
+                      {selectedRegistration.address_line1}
+                      {selectedRegistration.address_line2 && `, ${selectedRegistration.address_line2}`}
+                      <br />
+                      {selectedRegistration.city}, {selectedRegistration.district}
+                      <br />
+                      {selectedRegistration.state} - {selectedRegistration.postal_code}
+                      <br />
+                      {selectedRegistration.country}
+                    </p>
                   </div>
-                )}
-                {/* Pending Admin Approval for Edit Mode */}
-                {selectedRegistration.pending_admin_approval && (
-                  <div>
-                    <label className="text-sm text-muted-foreground">Final Approval</label>
-                    <div className="mt-1">
-                      <Badge className="bg-accent text-accent-foreground">
-                        Awaiting Admin
-                      </Badge>
+
+                  <div className="flex flex-wrap gap-4">
+                    <div>
+                      <label className="text-sm text-muted-foreground">Registration Status</label>
+                      <div className="mt-1">{getStatusBadge(selectedRegistration.registration_status, selectedRegistration.accounts_verified, selectedRegistration.edit_mode_enabled ?? false)}</div>
                     </div>
-                  </div>
-                )}
-                {/* Email Sent Status - Visible to superadmin for approved/rejected registrations */}
-                {userRole === 'superadmin' && (selectedRegistration.registration_status === 'approved' || selectedRegistration.registration_status === 'rejected') && (
-                  <div>
-                    <label className="text-sm text-muted-foreground flex items-center gap-1">
-                      <Mail className="h-3 w-3" />
-                      Email Notification
-                    </label>
-                    <div className="mt-1">
-                      {selectedRegistration.approval_email_sent ? (
-                        <Badge className="bg-secondary text-secondary-foreground">
-                          <CheckCircle className="h-3 w-3 mr-1" />
-                          Sent
-                        </Badge>
-                      ) : (
-                        <Badge variant="destructive">
-                          <XCircle className="h-3 w-3 mr-1" />
-                          Not Sent
-                        </Badge>
-                      )}
+                    <div>
+                      <label className="text-sm text-muted-foreground">Payment Status</label>
+                      <div className="mt-1">{getPaymentBadge(selectedRegistration.payment_status)}</div>
+                    </div>
+                    <div>
+                      <label className="text-sm text-muted-foreground">Accounts Verified</label>
+                      <div className="mt-1">
+                        {selectedRegistration.accounts_verified ? (
+                          <Badge className="bg-secondary text-secondary-foreground">Verified</Badge>
+                        ) : (
+                          <Badge variant="outline">Pending</Badge>
+                        )}
+                      </div>
+                    </div>
+                    {/* Edit Mode Status - Only show when not ready for final approval */}
+                    {selectedRegistration.edit_mode_enabled && 
+                      !selectedRegistration.pending_admin_approval && 
+                      !selectedRegistration.accounts_verified && (
+                      <div>
+                        <label className="text-sm text-muted-foreground">Edit Mode</label>
+                        <div className="mt-1">
+                          <Badge className="bg-accent text-accent-foreground">
+                            <Edit3 className="h-3 w-3 mr-1" />
+                            Active
+                          </Badge>
+                        </div>
+                      </div>
+                    )}
+                    {/* Pending Admin Approval for Edit Mode */}
+                    {selectedRegistration.pending_admin_approval && (
+                      <div>
+                        <label className="text-sm text-muted-foreground">Final Approval</label>
+                        <div className="mt-1">
+                          <Badge className="bg-accent text-accent-foreground">
+                            Awaiting Admin
+                          </Badge>
+                        </div>
+                      </div>
+                    )}
+                    {/* Email Sent Status - Visible to superadmin for approved/rejected registrations */}
+                    {userRole === 'superadmin' && (selectedRegistration.registration_status === 'approved' || selectedRegistration.registration_status === 'rejected') && (
+                      <div>
+                        <label className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Mail className="h-3 w-3" />
+                          Email Notification
+                        </label>
+                        <div className="mt-1">
+                          {selectedRegistration.approval_email_sent ? (
+                            <Badge className="bg-secondary text-secondary-foreground">
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Sent
+                            </Badge>
+                          ) : (
+                            <Badge variant="destructive">
+                              <XCircle className="h-3 w-3 mr-1" />
+                              Not Sent
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <label className="text-sm text-muted-foreground">Registered On</label>
+                      <p className="font-medium mt-1">
+                        {format(new Date(selectedRegistration.created_at), 'dd MMM yyyy, hh:mm a')}
+                      </p>
                     </div>
                   </div>
-                )}
-                <div>
-                  <label className="text-sm text-muted-foreground">Registered On</label>
-                  <p className="font-medium mt-1">
-                    {format(new Date(selectedRegistration.created_at), 'dd MMM yyyy, hh:mm a')}
-                  </p>
-                </div>
-              </div>
 
-              {selectedRegistration.rejection_reason && (
-                <div>
-                  <label className="text-sm text-muted-foreground">Rejection Reason</label>
-                  <p className="font-medium text-destructive">{selectedRegistration.rejection_reason}</p>
+                  {selectedRegistration.registration_status === 'expired' && selectedRegistration.expired_at && (
+                    <div>
+                      <label className="text-sm text-muted-foreground">Expired On</label>
+                      <p className="font-medium text-destructive">
+                        {format(new Date(selectedRegistration.expired_at), 'dd MMM yyyy, hh:mm a')} — no payment within the grace period
+                      </p>
+                    </div>
+                  )}
+
+                  {selectedRegistration.rejection_reason && (
+                    <div>
+                      <label className="text-sm text-muted-foreground">Rejection Reason</label>
+                      <p className="font-medium text-destructive">{selectedRegistration.rejection_reason}</p>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
+              </TabsContent>
+              <TabsContent value="history">
+                <RegistrationHistoryTimeline
+                  registrationId={selectedRegistration.id}
+                  refreshKey={selectedRegistration.version}
+                />
+              </TabsContent>
+            </Tabs>
           )}
 
           <DialogFooter className="gap-2">
-            {/* Delete button - Superadmin only */}
-            {userRole === 'superadmin' && (
+            {/* Delete button - requires the delete capability */}
+            {can('delete_registration') && (
               <Button
                 variant="destructive"
                 onClick={() => setIsDeleteDialogOpen(true)}
@@ -2351,12 +2729,12 @@ const AdminRegistrations = () => {
                 Delete
               </Button>
             )}
-            {/* Edit button - Superadmin always (non-edit mode), Admin when edit mode is active AND accounts verified (but not pending final approval) */}
+            {/* Edit button - edit capability (non-edit mode); in edit mode also approvers, once accounts verified (but not pending final approval) */}
             {(
-              // Superadmin can edit non-edit-mode registrations
-              (userRole === 'superadmin' && !selectedRegistration?.edit_mode_enabled) || 
-              // In edit mode: both Admin and Superadmin can edit ONLY when accounts_verified but NOT pending_admin_approval
-              ((userRole === 'admin' || userRole === 'superadmin') && 
+              // Editors can edit non-edit-mode registrations
+              (can('edit_registration') && !selectedRegistration?.edit_mode_enabled) || 
+              // In edit mode: editors and approvers can edit ONLY when accounts_verified but NOT pending_admin_approval
+              ((can('edit_registration') || can('approve_registration')) && 
                 selectedRegistration?.edit_mode_enabled && 
                 selectedRegistration?.accounts_verified && 
                 !selectedRegistration?.pending_admin_approval)
@@ -2375,36 +2753,40 @@ const AdminRegistrations = () => {
             )}
             {selectedRegistration?.registration_status === 'pending' && !selectedRegistration?.edit_mode_enabled && (
               <>
-                <Button
-                  variant="outline"
-                  onClick={() => setIsRejectDialogOpen(true)}
-                  disabled={isProcessing}
-                >
-                  <XCircle className="h-4 w-4 mr-2" />
-                  Reject
-                </Button>
-                <Button
-                  onClick={() => selectedRegistration && handleApprove(selectedRegistration)}
-                  disabled={isProcessing || selectedRegistration?.payment_status !== 'submitted' || !selectedRegistration?.accounts_verified}
-                  title={
-                    selectedRegistration?.payment_status !== 'submitted' 
-                      ? 'Payment must be submitted before approval' 
-                      : !selectedRegistration?.accounts_verified 
-                        ? 'Accounts Admin must verify payment before approval' 
-                        : undefined
-                  }
-                >
-                  {isProcessing ? (
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  ) : (
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                  )}
-                  Approve
-                </Button>
+                {can('reject_registration') && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsRejectDialogOpen(true)}
+                    disabled={isProcessing}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                )}
+                {can('approve_registration') && (
+                  <Button
+                    onClick={() => selectedRegistration && handleApprove(selectedRegistration)}
+                    disabled={isProcessing || selectedRegistration?.payment_status !== 'submitted' || !selectedRegistration?.accounts_verified}
+                    title={
+                      selectedRegistration?.payment_status !== 'submitted' 
+                        ? 'Payment must be submitted before approval' 
+                        : !selectedRegistration?.accounts_verified 
+                          ? 'Accounts Admin must verify payment before approval' 
+                          : undefined
+                    }
+                  >
+                    {isProcessing ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                    )}
+                    Approve
+                  </Button>
+                )}
               </>
             )}
-            {/* Superadmin can re-enable expired or rejected registrations */}
-            {userRole === 'superadmin' && (selectedRegistration?.registration_status === 'expired' || selectedRegistration?.registration_status === 'rejected') && (
+            {/* Re-enable expired or rejected registrations */}
+            {can('reenable_registration') && (selectedRegistration?.registration_status === 'expired' || selectedRegistration?.registration_status === 'rejected') && (
               <Button
                 onClick={() => selectedRegistration && handleReEnableRegistration(selectedRegistration)}
                 disabled={isProcessing}
@@ -2429,8 +2811,8 @@ const AdminRegistrations = () => {
                 Resend Approval Email
               </Button>
             )}
-            {/* Superadmin can enable edit mode for approved registrations to allow changes */}
-            {userRole === 'superadmin' && selectedRegistration?.registration_status === 'approved' && !selectedRegistration?.edit_mode_enabled && (
+            {/* Enable edit mode for approved registrations to allow changes */}
+            {can('enable_edit_mode') && selectedRegistration?.registration_status === 'approved' && !selectedRegistration?.edit_mode_enabled && (
               <Button
                 onClick={() => {
                   setIsDetailOpen(false);
@@ -2443,9 +2825,9 @@ const AdminRegistrations = () => {
                 Enable Edit Mode
               </Button>
             )}
-            {/* Final Approval for Edit Mode registrations - Admin can approve and send notification */}
+            {/* Final Approval for Edit Mode registrations - approvers can approve and send notification */}
             {/* Show when edit mode is active AND accounts verification is complete (pending_admin_approval or accounts_verified) */}
-            {(userRole === 'superadmin' || userRole === 'admin') && 
+            {can('approve_registration') && 
               selectedRegistration?.edit_mode_enabled && 
               (selectedRegistration?.pending_admin_approval || selectedRegistration?.accounts_verified) && (
               <Button
@@ -2495,7 +2877,7 @@ const AdminRegistrations = () => {
             </Button>
             <Button
               variant="destructive"
-              onClick={handleReject}
+              onClick={() => handleReject()}
               disabled={isProcessing || !rejectionReason.trim()}
             >
               {isProcessing ? (
@@ -2575,21 +2957,34 @@ const AdminRegistrations = () => {
       </AlertDialog>
 
       {/* Delete Confirmation Dialog */}
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+      <AlertDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={(open) => {
+          setIsDeleteDialogOpen(open);
+          if (!open) setDeleteReason('');
+        }}
+      >
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Registration</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to permanently delete the registration for{' '}
-              <span className="font-semibold">{selectedRegistration?.name}</span>? 
-              This action cannot be undone.
+              Move the registration for{' '}
+              <span className="font-semibold">{selectedRegistration?.name}</span> to the recycle bin?
+              It is hidden from all screens and exports, and its bed is released. A superadmin can
+              restore it until it is purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <Textarea
+            placeholder="Enter reason for deletion..."
+            value={deleteReason}
+            onChange={(e) => setDeleteReason(e.target.value)}
+            rows={3}
+          />
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isProcessing}>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleDelete}
-              disabled={isProcessing}
+              onClick={() => handleDelete()}
+              disabled={isProcessing || !deleteReason.trim()}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
               {isProcessing ? (
@@ -2703,8 +3098,7 @@ const AdminRegistrations = () => {
             <div className="text-sm text-muted-foreground">
               <p className="font-medium mb-2">Selected registrations:</p>
               <ul className="list-disc list-inside space-y-1 max-h-40 overflow-y-auto">
-                {filteredRegistrations
-                  .filter(r => selectedForHostel.has(r.id))
+                {Array.from(selectedForHostel.values())
                   .map(r => (
                     <li key={r.id}>{r.name} ({r.application_id})</li>
                   ))}
@@ -2737,6 +3131,19 @@ const AdminRegistrations = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Someone else changed the registration an action was meant for */}
+      <RegistrationConflictDialog
+        conflict={pendingConflict?.conflict ?? null}
+        actionLabel={pendingConflict?.actionLabel}
+        onOpenChange={(open) => !open && setPendingConflict(null)}
+        onReload={handleConflictReload}
+        onOverwrite={(current) => {
+          const overwrite = pendingConflict?.overwrite;
+          setPendingConflict(null);
+          overwrite?.(current);
+        }}
+      />
+
       {/* Edit Registration Dialog (Superadmin only) */}
       <EditRegistrationDialog
         registration={selectedRegistration}
@@ -2744,12 +3151,24 @@ const AdminRegistrations = () => {
         onOpenChange={setIsEditDialogOpen}
         onSuccess={fetchRegistrations}
       />
+      {/* Import Dialog */}
+      <RegistrationImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={fetchRegistrations}
+      />
+      {/* Duplicate Finder */}
+      <DuplicateFinderDialog
+        open={isDuplicateFinderOpen}
+        onOpenChange={setIsDuplicateFinderOpen}
+        onMerged={fetchRegistrations}
+      />
       {/* Export Dialog */}
       <ExportRegistrationsDialog
         open={isExportDialogOpen}
         onOpenChange={setIsExportDialogOpen}
-        registrations={filteredRegistrations}
-        allRegistrations={registrations}
+        registrations={exportRows.filtered}
+        allRegistrations={exportRows.all}
         hasActiveFilters={hasActiveFilters()}
         activeFilters={[
           searchQuery && `Search: "${searchQuery}"`,
@@ -2767,6 +3186,7 @@ const AdminRegistrations = () => {
       {/* Enable Edit Mode Dialog (Superadmin only) */}
       <EnableEditModeDialog
         registration={selectedRegistration}
+        editRequest={pendingEditRequest}
         open={isEnableEditModeDialogOpen}
         onOpenChange={setIsEnableEditModeDialogOpen}
         onSuccess={fetchRegistrations}
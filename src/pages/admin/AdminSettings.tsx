@@ -1,6 +1,8 @@
 import AdminLayout from '@/components/admin/AdminLayout';
 import ScheduledPeriodsManager from '@/components/admin/ScheduledPeriodsManager';
 import InviteManager from '@/components/admin/InviteManager';
+import EmailTemplatesManager from '@/components/admin/EmailTemplatesManager';
+import PaymentReminderSettings from '@/components/admin/PaymentReminderSettings';
 import { useAuth } from '@/hooks/useAuth';
 
 const AdminSettings = () => {
@@ -30,6 +32,22 @@ const AdminSettings = () => {
                 </p>
                 <InviteManager />
               </div>
+
+              <div className="border-t border-border pt-8">
+                <h2 className="font-serif text-xl font-semibold text-foreground mb-4">Email Templates</h2>
+                <p className="text-muted-foreground text-sm mb-4">
+                  Edit the subject and content of emails sent to registrants. Changes apply to every email sent after saving.
+                </p>
+                <EmailTemplatesManager />
+              </div>
+
+              <div className="border-t border-border pt-8">
+                <h2 className="font-serif text-xl font-semibold text-foreground mb-4">Payment Reminders</h2>
+                <p className="text-muted-foreground text-sm mb-4">
+                  Choose when registrants with outstanding payments are reminded before the registration end date, and preview who the next run would email.
+                </p>
+                <PaymentReminderSettings />
+              </div>
             </>
           )}
         </div>
@@ -40,9 +40,11 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { Loader2, UserPlus, Trash2, ShieldAlert, CheckCircle, XCircle, X, Monitor } from 'lucide-react';
+import { Loader2, UserPlus, Trash2, ShieldAlert, CheckCircle, XCircle, X, Monitor, KeyRound } from 'lucide-react';
 import { Database } from '@/integrations/supabase/types';
 import ScreenPermissionsDialog from '@/components/admin/ScreenPermissionsDialog';
+import CapabilitiesDialog from '@/components/admin/CapabilitiesDialog';
+import RoleCapabilityTemplates from '@/components/admin/RoleCapabilityTemplates';
 import GeofenceSettings from '@/components/admin/GeofenceSettings';
 
 type AppRole = Database['public']['Enums']['app_role'];
@@ -81,6 +83,11 @@ const AdminUsers = () => {
     userId: string;
     email: string;
   } | null>(null);
+  const [capabilitiesUser, setCapabilitiesUser] = useState<{
+    userId: string;
+    email: string;
+    roles: AppRole[];
+  } | null>(null);
 
   useEffect(() => {
     checkSuperadminAndFetchRoles();
@@ -636,6 +643,20 @@ const AdminUsers = () => {
                             <Monitor className="h-3.5 w-3.5 mr-1" />
                             Screens
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8"
+                            onClick={() => setCapabilitiesUser({
+                              userId: groupedUser.user_id,
+                              email: groupedUser.email,
+                              roles: groupedUser.roles.map((r) => r.role),
+                            })}
+                            title="Configure allowed actions"
+                          >
+                            <KeyRound className="h-3.5 w-3.5 mr-1" />
+                            Capabilities
+                          </Button>
                           {getAvailableRoles(groupedUser.user_id).length > 0 && (
                             <>
                               {pendingRoleAssignment?.userId === groupedUser.user_id ? (
@@ -701,6 +722,9 @@ const AdminUsers = () => {
           </CardContent>
         </Card>
 
+        {/* Role Capability Templates - Superadmin Only */}
+        <RoleCapabilityTemplates />
+
         {/* Geofence Settings - Superadmin Only */}
         <GeofenceSettings />
 
@@ -711,6 +735,15 @@ const AdminUsers = () => {
           userId={screenPermissionsUser?.userId || ''}
           userEmail={screenPermissionsUser?.email || ''}
         />
+
+        {/* Capabilities Dialog */}
+        <CapabilitiesDialog
+          open={!!capabilitiesUser}
+          onOpenChange={(open) => !open && setCapabilitiesUser(null)}
+          userId={capabilitiesUser?.userId || ''}
+          userEmail={capabilitiesUser?.email || ''}
+          roles={capabilitiesUser?.roles || []}
+        />
       </div>
     </AdminLayout>
   );
@@ -0,0 +1,171 @@
+/**
+ * botProtection.ts - Captcha Verification and Registration Rate Limits
+ *
+ * Registration submissions carry a reCAPTCHA v3 token (see useRecaptcha).
+ * The token is checked server-side by a pluggable verifier:
+ *
+ * - RECAPTCHA_SECRET_KEY set: Google's siteverify API, requiring the
+ *   expected action and a score of at least RECAPTCHA_MIN_SCORE (0.5)
+ * - CAPTCHA_PROVIDER=fake: local development and tests; accepts any
+ *   token except those starting with FAKE_CAPTCHA_REJECT_PREFIX
+ * - neither: registration is refused (CAPTCHA_UNAVAILABLE) rather than
+ *   left unprotected; set CAPTCHA_PROVIDER=fake to run without a key
+ *
+ * Every attempt is recorded in `registration_attempts`, which also backs
+ * the per-IP and per-email rate limits. Admins review rejected attempts
+ * on the Error Logs page.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type CaptchaVerifierName = "recaptcha" | "fake";
+
+export interface CaptchaResult {
+  success: boolean;
+  /** reCAPTCHA v3 score, 0 (bot) to 1 (human) */
+  score?: number;
+  reason?: string;
+}
+
+export interface CaptchaVerifier {
+  name: CaptchaVerifierName;
+  verify(token: string, expectedAction: string, remoteIp: string | null): Promise<CaptchaResult>;
+}
+
+export const DEFAULT_RECAPTCHA_MIN_SCORE = 0.5;
+
+export const createRecaptchaVerifier = (secret: string, minScore = DEFAULT_RECAPTCHA_MIN_SCORE): CaptchaVerifier => ({
+  name: "recaptcha",
+
+  async verify(token, expectedAction, remoteIp) {
+    const body = new URLSearchParams({ secret, response: token });
+    if (remoteIp) body.set("remoteip", remoteIp);
+
+    try {
+      const response = await fetch("https://www.google.com/recaptcha/api/siteverify", {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        return { success: false, reason: `siteverify: ${(result["error-codes"] ?? []).join(", ") || "failed"}` };
+      }
+      if (result.action && result.action !== expectedAction) {
+        return { success: false, score: result.score, reason: `unexpected action "${result.action}"` };
+      }
+      if (typeof result.score === "number" && result.score < minScore) {
+        return { success: false, score: result.score, reason: `score ${result.score} below ${minScore}` };
+      }
+      return { success: true, score: result.score };
+    } catch (error) {
+      return { success: false, reason: `siteverify unreachable: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  },
+});
+
+/** Tokens starting with this are rejected by the fake verifier */
+export const FAKE_CAPTCHA_REJECT_PREFIX = "fail";
+
+export const createFakeCaptchaVerifier = (): CaptchaVerifier => ({
+  name: "fake",
+
+  verify(token) {
+    if (token.startsWith(FAKE_CAPTCHA_REJECT_PREFIX)) {
+      return Promise.resolve({ success: false, score: 0, reason: "fake verifier rejected token" });
+    }
+    return Promise.resolve({ success: true, score: 1 });
+  },
+});
+
+/** Returns the configured verifier, or null if captcha is not set up */
+export const getCaptchaVerifier = (): CaptchaVerifier | null => {
+  if (Deno.env.get("CAPTCHA_PROVIDER") === "fake") return createFakeCaptchaVerifier();
+
+  const secret = Deno.env.get("RECAPTCHA_SECRET_KEY");
+  if (!secret) return null;
+
+  const minScore = Number(Deno.env.get("RECAPTCHA_MIN_SCORE"));
+  return createRecaptchaVerifier(secret, Number.isFinite(minScore) && minScore > 0 ? minScore : DEFAULT_RECAPTCHA_MIN_SCORE);
+};
+
+// ---------------------------------------------------------------------------
+// Rate limits
+// ---------------------------------------------------------------------------
+
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+/** Generous enough for a family or an alumni batch sharing one network */
+export const MAX_ATTEMPTS_PER_IP = 30;
+/** Leaves room to fix validation errors and resubmit */
+export const MAX_ATTEMPTS_PER_EMAIL = 10;
+
+export type RateLimitResult =
+  | { limited: false }
+  | { limited: true; code: "RATE_LIMITED_IP" | "RATE_LIMITED_EMAIL" };
+
+/**
+ * Counts attempts in the last hour. The per-IP limit counts everything,
+ * rejected attempts included. The per-email limit counts accepted attempts
+ * from anywhere but rejected ones only from the caller's own IP, so
+ * submitting junk with someone else's email cannot lock them out.
+ */
+export const checkRateLimit = async (
+  supabase: SupabaseClient,
+  ip: string | null,
+  email: string
+): Promise<RateLimitResult> => {
+  const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+
+  const countSince = async (filters: { ip_address?: string; email?: string; outcome?: "accepted" }) => {
+    const { count, error } = await supabase
+      .from("registration_attempts")
+      .select("id", { count: "exact", head: true })
+      .match(filters)
+      .gte("created_at", since);
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  if (ip && (await countSince({ ip_address: ip })) >= MAX_ATTEMPTS_PER_IP) {
+    return { limited: true, code: "RATE_LIMITED_IP" };
+  }
+  if (
+    (await countSince({ email, outcome: "accepted" })) >= MAX_ATTEMPTS_PER_EMAIL ||
+    (ip && (await countSince({ email, ip_address: ip })) >= MAX_ATTEMPTS_PER_EMAIL)
+  ) {
+    return { limited: true, code: "RATE_LIMITED_EMAIL" };
+  }
+  return { limited: false };
+};
+
+export interface RegistrationAttempt {
+  ip: string | null;
+  email: string;
+  userAgent: string | null;
+  outcome: "accepted" | "rejected";
+  reason?: string;
+  captchaScore?: number;
+  details?: Record<string, unknown>;
+}
+
+/** Best effort: a logging failure never blocks a registration */
+export const recordRegistrationAttempt = async (supabase: SupabaseClient, attempt: RegistrationAttempt) => {
+  const { error } = await supabase.from("registration_attempts").insert({
+    ip_address: attempt.ip,
+    email: attempt.email,
+    user_agent: attempt.userAgent,
+    outcome: attempt.outcome,
+    reason: attempt.reason ?? null,
+    captcha_score: attempt.captchaScore ?? null,
+    details: attempt.details ?? {},
+  });
+  if (error) console.error("Failed to record registration attempt:", error);
+};
+
+/** The caller's IP as reported by the edge proxy */
+export const getClientIp = (req: Request): string | null =>
+  req.headers.get("cf-connecting-ip") ??
+  req.headers.get("x-forwarded-for")?.split(",")[0].trim() ??
+  req.headers.get("x-real-ip") ??
+  null;
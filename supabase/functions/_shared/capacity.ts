@@ -0,0 +1,79 @@
+/**
+ * capacity.ts - Shared On-Campus Capacity Rules
+ *
+ * Every row in `bed_assignments` is one on-campus bed. On-campus
+ * registrations that are pending or approved hold a bed; once they
+ * outnumber the beds, further on-campus registrations join the waitlist
+ * and are promoted in arrival order as beds free up.
+ *
+ * Imported by the registration form (via the `@shared` alias) to show
+ * the waitlist option. Server-side, the waitlist_when_on_campus_full
+ * trigger applies the same rule to each insert, under the lock that
+ * promote_waitlisted_registrations takes, so concurrent registrations
+ * cannot both take the last bed.
+ *
+ * This module must stay free of browser- and Deno-specific APIs so it
+ * can run unchanged in both environments.
+ */
+
+/** Row shape returned by the get_on_campus_capacity RPC */
+export interface OnCampusCapacityRow {
+  total_beds: number;
+  reserved_beds: number;
+  /** Null until hostels are configured */
+  remaining_beds: number | null;
+  waitlist_count: number;
+}
+
+export interface OnCampusCapacity {
+  totalBeds: number;
+  reservedBeds: number;
+  /** Beds still free; null means no limit applies yet */
+  remainingBeds: number | null;
+  waitlistCount: number;
+}
+
+/** Used when capacity cannot be read: no limit is enforced */
+export const UNLIMITED_CAPACITY: OnCampusCapacity = {
+  totalBeds: 0,
+  reservedBeds: 0,
+  remainingBeds: null,
+  waitlistCount: 0,
+};
+
+export const capacityFromRow = (row: OnCampusCapacityRow | null | undefined): OnCampusCapacity => {
+  if (!row) return UNLIMITED_CAPACITY;
+  return {
+    totalBeds: row.total_beds,
+    reservedBeds: row.reserved_beds,
+    remainingBeds: row.remaining_beds,
+    waitlistCount: row.waitlist_count,
+  };
+};
+
+/** True once every bed is spoken for, so new on-campus registrations are waitlisted */
+export const isOnCampusFull = (capacity: OnCampusCapacity): boolean =>
+  capacity.remainingBeds !== null && capacity.remainingBeds <= 0;
+
+/**
+ * Decides which registrants in one submission are waitlisted
+ *
+ * On-campus registrants take the remaining beds in submission order
+ * (primary applicant first); the rest are waitlisted. Registrants
+ * staying outside are never waitlisted.
+ *
+ * @returns One flag per stay type, true if that registrant is waitlisted
+ */
+export const planWaitlist = (stayTypes: string[], capacity: OnCampusCapacity): boolean[] => {
+  if (capacity.remainingBeds === null) return stayTypes.map(() => false);
+
+  let bedsLeft = capacity.remainingBeds;
+  return stayTypes.map((stayType) => {
+    if (stayType !== "on-campus") return false;
+    if (bedsLeft > 0) {
+      bedsLeft--;
+      return false;
+    }
+    return true;
+  });
+};
@@ -0,0 +1,120 @@
+/**
+ * checkInCode.ts - Signed Check-In QR Payloads
+ *
+ * Each approved attendee gets a compact, tamper-evident code that is
+ * rendered as a QR in the approval email and on the registration page,
+ * and scanned at the gate by the /admin/check-in screen.
+ *
+ * Format: RVAM1.<applicationId>.<issuedAt>.<signature>
+ * - issuedAt: issue time in epoch seconds, base 36
+ * - signature: base64url HMAC-SHA256 over everything before it
+ *
+ * Signing and verification need CHECK_IN_SIGNING_SECRET, so they only run
+ * in edge functions (send-registration-email, verify-check-in). The client
+ * only renders the stored `registrations.qr_code_data` string.
+ *
+ * Uses Web Crypto only, so it runs unchanged in Deno and the browser.
+ */
+
+export const CHECK_IN_CODE_PREFIX = "RVAM1";
+
+export interface CheckInCode {
+  applicationId: string;
+  issuedAt: Date;
+}
+
+export type CheckInCodeErrorCode = "MALFORMED_CODE" | "INVALID_SIGNATURE";
+
+export type CheckInCodeResult =
+  | { ok: true; code: CheckInCode }
+  | { ok: false; error: { code: CheckInCodeErrorCode; message: string } };
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string): Uint8Array | null => {
+  try {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+const importKey = (secret: string, usage: "sign" | "verify") =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+
+/**
+ * Splits a scanned code into its parts without checking the signature
+ *
+ * @returns The decoded payload and the signed portion, or null if malformed
+ */
+export const parseCheckInCode = (
+  raw: string
+): { code: CheckInCode; signed: string; signature: string } | null => {
+  const parts = raw.trim().split(".");
+  if (parts.length !== 4 || parts[0] !== CHECK_IN_CODE_PREFIX) return null;
+
+  const [, applicationId, issuedAt, signature] = parts;
+  const issuedAtSeconds = parseInt(issuedAt, 36);
+  if (!applicationId || !signature || !Number.isFinite(issuedAtSeconds)) return null;
+
+  return {
+    code: { applicationId, issuedAt: new Date(issuedAtSeconds * 1000) },
+    signed: parts.slice(0, 3).join("."),
+    signature,
+  };
+};
+
+/**
+ * Creates a signed check-in code for one attendee
+ *
+ * @param applicationId - Attendee's application ID (ALM-XXXXX-XXXX)
+ * @param secret - CHECK_IN_SIGNING_SECRET
+ * @param issuedAt - Issue time; defaults to now
+ */
+export const signCheckInCode = async (
+  applicationId: string,
+  secret: string,
+  issuedAt: Date = new Date()
+): Promise<string> => {
+  const signed = [
+    CHECK_IN_CODE_PREFIX,
+    applicationId,
+    Math.floor(issuedAt.getTime() / 1000).toString(36),
+  ].join(".");
+  const key = await importKey(secret, "sign");
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(signed)));
+  return `${signed}.${toBase64Url(signature)}`;
+};
+
+/**
+ * Verifies a scanned check-in code
+ *
+ * The HMAC comparison is done by crypto.subtle.verify (constant time).
+ * Callers must still check the code against the stored qr_code_data so
+ * that re-issued codes invalidate older ones.
+ */
+export const verifyCheckInCode = async (raw: string, secret: string): Promise<CheckInCodeResult> => {
+  const parsed = parseCheckInCode(raw);
+  const signature = parsed ? fromBase64Url(parsed.signature) : null;
+  if (!parsed || !signature) {
+    return { ok: false, error: { code: "MALFORMED_CODE", message: "This is not a valid check-in code." } };
+  }
+
+  const key = await importKey(secret, "verify");
+  const valid = await crypto.subtle.verify("HMAC", key, signature, encoder.encode(parsed.signed));
+  if (!valid) {
+    return { ok: false, error: { code: "INVALID_SIGNATURE", message: "Check-in code signature is invalid." } };
+  }
+
+  return { ok: true, code: parsed.code };
+};
@@ -0,0 +1,344 @@
+/**
+ * emailOutbox.ts - Transactional Email Outbox
+ *
+ * Every outgoing email is written to `email_outbox` before it is handed to
+ * the provider, so failures are visible on the admin Email Log screen and
+ * can be retried instead of only appearing in function logs.
+ *
+ * Flow:
+ * 1. sendEmail() inserts a 'pending' row and attempts delivery immediately
+ * 2. A retryable failure moves the row to 'retrying' with a backoff delay;
+ *    process-email-outbox picks it up once next_attempt_at has passed
+ * 3. After max_attempts (or a permanent error) the row is 'failed' and an
+ *    admin can resend it from the Email Log
+ *
+ * Providers sit behind EmailProvider. Set EMAIL_PROVIDER=stub to log
+ * messages instead of sending them (local development and tests).
+ *
+ * Sensitive messages (OTP codes) are sent once and their payload is
+ * cleared after the attempt, so the log keeps only the recipient and status.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type EmailTemplateKey,
+  type TemplateVariables,
+} from "./emailTemplates.ts";
+
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content */
+  content: string;
+  /** Set to reference the attachment inline as cid:<content_id> */
+  content_id?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  bcc?: string[];
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export type EmailSendResult =
+  | { ok: true; messageId: string | null }
+  | { ok: false; error: string; retryable: boolean };
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/** Every category has a template of the same key in emailTemplates.ts */
+export type EmailCategory = EmailTemplateKey;
+
+export type OutboxStatus = "pending" | "sending" | "sent" | "retrying" | "failed";
+
+export interface OutboxRow {
+  id: string;
+  payload: EmailMessage | null;
+  attempts: number;
+  max_attempts: number;
+  sensitive: boolean;
+}
+
+export interface OutboxResult {
+  /** Outbox row ID; null if the row could not be written */
+  id: string | null;
+  status: OutboxStatus;
+  messageId: string | null;
+  error: string | null;
+}
+
+export interface SendEmailOptions {
+  category: EmailCategory;
+  registrationId?: string | null;
+  /** Defaults to DEFAULT_MAX_ATTEMPTS; sensitive messages always get one */
+  maxAttempts?: number;
+  sensitive?: boolean;
+  /** Overrides getEmailProvider(), e.g. with a stub in tests */
+  provider?: EmailProvider | null;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** Rows left in 'sending' longer than this are assumed abandoned */
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/** Delay before retry N (1-based), in minutes */
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+
+export const retryDelayMs = (attempt: number): number =>
+  RETRY_DELAYS_MINUTES[Math.min(attempt, RETRY_DELAYS_MINUTES.length) - 1] * 60 * 1000;
+
+/** Default sender for registration-related mail */
+export const defaultFromAddress = (): string =>
+  `Rishi Valley Alumni Meet <${Deno.env.get("RESEND_FROM") ?? "onboarding@resend.dev"}>`;
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the admin-edited template for a key, or the built-in default
+ * if none has been saved (or it cannot be read)
+ */
+export const loadEmailTemplate = async (
+  supabase: SupabaseClient,
+  key: EmailTemplateKey
+): Promise<EmailTemplate> => {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("subject, body_html")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load email template ${key}, using default:`, error);
+  }
+
+  return data ?? EMAIL_TEMPLATE_DEFINITIONS[key].defaults;
+};
+
+/**
+ * Loads and renders the template for a key
+ */
+export const renderStoredEmailTemplate = async (
+  supabase: SupabaseClient,
+  key: EmailTemplateKey,
+  variables: TemplateVariables
+): Promise<{ subject: string; html: string }> =>
+  renderEmailTemplate(await loadEmailTemplate(supabase, key), variables);
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+export const createResendProvider = (apiKey: string): EmailProvider => ({
+  name: "resend",
+  async send(message) {
+    try {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify(message),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        // 4xx (other than rate limiting) means the message itself was rejected
+        const retryable = response.status === 429 || response.status >= 500;
+        return { ok: false, error: `Resend ${response.status}: ${errorText}`, retryable };
+      }
+
+      const result = await response.json();
+      return { ok: true, messageId: result?.id ?? null };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+    }
+  },
+});
+
+/** Logs messages instead of sending them; every send succeeds */
+export const createStubProvider = (): EmailProvider => ({
+  name: "stub",
+  send(message) {
+    console.log(`[email-stub] to=${message.to.join(", ")} subject="${message.subject}"`);
+    return Promise.resolve({ ok: true, messageId: `stub-${crypto.randomUUID()}` });
+  },
+});
+
+/** Returns the configured provider, or null if none is configured */
+export const getEmailProvider = (): EmailProvider | null => {
+  if (Deno.env.get("EMAIL_PROVIDER") === "stub") return createStubProvider();
+
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  return apiKey ? createResendProvider(apiKey) : null;
+};
+
+// ---------------------------------------------------------------------------
+// Outbox
+// ---------------------------------------------------------------------------
+
+/**
+ * Delivers one outbox row and records the outcome
+ *
+ * The row is claimed by moving it to 'sending' first, so a concurrent
+ * process-email-outbox run cannot send the same message twice.
+ */
+export const deliverOutboxEmail = async (
+  supabase: SupabaseClient,
+  row: OutboxRow,
+  provider: EmailProvider | null = getEmailProvider()
+): Promise<OutboxResult> => {
+  const attempts = row.attempts + 1;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("email_outbox")
+    .update({ status: "sending", attempts })
+    .eq("id", row.id)
+    .in("status", ["pending", "retrying"])
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) {
+    return { id: row.id, status: "sending", messageId: null, error: "Already being delivered" };
+  }
+
+  const result: EmailSendResult = !row.payload
+    ? { ok: false, error: "Message content is no longer available", retryable: false }
+    : provider
+      ? await provider.send(row.payload)
+      : { ok: false, error: "No email provider configured", retryable: true };
+
+  const exhausted = attempts >= row.max_attempts;
+  const status: OutboxStatus = result.ok ? "sent" : result.retryable && !exhausted ? "retrying" : "failed";
+  const now = new Date();
+
+  const { error: updateError } = await supabase
+    .from("email_outbox")
+    .update({
+      status,
+      provider: provider?.name ?? null,
+      provider_message_id: result.ok ? result.messageId : null,
+      last_error: result.ok ? null : result.error,
+      sent_at: result.ok ? now.toISOString() : null,
+      next_attempt_at: status === "retrying" ? new Date(now.getTime() + retryDelayMs(attempts)).toISOString() : null,
+      // Sensitive content is kept only as long as it can still be sent
+      ...(row.sensitive && status !== "retrying" ? { payload: null } : {}),
+    })
+    .eq("id", row.id);
+
+  if (updateError) {
+    console.error(`Failed to record outbox result for ${row.id}:`, updateError);
+  }
+
+  if (!result.ok) {
+    console.error(`Email ${row.id} ${status} (attempt ${attempts}/${row.max_attempts}):`, result.error);
+  }
+
+  return {
+    id: row.id,
+    status,
+    messageId: result.ok ? result.messageId : null,
+    error: result.ok ? null : result.error,
+  };
+};
+
+/**
+ * Records an email in the outbox and attempts delivery straight away
+ *
+ * Never throws: callers treat email as best-effort and check `status`.
+ * If the outbox row cannot be written the message is still sent directly.
+ */
+export const sendEmail = async (
+  supabase: SupabaseClient,
+  message: EmailMessage,
+  options: SendEmailOptions
+): Promise<OutboxResult> => {
+  const provider = options.provider === undefined ? getEmailProvider() : options.provider;
+  const maxAttempts = options.sensitive ? 1 : options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  const { data: row, error: insertError } = await supabase
+    .from("email_outbox")
+    .insert({
+      category: options.category,
+      to_email: message.to.join(", "),
+      subject: message.subject,
+      payload: message,
+      registration_id: options.registrationId ?? null,
+      max_attempts: maxAttempts,
+      sensitive: options.sensitive ?? false,
+    })
+    .select("id, payload, attempts, max_attempts, sensitive")
+    .single();
+
+  if (insertError || !row) {
+    console.error(`Email outbox unavailable for ${options.category}, sending directly:`, insertError);
+
+    const result: EmailSendResult = provider
+      ? await provider.send(message)
+      : { ok: false, error: "No email provider configured", retryable: false };
+
+    return {
+      id: null,
+      status: result.ok ? "sent" : "failed",
+      messageId: result.ok ? result.messageId : null,
+      error: result.ok ? null : result.error,
+    };
+  }
+
+  try {
+    return await deliverOutboxEmail(supabase, row as OutboxRow, provider);
+  } catch (error) {
+    // The row is stored, so process-email-outbox will pick it up
+    console.error(`Email ${row.id} left pending:`, error);
+    return { id: row.id, status: "pending", messageId: null, error: String(error) };
+  }
+};
+
+/**
+ * Delivers every message whose retry time has come
+ *
+ * @returns Number of rows processed and how many were sent
+ */
+export const processDueEmails = async (
+  supabase: SupabaseClient,
+  limit = 25
+): Promise<{ processed: number; sent: number }> => {
+  // A function that died mid-send leaves its row in 'sending'; hand it back for retry
+  const staleBefore = new Date(Date.now() - STALE_SENDING_MS).toISOString();
+  await supabase
+    .from("email_outbox")
+    .update({ status: "retrying", next_attempt_at: new Date().toISOString() })
+    .eq("status", "sending")
+    .lt("updated_at", staleBefore);
+
+  const { data: due, error } = await supabase
+    .from("email_outbox")
+    .select("id, payload, attempts, max_attempts, sensitive")
+    .in("status", ["pending", "retrying"])
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const provider = getEmailProvider();
+  let sent = 0;
+  for (const row of (due ?? []) as OutboxRow[]) {
+    const result = await deliverOutboxEmail(supabase, row, provider);
+    if (result.status === "sent") sent++;
+  }
+
+  return { processed: due?.length ?? 0, sent };
+};
@@ -0,0 +1,566 @@
+/**
+ * emailTemplates.ts - Shared Email Template Rendering
+ *
+ * Every transactional email is rendered from a subject/body template with
+ * `{{placeholder}}` variables. Imported by the edge functions (through
+ * emailOutbox.ts, which loads any admin override from `email_templates`)
+ * and by the admin Email Templates settings (via the `@shared` alias) for
+ * editing and preview.
+ *
+ * - Defaults live here; a row in `email_templates` overrides the subject
+ *   and body for its key. Deleting the row restores the default.
+ * - Placeholder values are HTML-escaped, except blocks built by the
+ *   helpers below (registrationsTable, checkInQr, ...), which are marked
+ *   with rawHtml() and carry the shared styling.
+ * - Rendered bodies are wrapped in one common layout.
+ *
+ * This module must stay free of browser- and Deno-specific APIs so it
+ * can run unchanged in both environments.
+ */
+
+export const EMAIL_TEMPLATE_KEYS = [
+  "registration_confirmation",
+  "attendee_confirmation",
+  "registration_approved",
+  "registration_rejected",
+  "payment_reminder",
+  "auto_rejection",
+  "registration_expired",
+  "invite_link",
+  "otp",
+  "waitlist_promotion",
+] as const;
+
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+export interface EmailTemplate {
+  subject: string;
+  body_html: string;
+}
+
+/** Pre-built HTML inserted without escaping */
+export interface RawHtml {
+  __html: string;
+}
+
+export type TemplateValue = string | number | RawHtml | null | undefined;
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface TemplatePlaceholder {
+  name: string;
+  description: string;
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  placeholders: TemplatePlaceholder[];
+  defaults: EmailTemplate;
+  /** Values used for the admin preview */
+  sample: TemplateVariables;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9]*)\s*\}\}/g;
+
+export const rawHtml = (html: string): RawHtml => ({ __html: html });
+
+const isRawHtml = (value: TemplateValue): value is RawHtml =>
+  typeof value === "object" && value !== null && "__html" in value;
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatInr = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+
+/**
+ * Replaces `{{name}}` placeholders with their values
+ *
+ * Unknown placeholders are left in place so they show up in the preview.
+ *
+ * @param options.escape - HTML-escape plain values (bodies); subjects are plain text
+ */
+export const fillPlaceholders = (
+  template: string,
+  variables: TemplateVariables,
+  options: { escape: boolean }
+): string =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (!(name in variables)) return match;
+
+    const value = variables[name];
+    if (value === null || value === undefined) return "";
+    if (isRawHtml(value)) return options.escape ? value.__html : value.__html.replace(/<[^>]*>/g, "");
+    return options.escape ? escapeHtml(String(value)) : String(value);
+  });
+
+/**
+ * Lists placeholders used in a template that the template's key does not provide
+ */
+export const findUnknownPlaceholders = (key: EmailTemplateKey, template: EmailTemplate): string[] => {
+  const known = new Set(EMAIL_TEMPLATE_DEFINITIONS[key].placeholders.map((p) => p.name));
+  const used = [...`${template.subject}\n${template.body_html}`.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]);
+  return [...new Set(used)].filter((name) => !known.has(name));
+};
+
+/** Common wrapper for every email body */
+export const wrapEmailLayout = (bodyHtml: string): string => `
+  <div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+    ${bodyHtml}
+  </div>
+`;
+
+/**
+ * Renders a template into the subject and HTML sent to the provider
+ */
+export const renderEmailTemplate = (
+  template: EmailTemplate,
+  variables: TemplateVariables
+): { subject: string; html: string } => ({
+  subject: fillPlaceholders(template.subject, variables, { escape: false }).replace(/\s+/g, " ").trim(),
+  html: wrapEmailLayout(fillPlaceholders(template.body_html, variables, { escape: true })),
+});
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+export interface RegistrationSummaryRow {
+  applicationId: string;
+  name: string;
+  stayType: string;
+  registrationFee: number;
+  /** On the on-campus waitlist rather than holding a bed */
+  waitlisted?: boolean;
+}
+
+export const stayTypeLabel = (stayType: string, waitlisted = false) =>
+  stayType === "on-campus" ? (waitlisted ? "On Campus (Waitlisted)" : "On Campus") : "Staying Outside";
+
+/** Table of every registration in a group, primary applicant first */
+export const buildRegistrationsTable = (rows: RegistrationSummaryRow[], totalFee: number): RawHtml =>
+  rawHtml(`
+    <div style="background: #f5f5dc; padding: 20px; border-radius: 8px; margin: 20px 0; overflow-x: auto;">
+      <table style="width: 100%; border-collapse: collapse; min-width: 500px;">
+        <thead>
+          <tr style="background: #e8e4d8; border-bottom: 2px solid #b8860b;">
+            <th style="padding: 12px; text-align: left; color: #5c4a3d;">Application ID</th>
+            <th style="padding: 12px; text-align: left; color: #5c4a3d;">Name</th>
+            <th style="padding: 12px; text-align: left; color: #5c4a3d;">Stay Type</th>
+            <th style="padding: 12px; text-align: right; color: #5c4a3d;">Fee</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows.map((reg, index) => `
+          <tr style="border-bottom: 1px solid #e0e0e0;">
+            <td style="padding: 12px; font-family: monospace; font-weight: bold; color: #5c4a3d;">${escapeHtml(reg.applicationId)}</td>
+            <td style="padding: 12px;">${escapeHtml(reg.name)}${index === 0 ? ' <span style="color: #b8860b; font-size: 12px;">(Primary)</span>' : ""}</td>
+            <td style="padding: 12px;">${stayTypeLabel(reg.stayType, reg.waitlisted)}</td>
+            <td style="padding: 12px; text-align: right;">${formatInr(reg.registrationFee)}</td>
+          </tr>`).join("")}
+        </tbody>
+        <tfoot>
+          <tr style="background: #e8e4d8; font-weight: bold;">
+            <td colspan="3" style="padding: 12px; text-align: right; color: #5c4a3d;">Total Amount Paid:</td>
+            <td style="padding: 12px; text-align: right; color: #5c4a3d; font-size: 18px;">${formatInr(totalFee)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  `);
+
+/** Note that receipts are attached; empty when there are none */
+export const buildReceiptNotice = (receiptCount: number): RawHtml =>
+  rawHtml(receiptCount === 0 ? "" : `
+    <div style="background: #fff3e0; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f57c00;">
+      <p style="margin: 0; font-size: 14px; color: #666;">📄 Payment Receipt${receiptCount > 1 ? "s" : ""}:</p>
+      <p style="margin: 10px 0 0; color: #333;">
+        ${receiptCount > 1
+          ? `${receiptCount} payment receipts are attached to this email.`
+          : "Your payment receipt is attached to this email."}
+      </p>
+    </div>
+  `);
+
+/** Inline check-in QR image (attachment content_id "check-in-qr"); empty when there is no code */
+export const buildCheckInQrBlock = (applicationId: string, hasQrCode: boolean): RawHtml =>
+  rawHtml(!hasQrCode ? "" : `
+    <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+      <p style="margin: 0 0 10px; font-size: 14px; color: #666;">Your Check-In QR Code:</p>
+      <img src="cid:check-in-qr" alt="Check-in QR code for ${escapeHtml(applicationId)}" width="200" height="200" style="display: block; margin: 0 auto;" />
+      <p style="margin: 10px 0 0; font-size: 13px; color: #333;">Please show this code at the registration desk when you arrive.</p>
+    </div>
+  `);
+
+/** Rejection reason; empty when none was given */
+export const buildRejectionReasonBlock = (reason: string | null | undefined): RawHtml =>
+  rawHtml(!reason ? "" : `
+    <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Reason:</p>
+    <p style="margin: 5px 0 0; color: #333;">${escapeHtml(reason)}</p>
+  `);
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+const SIGNATURE = `<p style="margin-top: 30px;">
+  Best regards,<br>
+  <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
+</p>`;
+
+const heading = (color: string, text: string) =>
+  `<h1 style="color: ${color}; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">${text}</h1>`;
+
+const SAMPLE_REGISTRATIONS: RegistrationSummaryRow[] = [
+  { applicationId: "RV-2026-0142", name: "Anita Rao", stayType: "on-campus", registrationFee: 15000 },
+  { applicationId: "RV-2026-0143", name: "Vikram Rao", stayType: "outside", registrationFee: 7500 },
+];
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  registration_confirmation: {
+    key: "registration_confirmation",
+    name: "Registration Received",
+    description: "Sent to the primary registrant after submitting the registration form.",
+    placeholders: [
+      { name: "name", description: "Primary registrant's name" },
+      { name: "applicationId", description: "Primary application ID" },
+      { name: "registrationSummary", description: "\"Application ID: …\" or \"N Registrations (Primary: …)\"" },
+      { name: "registrationCount", description: "Number of people registered" },
+      { name: "groupNote", description: "\"You have registered N people…\" for groups (empty for one person)" },
+      { name: "registrationsTable", description: "Table of every registration and the total fee" },
+      { name: "totalFee", description: "Total amount, e.g. ₹22,500" },
+    ],
+    defaults: {
+      subject: "Registration Received - {{registrationSummary}}",
+      body_html: `${heading("#5c4a3d", "Registration Received")}
+<p>Dear {{name}},</p>
+<p>Thank you for registering for the Rishi Valley Alumni Meet! Your registration has been received along with your payment proof.</p>
+<p>{{groupNote}}</p>
+{{registrationsTable}}
+<div style="background: #d4edda; border: 1px solid #c3e6cb; border-radius: 8px; padding: 15px; margin: 20px 0;">
+  <p style="margin: 0; color: #155724;"><strong>✅ Payment Proof Submitted</strong></p>
+  <p style="margin: 10px 0 0; color: #155724; font-size: 14px;">
+    Your payment proof has been received. The organizing committee will verify and confirm your registration via email.
+  </p>
+</div>
+<div style="background: #fff3cd; border: 1px solid #ffc107; border-radius: 8px; padding: 15px; margin: 20px 0;">
+  <p style="margin: 0; color: #856404;"><strong>⚠️ Important:</strong> Please save your Primary Application ID (<strong>{{applicationId}}</strong>) for future reference.</p>
+</div>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+      registrationSummary: "2 Registrations (Primary: RV-2026-0142)",
+      registrationCount: 2,
+      groupNote: "You have registered 2 people for the event. Here are the details:",
+      registrationsTable: buildRegistrationsTable(SAMPLE_REGISTRATIONS, 22500),
+      totalFee: formatInr(22500),
+    },
+  },
+  attendee_confirmation: {
+    key: "attendee_confirmation",
+    name: "Attendee Registration Received",
+    description: "Sent to an additional attendee who gave their own email address.",
+    placeholders: [
+      { name: "name", description: "Attendee's name" },
+      { name: "applicationId", description: "Attendee's application ID" },
+      { name: "primaryName", description: "Name of the person who registered them" },
+      { name: "primaryApplicationId", description: "Primary application ID of the group" },
+      { name: "stayType", description: "On Campus / Staying Outside" },
+      { name: "registrationFee", description: "Attendee's fee, e.g. ₹7,500" },
+    ],
+    defaults: {
+      subject: "Registration Received - Application ID: {{applicationId}}",
+      body_html: `${heading("#5c4a3d", "Registration Received")}
+<p>Dear {{name}},</p>
+<p>You have been registered for the Rishi Valley Alumni Meet by {{primaryName}}. Your registration has been received along with payment proof.</p>
+<div style="background: #f5f5dc; padding: 20px; border-radius: 8px; margin: 20px 0;">
+  <h3 style="color: #5c4a3d; margin-top: 0;">Your Registration Details</h3>
+  <table style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 8px 0; font-weight: bold; color: #5c4a3d;">Application ID:</td>
+      <td style="padding: 8px 0; font-family: monospace; font-weight: bold;">{{applicationId}}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; font-weight: bold; color: #5c4a3d;">Stay Type:</td>
+      <td style="padding: 8px 0;">{{stayType}}</td>
+    </tr>
+    <tr>
+      <td style="padding: 8px 0; font-weight: bold; color: #5c4a3d;">Registration Fee:</td>
+      <td style="padding: 8px 0;">{{registrationFee}}</td>
+    </tr>
+  </table>
+</div>
+<div style="background: #d4edda; border: 1px solid #c3e6cb; border-radius: 8px; padding: 15px; margin: 20px 0;">
+  <p style="margin: 0; color: #155724;"><strong>✅ Payment Proof Submitted</strong></p>
+  <p style="margin: 10px 0 0; color: #155724; font-size: 14px;">
+    Your payment proof has been received. The organizing committee will verify and confirm your registration via email.
+  </p>
+</div>
+<div style="background: #fff3cd; border: 1px solid #ffc107; border-radius: 8px; padding: 15px; margin: 20px 0;">
+  <p style="margin: 0; color: #856404;"><strong>ℹ️ Note:</strong> Your registration is part of a group registration managed by {{primaryName}}.</p>
+  <p style="margin: 10px 0 0; color: #856404;">Primary Application ID: <strong>{{primaryApplicationId}}</strong></p>
+</div>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Vikram Rao",
+      applicationId: "RV-2026-0143",
+      primaryName: "Anita Rao",
+      primaryApplicationId: "RV-2026-0142",
+      stayType: stayTypeLabel("outside"),
+      registrationFee: formatInr(7500),
+    },
+  },
+  registration_approved: {
+    key: "registration_approved",
+    name: "Registration Approved",
+    description: "Sent when an admin approves a registration. Includes receipts and the check-in QR code.",
+    placeholders: [
+      { name: "name", description: "Registrant's name" },
+      { name: "applicationId", description: "Application ID" },
+      { name: "receiptNotice", description: "Note about attached payment receipts (empty if none)" },
+      { name: "checkInQr", description: "Check-in QR code image (empty if not generated)" },
+    ],
+    defaults: {
+      subject: "Registration Approved - Application ID: {{applicationId}}",
+      body_html: `${heading("#2e7d32", "🎉 Registration Approved!")}
+<p>Dear {{name}},</p>
+<p>We are pleased to inform you that your registration for the <strong>Rishi Valley Alumni Meet</strong> has been approved!</p>
+<div style="background: #e8f5e9; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2e7d32;">
+  <p style="margin: 0; font-size: 14px; color: #666;">Your Application ID:</p>
+  <p style="margin: 10px 0 0; font-size: 24px; font-weight: bold; color: #2e7d32; font-family: monospace;">{{applicationId}}</p>
+</div>
+{{receiptNotice}}
+{{checkInQr}}
+<p>We look forward to seeing you at the event!</p>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+      receiptNotice: buildReceiptNotice(1),
+      checkInQr: buildCheckInQrBlock("RV-2026-0142", true),
+    },
+  },
+  registration_rejected: {
+    key: "registration_rejected",
+    name: "Registration Rejected",
+    description: "Sent when an admin rejects a registration.",
+    placeholders: [
+      { name: "name", description: "Registrant's name" },
+      { name: "applicationId", description: "Application ID" },
+      { name: "rejectionReason", description: "Reason given by the admin (empty if none)" },
+    ],
+    defaults: {
+      subject: "Registration Update - Application ID: {{applicationId}}",
+      body_html: `${heading("#c62828", "Registration Update")}
+<p>Dear {{name}},</p>
+<p>We regret to inform you that your registration for the <strong>Rishi Valley Alumni Meet</strong> could not be approved at this time.</p>
+<div style="background: #ffebee; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #c62828;">
+  <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
+  <p style="margin: 10px 0 0; font-size: 18px; font-weight: bold; color: #c62828; font-family: monospace;">{{applicationId}}</p>
+  {{rejectionReason}}
+</div>
+<p>If you believe this was in error or have questions, please contact the organizing committee.</p>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+      rejectionReason: buildRejectionReasonBlock("The payment proof could not be matched to a bank transfer."),
+    },
+  },
+  payment_reminder: {
+    key: "payment_reminder",
+    name: "Payment Reminder",
+    description: "Sent daily in the last week of registration to applicants who have not submitted payment.",
+    placeholders: [
+      { name: "name", description: "Registrant's name" },
+      { name: "applicationId", description: "Application ID" },
+      { name: "urgencyText", description: "Heading that gets more urgent near the deadline" },
+      { name: "urgencyColor", description: "Colour for the days remaining (red in the last two days)" },
+      { name: "daysRemaining", description: "e.g. \"3 days\"" },
+      { name: "deadline", description: "Payment deadline: the period's closing date and time (IST)" },
+    ],
+    defaults: {
+      subject: "{{urgencyText}} - Payment Pending for Application {{applicationId}}",
+      body_html: `<h1 style="color: #f57c00; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">{{urgencyText}}</h1>
+<p>Dear {{name}},</p>
+<p>This is a reminder that your payment proof for the <strong>Rishi Valley Alumni Meet</strong> registration is still pending.</p>
+<div style="background: #fff3e0; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f57c00;">
+  <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
+  <p style="margin: 10px 0 0; font-size: 20px; font-weight: bold; color: #f57c00; font-family: monospace;">{{applicationId}}</p>
+  <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Days Remaining:</p>
+  <p style="margin: 5px 0 0; font-size: 28px; font-weight: bold; color: {{urgencyColor}};">{{daysRemaining}}</p>
+  <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Payment Deadline:</p>
+  <p style="margin: 5px 0 0; font-weight: bold; color: #333;">{{deadline}}</p>
+</div>
+<p style="color: #c62828; font-weight: bold;">
+  ⚠️ Please submit your payment proof before the deadline to complete your registration.
+  Failure to submit payment details by the deadline will result in automatic rejection of your application.
+</p>
+<p>Please visit the application lookup page on our website and submit your payment proof at the earliest.</p>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+      urgencyText: "⚡ Time is running out!",
+      urgencyColor: "#f57c00",
+      daysRemaining: "3 days",
+      deadline: "31 October 2026 at 11:59 pm IST",
+    },
+  },
+  auto_rejection: {
+    key: "auto_rejection",
+    name: "Automatic Rejection",
+    description: "Sent when a registration is rejected because payment was not submitted by the deadline.",
+    placeholders: [
+      { name: "name", description: "Registrant's name" },
+      { name: "applicationId", description: "Application ID" },
+    ],
+    defaults: {
+      subject: "Registration Rejected - Application {{applicationId}}",
+      body_html: `${heading("#c62828", "Registration Rejected")}
+<p>Dear {{name}},</p>
+<p>We regret to inform you that your registration for the <strong>Rishi Valley Alumni Meet</strong> has been rejected.</p>
+<div style="background: #ffebee; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #c62828;">
+  <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
+  <p style="margin: 10px 0 0; font-size: 20px; font-weight: bold; color: #c62828; font-family: monospace;">{{applicationId}}</p>
+  <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Reason for Rejection:</p>
+  <p style="margin: 5px 0 0; color: #333; font-weight: bold;">Payment details were not submitted within the registration period deadline.</p>
+</div>
+<p>We understand this may be disappointing. If you believe this was in error or have any questions, please contact the organizing committee.</p>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+    },
+  },
+  registration_expired: {
+    key: "registration_expired",
+    name: "Registration Expired",
+    description: "Sent when an unpaid registration expires at the end of its period's payment grace period.",
+    placeholders: [
+      { name: "name", description: "Registrant's name" },
+      { name: "applicationId", description: "Application ID(s)" },
+    ],
+    defaults: {
+      subject: "Registration Expired - Application {{applicationId}}",
+      body_html: `${heading("#c62828", "Registration Expired")}
+<p>Dear {{name}},</p>
+<p>Your registration for the <strong>Rishi Valley Alumni Meet</strong> has expired because no payment was received within the payment grace period.</p>
+<div style="background: #ffebee; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #c62828;">
+  <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
+  <p style="margin: 10px 0 0; font-size: 20px; font-weight: bold; color: #c62828; font-family: monospace;">{{applicationId}}</p>
+</div>
+<p>Any on-campus accommodation held for you has been released. If you have already paid or would still like to attend, please contact the organizing committee, who can re-enable your registration.</p>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+    },
+  },
+  invite_link: {
+    key: "invite_link",
+    name: "Private Registration Invite",
+    description: "Sent from Settings → Private Registration Invites.",
+    placeholders: [
+      { name: "registrationLink", description: "Single-use registration URL" },
+      { name: "expiresAt", description: "When the link expires (IST)" },
+    ],
+    defaults: {
+      subject: "You're Invited to Register – Rishi Valley Alumni Meet 2026",
+      body_html: `<h1 style="color: #1a1a1a; font-size: 24px;">Rishi Valley Alumni Meet 2026</h1>
+<p style="color: #444; font-size: 16px; line-height: 1.6;">Dear Alumni,</p>
+<p style="color: #444; font-size: 16px; line-height: 1.6;">
+  You have been invited to register for the Rishi Valley Alumni Meet 2026.
+  Please use the link below to complete your registration.
+</p>
+<div style="text-align: center; margin: 30px 0;">
+  <a href="{{registrationLink}}" style="background-color: #1a1a1a; color: #ffffff; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-size: 16px; display: inline-block;">
+    Complete Registration
+  </a>
+</div>
+<p style="color: #888; font-size: 14px; line-height: 1.6;">
+  ⏰ <strong>This link expires on {{expiresAt}} IST.</strong>
+  Please complete your registration before the link expires.
+</p>
+<p style="color: #888; font-size: 14px; line-height: 1.6;">
+  If the button doesn't work, copy and paste this URL into your browser:<br/>
+  <a href="{{registrationLink}}" style="color: #666;">{{registrationLink}}</a>
+</p>
+<hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
+<p style="color: #aaa; font-size: 12px;">Rishi Valley Alumni Meet 2026 · This is an automated invitation.</p>`,
+    },
+    sample: {
+      registrationLink: "https://alumnimeetrishivalley.org/invite/sample-token",
+      expiresAt: "20 October 2026 at 6:00 pm",
+    },
+  },
+  otp: {
+    key: "otp",
+    name: "Email Verification Code",
+    description: "One-time code sent when a registrant verifies their email address.",
+    placeholders: [
+      { name: "otp", description: "Six-digit verification code" },
+      { name: "expiryMinutes", description: "Minutes until the code expires" },
+    ],
+    defaults: {
+      subject: "Your Email Verification Code - Rishi Valley Alumni Meet",
+      body_html: `<div style="max-width: 500px; margin: 0 auto; padding: 30px; background: #faf8f5; border-radius: 12px;">
+  <h2 style="color: #5c4a3d; text-align: center; margin-bottom: 20px;">Email Verification</h2>
+  <p style="color: #333; text-align: center;">Your verification code for the Alumni Meet registration is:</p>
+  <div style="background: #fff; border: 2px solid #b8860b; border-radius: 10px; padding: 20px; margin: 20px 0; text-align: center;">
+    <span style="font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #5c4a3d; font-family: monospace;">{{otp}}</span>
+  </div>
+  <p style="color: #666; text-align: center; font-size: 14px;">This code expires in <strong>{{expiryMinutes}} minutes</strong>.</p>
+  <p style="color: #999; text-align: center; font-size: 12px; margin-top: 20px;">If you did not request this code, please ignore this email.</p>
+</div>`,
+    },
+    sample: {
+      otp: "482913",
+      expiryMinutes: 5,
+    },
+  },
+  waitlist_promotion: {
+    key: "waitlist_promotion",
+    name: "Waitlist Promotion",
+    description: "Sent when an admin promotes a registration from the on-campus waitlist into a free bed.",
+    placeholders: [
+      { name: "name", description: "Registrant's name" },
+      { name: "applicationId", description: "Application ID" },
+    ],
+    defaults: {
+      subject: "On-Campus Stay Confirmed - Application {{applicationId}}",
+      body_html: `${heading("#2e7d32", "🛏️ A Bed Is Now Available")}
+<p>Dear {{name}},</p>
+<p>Good news! A bed has opened up and you have been moved off the on-campus waitlist for the <strong>Rishi Valley Alumni Meet</strong>.</p>
+<div style="background: #e8f5e9; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2e7d32;">
+  <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
+  <p style="margin: 10px 0 0; font-size: 20px; font-weight: bold; color: #2e7d32; font-family: monospace;">{{applicationId}}</p>
+  <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Stay Type:</p>
+  <p style="margin: 5px 0 0; font-weight: bold; color: #333;">On Campus</p>
+</div>
+<p>Your room details will be shared closer to the event.</p>
+${SIGNATURE}`,
+    },
+    sample: {
+      name: "Anita Rao",
+      applicationId: "RV-2026-0142",
+    },
+  },
+};
+
+export const isEmailTemplateKey = (value: string): value is EmailTemplateKey =>
+  (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(value);
@@ -0,0 +1,125 @@
+/**
+ * paymentLedger.ts - Shared Payment Ledger Rules
+ *
+ * `payment_transactions` records every payment, refund and adjustment for
+ * a registration group (keyed by the primary application ID). Amounts are
+ * credits to the group: payments are positive, refunds negative, and
+ * adjustments either way. What a group owes is derived, never stored:
+ *
+ *   balance = fees of active registrations - sum of ledger amounts
+ *
+ * A positive balance is still due (e.g. a top-up after switching to
+ * on-campus); a negative one is owed back to the group (e.g. after a
+ * cancellation, until the refund is recorded).
+ *
+ * Imported by the accounts review page (via the `@shared` alias), the
+ * `registrant-portal` edge function and `payment-gateway`.
+ *
+ * This module must stay free of browser- and Deno-specific APIs so it
+ * can run unchanged in both environments.
+ */
+
+export type LedgerEntryKind = "payment" | "refund" | "adjustment";
+
+export type LedgerMethod = "bank_transfer" | "online" | "cash" | "other";
+
+/** Registrations in these states no longer owe their fee */
+export const NON_BILLABLE_STATUSES = ["rejected", "expired", "cancelled"];
+
+/** The fields of a registration the ledger needs */
+export interface LedgerMember {
+  id: string;
+  registration_fee: number;
+  registration_status: string;
+}
+
+/** The fields of a `payment_transactions` row the ledger needs */
+export interface LedgerTransaction {
+  registration_id: string | null;
+  kind: string;
+  amount: number;
+  transaction_date: string;
+  created_at: string;
+}
+
+export interface LedgerBalance {
+  /** Fees of the group's active registrations */
+  amountDue: number;
+  /** Net of every ledger entry */
+  amountPaid: number;
+  /** amountDue - amountPaid; negative when the group is owed a refund */
+  balance: number;
+}
+
+export const isBillable = (member: Pick<LedgerMember, "registration_status">): boolean =>
+  !NON_BILLABLE_STATUSES.includes(member.registration_status);
+
+export const amountDue = (members: LedgerMember[]): number =>
+  members.filter(isBillable).reduce((sum, member) => sum + member.registration_fee, 0);
+
+export const summarizeLedger = (members: LedgerMember[], transactions: LedgerTransaction[]): LedgerBalance => {
+  const due = amountDue(members);
+  const paid = transactions.reduce((sum, entry) => sum + entry.amount, 0);
+  return { amountDue: due, amountPaid: paid, balance: due - paid };
+};
+
+/** Oldest first, in the order entries were recorded within a day */
+export const sortLedger = <T extends LedgerTransaction>(transactions: T[]): T[] =>
+  [...transactions].sort(
+    (a, b) =>
+      a.transaction_date.localeCompare(b.transaction_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+/**
+ * Ledger entries, oldest first, each with the balance left after it
+ *
+ * The running balance starts from the group's current fees, so the last
+ * row always matches summarizeLedger().
+ */
+export const withRunningBalance = <T extends LedgerTransaction>(
+  members: LedgerMember[],
+  transactions: T[]
+): Array<T & { balance: number }> => {
+  let balance = amountDue(members);
+  return sortLedger(transactions).map((entry) => {
+    balance -= entry.amount;
+    return { ...entry, balance };
+  });
+};
+
+/**
+ * The payment to record when accounts verify one registration's payment
+ *
+ * Covers the part of its fee not already booked against it, but never
+ * more than the group still owes, so a group paid in one go is not
+ * charged twice and a stay-type switch only books the top-up.
+ */
+export const paymentToRecordOnVerification = (
+  member: LedgerMember,
+  members: LedgerMember[],
+  transactions: LedgerTransaction[]
+): number => {
+  if (!isBillable(member)) return 0;
+  const credited = transactions
+    .filter((entry) => entry.registration_id === member.id)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const groupBalance = summarizeLedger(members, transactions).balance;
+  return Math.max(0, Math.min(member.registration_fee - credited, groupBalance));
+};
+
+/**
+ * Suggested refund when one registration in a group is cancelled: whatever
+ * the group has paid beyond the fees that remain due afterwards.
+ */
+export const suggestedCancellationRefund = (
+  members: LedgerMember[],
+  transactions: LedgerTransaction[],
+  cancelledRegistrationId: string
+): number => {
+  const remaining = members.filter((member) => member.id !== cancelledRegistrationId);
+  return Math.max(0, -summarizeLedger(remaining, transactions).balance);
+};
+
+/** The group key used by `payment_transactions.group_application_id` */
+export const ledgerGroupId = (registration: { application_id: string; parent_application_id: string | null }): string =>
+  registration.parent_application_id ?? registration.application_id;
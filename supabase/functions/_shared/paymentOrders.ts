@@ -0,0 +1,117 @@
+/**
+ * paymentOrders.ts - Recording Online Payments
+ *
+ * An online payment is confirmed twice: by the checkout callback that
+ * `payment-gateway` verifies, and by the signed provider webhook that
+ * `payment-webhook` receives. Both record it through markOrderPaid, which
+ * is idempotent so whichever arrives second is a no-op.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ledgerGroupId } from "./paymentLedger.ts";
+
+/**
+ * Marks an order paid, verifies the registrations it covers that are still
+ * awaiting payment and records the payment in the ledger. Registrations that
+ * stopped awaiting payment after the order was created (rejected, expired,
+ * cancelled, deleted or paid another way) are left alone and listed in the
+ * order's refund_application_ids for a manual refund.
+ *
+ * Safe to call more than once for the same payment: the checkout
+ * callback and the webhook usually both arrive.
+ *
+ * @returns The registrations this payment verified, or null for an unknown order
+ */
+export async function markOrderPaid(
+  supabase: SupabaseClient,
+  providerOrderId: string,
+  providerPaymentId: string
+): Promise<string[] | null> {
+  const now = new Date();
+
+  const { data: order, error: orderError } = await supabase
+    .from("payment_orders")
+    .update({
+      status: "paid",
+      provider_payment_id: providerPaymentId,
+      failure_reason: null,
+      paid_at: now.toISOString(),
+    })
+    .eq("provider_order_id", providerOrderId)
+    .neq("status", "paid")
+    .select("id, application_ids, amount")
+    .maybeSingle();
+
+  if (orderError) throw orderError;
+
+  if (!order) {
+    // Already recorded, or an order we never created
+    const { data: existing } = await supabase
+      .from("payment_orders")
+      .select("application_ids, refund_application_ids, status")
+      .eq("provider_order_id", providerOrderId)
+      .maybeSingle();
+    return existing?.status === "paid"
+      ? existing.application_ids.filter((id: string) => !existing.refund_application_ids.includes(id))
+      : null;
+  }
+
+  // A gateway payment is confirmed by the provider, so accounts review is filled in automatically
+  const { data: verified, error: registrationError } = await supabase
+    .from("registrations")
+    .update({
+      payment_status: "verified",
+      payment_reference: providerPaymentId,
+      payment_date: now.toISOString().slice(0, 10),
+      accounts_verified: true,
+      accounts_verified_at: now.toISOString(),
+      accounts_verified_by: null,
+    })
+    .in("application_id", order.application_ids)
+    .eq("registration_status", "pending")
+    .is("deleted_at", null)
+    .neq("payment_status", "verified")
+    .select("application_id");
+
+  if (registrationError) throw registrationError;
+
+  const verifiedIds = (verified ?? []).map((reg) => reg.application_id as string);
+  const refundIds = order.application_ids.filter((id: string) => !verifiedIds.includes(id));
+
+  if (refundIds.length > 0) {
+    console.warn(`Order ${providerOrderId} paid for registrations no longer awaiting payment; refund due:`, refundIds.join(", "));
+    const { error: refundError } = await supabase
+      .from("payment_orders")
+      .update({ refund_application_ids: refundIds })
+      .eq("id", order.id);
+    if (refundError) throw refundError;
+  }
+
+  const { data: covered, error: coveredError } = await supabase
+    .from("registrations")
+    .select("id, application_id, parent_application_id")
+    .in("application_id", order.application_ids);
+
+  if (coveredError) throw coveredError;
+
+  if (covered && covered.length > 0) {
+    const { error: ledgerError } = await supabase.from("payment_transactions").insert({
+      group_application_id: ledgerGroupId(covered[0]),
+      // One attendee's own payment is booked against them; a group payment against the group
+      registration_id: covered.length === 1 ? covered[0].id : null,
+      kind: "payment",
+      amount: order.amount,
+      method: "online",
+      reference: providerPaymentId,
+      transaction_date: now.toISOString().slice(0, 10),
+      payment_order_id: order.id,
+      note: refundIds.length > 0 ? `Refund due for ${refundIds.join(", ")}: no longer awaiting payment` : null,
+    });
+
+    // 23505: already recorded for this order
+    if (ledgerError && ledgerError.code !== "23505") throw ledgerError;
+  }
+
+  console.log(`Order ${providerOrderId} paid (${providerPaymentId}) for:`, verifiedIds.join(", ") || "none");
+  return verifiedIds;
+}
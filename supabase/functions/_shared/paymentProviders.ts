@@ -0,0 +1,213 @@
+/**
+ * paymentProviders.ts - Online Payment Providers
+ *
+ * Online payment sits alongside the manual bank transfer + proof upload
+ * flow. Providers follow the order / verify / webhook pattern:
+ *
+ * 1. The server creates an order for the amount due (createOrder)
+ * 2. The browser opens the provider's checkout for that order
+ * 3. Checkout returns a signed payment, checked by verifyPaymentSignature
+ * 4. The provider also posts a signed webhook (parseWebhook), so a
+ *    payment is recorded even if the browser closes before step 3
+ *
+ * Set PAYMENT_PROVIDER=mock for local development and tests. The mock
+ * provider signs with a fixed secret and can simulate a checkout, so the
+ * whole flow runs without a gateway account. Otherwise Razorpay is used
+ * when RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET
+ * are set.
+ */
+
+export type PaymentProviderName = "razorpay" | "mock";
+
+export interface PaymentOrder {
+  /** Provider's order ID */
+  id: string;
+  /** Amount in INR */
+  amount: number;
+  currency: string;
+}
+
+export interface CreateOrderInput {
+  /** Amount in INR */
+  amount: number;
+  /** Our reference for the order, shown in the provider dashboard */
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export type CreateOrderResult =
+  | { ok: true; order: PaymentOrder }
+  | { ok: false; error: string };
+
+export interface PaymentSignature {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+export type PaymentWebhookEvent =
+  | { type: "captured"; orderId: string; paymentId: string; amount: number }
+  | { type: "failed"; orderId: string; paymentId: string; reason: string }
+  | { type: "ignored"; event: string };
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  /** Public key handed to the browser checkout */
+  publicKey: string;
+  /** Header carrying the webhook signature */
+  webhookSignatureHeader: string;
+  createOrder(input: CreateOrderInput): Promise<CreateOrderResult>;
+  verifyPaymentSignature(payment: PaymentSignature): Promise<boolean>;
+  /** Returns null when the signature does not match */
+  parseWebhook(rawBody: string, signature: string | null): Promise<PaymentWebhookEvent | null>;
+  /** Mock only: a signed payment for the order, as checkout would return */
+  simulateCheckout?(orderId: string): Promise<Omit<PaymentSignature, "orderId">>;
+}
+
+// ---------------------------------------------------------------------------
+// Signatures
+// ---------------------------------------------------------------------------
+
+const hmacSha256Hex = async (secret: string, message: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/** Compares without leaking where the strings first differ */
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const verifyHmac = async (secret: string, message: string, signature: string | null): Promise<boolean> =>
+  !!signature && timingSafeEqual(await hmacSha256Hex(secret, message), signature);
+
+/** Razorpay-style webhook payload, shared by the mock provider */
+interface WebhookPayload {
+  event?: string;
+  payload?: {
+    payment?: {
+      entity?: {
+        id?: string;
+        order_id?: string;
+        amount?: number;
+        error_description?: string | null;
+      };
+    };
+  };
+}
+
+const toWebhookEvent = (body: WebhookPayload): PaymentWebhookEvent => {
+  const payment = body.payload?.payment?.entity;
+  const event = body.event ?? "unknown";
+
+  if (!payment?.id || !payment.order_id) return { type: "ignored", event };
+
+  if (event === "payment.captured" || event === "order.paid") {
+    // Amounts are sent in paise
+    return { type: "captured", orderId: payment.order_id, paymentId: payment.id, amount: (payment.amount ?? 0) / 100 };
+  }
+  if (event === "payment.failed") {
+    return {
+      type: "failed",
+      orderId: payment.order_id,
+      paymentId: payment.id,
+      reason: payment.error_description ?? "Payment failed",
+    };
+  }
+  return { type: "ignored", event };
+};
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+export const createRazorpayProvider = (keyId: string, keySecret: string, webhookSecret: string): PaymentProvider => ({
+  name: "razorpay",
+  publicKey: keyId,
+  webhookSignatureHeader: "x-razorpay-signature",
+
+  async createOrder({ amount, receipt, notes }) {
+    try {
+      const response = await fetch("https://api.razorpay.com/v1/orders", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Basic ${btoa(`${keyId}:${keySecret}`)}`,
+        },
+        body: JSON.stringify({ amount: Math.round(amount * 100), currency: "INR", receipt, notes }),
+      });
+
+      if (!response.ok) {
+        return { ok: false, error: `Razorpay ${response.status}: ${await response.text()}` };
+      }
+
+      const order = await response.json();
+      return { ok: true, order: { id: order.id, amount: order.amount / 100, currency: order.currency } };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+
+  verifyPaymentSignature({ orderId, paymentId, signature }) {
+    return verifyHmac(keySecret, `${orderId}|${paymentId}`, signature);
+  },
+
+  async parseWebhook(rawBody, signature) {
+    if (!(await verifyHmac(webhookSecret, rawBody, signature))) return null;
+    return toWebhookEvent(JSON.parse(rawBody));
+  },
+});
+
+/** Fixed, non-secret key: the mock provider must never be enabled in production */
+export const MOCK_PAYMENT_SECRET = "mock-payment-secret";
+
+export const createMockPaymentProvider = (): PaymentProvider => ({
+  name: "mock",
+  publicKey: "mock",
+  webhookSignatureHeader: "x-mock-signature",
+
+  createOrder({ amount, receipt }) {
+    const order = { id: `order_mock_${crypto.randomUUID().replace(/-/g, "")}`, amount, currency: "INR" };
+    console.log(`[payment-mock] order ${order.id} for ₹${amount} (${receipt})`);
+    return Promise.resolve({ ok: true, order });
+  },
+
+  verifyPaymentSignature({ orderId, paymentId, signature }) {
+    return verifyHmac(MOCK_PAYMENT_SECRET, `${orderId}|${paymentId}`, signature);
+  },
+
+  async parseWebhook(rawBody, signature) {
+    if (!(await verifyHmac(MOCK_PAYMENT_SECRET, rawBody, signature))) return null;
+    return toWebhookEvent(JSON.parse(rawBody));
+  },
+
+  async simulateCheckout(orderId) {
+    const paymentId = `pay_mock_${crypto.randomUUID().replace(/-/g, "")}`;
+    return { paymentId, signature: await hmacSha256Hex(MOCK_PAYMENT_SECRET, `${orderId}|${paymentId}`) };
+  },
+});
+
+/** Returns the configured provider, or null if online payment is not set up */
+export const getPaymentProvider = (): PaymentProvider | null => {
+  if (Deno.env.get("PAYMENT_PROVIDER") === "mock") return createMockPaymentProvider();
+
+  const keyId = Deno.env.get("RAZORPAY_KEY_ID");
+  const keySecret = Deno.env.get("RAZORPAY_KEY_SECRET");
+  const webhookSecret = Deno.env.get("RAZORPAY_WEBHOOK_SECRET");
+  return keyId && keySecret && webhookSecret ? createRazorpayProvider(keyId, keySecret, webhookSecret) : null;
+};
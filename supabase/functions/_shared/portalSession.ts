@@ -0,0 +1,52 @@
+/**
+ * portalSession.ts - Registrant Portal Sessions
+ *
+ * The /my-registration portal signs registrants in with the send-otp /
+ * verify-otp email OTP. On success verify-otp issues an opaque bearer token;
+ * only its SHA-256 hash is stored in `registrant_portal_sessions`, which has
+ * RLS enabled with no policies, so it is reachable with the service role only.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** Sessions last one day, the window of the send-otp daily limits */
+export const PORTAL_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+/** Creates a session for a verified email and returns the bearer token */
+export const createPortalSession = async (
+  supabase: SupabaseClient,
+  email: string
+): Promise<{ portalToken: string; expiresAt: string }> => {
+  const portalToken = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+  const expiresAt = new Date(Date.now() + PORTAL_SESSION_TTL_MS).toISOString();
+
+  const { error } = await supabase.from("registrant_portal_sessions").insert({
+    email: email.toLowerCase().trim(),
+    token_hash: await sha256Hex(portalToken),
+    expires_at: expiresAt,
+  });
+  if (error) throw error;
+
+  return { portalToken, expiresAt };
+};
+
+/** Resolves a bearer token to the signed-in email, or null if unknown/expired */
+export const getPortalSessionEmail = async (
+  supabase: SupabaseClient,
+  portalToken: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("registrant_portal_sessions")
+    .select("email")
+    .eq("token_hash", await sha256Hex(portalToken))
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.email ?? null;
+};
@@ -0,0 +1,292 @@
+/**
+ * pricing.ts - Shared Registration Fee Computation
+ *
+ * Single source of truth for registration pricing. Imported by the
+ * registration form (via the `@shared` alias) for display, and by the
+ * `verify-captcha-register` edge function, which recomputes every fee
+ * server-side and rejects submissions whose fees do not match.
+ *
+ * Amounts come from the active `fee_schedules` row (one per batch period,
+ * read through the `get_active_fee_schedule` RPC). DEFAULT_FEE_SCHEDULE
+ * is only used when no schedule has been configured.
+ *
+ * This module must stay free of browser- and Deno-specific APIs so it
+ * can run unchanged in both environments.
+ */
+
+/** Accommodation preference for a single registrant */
+export type StayType = "on-campus" | "outside";
+
+export const STAY_TYPES: readonly StayType[] = ["on-campus", "outside"];
+
+/** Who an attendee is; spouses and children may be charged a companion rate */
+export type AttendeeCategory = "alumni" | "spouse" | "child";
+
+export const ATTENDEE_CATEGORIES: readonly AttendeeCategory[] = ["alumni", "spouse", "child"];
+
+/**
+ * Fee amounts in INR per stay type
+ *
+ * - On Campus: accommodation, all meals, event access
+ * - Outside: event access, lunch & dinner only
+ *
+ * Optional rates override the standard price when they apply, in this order:
+ * 1. Invite rate - registrations made through a private invite link
+ * 2. Companion rate - spouses and children of alumni
+ * 3. Early-bird rate - registrations made on or before earlyBirdDeadline
+ * A null/undefined rate falls through to the next rule.
+ */
+export interface FeeSchedule {
+  onCampus: number;
+  outside: number;
+  /** ISO timestamp; early-bird rates apply up to and including this instant */
+  earlyBirdDeadline?: string | null;
+  earlyBirdOnCampus?: number | null;
+  earlyBirdOutside?: number | null;
+  companionOnCampus?: number | null;
+  companionOutside?: number | null;
+  inviteOnCampus?: number | null;
+  inviteOutside?: number | null;
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  onCampus: 15000,
+  outside: 7500,
+};
+
+/** Row shape returned by the get_active_fee_schedule RPC */
+export interface FeeScheduleRow {
+  on_campus_fee: number;
+  outside_fee: number;
+  early_bird_deadline: string | null;
+  early_bird_on_campus_fee: number | null;
+  early_bird_outside_fee: number | null;
+  companion_on_campus_fee: number | null;
+  companion_outside_fee: number | null;
+  invite_on_campus_fee: number | null;
+  invite_outside_fee: number | null;
+}
+
+export const feeScheduleFromRow = (row: FeeScheduleRow | null | undefined): FeeSchedule => {
+  if (!row) return DEFAULT_FEE_SCHEDULE;
+  return {
+    onCampus: row.on_campus_fee,
+    outside: row.outside_fee,
+    earlyBirdDeadline: row.early_bird_deadline,
+    earlyBirdOnCampus: row.early_bird_on_campus_fee,
+    earlyBirdOutside: row.early_bird_outside_fee,
+    companionOnCampus: row.companion_on_campus_fee,
+    companionOutside: row.companion_outside_fee,
+    inviteOnCampus: row.invite_on_campus_fee,
+    inviteOutside: row.invite_outside_fee,
+  };
+};
+
+/** Circumstances of a single registration that affect its price */
+export interface FeeOptions {
+  category?: AttendeeCategory;
+  viaInvite?: boolean;
+  /** Moment of registration; defaults to now */
+  at?: Date;
+}
+
+/** Whether early-bird pricing is in effect at the given moment */
+export const isEarlyBird = (schedule: FeeSchedule, at: Date = new Date()): boolean =>
+  !!schedule.earlyBirdDeadline && at.getTime() <= new Date(schedule.earlyBirdDeadline).getTime();
+
+/**
+ * Constraints on which stay types may be chosen
+ *
+ * Derived from the active batch configuration (show_stay_option /
+ * show_outside_option) and the invite (force_outside_only).
+ */
+export interface PricingContext {
+  schedule: FeeSchedule;
+  allowOnCampus: boolean;
+  allowOutside: boolean;
+  viaInvite: boolean;
+  at: Date;
+}
+
+/** A person to be priced, as submitted by the client */
+export interface PricedPerson {
+  name: string;
+  stayType: string;
+  /** Defaults to "alumni"; the primary registrant is always an alumnus */
+  category?: string;
+  /** Fee the client claims for this person (optional for pure computation) */
+  registrationFee?: number;
+}
+
+export interface FeeLine {
+  name: string;
+  stayType: StayType;
+  category: AttendeeCategory;
+  fee: number;
+}
+
+/** Per-person fees plus the group total, returned to the client */
+export interface FeeBreakdown {
+  lines: FeeLine[];
+  total: number;
+}
+
+export type PricingErrorCode =
+  | "INVALID_STAY_TYPE"
+  | "INVALID_ATTENDEE_CATEGORY"
+  | "STAY_TYPE_NOT_ALLOWED"
+  | "FEE_MISMATCH";
+
+export interface PricingError {
+  code: PricingErrorCode;
+  message: string;
+  /** Index into the priced people (0 = primary registrant) */
+  index: number;
+}
+
+export type PricingResult =
+  | { ok: true; breakdown: FeeBreakdown }
+  | { ok: false; error: PricingError };
+
+export const isStayType = (value: string): value is StayType =>
+  (STAY_TYPES as readonly string[]).includes(value);
+
+export const isAttendeeCategory = (value: string): value is AttendeeCategory =>
+  (ATTENDEE_CATEGORIES as readonly string[]).includes(value);
+
+/**
+ * Calculates the registration fee for a single person
+ *
+ * @param stayType - The type of stay selected
+ * @param schedule - Fee schedule to price against
+ * @param options - Attendee category, invite and registration time
+ * @returns Fee amount in INR
+ */
+export const calculateFee = (
+  stayType: StayType,
+  schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE,
+  options: FeeOptions = {}
+): number => {
+  const onCampus = stayType === "on-campus";
+  const pick = (onCampusRate?: number | null, outsideRate?: number | null) =>
+    onCampus ? onCampusRate : outsideRate;
+
+  const inviteRate = pick(schedule.inviteOnCampus, schedule.inviteOutside);
+  if (options.viaInvite && inviteRate != null) return inviteRate;
+
+  const companionRate = pick(schedule.companionOnCampus, schedule.companionOutside);
+  if (options.category && options.category !== "alumni" && companionRate != null) return companionRate;
+
+  const earlyBirdRate = pick(schedule.earlyBirdOnCampus, schedule.earlyBirdOutside);
+  if (earlyBirdRate != null && isEarlyBird(schedule, options.at)) return earlyBirdRate;
+
+  return onCampus ? schedule.onCampus : schedule.outside;
+};
+
+/**
+ * Builds the pricing context from batch and invite settings
+ *
+ * When the batch disables both options, registrants default to outside
+ * stay (matching the registration form's behaviour).
+ */
+export const buildPricingContext = (options: {
+  schedule?: FeeSchedule;
+  showStayOption?: boolean;
+  showOutsideOption?: boolean;
+  forceOutsideOnly?: boolean;
+  viaInvite?: boolean;
+  at?: Date;
+}): PricingContext => {
+  const allowOnCampus = !options.forceOutsideOnly && (options.showStayOption ?? true);
+  const allowOutside = (options.showOutsideOption ?? true) || !allowOnCampus;
+
+  return {
+    schedule: options.schedule ?? DEFAULT_FEE_SCHEDULE,
+    allowOnCampus,
+    allowOutside,
+    viaInvite: options.viaInvite ?? false,
+    at: options.at ?? new Date(),
+  };
+};
+
+const describePerson = (person: PricedPerson, index: number): string =>
+  index === 0 ? "Primary registrant" : `Attendee ${index} (${person.name})`;
+
+/**
+ * Recomputes the fee for every person and checks it against the submitted fee
+ *
+ * People are checked in order; the first violation is returned. When a
+ * person has no submitted fee, only the stay type is validated.
+ *
+ * @param people - Primary registrant first, followed by additional attendees
+ * @param context - Fee schedule and allowed stay types
+ * @returns The authoritative breakdown, or a structured error
+ */
+export const priceRegistration = (people: PricedPerson[], context: PricingContext): PricingResult => {
+  const lines: FeeLine[] = [];
+
+  for (let index = 0; index < people.length; index++) {
+    const person = people[index];
+
+    if (!isStayType(person.stayType)) {
+      return {
+        ok: false,
+        error: {
+          code: "INVALID_STAY_TYPE",
+          message: `${describePerson(person, index)}: Invalid stay type.`,
+          index,
+        },
+      };
+    }
+
+    const category = person.category ?? "alumni";
+    if (!isAttendeeCategory(category) || (index === 0 && category !== "alumni")) {
+      return {
+        ok: false,
+        error: {
+          code: "INVALID_ATTENDEE_CATEGORY",
+          message: `${describePerson(person, index)}: Invalid attendee type.`,
+          index,
+        },
+      };
+    }
+
+    const allowed = person.stayType === "on-campus" ? context.allowOnCampus : context.allowOutside;
+    if (!allowed) {
+      return {
+        ok: false,
+        error: {
+          code: "STAY_TYPE_NOT_ALLOWED",
+          message: `${describePerson(person, index)}: ${person.stayType === "on-campus" ? "On-campus" : "Outside"} stay is not available for this registration.`,
+          index,
+        },
+      };
+    }
+
+    const fee = calculateFee(person.stayType, context.schedule, {
+      category,
+      viaInvite: context.viaInvite,
+      at: context.at,
+    });
+    if (person.registrationFee !== undefined && Number(person.registrationFee) !== fee) {
+      return {
+        ok: false,
+        error: {
+          code: "FEE_MISMATCH",
+          message: `${describePerson(person, index)}: Registration fee does not match the current fee schedule. Please refresh the page and try again.`,
+          index,
+        },
+      };
+    }
+
+    lines.push({ name: person.name, stayType: person.stayType, category, fee });
+  }
+
+  return {
+    ok: true,
+    breakdown: {
+      lines,
+      total: lines.reduce((sum, line) => sum + line.fee, 0),
+    },
+  };
+};
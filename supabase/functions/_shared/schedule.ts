@@ -0,0 +1,79 @@
+/**
+ * schedule.ts - Shared Registration Schedule Rules
+ *
+ * Registration periods are configured in IST: a date plus an hour and
+ * minute for when the period opens and when it closes. Both are stored in
+ * `batch_configuration` as exact instants (registration_start_date and
+ * registration_end_date), so a period is open for opensAt <= now < closesAt
+ * wherever the check runs. get_open_batch_configuration applies the same rule
+ * in the database.
+ *
+ * Imported by the admin period editor, the registration form and landing
+ * page (via the `@shared` alias) and by edge functions such as
+ * `payment-reminder-cron`.
+ *
+ * This module must stay free of browser- and Deno-specific APIs so it
+ * can run unchanged in both environments.
+ */
+
+export const EVENT_TIME_ZONE = "Asia/Kolkata";
+
+/** IST is UTC+5:30 all year (no daylight saving) */
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Instant = Date | string;
+
+const toDate = (instant: Instant): Date => (instant instanceof Date ? instant : new Date(instant));
+
+/** The instant a yyyy-MM-dd date at hour:minute IST refers to */
+export const istToUtc = (date: string, hour = 0, minute = 0): Date => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute) - IST_OFFSET_MS);
+};
+
+/** Calendar date (yyyy-MM-dd) of an instant in IST */
+export const toISTDate = (instant: Instant): string =>
+  new Date(toDate(instant).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+/** Formats an instant in IST, e.g. "31 October 2026 at 11:59 pm" */
+export const formatIST = (
+  instant: Instant,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "long", timeStyle: "short" }
+): string => toDate(instant).toLocaleString("en-IN", { ...options, timeZone: EVENT_TIME_ZONE });
+
+/** Human-readable hour:minute, e.g. "11:59 PM IST" */
+export const formatTimeIST = (hour: number, minute: number): string => {
+  const suffix = hour >= 12 ? "PM" : "AM";
+  const display = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${display}:${String(minute).padStart(2, "0")} ${suffix} IST`;
+};
+
+/**
+ * Whether a period is open at `now`. A period with neither instant set is
+ * always open (only is_registration_open applies); a period with only one
+ * set is treated as closed, matching get_open_batch_configuration.
+ */
+export const isWithinWindow = (
+  opensAt: Instant | null,
+  closesAt: Instant | null,
+  now: Date = new Date()
+): boolean => {
+  if (!opensAt && !closesAt) return true;
+  if (!opensAt || !closesAt) return false;
+  return now.getTime() >= toDate(opensAt).getTime() && now.getTime() < toDate(closesAt).getTime();
+};
+
+/** Whether the period closing at `closesAt` has closed by `now` */
+export const hasClosed = (closesAt: Instant | null, now: Date = new Date()): boolean =>
+  !!closesAt && now.getTime() >= toDate(closesAt).getTime();
+
+/**
+ * IST calendar days from `now` to `instant`: 0 on the same IST date,
+ * 1 the day before, -1 the day after.
+ */
+export const istDaysUntil = (instant: Instant, now: Date = new Date()): number =>
+  Math.round(
+    (new Date(toISTDate(instant)).getTime() - new Date(toISTDate(now)).getTime()) / DAY_MS
+  );
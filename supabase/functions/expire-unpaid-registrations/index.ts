@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { defaultFromAddress, renderStoredEmailTemplate, sendEmail } from "../_shared/emailOutbox.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+type ExpiredRegistration = {
+  id: string;
+  application_id: string;
+  name: string;
+  email: string;
+  released_bed: boolean;
+};
+
+/**
+ * Expires pending registrations that are still unpaid when their period's
+ * grace period (batch_configuration.unpaid_expiry_days) runs out, frees any
+ * bed they held and emails the registrants. Periods without a grace period
+ * are left alone.
+ *
+ * Body: {} - scheduled run. Schedule it daily, like payment-reminder-cron.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  console.log("expire-unpaid-registrations function called");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const { data, error } = await supabaseAdmin.rpc("expire_unpaid_registrations");
+    if (error) throw error;
+
+    const expired = (data ?? []) as ExpiredRegistration[];
+
+    // Group members often share an address; they get one notice between them
+    const byEmail = new Map<string, ExpiredRegistration[]>();
+    for (const registration of expired) {
+      const email = registration.email.trim().toLowerCase();
+      byEmail.set(email, [...(byEmail.get(email) ?? []), registration]);
+    }
+
+    let emailsQueued = 0;
+    const emailFailures: string[] = [];
+
+    for (const [email, registrations] of byEmail) {
+      const applicationIds = registrations.map((registration) => registration.application_id);
+      try {
+        const { subject, html } = await renderStoredEmailTemplate(supabaseAdmin, "registration_expired", {
+          name: registrations[0].name,
+          applicationId: applicationIds.join(", "),
+        });
+
+        // 'retrying' rows are delivered later by process-email-outbox
+        const result = await sendEmail(
+          supabaseAdmin,
+          { from: defaultFromAddress(), to: [email], subject, html },
+          { category: "registration_expired", registrationId: registrations[0].id }
+        );
+
+        if (result.status === "failed") {
+          emailFailures.push(...applicationIds);
+        } else {
+          emailsQueued++;
+        }
+      } catch (emailError) {
+        console.error(`Error sending expiry email for ${applicationIds.join(", ")}:`, emailError);
+        emailFailures.push(...applicationIds);
+      }
+    }
+
+    const result = {
+      success: true,
+      expired: expired.map((registration) => registration.application_id),
+      bedsReleased: expired.filter((registration) => registration.released_bed).length,
+      emailsQueued,
+      emailFailures,
+    };
+
+    console.log("Expiry run completed:", result);
+
+    return jsonResponse(result);
+  } catch (error: unknown) {
+    console.error("Error in expire-unpaid-registrations:", error);
+    return jsonResponse({ success: false, error: "Failed to expire unpaid registrations" }, 500);
+  }
+};
+
+serve(handler);
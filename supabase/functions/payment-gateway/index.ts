@@ -0,0 +1,197 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider, type PaymentProvider } from "../_shared/paymentProviders.ts";
+import { markOrderPaid } from "../_shared/paymentOrders.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/** Registration states that can still be paid for online */
+const PAYABLE_PAYMENT_STATUSES = ["pending"];
+const CLOSED_REGISTRATION_STATUSES = ["rejected", "expired"];
+
+async function handleCreateOrder(
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  body: { applicationId?: unknown; applicationIds?: unknown }
+): Promise<Response> {
+  if (typeof body.applicationId !== "string" || !body.applicationId.trim()) {
+    return jsonResponse({ success: false, error: "applicationId is required" }, 400);
+  }
+  const applicationId = body.applicationId.trim().toUpperCase();
+
+  const { data: registration, error: lookupError } = await supabase
+    .from("registrations")
+    .select("application_id, parent_application_id")
+    .eq("application_id", applicationId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+  if (!registration) {
+    return jsonResponse({ success: false, error: "Application not found" }, 404);
+  }
+
+  // A primary registrant pays for the whole group; anyone else only for themselves
+  let groupQuery = supabase
+    .from("registrations")
+    .select("application_id, registration_fee, payment_status, registration_status")
+    .is("deleted_at", null);
+  groupQuery = registration.parent_application_id
+    ? groupQuery.eq("application_id", applicationId)
+    : groupQuery.or(`application_id.eq.${applicationId},parent_application_id.eq.${applicationId}`);
+
+  const { data: group, error: groupError } = await groupQuery;
+  if (groupError) throw groupError;
+
+  const payable = (group ?? []).filter(
+    (reg) =>
+      PAYABLE_PAYMENT_STATUSES.includes(reg.payment_status) &&
+      !CLOSED_REGISTRATION_STATUSES.includes(reg.registration_status)
+  );
+
+  let selected = payable;
+  if (body.applicationIds !== undefined) {
+    if (!Array.isArray(body.applicationIds) || !body.applicationIds.every((id) => typeof id === "string")) {
+      return jsonResponse({ success: false, error: "applicationIds must be a list of application IDs" }, 400);
+    }
+    const requested = new Set(body.applicationIds as string[]);
+    selected = payable.filter((reg) => requested.has(reg.application_id));
+    if (selected.length !== requested.size) {
+      return jsonResponse({
+        success: false,
+        error: "Some of the selected registrations are not in this group or are no longer awaiting payment",
+        code: "NOT_PAYABLE",
+      }, 400);
+    }
+  }
+
+  if (selected.length === 0) {
+    return jsonResponse({ success: false, error: "Nothing is awaiting payment for this application", code: "NOT_PAYABLE" }, 400);
+  }
+
+  const amount = selected.reduce((sum, reg) => sum + reg.registration_fee, 0);
+  const applicationIds = selected.map((reg) => reg.application_id);
+
+  const result = await provider.createOrder({
+    amount,
+    receipt: applicationId,
+    notes: { applicationIds: applicationIds.join(",") },
+  });
+
+  if (!result.ok) {
+    console.error("Failed to create payment order:", result.error);
+    return jsonResponse({ success: false, error: "Unable to start the payment right now. Please try again." }, 502);
+  }
+
+  const { error: insertError } = await supabase.from("payment_orders").insert({
+    provider: provider.name,
+    provider_order_id: result.order.id,
+    application_ids: applicationIds,
+    amount: result.order.amount,
+    currency: result.order.currency,
+  });
+
+  if (insertError) throw insertError;
+
+  console.log(`Created ${provider.name} order ${result.order.id} for ₹${amount}:`, applicationIds.join(", "));
+
+  return jsonResponse({
+    success: true,
+    provider: provider.name,
+    keyId: provider.publicKey,
+    orderId: result.order.id,
+    amount: result.order.amount,
+    currency: result.order.currency,
+    applicationIds,
+    ...(provider.simulateCheckout ? { mockPayment: await provider.simulateCheckout(result.order.id) } : {}),
+  });
+}
+
+async function handleVerify(
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  body: { orderId?: unknown; paymentId?: unknown; signature?: unknown }
+): Promise<Response> {
+  const { orderId, paymentId, signature } = body;
+  if (typeof orderId !== "string" || typeof paymentId !== "string" || typeof signature !== "string") {
+    return jsonResponse({ success: false, error: "orderId, paymentId and signature are required" }, 400);
+  }
+
+  if (!(await provider.verifyPaymentSignature({ orderId, paymentId, signature }))) {
+    console.warn("Payment signature mismatch for order:", orderId);
+    return jsonResponse({ success: false, error: "Payment could not be verified", code: "INVALID_SIGNATURE" }, 400);
+  }
+
+  const applicationIds = await markOrderPaid(supabase, orderId, paymentId);
+  if (!applicationIds) {
+    return jsonResponse({ success: false, error: "Payment order not found", code: "UNKNOWN_ORDER" }, 404);
+  }
+
+  // Everything in the order stopped awaiting payment meanwhile; markOrderPaid flagged it for refund
+  if (applicationIds.length === 0) {
+    return jsonResponse({
+      success: false,
+      error: "Your payment was received, but this registration is no longer awaiting payment. The organisers will refund it.",
+      code: "REFUND_DUE",
+    }, 409);
+  }
+
+  return jsonResponse({ success: true, paymentStatus: "verified", applicationIds });
+}
+
+/**
+ * Online payment endpoint for the browser (provider webhooks go to
+ * payment-webhook)
+ *
+ * - { action: "config" }: whether online payment is available
+ * - { action: "create-order", applicationId, applicationIds? }: order for
+ *   the amount still due on the group (or the selected registrations)
+ * - { action: "verify", orderId, paymentId, signature }: checkout callback
+ */
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const provider = getPaymentProvider();
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.action === "config") {
+      return jsonResponse({ success: true, enabled: !!provider, provider: provider?.name ?? null });
+    }
+
+    if (!provider) {
+      return jsonResponse({ success: false, error: "Online payment is not available", code: "ONLINE_PAYMENT_UNAVAILABLE" }, 503);
+    }
+
+    switch (body?.action) {
+      case "create-order":
+        return await handleCreateOrder(supabase, provider, body);
+      case "verify":
+        return await handleVerify(supabase, provider, body);
+      default:
+        return jsonResponse({ success: false, error: "Unknown action" }, 400);
+    }
+  } catch (error: unknown) {
+    console.error("Error in payment-gateway:", error);
+    return jsonResponse({ success: false, error: "Payment processing failed" }, 500);
+  }
+};
+
+serve(handler);
@@ -1,57 +1,68 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
-const RESEND_FROM = Deno.env.get("RESEND_FROM") ?? "onboarding@resend.dev";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { defaultFromAddress, renderStoredEmailTemplate, sendEmail } from "../_shared/emailOutbox.ts";
+import { formatIST, hasClosed, istDaysUntil } from "../_shared/schedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-// Convert date to IST midnight
-function toISTMidnight(date: Date): Date {
-  // IST is UTC+5:30
-  const istOffset = 5.5 * 60 * 60 * 1000;
-  const utcTime = date.getTime() + (date.getTimezoneOffset() * 60000);
-  const istTime = new Date(utcTime + istOffset);
-  istTime.setHours(0, 0, 0, 0);
-  return istTime;
-}
-
-// Get current date in IST
-function getCurrentISTDate(): Date {
-  const now = new Date();
-  const istOffset = 5.5 * 60 * 60 * 1000;
-  const utcTime = now.getTime() + (now.getTimezoneOffset() * 60000);
-  return new Date(utcTime + istOffset);
-}
+/** Used when the payment_reminder_settings row is missing */
+const DEFAULT_MAX_REMINDERS_PER_PERSON = 4;
 
-// Format date for display
-function formatDateIST(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-IN', {
-    day: 'numeric',
-    month: 'long',
-    year: 'numeric',
-    timeZone: 'Asia/Kolkata'
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
   });
-}
 
-// Calculate days remaining
-function getDaysRemaining(endDate: Date): number {
-  const now = getCurrentISTDate();
-  const end = toISTMidnight(endDate);
-  const diffTime = end.getTime() - now.getTime();
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-}
+type ReminderRule = {
+  id: string;
+  days_before: number;
+  registration_statuses: string[];
+  payment_statuses: string[];
+};
+
+type PendingRegistration = {
+  id: string;
+  email: string;
+  name: string;
+  application_id: string;
+  registration_status: string;
+  payment_status: string;
+};
+
+// Group members often share an address; they get one reminder between them
+type ReminderRecipient = {
+  email: string;
+  name: string;
+  registrationId: string;
+  applicationIds: string[];
+  ruleId: string;
+  daysBefore: number;
+};
+
+type SkippedRecipient = {
+  email: string;
+  applicationIds: string[];
+  reason: string;
+};
+
+type ReminderPlan = {
+  maxRemindersPerPerson: number;
+  recipients: ReminderRecipient[];
+  skipped: SkippedRecipient[];
+};
 
 async function sendPaymentReminderEmail(
+  supabase: SupabaseClient,
+  registrationId: string,
   email: string,
   name: string,
   applicationId: string,
   daysRemaining: number,
-  endDate: string
+  closesAt: string
 ): Promise<boolean> {
   try {
     console.log(`Sending payment reminder to ${email} for application ${applicationId}, ${daysRemaining} days remaining`);
@@ -62,64 +73,27 @@ async function sendPaymentReminderEmail(
         ? "⚡ Time is running out!"
         : "📢 Friendly Reminder";
 
-    const htmlContent = `
-      <div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #f57c00; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">
-          ${urgencyText}
-        </h1>
-        <p>Dear ${name},</p>
-        <p>This is a reminder that your payment proof for the <strong>Rishi Valley Alumni Meet</strong> registration is still pending.</p>
-        
-        <div style="background: #fff3e0; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f57c00;">
-          <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
-          <p style="margin: 10px 0 0; font-size: 20px; font-weight: bold; color: #f57c00; font-family: monospace;">
-            ${applicationId}
-          </p>
-          <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Days Remaining:</p>
-          <p style="margin: 5px 0 0; font-size: 28px; font-weight: bold; color: ${daysRemaining <= 2 ? '#c62828' : '#f57c00'};">
-            ${daysRemaining} day${daysRemaining !== 1 ? 's' : ''}
-          </p>
-          <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Payment Deadline:</p>
-          <p style="margin: 5px 0 0; font-weight: bold; color: #333;">
-            ${formatDateIST(endDate)} (11:59 PM IST)
-          </p>
-        </div>
-        
-        <p style="color: #c62828; font-weight: bold;">
-          ⚠️ Please submit your payment proof before the deadline to complete your registration. 
-          Failure to submit payment details by the deadline will result in automatic rejection of your application.
-        </p>
-        
-        <p>Please visit the application lookup page on our website and submit your payment proof at the earliest.</p>
-        
-        <p style="margin-top: 30px;">
-          Best regards,<br>
-          <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
-        </p>
-      </div>
-    `;
-
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: `Rishi Valley Alumni Meet <${RESEND_FROM}>`,
-        to: [email],
-        subject: `${urgencyText} - Payment Pending for Application ${applicationId}`,
-        html: htmlContent,
-      }),
+    const { subject, html } = await renderStoredEmailTemplate(supabase, "payment_reminder", {
+      name,
+      applicationId,
+      urgencyText,
+      urgencyColor: daysRemaining <= 2 ? "#c62828" : "#f57c00",
+      daysRemaining: `${daysRemaining} day${daysRemaining !== 1 ? "s" : ""}`,
+      deadline: `${formatIST(closesAt)} IST`,
     });
 
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.json();
-      console.error("Resend error:", errorData);
+    const result = await sendEmail(
+      supabase,
+      { from: defaultFromAddress(), to: [email], subject, html },
+      { category: "payment_reminder", registrationId }
+    );
+
+    // 'retrying' rows are delivered later by process-email-outbox
+    if (result.status === "failed") {
       return false;
     }
 
-    console.log(`Payment reminder email sent successfully to ${email}`);
+    console.log(`Payment reminder email ${result.status} for ${email}`);
     return true;
   } catch (error) {
     console.error("Error sending payment reminder email:", error);
@@ -128,6 +102,8 @@ async function sendPaymentReminderEmail(
 }
 
 async function sendAutoRejectionEmail(
+  supabase: SupabaseClient,
+  registrationId: string,
   email: string,
   name: string,
   applicationId: string
@@ -135,55 +111,19 @@ async function sendAutoRejectionEmail(
   try {
     console.log(`Sending auto-rejection email to ${email} for application ${applicationId}`);
     
-    const htmlContent = `
-      <div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #c62828; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">
-          Registration Rejected
-        </h1>
-        <p>Dear ${name},</p>
-        <p>We regret to inform you that your registration for the <strong>Rishi Valley Alumni Meet</strong> has been rejected.</p>
-        
-        <div style="background: #ffebee; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #c62828;">
-          <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
-          <p style="margin: 10px 0 0; font-size: 20px; font-weight: bold; color: #c62828; font-family: monospace;">
-            ${applicationId}
-          </p>
-          <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Reason for Rejection:</p>
-          <p style="margin: 5px 0 0; color: #333; font-weight: bold;">
-            Payment details were not submitted within the registration period deadline.
-          </p>
-        </div>
-        
-        <p>We understand this may be disappointing. If you believe this was in error or have any questions, please contact the organizing committee.</p>
-        
-        <p style="margin-top: 30px;">
-          Best regards,<br>
-          <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
-        </p>
-      </div>
-    `;
-
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: `Rishi Valley Alumni Meet <${RESEND_FROM}>`,
-        to: [email],
-        subject: `Registration Rejected - Application ${applicationId}`,
-        html: htmlContent,
-      }),
-    });
+    const { subject, html } = await renderStoredEmailTemplate(supabase, "auto_rejection", { name, applicationId });
 
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.json();
-      console.error("Resend error:", errorData);
+    const result = await sendEmail(
+      supabase,
+      { from: defaultFromAddress(), to: [email], subject, html },
+      { category: "auto_rejection", registrationId }
+    );
+
+    if (result.status === "failed") {
       return false;
     }
 
-    console.log(`Auto-rejection email sent successfully to ${email}`);
+    console.log(`Auto-rejection email ${result.status} for ${email}`);
     return true;
   } catch (error) {
     console.error("Error sending auto-rejection email:", error);
@@ -191,6 +131,117 @@ async function sendAutoRejectionEmail(
   }
 }
 
+
+const matchesRule = (rule: ReminderRule, registration: PendingRegistration) =>
+  rule.registration_statuses.includes(registration.registration_status) &&
+  rule.payment_statuses.includes(registration.payment_status);
+
+/**
+ * Works out who gets a reminder today. Each address gets the latest rule
+ * step it has reached (the rule with the smallest days_before that is still
+ * >= daysRemaining), unless reminder_log shows that step was already sent or
+ * the address has reached the per-person limit for this registration period.
+ * Steps missed while the cron was not running are not sent late.
+ */
+async function planReminders(
+  supabase: SupabaseClient,
+  batchConfigurationId: string,
+  daysRemaining: number
+): Promise<ReminderPlan> {
+  const [rulesResult, settingsResult] = await Promise.all([
+    supabase
+      .from("payment_reminder_rules")
+      .select("id, days_before, registration_statuses, payment_statuses")
+      .eq("is_enabled", true)
+      .gte("days_before", daysRemaining)
+      .order("days_before", { ascending: true }),
+    supabase
+      .from("payment_reminder_settings")
+      .select("max_reminders_per_person")
+      .maybeSingle(),
+  ]);
+
+  if (rulesResult.error) throw rulesResult.error;
+
+  const maxRemindersPerPerson =
+    settingsResult.data?.max_reminders_per_person ?? DEFAULT_MAX_REMINDERS_PER_PERSON;
+  const dueRules = (rulesResult.data ?? []) as ReminderRule[];
+  const plan: ReminderPlan = { maxRemindersPerPerson, recipients: [], skipped: [] };
+
+  if (dueRules.length === 0) {
+    return plan;
+  }
+
+  const { data: registrations, error: registrationsError } = await supabase
+    .from("registrations")
+    .select("id, email, name, application_id, registration_status, payment_status")
+    .in("registration_status", [...new Set(dueRules.flatMap((rule) => rule.registration_statuses))])
+    .in("payment_status", [...new Set(dueRules.flatMap((rule) => rule.payment_statuses))])
+    .is("deleted_at", null)
+    .order("application_id", { ascending: true });
+
+  if (registrationsError) throw registrationsError;
+
+  const { data: logRows, error: logError } = await supabase
+    .from("reminder_log")
+    .select("email, rule_id")
+    .eq("batch_configuration_id", batchConfigurationId);
+
+  if (logError) throw logError;
+
+  const sentByEmail = new Map<string, string[]>();
+  for (const row of logRows ?? []) {
+    sentByEmail.set(row.email, [...(sentByEmail.get(row.email) ?? []), row.rule_id]);
+  }
+
+  const byEmail = new Map<string, { rule: ReminderRule; registrations: PendingRegistration[] }>();
+  for (const registration of (registrations ?? []) as PendingRegistration[]) {
+    const rule = dueRules.find((candidate) => matchesRule(candidate, registration));
+    if (!rule) continue;
+
+    const email = registration.email.trim().toLowerCase();
+    const entry = byEmail.get(email);
+    if (!entry) {
+      byEmail.set(email, { rule, registrations: [registration] });
+    } else {
+      entry.registrations.push(registration);
+      if (rule.days_before < entry.rule.days_before) entry.rule = rule;
+    }
+  }
+
+  for (const [email, { rule, registrations: matched }] of byEmail) {
+    const applicationIds = matched.map((registration) => registration.application_id);
+    const sent = sentByEmail.get(email) ?? [];
+
+    if (sent.includes(rule.id)) {
+      plan.skipped.push({ email, applicationIds, reason: `${rule.days_before}-day reminder already sent` });
+    } else if (sent.length >= maxRemindersPerPerson) {
+      plan.skipped.push({ email, applicationIds, reason: `Reached the limit of ${maxRemindersPerPerson} reminders` });
+    } else {
+      plan.recipients.push({
+        email,
+        name: matched[0].name,
+        registrationId: matched[0].id,
+        applicationIds,
+        ruleId: rule.id,
+        daysBefore: rule.days_before,
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Daily job: sends payment reminders according to payment_reminder_rules
+ * while the registration period is open, and auto-rejects unpaid
+ * applications once it has ended - unless the period has a grace period
+ * (unpaid_expiry_days), in which case expire-unpaid-registrations handles them.
+ *
+ * Body: {} - scheduled run.
+ * Body: { dryRun: true } - report who would be emailed or rejected without
+ * sending or changing anything; admin only.
+ */
 const handler = async (req: Request): Promise<Response> => {
   console.log("payment-reminder-cron function called");
   
@@ -206,32 +257,81 @@ const handler = async (req: Request): Promise<Response> => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
-    // Get the current batch configuration
-    const { data: batchConfig, error: configError } = await supabaseAdmin
-      .from('batch_configuration')
-      .select('*')
-      .eq('is_registration_open', true)
-      .limit(1)
-      .single();
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
 
-    if (configError || !batchConfig) {
-      console.log("No active registration period found");
-      return new Response(
-        JSON.stringify({ success: true, message: "No active registration period" }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    if (dryRun) {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        return jsonResponse({ success: false, error: "Unauthorized: No authorization header" }, 401);
+      }
+
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } }
       );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: "Unauthorized: Invalid token" }, 401);
+      }
+
+      const { data: isAdmin, error: roleError } = await supabaseClient.rpc("is_admin_or_superadmin", {
+        _user_id: user.id,
+      });
+
+      if (roleError) {
+        console.error("Role check error:", roleError.message);
+        return jsonResponse({ success: false, error: "Error checking user role" }, 500);
+      }
+
+      if (!isAdmin) {
+        return jsonResponse({ success: false, error: "Forbidden: Admin access required" }, 403);
+      }
     }
 
-    const endDate = new Date(batchConfig.registration_end_date);
-    const daysRemaining = getDaysRemaining(endDate);
-    
-    console.log(`Registration end date: ${batchConfig.registration_end_date}, Days remaining: ${daysRemaining}`);
+    // The current period, open or just closed: the one the landing page shows
+    const { data: registrationWindow, error: windowError } = await supabaseAdmin
+      .rpc('get_registration_window')
+      .maybeSingle();
 
-    let remindersSent = 0;
-    let rejectionsProcessed = 0;
+    if (windowError) throw windowError;
+
+    const { data: batchConfig, error: configError } = registrationWindow
+      ? await supabaseAdmin.from('batch_configuration').select('*').eq('id', registrationWindow.id).maybeSingle()
+      : { data: null, error: null };
+
+    if (configError) throw configError;
+
+    if (!batchConfig) {
+      console.log("No active registration period found");
+      return jsonResponse({ success: true, dryRun, message: "No active registration period" });
+    }
+
+    if (!batchConfig.registration_end_date) {
+      console.log("Active registration period has no closing date");
+      return jsonResponse({ success: true, dryRun, message: "The active registration period has no closing date" });
+    }
+
+    // IST calendar days until the period closes: 0 on the closing day
+    const daysRemaining = istDaysUntil(batchConfig.registration_end_date);
+    const registrationClosed = hasClosed(batchConfig.registration_end_date);
+    
+    console.log(`Registration closes at: ${batchConfig.registration_end_date}, Days remaining: ${daysRemaining}`);
 
     // Case 1: Registration period has ended - auto-reject applications without payment
-    if (daysRemaining < 0) {
+    if (registrationClosed) {
+      if (batchConfig.unpaid_expiry_days !== null) {
+        console.log("Registration period has ended. Unpaid applications are left to expire-unpaid-registrations");
+        return jsonResponse({
+          success: true,
+          dryRun,
+          daysRemaining,
+          message: "The registration period has ended. Unpaid applications expire after the period's grace period instead of being rejected.",
+        });
+      }
+
       console.log("Registration period has ended. Processing auto-rejections...");
       
       // Find all applications with pending payment status
@@ -239,102 +339,149 @@ const handler = async (req: Request): Promise<Response> => {
         .from('registrations')
         .select('id, email, name, application_id')
         .eq('payment_status', 'pending')
-        .eq('registration_status', 'pending');
+        .eq('registration_status', 'pending')
+        .is('deleted_at', null);
 
       if (pendingError) {
         console.error("Error fetching pending payments:", pendingError);
         throw pendingError;
       }
 
-      if (pendingPayments && pendingPayments.length > 0) {
-        console.log(`Found ${pendingPayments.length} applications to auto-reject`);
-        
-        for (const registration of pendingPayments) {
-          // Update registration status to rejected
-          const { error: updateError } = await supabaseAdmin
-            .from('registrations')
-            .update({
-              registration_status: 'rejected',
-              rejection_reason: 'Payment details were not submitted within the registration period deadline.',
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', registration.id);
-
-          if (updateError) {
-            console.error(`Error rejecting application ${registration.application_id}:`, updateError);
-            continue;
-          }
-
-          // Send rejection email
-          await sendAutoRejectionEmail(
-            registration.email,
-            registration.name,
-            registration.application_id
-          );
-          
-          rejectionsProcessed++;
+      if (dryRun) {
+        return jsonResponse({
+          success: true,
+          dryRun,
+          daysRemaining,
+          registrationClosed,
+          registrationEndDate: batchConfig.registration_end_date,
+          reminders: [],
+          skipped: [],
+          rejections: (pendingPayments ?? []).map((registration) => ({
+            email: registration.email,
+            name: registration.name,
+            applicationId: registration.application_id,
+          })),
+        });
+      }
+
+      let rejectionsProcessed = 0;
+
+      for (const registration of pendingPayments ?? []) {
+        // Update registration status to rejected
+        const { error: updateError } = await supabaseAdmin
+          .from('registrations')
+          .update({
+            registration_status: 'rejected',
+            rejection_reason: 'Payment details were not submitted within the registration period deadline.',
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', registration.id);
+
+        if (updateError) {
+          console.error(`Error rejecting application ${registration.application_id}:`, updateError);
+          continue;
         }
+
+        // Send rejection email
+        await sendAutoRejectionEmail(
+          supabaseAdmin,
+          registration.id,
+          registration.email,
+          registration.name,
+          registration.application_id
+        );
+        
+        rejectionsProcessed++;
       }
+
+      const result = {
+        success: true,
+        daysRemaining,
+        remindersSent: 0,
+        rejectionsProcessed,
+        message: `Processed ${rejectionsProcessed} auto-rejections`,
+      };
+
+      console.log("Cron job completed:", result);
+      return jsonResponse(result);
     }
-    // Case 2: Within last 7 days - send daily reminders
-    else if (daysRemaining <= 7 && daysRemaining >= 0) {
-      console.log(`Within reminder period (${daysRemaining} days remaining). Sending reminders...`);
-      
-      // Find all applications with pending payment status
-      const { data: pendingPayments, error: pendingError } = await supabaseAdmin
-        .from('registrations')
-        .select('id, email, name, application_id')
-        .eq('payment_status', 'pending')
-        .eq('registration_status', 'pending');
 
-      if (pendingError) {
-        console.error("Error fetching pending payments:", pendingError);
-        throw pendingError;
-      }
+    // Case 2: Registration still open - send whatever the reminder rules say is due
+    const plan = await planReminders(supabaseAdmin, batchConfig.id, daysRemaining);
+
+    if (dryRun) {
+      return jsonResponse({
+        success: true,
+        dryRun,
+        daysRemaining,
+        registrationClosed,
+        registrationEndDate: batchConfig.registration_end_date,
+        maxRemindersPerPerson: plan.maxRemindersPerPerson,
+        reminders: plan.recipients,
+        skipped: plan.skipped,
+        rejections: [],
+      });
+    }
 
-      if (pendingPayments && pendingPayments.length > 0) {
-        console.log(`Found ${pendingPayments.length} applications needing payment reminder`);
-        
-        for (const registration of pendingPayments) {
-          const success = await sendPaymentReminderEmail(
-            registration.email,
-            registration.name,
-            registration.application_id,
-            daysRemaining,
-            batchConfig.registration_end_date
-          );
-          
-          if (success) {
-            remindersSent++;
-          }
+    console.log(`${plan.recipients.length} reminders due, ${plan.skipped.length} skipped (${daysRemaining} days remaining)`);
+
+    let remindersSent = 0;
+
+    for (const recipient of plan.recipients) {
+      // Claim the reminder first so an overlapping run cannot send it twice
+      const { data: claim, error: claimError } = await supabaseAdmin
+        .from('reminder_log')
+        .insert({
+          batch_configuration_id: batchConfig.id,
+          rule_id: recipient.ruleId,
+          email: recipient.email,
+          registration_id: recipient.registrationId,
+          application_ids: recipient.applicationIds,
+          days_remaining: daysRemaining,
+        })
+        .select('id')
+        .single();
+
+      if (claimError || !claim) {
+        if (claimError?.code !== '23505') {
+          console.error(`Error logging reminder for ${recipient.email}:`, claimError);
         }
+        continue;
+      }
+
+      const success = await sendPaymentReminderEmail(
+        supabaseAdmin,
+        recipient.registrationId,
+        recipient.email,
+        recipient.name,
+        recipient.applicationIds.join(", "),
+        daysRemaining,
+        batchConfig.registration_end_date
+      );
+
+      if (success) {
+        remindersSent++;
+      } else {
+        // Release the claim so the next run tries again
+        await supabaseAdmin.from('reminder_log').delete().eq('id', claim.id);
       }
-    } else {
-      console.log(`Not in reminder period yet. ${daysRemaining} days remaining.`);
     }
 
     const result = {
       success: true,
       daysRemaining,
       remindersSent,
-      rejectionsProcessed,
-      message: daysRemaining < 0 
-        ? `Processed ${rejectionsProcessed} auto-rejections`
-        : `Sent ${remindersSent} payment reminders`
+      remindersSkipped: plan.skipped.length,
+      rejectionsProcessed: 0,
+      message: `Sent ${remindersSent} payment reminders`,
     };
 
     console.log("Cron job completed:", result);
 
-    return new Response(JSON.stringify(result), {
-      status: 200,
-      headers: { "Content-Type": "application/json", ...corsHeaders },
-    });
+    return jsonResponse(result);
   } catch (error: unknown) {
     console.error("Error in payment-reminder-cron:", error);
-    return new Response(
-      JSON.stringify({ success: false, error: "Failed to process payment reminders" }),
-      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
-    );
+    return jsonResponse({ success: false, error: "Failed to process payment reminders" }, 500);
   }
 };
 
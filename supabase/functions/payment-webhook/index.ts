@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/paymentProviders.ts";
+import { markOrderPaid } from "../_shared/paymentOrders.ts";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Payment provider webhook
+ *
+ * Called by the provider, not a browser, so it carries no Supabase JWT
+ * (verify_jwt is off for this function only). Requests are authenticated
+ * by the provider's signature instead; anything unsigned is rejected.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "POST") {
+    return jsonResponse({ success: false, error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return jsonResponse({ success: false, error: "Online payment is not available" }, 503);
+    }
+
+    const signature = req.headers.get(provider.webhookSignatureHeader);
+    if (!signature) {
+      return jsonResponse({ success: false, error: "Missing signature" }, 401);
+    }
+
+    const rawBody = await req.text();
+    const event = await provider.parseWebhook(rawBody, signature);
+
+    if (!event) {
+      console.warn("Rejected payment webhook with an invalid signature");
+      return jsonResponse({ success: false, error: "Invalid signature" }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    if (event.type === "captured") {
+      const { data: order } = await supabase
+        .from("payment_orders")
+        .select("amount")
+        .eq("provider_order_id", event.orderId)
+        .maybeSingle();
+
+      if (!order) {
+        console.warn("Webhook for unknown order:", event.orderId);
+      } else if (event.amount < order.amount) {
+        console.error(`Order ${event.orderId} captured ₹${event.amount}, expected ₹${order.amount}; not marking paid`);
+      } else {
+        await markOrderPaid(supabase, event.orderId, event.paymentId);
+      }
+    } else if (event.type === "failed") {
+      await supabase
+        .from("payment_orders")
+        .update({ status: "failed", provider_payment_id: event.paymentId, failure_reason: event.reason })
+        .eq("provider_order_id", event.orderId)
+        .eq("status", "created");
+    } else {
+      console.log("Ignoring payment webhook event:", event.event);
+    }
+
+    // Always acknowledge a correctly signed webhook so the provider stops retrying
+    return jsonResponse({ success: true });
+  } catch (error: unknown) {
+    console.error("Error in payment-webhook:", error);
+    return jsonResponse({ success: false, error: "Webhook processing failed" }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverOutboxEmail, getEmailProvider, processDueEmails, type OutboxRow } from "../_shared/emailOutbox.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/** Most emails an admin can resend in one request */
+const MAX_RESEND_BATCH = 50;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/**
+ * Two modes:
+ * - No body / no ids: scheduled run. Delivers every pending or retrying
+ *   message whose next_attempt_at has passed.
+ * - { ids: string[] }: admin resend from the Email Log. Failed messages are
+ *   reset to a fresh attempt budget and sent immediately.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  console.log("process-email-outbox function called");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const body = await req.json().catch(() => ({}));
+    const ids: unknown = body?.ids;
+
+    if (ids === undefined) {
+      const result = await processDueEmails(supabaseAdmin);
+      console.log("Outbox run completed:", result);
+      return jsonResponse({ success: true, ...result });
+    }
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_RESEND_BATCH || !ids.every((id) => typeof id === "string")) {
+      return jsonResponse({ success: false, error: `ids must be a list of 1-${MAX_RESEND_BATCH} email IDs` }, 400);
+    }
+
+    // Resending is an admin action
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized: No authorization header" }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: "Unauthorized: Invalid token" }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await supabaseClient.rpc("is_admin_or_superadmin", {
+      _user_id: user.id,
+    });
+
+    if (roleError) {
+      console.error("Role check error:", roleError.message);
+      return jsonResponse({ success: false, error: "Error checking user role" }, 500);
+    }
+
+    if (!isAdmin) {
+      return jsonResponse({ success: false, error: "Forbidden: Admin access required" }, 403);
+    }
+
+    // Only failed messages whose content is still stored can be resent
+    const { data: rows, error: resetError } = await supabaseAdmin
+      .from("email_outbox")
+      .update({
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .in("id", ids)
+      .eq("status", "failed")
+      .not("payload", "is", null)
+      .select("id, payload, attempts, max_attempts, sensitive");
+
+    if (resetError) throw resetError;
+
+    const provider = getEmailProvider();
+    const results = [];
+    for (const row of (rows ?? []) as OutboxRow[]) {
+      results.push(await deliverOutboxEmail(supabaseAdmin, row, provider));
+    }
+
+    console.log(`Admin ${user.id} resent ${results.length} of ${ids.length} email(s)`);
+
+    return jsonResponse({
+      success: true,
+      requested: ids.length,
+      skipped: ids.length - results.length,
+      results,
+    });
+  } catch (error: unknown) {
+    console.error("Error in process-email-outbox:", error);
+    return jsonResponse({ success: false, error: "Failed to process email outbox" }, 500);
+  }
+};
+
+serve(handler);
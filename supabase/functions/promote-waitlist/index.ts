@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { defaultFromAddress, renderStoredEmailTemplate, sendEmail } from "../_shared/emailOutbox.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/** Most registrations an admin can promote in one request */
+const MAX_PROMOTION_BATCH = 100;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/**
+ * Promotes waitlisted on-campus registrations into free beds
+ *
+ * Body: { limit: number } - promote up to this many, oldest first. The
+ * database function caps it at the number of free beds, so promotion
+ * never overbooks. Each promoted registrant is emailed.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  console.log("promote-waitlist function called");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized: No authorization header" }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: "Unauthorized: Invalid token" }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await supabaseClient.rpc("is_admin_or_superadmin", {
+      _user_id: user.id,
+    });
+
+    if (roleError) {
+      console.error("Role check error:", roleError.message);
+      return jsonResponse({ success: false, error: "Error checking user role" }, 500);
+    }
+
+    if (!isAdmin) {
+      return jsonResponse({ success: false, error: "Forbidden: Admin access required" }, 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const limit: unknown = body?.limit;
+
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > MAX_PROMOTION_BATCH) {
+      return jsonResponse({ success: false, error: `limit must be a whole number from 1 to ${MAX_PROMOTION_BATCH}` }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: promoted, error: promoteError } = await supabaseAdmin.rpc("promote_waitlisted_registrations", {
+      _limit: limit,
+    });
+
+    if (promoteError) throw promoteError;
+
+    const results = [];
+    for (const registration of promoted ?? []) {
+      const { subject, html } = await renderStoredEmailTemplate(supabaseAdmin, "waitlist_promotion", {
+        name: registration.name,
+        applicationId: registration.application_id,
+      });
+
+      const email = await sendEmail(
+        supabaseAdmin,
+        { from: defaultFromAddress(), to: [registration.email], subject, html },
+        { category: "waitlist_promotion", registrationId: registration.id }
+      );
+
+      results.push({
+        id: registration.id,
+        applicationId: registration.application_id,
+        name: registration.name,
+        emailStatus: email.status,
+      });
+    }
+
+    console.log(`Admin ${user.id} promoted ${results.length} of ${limit} requested from the waitlist`);
+
+    return jsonResponse({ success: true, requested: limit, promoted: results });
+  } catch (error: unknown) {
+    console.error("Error in promote-waitlist:", error);
+    return jsonResponse({ success: false, error: "Failed to promote waitlisted registrations" }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/** Days a deleted registration stays in the recycle bin before the scheduled purge removes it */
+const RETENTION_DAYS = 30;
+
+const PAYMENT_BUCKETS = ["payment-proofs", "payment-receipts"] as const;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+type DeletedRegistration = {
+  id: string;
+  application_id: string;
+  parent_application_id: string | null;
+  payment_proof_url: string | null;
+  payment_receipt_url: string | null;
+};
+
+type PurgeResult = {
+  purged: string[];
+  filesRemoved: number;
+  errors: Array<{ applicationId: string; step: string; message: string }>;
+};
+
+// Stored URLs look like .../storage/v1/object/public/<bucket>/<path>; legacy rows hold the bare path
+function storagePathFromUrl(value: string | null, bucket: string): string | null {
+  if (!value) return null;
+  if (!/^https?:\/\//i.test(value)) return value;
+  const marker = `/object/public/${bucket}/`;
+  const index = value.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(value.slice(index + marker.length).split("?")[0]);
+}
+
+// Same naming rules as list-payment-proofs and list-payment-receipts
+function isApplicationFile(path: string, applicationId: string): boolean {
+  const name = path.toLowerCase().split("/").pop() ?? "";
+  const id = applicationId.toLowerCase();
+  return (
+    name.startsWith(`${id}-`) ||
+    name.startsWith(`combined-${id}-`) ||
+    name.startsWith(`edit-mode-${id}-`) ||
+    name.startsWith(`receipt-${id}-`) ||
+    name.startsWith(`receipt-${id}.`) ||
+    path.toLowerCase().includes(`/${id}/`)
+  );
+}
+
+// A group shares one combined proof; it stays while another registration links to it
+async function isStillReferenced(supabase: SupabaseClient, url: string): Promise<boolean> {
+  for (const column of ["payment_proof_url", "payment_receipt_url"]) {
+    const { count } = await supabase
+      .from("registrations")
+      .select("id", { count: "exact", head: true })
+      .eq(column, url);
+    if (count && count > 0) return true;
+  }
+  return false;
+}
+
+async function findApplicationFiles(
+  supabase: SupabaseClient,
+  bucket: string,
+  registration: DeletedRegistration
+): Promise<string[]> {
+  const paths = new Set<string>();
+
+  for (const url of [registration.payment_proof_url, registration.payment_receipt_url]) {
+    const path = storagePathFromUrl(url, bucket);
+    if (path && url && !(await isStillReferenced(supabase, url))) paths.add(path);
+  }
+
+  for (const prefix of ["", bucket, registration.application_id]) {
+    const { data, error } = await supabase.storage.from(bucket).list(prefix, {
+      limit: 1000,
+      search: prefix === registration.application_id ? undefined : registration.application_id,
+    });
+    if (error || !data) continue;
+    for (const file of data) {
+      const fullPath = prefix ? `${prefix}/${file.name}` : file.name;
+      if (isApplicationFile(fullPath, registration.application_id)) paths.add(fullPath);
+    }
+  }
+
+  return Array.from(paths);
+}
+
+/**
+ * Permanently removes registrations from the recycle bin, together with
+ * their payment proofs and receipts in storage.
+ *
+ * Body: {} - scheduled run: purge everything deleted more than
+ * RETENTION_DAYS ago. Schedule it daily, like payment-reminder-cron.
+ * Body: { registrationIds: string[] } - purge these now; superadmin only.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  console.log("purge-deleted-registrations function called");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const body = await req.json().catch(() => ({}));
+    const registrationIds: unknown = body?.registrationIds;
+
+    let query = supabaseAdmin
+      .from("registrations")
+      .select("id, application_id, parent_application_id, payment_proof_url, payment_receipt_url")
+      .not("deleted_at", "is", null);
+
+    if (registrationIds !== undefined) {
+      if (!Array.isArray(registrationIds) || registrationIds.length === 0 ||
+          !registrationIds.every((id) => typeof id === "string")) {
+        return jsonResponse({ success: false, error: "registrationIds must be a non-empty list of ids" }, 400);
+      }
+
+      const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+      const { data: userData } = token ? await supabaseAdmin.auth.getUser(token) : { data: null };
+      const caller = userData?.user;
+      if (!caller) {
+        return jsonResponse({ success: false, error: "Unauthorized: Invalid token" }, 401);
+      }
+
+      const { data: isSuperadmin, error: roleError } = await supabaseAdmin.rpc("has_role", {
+        _user_id: caller.id,
+        _role: "superadmin",
+      });
+
+      if (roleError || !isSuperadmin) {
+        return jsonResponse({ success: false, error: "Only superadmins can purge registrations" }, 403);
+      }
+
+      query = query.in("id", registrationIds);
+    } else {
+      const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      query = query.lt("deleted_at", cutoff.toISOString());
+    }
+
+    const { data: registrations, error: fetchError } = await query;
+    if (fetchError) throw fetchError;
+
+    // Group members reference their primary, so they have to go first
+    const ordered = ((registrations ?? []) as DeletedRegistration[]).sort(
+      (a, b) => Number(!a.parent_application_id) - Number(!b.parent_application_id)
+    );
+
+    const result: PurgeResult = { purged: [], filesRemoved: 0, errors: [] };
+
+    for (const registration of ordered) {
+      const { error: deleteError } = await supabaseAdmin
+        .from("registrations")
+        .delete()
+        .eq("id", registration.id)
+        .not("deleted_at", "is", null);
+
+      if (deleteError) {
+        // Typically a primary whose group members are still active
+        result.errors.push({ applicationId: registration.application_id, step: "delete", message: deleteError.message });
+        continue;
+      }
+
+      result.purged.push(registration.application_id);
+
+      for (const bucket of PAYMENT_BUCKETS) {
+        const paths = await findApplicationFiles(supabaseAdmin, bucket, registration);
+        if (paths.length === 0) continue;
+
+        const { error: removeError } = await supabaseAdmin.storage.from(bucket).remove(paths);
+        if (removeError) {
+          result.errors.push({ applicationId: registration.application_id, step: `remove ${bucket}`, message: removeError.message });
+        } else {
+          result.filesRemoved += paths.length;
+        }
+      }
+    }
+
+    console.log(`Purged ${result.purged.length} registrations, removed ${result.filesRemoved} files, ${result.errors.length} errors`);
+
+    return jsonResponse({ success: true, ...result });
+  } catch (error: unknown) {
+    console.error("Error in purge-deleted-registrations:", error);
+    return jsonResponse({ success: false, error: "Failed to purge deleted registrations" }, 500);
+  }
+};
+
+serve(handler);
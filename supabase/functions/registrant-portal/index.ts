@@ -0,0 +1,282 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPortalSessionEmail } from "../_shared/portalSession.ts";
+import { isBillable, ledgerGroupId, summarizeLedger } from "../_shared/paymentLedger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const MAX_EDIT_REQUEST_LENGTH = 1000;
+const MAX_CANCELLATION_REASON_LENGTH = 1000;
+
+const REGISTRATION_FIELDS =
+  "id, application_id, parent_application_id, name, email, stay_type, attendee_type, registration_fee, payment_status, registration_status, accounts_verified, payment_receipt_url, hostel_name, rejection_reason, edit_mode_enabled, qr_code_data, checked_in_at, created_at";
+
+interface BedRow {
+  registration_id: string;
+  bed_number: number;
+  hostel_rooms: { room_number: string; hostels: { name: string } | null } | null;
+}
+
+interface PortalRequest {
+  portalToken: string;
+  action: "list" | "request_edit" | "request_cancellation" | "sign_out";
+  registrationId?: string;
+  changes?: string;
+  reason?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/** Escapes LIKE wildcards so an email is matched literally by ilike */
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { portalToken, action, registrationId, changes, reason }: PortalRequest = await req.json();
+
+    if (!portalToken || typeof portalToken !== "string") {
+      return jsonResponse({ error: "Please sign in again.", code: "SESSION_EXPIRED" }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const email = await getPortalSessionEmail(supabase, portalToken);
+    if (!email) {
+      return jsonResponse({ error: "Your session has expired. Please sign in again.", code: "SESSION_EXPIRED" }, 401);
+    }
+
+    if (action === "sign_out") {
+      await supabase.from("registrant_portal_sessions").delete().eq("email", email);
+      return jsonResponse({ success: true });
+    }
+
+    // --- Every application under this email, plus the rest of their groups ---
+    const { data: own, error: ownError } = await supabase
+      .from("registrations")
+      .select(REGISTRATION_FIELDS)
+      .ilike("email", escapeLike(email))
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true });
+
+    if (ownError) throw ownError;
+
+    const groupIds = new Set<string>();
+    for (const reg of own ?? []) {
+      groupIds.add(reg.parent_application_id ?? reg.application_id);
+    }
+
+    let registrations = own ?? [];
+    if (groupIds.size > 0) {
+      const ids = Array.from(groupIds).join(",");
+      const { data: groupMembers, error: groupError } = await supabase
+        .from("registrations")
+        .select(REGISTRATION_FIELDS)
+        .or(`application_id.in.(${ids}),parent_application_id.in.(${ids})`)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: true });
+
+      if (groupError) throw groupError;
+
+      const seen = new Set(registrations.map((r) => r.id));
+      registrations = [...registrations, ...(groupMembers ?? []).filter((r) => !seen.has(r.id))];
+    }
+
+    if (action === "request_edit") {
+      const target = registrations.find((r) => r.id === registrationId);
+      if (!target) {
+        return jsonResponse({ error: "Application not found for this email.", code: "NOT_FOUND" }, 404);
+      }
+
+      const trimmed = typeof changes === "string" ? changes.trim() : "";
+      if (trimmed.length < 5 || trimmed.length > MAX_EDIT_REQUEST_LENGTH) {
+        return jsonResponse({
+          error: `Please describe the change in 5 to ${MAX_EDIT_REQUEST_LENGTH} characters.`,
+          code: "INVALID_REQUEST",
+        }, 400);
+      }
+
+      const { data: pending } = await supabase
+        .from("registration_edit_requests")
+        .select("id")
+        .eq("registration_id", target.id)
+        .eq("status", "pending")
+        .limit(1);
+
+      if (pending && pending.length > 0) {
+        return jsonResponse({
+          error: "An edit request for this application is already awaiting review.",
+          code: "EDIT_REQUEST_PENDING",
+        }, 409);
+      }
+
+      const { error: insertError } = await supabase.from("registration_edit_requests").insert({
+        registration_id: target.id,
+        requested_by_email: email,
+        requested_changes: trimmed,
+      });
+
+      if (insertError) throw insertError;
+
+      console.log(`Edit request created for ${target.application_id} by ${email}`);
+      return jsonResponse({ success: true });
+    }
+
+    if (action === "request_cancellation") {
+      const target = registrations.find((r) => r.id === registrationId);
+      if (!target) {
+        return jsonResponse({ error: "Application not found for this email.", code: "NOT_FOUND" }, 404);
+      }
+
+      if (!isBillable(target) || target.checked_in_at) {
+        return jsonResponse({
+          error: "This application can no longer be cancelled.",
+          code: "NOT_CANCELLABLE",
+        }, 400);
+      }
+
+      const trimmed = typeof reason === "string" ? reason.trim() : "";
+      if (trimmed.length < 5 || trimmed.length > MAX_CANCELLATION_REASON_LENGTH) {
+        return jsonResponse({
+          error: `Please give a reason in 5 to ${MAX_CANCELLATION_REASON_LENGTH} characters.`,
+          code: "INVALID_REQUEST",
+        }, 400);
+      }
+
+      const { data: pending } = await supabase
+        .from("cancellation_requests")
+        .select("id")
+        .eq("registration_id", target.id)
+        .eq("status", "pending")
+        .limit(1);
+
+      if (pending && pending.length > 0) {
+        return jsonResponse({
+          error: "A cancellation request for this application is already awaiting review.",
+          code: "CANCELLATION_PENDING",
+        }, 409);
+      }
+
+      const { error: insertError } = await supabase.from("cancellation_requests").insert({
+        registration_id: target.id,
+        requested_by_email: email,
+        reason: trimmed,
+      });
+
+      if (insertError) throw insertError;
+
+      console.log(`Cancellation request created for ${target.application_id} by ${email}`);
+      return jsonResponse({ success: true });
+    }
+
+    // --- action === "list": attach bed assignments, latest requests and group balances ---
+    const registrationIds = registrations.map((r) => r.id);
+
+    const [
+      { data: beds, error: bedsError },
+      { data: editRequests, error: requestsError },
+      { data: cancellationRequests, error: cancellationsError },
+      { data: transactions, error: transactionsError },
+    ] = await Promise.all([
+      supabase
+        .from("bed_assignments")
+        .select("registration_id, bed_number, hostel_rooms(room_number, hostels(name))")
+        .in("registration_id", registrationIds),
+      supabase
+        .from("registration_edit_requests")
+        .select("registration_id, requested_changes, status, created_at")
+        .in("registration_id", registrationIds)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("cancellation_requests")
+        .select("registration_id, reason, status, refund_amount, created_at")
+        .in("registration_id", registrationIds)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("payment_transactions")
+        .select("group_application_id, registration_id, kind, amount, transaction_date, created_at")
+        .in("group_application_id", Array.from(groupIds)),
+    ]);
+
+    if (bedsError) throw bedsError;
+    if (requestsError) throw requestsError;
+    if (cancellationsError) throw cancellationsError;
+    if (transactionsError) throw transactionsError;
+
+    const balances: Record<string, ReturnType<typeof summarizeLedger>> = {};
+    for (const groupId of groupIds) {
+      balances[groupId] = summarizeLedger(
+        registrations.filter((reg) => ledgerGroupId(reg) === groupId),
+        (transactions ?? []).filter((entry) => entry.group_application_id === groupId)
+      );
+    }
+
+    return jsonResponse({
+      email,
+      balances,
+      registrations: registrations.map((reg) => {
+        const bed = ((beds ?? []) as unknown as BedRow[]).find((b) => b.registration_id === reg.id);
+        const editRequest = (editRequests ?? []).find((r) => r.registration_id === reg.id);
+        const cancellationRequest = (cancellationRequests ?? []).find((r) => r.registration_id === reg.id);
+        const isApproved = reg.registration_status === "approved";
+
+        return {
+          id: reg.id,
+          applicationId: reg.application_id,
+          parentApplicationId: reg.parent_application_id,
+          name: reg.name,
+          isOwn: reg.email.toLowerCase() === email,
+          stayType: reg.stay_type,
+          attendeeType: reg.attendee_type,
+          registrationFee: reg.registration_fee,
+          paymentStatus: reg.payment_status,
+          registrationStatus: reg.registration_status,
+          accountsVerified: reg.accounts_verified,
+          rejectionReason: reg.rejection_reason,
+          editModeEnabled: reg.edit_mode_enabled,
+          receiptUrl: reg.payment_receipt_url,
+          hostelName: bed?.hostel_rooms?.hostels?.name ?? reg.hostel_name,
+          roomNumber: bed?.hostel_rooms?.room_number ?? null,
+          bedNumber: bed?.bed_number ?? null,
+          // Check-in codes are only valid once approved
+          qrCodeData: isApproved ? reg.qr_code_data : null,
+          checkedInAt: reg.checked_in_at,
+          createdAt: reg.created_at,
+          editRequest: editRequest
+            ? {
+                changes: editRequest.requested_changes,
+                status: editRequest.status,
+                createdAt: editRequest.created_at,
+              }
+            : null,
+          cancellationRequest: cancellationRequest
+            ? {
+                reason: cancellationRequest.reason,
+                status: cancellationRequest.status,
+                refundAmount: cancellationRequest.refund_amount,
+                createdAt: cancellationRequest.created_at,
+              }
+            : null,
+        };
+      }),
+    });
+  } catch (error: unknown) {
+    console.error("registrant-portal error:", error);
+    return jsonResponse({ error: "An unexpected error occurred." }, 500);
+  }
+};
+
+serve(handler);
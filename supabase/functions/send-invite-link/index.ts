@@ -1,5 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { renderStoredEmailTemplate, sendEmail } from "../_shared/emailOutbox.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,7 +16,6 @@ serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const resendApiKey = Deno.env.get("RESEND_API_KEY")!;
     const fromEmail = Deno.env.get("RESEND_FROM") || "noreply@alumnimeetrishivalley.org";
 
     // Verify caller is admin
@@ -82,61 +82,27 @@ serve(async (req: Request) => {
       timeStyle: "short",
     });
 
-    // Send email via Resend
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${resendApiKey}`,
-      },
-      body: JSON.stringify({
-        from: fromEmail,
-        to: [email],
-        subject: "You're Invited to Register – Rishi Valley Alumni Meet 2026",
-        html: `
-          <div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h1 style="color: #1a1a1a; font-size: 24px;">Rishi Valley Alumni Meet 2026</h1>
-            <p style="color: #444; font-size: 16px; line-height: 1.6;">
-              Dear Alumni,
-            </p>
-            <p style="color: #444; font-size: 16px; line-height: 1.6;">
-              You have been invited to register for the Rishi Valley Alumni Meet 2026. 
-              Please use the link below to complete your registration.
-            </p>
-            <div style="text-align: center; margin: 30px 0;">
-              <a href="${registrationLink}" 
-                 style="background-color: #1a1a1a; color: #ffffff; padding: 14px 28px; 
-                        text-decoration: none; border-radius: 8px; font-size: 16px; display: inline-block;">
-                Complete Registration
-              </a>
-            </div>
-            <p style="color: #888; font-size: 14px; line-height: 1.6;">
-              ⏰ <strong>This link expires on ${expiresFormatted} IST.</strong> 
-              Please complete your registration before the link expires.
-            </p>
-            <p style="color: #888; font-size: 14px; line-height: 1.6;">
-              If the button doesn't work, copy and paste this URL into your browser:<br/>
-              <a href="${registrationLink}" style="color: #666;">${registrationLink}</a>
-            </p>
-            <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;" />
-            <p style="color: #aaa; font-size: 12px;">
-              Rishi Valley Alumni Meet 2026 · This is an automated invitation.
-            </p>
-          </div>
-        `,
-      }),
+    const { subject, html } = await renderStoredEmailTemplate(supabaseAdmin, "invite_link", {
+      registrationLink,
+      expiresAt: expiresFormatted,
     });
 
-    if (!emailResponse.ok) {
-      const errorText = await emailResponse.text();
-      console.error("Resend error:", errorText);
+    // Send email via the outbox; transient provider errors are retried in the background
+    const emailResult = await sendEmail(
+      supabaseAdmin,
+      { from: fromEmail, to: [email], subject, html },
+      { category: "invite_link" }
+    );
+
+    if (emailResult.status === "failed") {
+      console.error("Invite email failed:", emailResult.error);
       return new Response(JSON.stringify({ error: "Failed to send email" }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    return new Response(JSON.stringify({ success: true }), {
+    return new Response(JSON.stringify({ success: true, queued: emailResult.status !== "sent" }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
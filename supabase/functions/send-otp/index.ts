@@ -1,21 +1,32 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getEmailProvider, renderStoredEmailTemplate, sendEmail } from "../_shared/emailOutbox.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
 const RESEND_FROM = Deno.env.get("RESEND_FROM") ?? "onboarding@resend.dev";
 
+/** Codes per email per day: one while registering, a few more for portal sign-in */
+const DAILY_OTP_LIMITS = { registration: 1, portal: 5 } as const;
+type OtpPurpose = keyof typeof DAILY_OTP_LIMITS;
+
+/** Uniformly random six-digit code */
+const generateOtp = (): string => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+};
+
 serve(async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { email } = await req.json();
+    const { email, purpose: requestedPurpose } = await req.json();
+    const purpose: OtpPurpose = requestedPurpose === "portal" ? "portal" : "registration";
 
     if (!email || typeof email !== "string") {
       return new Response(
@@ -36,22 +47,22 @@ serve(async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Rate limit: max 1 OTP per email per day (24 hours)
+    // Rate limit per email and purpose over the last 24 hours
     const { data: recentOtps } = await supabase
       .from("email_otps")
       .select("id")
       .eq("email", email.toLowerCase().trim())
+      .eq("purpose", purpose)
       .gte("created_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
 
-    if (recentOtps && recentOtps.length >= 1) {
+    if (recentOtps && recentOtps.length >= DAILY_OTP_LIMITS[purpose]) {
       return new Response(
         JSON.stringify({ error: "A verification code has already been sent to this email today. Please check your inbox (and spam folder) or try again tomorrow." }),
         { status: 429, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    // Generate 6-digit OTP
-    const otp = String(Math.floor(100000 + Math.random() * 900000));
+    const otp = generateOtp();
     const expiresAt = new Date(Date.now() + 5 * 60 * 1000).toISOString(); // 5 minutes
 
     // Store OTP
@@ -59,6 +70,7 @@ serve(async (req: Request): Promise<Response> => {
       email: email.toLowerCase().trim(),
       otp_code: otp,
       expires_at: expiresAt,
+      purpose,
     });
 
     if (insertError) {
@@ -69,42 +81,26 @@ serve(async (req: Request): Promise<Response> => {
       );
     }
 
-    // Send OTP via Resend
-    if (!RESEND_API_KEY) {
-      console.warn("RESEND_API_KEY not configured");
+    // Send OTP via the email outbox; sensitive so the code is not kept in the log
+    const provider = getEmailProvider();
+    if (!provider) {
+      console.warn("Email provider not configured");
       return new Response(
         JSON.stringify({ error: "Email service not configured." }),
         { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: RESEND_FROM,
-        to: [email.trim()],
-        subject: "Your Email Verification Code - Rishi Valley Alumni Meet",
-        html: `
-          <div style="font-family: Georgia, serif; max-width: 500px; margin: 0 auto; padding: 30px; background: #faf8f5; border-radius: 12px;">
-            <h2 style="color: #5c4a3d; text-align: center; margin-bottom: 20px;">Email Verification</h2>
-            <p style="color: #333; text-align: center;">Your verification code for the Alumni Meet registration is:</p>
-            <div style="background: #fff; border: 2px solid #b8860b; border-radius: 10px; padding: 20px; margin: 20px 0; text-align: center;">
-              <span style="font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #5c4a3d; font-family: monospace;">${otp}</span>
-            </div>
-            <p style="color: #666; text-align: center; font-size: 14px;">This code expires in <strong>5 minutes</strong>.</p>
-            <p style="color: #999; text-align: center; font-size: 12px; margin-top: 20px;">If you did not request this code, please ignore this email.</p>
-          </div>
-        `,
-      }),
-    });
+    const { subject, html } = await renderStoredEmailTemplate(supabase, "otp", { otp, expiryMinutes: 5 });
+
+    const emailResult = await sendEmail(
+      supabase,
+      { from: RESEND_FROM, to: [email.trim()], subject, html },
+      { category: "otp", sensitive: true, provider }
+    );
 
-    if (!emailResponse.ok) {
-      const err = await emailResponse.json();
-      console.error("Resend error:", err);
+    if (emailResult.status !== "sent") {
+      console.error("OTP email failed:", emailResult.error);
       return new Response(
         JSON.stringify({ error: "Failed to send verification email. Please try again." }),
         { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
@@ -1,8 +1,16 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
-const RESEND_FROM = Deno.env.get("RESEND_FROM") ?? "onboarding@resend.dev";
+import QRCode from "https://esm.sh/qrcode@1.5.4";
+import { parseCheckInCode, signCheckInCode } from "../_shared/checkInCode.ts";
+import {
+  defaultFromAddress,
+  renderStoredEmailTemplate,
+  sendEmail,
+  type EmailAttachment,
+  type EmailMessage,
+} from "../_shared/emailOutbox.ts";
+import { buildCheckInQrBlock, buildReceiptNotice, buildRejectionReasonBlock } from "../_shared/emailTemplates.ts";
+const CHECK_IN_SIGNING_SECRET = Deno.env.get("CHECK_IN_SIGNING_SECRET");
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -142,14 +150,15 @@ const handler = async (req: Request): Promise<Response> => {
     // Verify the application exists and get registration details including receipt
     const { data: registration, error: regError } = await supabaseClient
       .from('registrations')
-      .select('email, application_id, payment_receipt_url')
+      .select('id, email, application_id, payment_receipt_url, qr_code_data')
       .eq('application_id', applicationId)
-      .single();
+      .is('deleted_at', null)
+      .maybeSingle();
 
     if (regError || !registration) {
       console.error("Registration lookup error:", regError?.message);
       return new Response(
-        JSON.stringify({ success: false, error: "Application not found" }),
+        JSON.stringify({ success: false, error: "Application not found", code: "NOT_FOUND" }),
         { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
@@ -171,76 +180,51 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Sending ${type} email to ${to} for application ${applicationId} with ${receiptUrls.length} receipt(s)`);
 
-    // Build email content based on type
-    let subject: string;
-    let htmlContent: string;
-
+    // Signed check-in code for approved attendees. An existing code is reused so
+    // resending the approval email does not invalidate a QR the attendee already has.
+    let qrCodeData: string | null = null;
+    let qrCodePng: string | null = null;
     if (type === "approved") {
-      subject = `Registration Approved - Application ID: ${applicationId}`;
-      htmlContent = `
-        <div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #2e7d32; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">
-            🎉 Registration Approved!
-          </h1>
-          <p>Dear ${name},</p>
-          <p>We are pleased to inform you that your registration for the <strong>Rishi Valley Alumni Meet</strong> has been approved!</p>
-          <div style="background: #e8f5e9; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2e7d32;">
-            <p style="margin: 0; font-size: 14px; color: #666;">Your Application ID:</p>
-            <p style="margin: 10px 0 0; font-size: 24px; font-weight: bold; color: #2e7d32; font-family: monospace;">
-              ${applicationId}
-            </p>
-          </div>
-          ${receiptUrls.length > 0 ? `
-          <div style="background: #fff3e0; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f57c00;">
-            <p style="margin: 0; font-size: 14px; color: #666;">📄 Payment Receipt${receiptUrls.length > 1 ? 's' : ''}:</p>
-            <p style="margin: 10px 0 0; color: #333;">
-              ${receiptUrls.length > 1 
-                ? `${receiptUrls.length} payment receipts are attached to this email.`
-                : 'Your payment receipt is attached to this email.'
-              }
-            </p>
-          </div>
-          ` : ''}
-          <p>We look forward to seeing you at the event!</p>
-          <p style="margin-top: 30px;">
-            Best regards,<br>
-            <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
-          </p>
-        </div>
-      `;
-    } else {
-      subject = `Registration Update - Application ID: ${applicationId}`;
-      htmlContent = `
-        <div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #c62828; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">
-            Registration Update
-          </h1>
-          <p>Dear ${name},</p>
-          <p>We regret to inform you that your registration for the <strong>Rishi Valley Alumni Meet</strong> could not be approved at this time.</p>
-          <div style="background: #ffebee; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #c62828;">
-            <p style="margin: 0; font-size: 14px; color: #666;">Application ID:</p>
-            <p style="margin: 10px 0 0; font-size: 18px; font-weight: bold; color: #c62828; font-family: monospace;">
-              ${applicationId}
-            </p>
-            ${rejectionReason ? `
-              <p style="margin: 15px 0 0; font-size: 14px; color: #666;">Reason:</p>
-              <p style="margin: 5px 0 0; color: #333;">${rejectionReason}</p>
-            ` : ''}
-          </div>
-          <p>If you believe this was in error or have questions, please contact the organizing committee.</p>
-          <p style="margin-top: 30px;">
-            Best regards,<br>
-            <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
-          </p>
-        </div>
-      `;
+      if (!CHECK_IN_SIGNING_SECRET) {
+        console.error("CHECK_IN_SIGNING_SECRET is not set; sending approval email without a check-in QR code");
+      } else {
+        qrCodeData = registration.qr_code_data && parseCheckInCode(registration.qr_code_data)?.code.applicationId === applicationId
+          ? registration.qr_code_data
+          : await signCheckInCode(applicationId, CHECK_IN_SIGNING_SECRET);
+
+        if (qrCodeData !== registration.qr_code_data) {
+          const { error: qrError } = await supabaseClient
+            .from('registrations')
+            .update({ qr_code_data: qrCodeData })
+            .eq('id', registration.id);
+
+          if (qrError) {
+            console.error("Failed to store check-in code:", qrError.message);
+            return new Response(
+              JSON.stringify({ success: false, error: "Failed to generate check-in code" }),
+              { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+            );
+          }
+        }
+
+        const dataUrl: string = await QRCode.toDataURL(qrCodeData, { width: 320, margin: 2 });
+        qrCodePng = dataUrl.replace(/^data:image\/png;base64,/, "");
+      }
     }
 
     // BCC for superuser on all emails
     const bccEmail = "superuseralumnimeet@rishivalley.org";
 
     // Prepare attachments for approved emails with PDF receipts
-    const attachments: Array<{ filename: string; content: string }> = [];
+    const attachments: EmailAttachment[] = [];
+
+    if (qrCodePng) {
+      attachments.push({
+        filename: `Check-In-QR-${applicationId}.png`,
+        content: qrCodePng,
+        content_id: "check-in-qr",
+      });
+    }
     
     if (type === "approved" && receiptUrls.length > 0) {
       console.log(`Fetching ${receiptUrls.length} PDF receipt(s) for attachment...`);
@@ -265,13 +249,32 @@ const handler = async (req: Request): Promise<Response> => {
       console.log(`Total attachments prepared: ${attachments.length}`);
     }
 
-    // Send email via Resend API
-    const emailPayload: Record<string, unknown> = {
-      from: `Rishi Valley Alumni Meet <${RESEND_FROM}>`,
+    // Service role: admins can only read email_outbox and email_templates rows
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { subject, html } = type === "approved"
+      ? await renderStoredEmailTemplate(supabaseAdmin, "registration_approved", {
+          name,
+          applicationId,
+          receiptNotice: buildReceiptNotice(receiptUrls.length),
+          checkInQr: buildCheckInQrBlock(applicationId, !!qrCodePng),
+        })
+      : await renderStoredEmailTemplate(supabaseAdmin, "registration_rejected", {
+          name,
+          applicationId,
+          rejectionReason: buildRejectionReasonBlock(rejectionReason),
+        });
+
+    // Send email via the outbox
+    const emailPayload: EmailMessage = {
+      from: defaultFromAddress(),
       to: [to],
       bcc: [bccEmail],
-      subject: subject,
-      html: htmlContent,
+      subject,
+      html,
     };
 
     // Add attachments if any
@@ -279,28 +282,26 @@ const handler = async (req: Request): Promise<Response> => {
       emailPayload.attachments = attachments;
     }
 
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify(emailPayload),
+    const emailResult = await sendEmail(supabaseAdmin, emailPayload, {
+      category: type === "approved" ? "registration_approved" : "registration_rejected",
+      registrationId: registration.id,
     });
 
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.json();
-      console.error("Resend error:", errorData);
+    if (emailResult.status === "failed") {
       return new Response(
-        JSON.stringify({ success: false, error: `Email error: ${JSON.stringify(errorData)}` }),
+        JSON.stringify({ success: false, error: `Email error: ${emailResult.error}`, outboxId: emailResult.id }),
         { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    const result = await emailResponse.json();
-    console.log("Email sent successfully via Resend:", result);
+    console.log(`Email ${emailResult.status} via outbox:`, emailResult.id);
 
-    return new Response(JSON.stringify({ success: true, message: "Email sent successfully" }), {
+    return new Response(JSON.stringify({
+      success: true,
+      message: emailResult.status === "sent" ? "Email sent successfully" : "Email queued for retry",
+      qrCodeData,
+      outboxId: emailResult.id,
+    }), {
       status: 200,
       headers: {
         "Content-Type": "application/json",
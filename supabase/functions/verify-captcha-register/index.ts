@@ -1,20 +1,28 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { buildPricingContext, feeScheduleFromRow, priceRegistration } from "../_shared/pricing.ts";
+import { defaultFromAddress, renderStoredEmailTemplate, sendEmail } from "../_shared/emailOutbox.ts";
+import { buildRegistrationsTable, stayTypeLabel } from "../_shared/emailTemplates.ts";
+import { getPaymentProvider } from "../_shared/paymentProviders.ts";
+import {
+  checkRateLimit,
+  getCaptchaVerifier,
+  getClientIp,
+  recordRegistrationAttempt,
+} from "../_shared/botProtection.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
-const RESEND_FROM = Deno.env.get("RESEND_FROM") ?? "onboarding@resend.dev";
-
 interface AttendeeInfo {
   name: string;
   email: string; // Primary registrant's email (always set)
   secondaryEmail?: string; // Optional secondary email for individual confirmation
   phone: string;
   occupation: string;
+  attendeeType?: string; // "alumni" (default), "spouse" or "child"
   boardType: string;
   yearOfPassing: number;
   stayType: string;
@@ -31,12 +39,16 @@ interface BotValidation {
 
 interface RegistrationRequest {
   botValidation: BotValidation;
+  /** reCAPTCHA v3 token for the "register" action */
+  captchaToken?: string;
   paymentProof?: {
     base64: string;
     name: string;
     type: string;
     size?: number;
   };
+  /** "online" registers with payment pending; the browser then pays through payment-gateway */
+  paymentMethod?: "proof" | "online";
   inviteToken?: string;
   // Main registrant info
   name: string;
@@ -60,26 +72,92 @@ interface RegistrationRequest {
   additionalAttendees?: AttendeeInfo[];
 }
 
-function validateBotProtection(validation: BotValidation): { success: boolean; reason?: string } {
-  // Honeypot check disabled: browser autofill / password managers were filling
-  // the hidden field for legitimate users, causing "Edge Function returned a non-2xx
-  // status code" errors. We log occurrences for monitoring but no longer block.
-  if (validation?.honeypot && validation.honeypot.length > 0) {
-    console.warn("Honeypot field was filled (likely browser autofill, not blocking)");
+const CAPTCHA_ACTION = "register";
+
+type BotCheckResult =
+  | { success: true }
+  | { success: false; status: number; code: string; error: string };
+
+/**
+ * Rate limits, then verifies the captcha token. Every attempt is recorded
+ * in registration_attempts, which is what the rate limits count.
+ *
+ * The honeypot and fill time are recorded as signals only: browser
+ * autofill and password managers fill the hidden field and submit quickly
+ * for legitimate users, so neither blocks a registration on its own.
+ */
+async function verifyBotProtection(
+  req: Request,
+  supabase: SupabaseClient,
+  data: RegistrationRequest
+): Promise<BotCheckResult> {
+  const ip = getClientIp(req);
+  const email = (data.email ?? "").toLowerCase().trim();
+  const userAgent = req.headers.get("user-agent");
+  const fillTimeMs = (data.botValidation?.submitTime ?? 0) - (data.botValidation?.formLoadTime ?? 0);
+  const signals = {
+    honeypotFilled: !!data.botValidation?.honeypot,
+    fillTimeSeconds: Math.round(fillTimeMs / 1000),
+    attendees: (data.additionalAttendees?.length ?? 0) + 1,
+  };
+
+  const reject = async (
+    status: number,
+    code: string,
+    error: string,
+    extra: { captchaScore?: number; detail?: string } = {}
+  ): Promise<BotCheckResult> => {
+    console.warn("Registration attempt rejected:", code, email, ip, extra.detail ?? "");
+    await recordRegistrationAttempt(supabase, {
+      ip,
+      email,
+      userAgent,
+      outcome: "rejected",
+      reason: code,
+      captchaScore: extra.captchaScore,
+      details: { ...signals, ...(extra.detail ? { detail: extra.detail } : {}) },
+    });
+    return { success: false, status, code, error };
+  };
+
+  const rateLimit = await checkRateLimit(supabase, ip, email);
+  if (rateLimit.limited) {
+    return reject(429, rateLimit.code, "Too many registration attempts. Please wait an hour and try again.");
+  }
+
+  const verifier = getCaptchaVerifier();
+  if (!verifier) {
+    // Fail closed: an unset key must not quietly turn bot protection off
+    console.error("Captcha is not configured (RECAPTCHA_SECRET_KEY unset); refusing registration");
+    return reject(503, "CAPTCHA_UNAVAILABLE", "Registration is temporarily unavailable. Please try again later.");
+  }
+  if (!data.captchaToken) {
+    return reject(400, "CAPTCHA_MISSING", "Security check could not run. Please disable ad-blockers for this site and try again.");
   }
 
-  // Timing check removed: caused false positives for legitimate users with browser
-  // autofill or those who submit quickly. The honeypot field alone is sufficient —
-  // it catches automated bots without adding friction for real users.
-  const timeDiff = (validation?.submitTime ?? 0) - (validation?.formLoadTime ?? 0);
+  const captcha = await verifier.verify(data.captchaToken, CAPTCHA_ACTION, ip);
+  const captchaScore = captcha.score;
+  if (!captcha.success) {
+    return reject(400, "CAPTCHA_FAILED", "Security check failed. Please try again.", {
+      captchaScore: captcha.score,
+      detail: captcha.reason,
+    });
+  }
 
-  // Check for unreasonably long time (more than 1 hour - might be stale/automated)
-  if (timeDiff > 3600000) {
-    console.warn("Suspicious: form took too long", { timeDiff });
-    // Don't fail, just log - could be legitimate user
+  if (signals.honeypotFilled) {
+    console.warn("Honeypot field was filled (likely browser autofill, not blocking)");
   }
 
-  console.log("Bot validation passed", { timeDiff: `${(timeDiff / 1000).toFixed(1)}s` });
+  await recordRegistrationAttempt(supabase, {
+    ip,
+    email,
+    userAgent,
+    outcome: "accepted",
+    captchaScore,
+    details: { ...signals, captcha: verifier?.name ?? "unconfigured" },
+  });
+
+  console.log("Bot protection passed", { captcha: verifier.name, score: captchaScore, fillTimeMs });
   return { success: true };
 }
 
@@ -89,6 +167,7 @@ interface RegistrationInfo {
   email: string;
   stayType: string;
   registrationFee: number;
+  waitlisted: boolean;
 }
 
 function normalizeGender(input: string): "M" | "F" | null {
@@ -148,103 +227,38 @@ function getProofExtension(fileName: string, contentType: string): string {
 }
 
 async function sendConsolidatedConfirmationEmail(
+  supabase: SupabaseClient,
+  registrationId: string,
   email: string,
   primaryName: string,
   primaryApplicationId: string,
   allRegistrations: RegistrationInfo[],
   totalFee: number
 ): Promise<void> {
-  if (!RESEND_API_KEY) {
-    console.warn("RESEND_API_KEY not configured, skipping confirmation email");
-    return;
-  }
-
   try {
-    // Build the registrations list HTML
-    const registrationsHtml = allRegistrations.map((reg, index) => `
-      <tr style="border-bottom: 1px solid #e0e0e0;">
-        <td style="padding: 12px; font-family: monospace; font-weight: bold; color: #5c4a3d;">${reg.applicationId}</td>
-        <td style="padding: 12px;">${reg.name}${index === 0 ? ' <span style="color: #b8860b; font-size: 12px;">(Primary)</span>' : ''}</td>
-        <td style="padding: 12px;">${reg.stayType === 'on-campus' ? 'On Campus' : 'Staying Outside'}</td>
-        <td style="padding: 12px; text-align: right;">₹${reg.registrationFee.toLocaleString('en-IN')}</td>
-      </tr>
-    `).join('');
-
-    const subject = allRegistrations.length > 1 
-      ? `Registration Received - ${allRegistrations.length} Registrations (Primary: ${primaryApplicationId})`
-      : `Registration Received - Application ID: ${primaryApplicationId}`;
-
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: `Rishi Valley Alumni Meet <${RESEND_FROM}>`,
-        to: [email],
-        subject: subject,
-        html: `
-          <div style="font-family: Georgia, serif; max-width: 700px; margin: 0 auto; padding: 20px;">
-            <h1 style="color: #5c4a3d; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">
-              Registration Received
-            </h1>
-            <p>Dear ${primaryName},</p>
-            <p>Thank you for registering for the Rishi Valley Alumni Meet! Your registration has been received along with your payment proof.</p>
-            
-            ${allRegistrations.length > 1 ? `
-              <p>You have registered <strong>${allRegistrations.length} people</strong> for the event. Here are the details:</p>
-            ` : ''}
-            
-            <div style="background: #f5f5dc; padding: 20px; border-radius: 8px; margin: 20px 0; overflow-x: auto;">
-              <table style="width: 100%; border-collapse: collapse; min-width: 500px;">
-                <thead>
-                  <tr style="background: #e8e4d8; border-bottom: 2px solid #b8860b;">
-                    <th style="padding: 12px; text-align: left; color: #5c4a3d;">Application ID</th>
-                    <th style="padding: 12px; text-align: left; color: #5c4a3d;">Name</th>
-                    <th style="padding: 12px; text-align: left; color: #5c4a3d;">Stay Type</th>
-                    <th style="padding: 12px; text-align: right; color: #5c4a3d;">Fee</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  ${registrationsHtml}
-                </tbody>
-                <tfoot>
-                  <tr style="background: #e8e4d8; font-weight: bold;">
-                    <td colspan="3" style="padding: 12px; text-align: right; color: #5c4a3d;">Total Amount Paid:</td>
-                    <td style="padding: 12px; text-align: right; color: #5c4a3d; font-size: 18px;">₹${totalFee.toLocaleString('en-IN')}</td>
-                  </tr>
-                </tfoot>
-              </table>
-            </div>
-            
-            <div style="background: #d4edda; border: 1px solid #c3e6cb; border-radius: 8px; padding: 15px; margin: 20px 0;">
-              <p style="margin: 0; color: #155724;"><strong>✅ Payment Proof Submitted</strong></p>
-              <p style="margin: 10px 0 0; color: #155724; font-size: 14px;">
-                Your payment proof has been received. The organizing committee will verify and confirm your registration via email.
-              </p>
-            </div>
-            
-            <div style="background: #fff3cd; border: 1px solid #ffc107; border-radius: 8px; padding: 15px; margin: 20px 0;">
-              <p style="margin: 0; color: #856404;"><strong>⚠️ Important:</strong> Please save your Primary Application ID (<strong>${primaryApplicationId}</strong>) for future reference.</p>
-            </div>
-            
-            <p style="margin-top: 30px;">
-              Best regards,<br>
-              <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
-            </p>
-          </div>
-        `,
-      }),
+    const registrationSummary = allRegistrations.length > 1
+      ? `${allRegistrations.length} Registrations (Primary: ${primaryApplicationId})`
+      : `Application ID: ${primaryApplicationId}`;
+
+    const { subject, html } = await renderStoredEmailTemplate(supabase, "registration_confirmation", {
+      name: primaryName,
+      applicationId: primaryApplicationId,
+      registrationSummary,
+      registrationCount: allRegistrations.length,
+      groupNote: allRegistrations.length > 1
+        ? `You have registered ${allRegistrations.length} people for the event. Here are the details:`
+        : "",
+      registrationsTable: buildRegistrationsTable(allRegistrations, totalFee),
+      totalFee: `₹${totalFee.toLocaleString('en-IN')}`,
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error("Resend error:", errorData);
-    } else {
-      const result = await response.json();
-      console.log("Consolidated confirmation email sent to:", email, result);
-    }
+    const result = await sendEmail(
+      supabase,
+      { from: defaultFromAddress(), to: [email], subject, html },
+      { category: "registration_confirmation", registrationId }
+    );
+
+    console.log(`Consolidated confirmation email ${result.status} for:`, email, result.id);
   } catch (error) {
     console.error("Error sending confirmation email:", error);
     // Don't throw - email failure shouldn't fail the registration
@@ -253,84 +267,34 @@ async function sendConsolidatedConfirmationEmail(
 
 // Send individual confirmation email to attendee with their own email
 async function sendAttendeeConfirmationEmail(
+  supabase: SupabaseClient,
+  registrationId: string,
   attendeeEmail: string,
   attendeeName: string,
   attendeeApplicationId: string,
   primaryApplicationId: string,
   primaryName: string,
   stayType: string,
-  registrationFee: number
+  registrationFee: number,
+  waitlisted: boolean
 ): Promise<void> {
-  if (!RESEND_API_KEY) {
-    console.warn("RESEND_API_KEY not configured, skipping attendee email");
-    return;
-  }
-
   try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: `Rishi Valley Alumni Meet <${RESEND_FROM}>`,
-        to: [attendeeEmail],
-        subject: `Registration Received - Application ID: ${attendeeApplicationId}`,
-        html: `
-          <div style="font-family: Georgia, serif; max-width: 700px; margin: 0 auto; padding: 20px;">
-            <h1 style="color: #5c4a3d; border-bottom: 2px solid #b8860b; padding-bottom: 10px;">
-              Registration Received
-            </h1>
-            <p>Dear ${attendeeName},</p>
-            <p>You have been registered for the Rishi Valley Alumni Meet by ${primaryName}. Your registration has been received along with payment proof.</p>
-            
-            <div style="background: #f5f5dc; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="color: #5c4a3d; margin-top: 0;">Your Registration Details</h3>
-              <table style="width: 100%; border-collapse: collapse;">
-                <tr>
-                  <td style="padding: 8px 0; font-weight: bold; color: #5c4a3d;">Application ID:</td>
-                  <td style="padding: 8px 0; font-family: monospace; font-weight: bold;">${attendeeApplicationId}</td>
-                </tr>
-                <tr>
-                  <td style="padding: 8px 0; font-weight: bold; color: #5c4a3d;">Stay Type:</td>
-                  <td style="padding: 8px 0;">${stayType === 'on-campus' ? 'On Campus' : 'Staying Outside'}</td>
-                </tr>
-                <tr>
-                  <td style="padding: 8px 0; font-weight: bold; color: #5c4a3d;">Registration Fee:</td>
-                  <td style="padding: 8px 0;">₹${registrationFee.toLocaleString('en-IN')}</td>
-                </tr>
-              </table>
-            </div>
-            
-            <div style="background: #d4edda; border: 1px solid #c3e6cb; border-radius: 8px; padding: 15px; margin: 20px 0;">
-              <p style="margin: 0; color: #155724;"><strong>✅ Payment Proof Submitted</strong></p>
-              <p style="margin: 10px 0 0; color: #155724; font-size: 14px;">
-                Your payment proof has been received. The organizing committee will verify and confirm your registration via email.
-              </p>
-            </div>
-            
-            <div style="background: #fff3cd; border: 1px solid #ffc107; border-radius: 8px; padding: 15px; margin: 20px 0;">
-              <p style="margin: 0; color: #856404;"><strong>ℹ️ Note:</strong> Your registration is part of a group registration managed by ${primaryName}.</p>
-              <p style="margin: 10px 0 0; color: #856404;">Primary Application ID: <strong>${primaryApplicationId}</strong></p>
-            </div>
-            
-            <p style="margin-top: 30px;">
-              Best regards,<br>
-              <strong>Rishi Valley Alumni Meet Organizing Committee</strong>
-            </p>
-          </div>
-        `,
-      }),
+    const { subject, html } = await renderStoredEmailTemplate(supabase, "attendee_confirmation", {
+      name: attendeeName,
+      applicationId: attendeeApplicationId,
+      primaryName,
+      primaryApplicationId,
+      stayType: stayTypeLabel(stayType, waitlisted),
+      registrationFee: `₹${registrationFee.toLocaleString('en-IN')}`,
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error("Resend error for attendee email:", errorData);
-    } else {
-      const result = await response.json();
-      console.log("Individual confirmation email sent to attendee:", attendeeEmail, result);
-    }
+    const result = await sendEmail(
+      supabase,
+      { from: defaultFromAddress(), to: [attendeeEmail], subject, html },
+      { category: "attendee_confirmation", registrationId }
+    );
+
+    console.log(`Individual confirmation email ${result.status} for attendee:`, attendeeEmail, result.id);
   } catch (error) {
     console.error("Error sending attendee confirmation email:", error);
     // Don't throw - email failure shouldn't fail the registration
@@ -348,25 +312,24 @@ serve(async (req: Request): Promise<Response> => {
     console.log("Registration request received for:", data.email);
     console.log("Additional attendees count:", data.additionalAttendees?.length || 0);
 
-    // Validate bot protection (honeypot + timing)
-    const botResult = validateBotProtection(data.botValidation);
-    
+    // Create Supabase client with service role for inserting
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Rate limits + captcha, before any other work
+    const botResult = await verifyBotProtection(req, supabase, data);
+
     if (!botResult.success) {
-      console.warn("Bot protection failed for:", data.email, "reason:", botResult.reason);
       return new Response(
-        JSON.stringify({ 
-          error: "Verification failed. Please try again.",
-          code: "BOT_DETECTED"
-        }),
+        JSON.stringify({ error: botResult.error, code: botResult.code }),
         {
-          status: 400,
+          status: botResult.status,
           headers: { "Content-Type": "application/json", ...corsHeaders },
         }
       );
     }
 
-    console.log("Bot protection verified successfully");
-
     // --- SERVER-SIDE: Validate email and phone formats ---
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     const phoneRegex = /^\+?[0-9]{10,15}$/;
@@ -438,18 +401,15 @@ serve(async (req: Request): Promise<Response> => {
       }
     }
 
-    // Create Supabase client with service role for inserting
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
     // --- SERVER-SIDE: Validate invite token if provided ---
+    let invite: { id: string; used: boolean; expires_at: string; force_outside_only: boolean } | null = null;
     if (data.inviteToken) {
-      const { data: invite, error: inviteError } = await supabase
+      const { data: inviteRow, error: inviteError } = await supabase
         .from("registration_invites")
-        .select("id, used, expires_at")
+        .select("id, used, expires_at, force_outside_only")
         .eq("token", data.inviteToken)
         .single();
+      invite = inviteRow;
 
       if (inviteError || !invite) {
         return new Response(
@@ -471,7 +431,70 @@ serve(async (req: Request): Promise<Response> => {
           { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
         );
       }
+    }
+
+    // --- SERVER-SIDE: Recompute every fee from stay type, batch, fee schedule and invite ---
+    // The client-submitted fees are only checked, never trusted.
+    const { data: batchRows, error: batchError } = await supabase.rpc("get_open_batch_configuration");
+    if (batchError) {
+      console.error("Error loading batch configuration for pricing:", batchError);
+      throw new Error("Failed to load registration configuration");
+    }
+    const batch = batchRows?.[0];
+
+    // Same window as the landing page and form: public registrations need an open period
+    if (!invite && !batch) {
+      return new Response(
+        JSON.stringify({ error: "Registration is not open: the registration period has ended or has not started yet.", code: "REGISTRATION_CLOSED" }),
+        { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { data: scheduleRows, error: scheduleError } = await supabase.rpc("get_active_fee_schedule");
+    if (scheduleError) {
+      console.error("Error loading fee schedule for pricing:", scheduleError);
+      throw new Error("Failed to load fee schedule");
+    }
+
+    const pricing = priceRegistration(
+      [
+        { name: data.name, stayType: data.stayType, registrationFee: data.registrationFee },
+        ...(data.additionalAttendees ?? []).map((att) => ({
+          name: att.name,
+          stayType: att.stayType,
+          category: att.attendeeType,
+          registrationFee: att.registrationFee,
+        })),
+      ],
+      buildPricingContext({
+        schedule: feeScheduleFromRow(scheduleRows?.[0]),
+        showStayOption: batch?.show_stay_option,
+        showOutsideOption: batch?.show_outside_option,
+        forceOutsideOnly: invite?.force_outside_only,
+        viaInvite: !!invite,
+      })
+    );
+
+    if (!pricing.ok) {
+      console.warn("Fee validation failed for:", data.email, pricing.error);
+      return new Response(
+        JSON.stringify({ error: pricing.error.message, code: pricing.error.code }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const feeBreakdown = pricing.breakdown;
+    console.log("Fees recomputed server-side, total:", feeBreakdown.total);
+
+    const payingOnline = data.paymentMethod === "online";
+    if (payingOnline && !getPaymentProvider()) {
+      return new Response(
+        JSON.stringify({ error: "Online payment is not available. Please upload your payment proof instead.", code: "ONLINE_PAYMENT_UNAVAILABLE" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
 
+    if (invite) {
       // Mark invite as used atomically
       const { error: markError } = await supabase
         .from("registration_invites")
@@ -490,39 +513,42 @@ serve(async (req: Request): Promise<Response> => {
       console.log("Invite token validated and marked as used:", data.inviteToken);
     }
 
-    // --- SERVER-SIDE: Validate and upload payment proof ---
-    if (!data.paymentProof?.base64 || !data.paymentProof?.name || !data.paymentProof?.type) {
-      console.warn("Registration rejected: no payment proof payload provided");
-      return new Response(
-        JSON.stringify({
-          error: "Payment proof is required. Please upload your payment proof and try again.",
-          code: "MISSING_PROOF",
-        }),
-        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
+    // --- SERVER-SIDE: Validate and upload payment proof (online payments have none yet) ---
+    let proofBytes: Uint8Array | null = null;
+    if (!payingOnline) {
+      if (!data.paymentProof?.base64 || !data.paymentProof?.name || !data.paymentProof?.type) {
+        console.warn("Registration rejected: no payment proof payload provided");
+        return new Response(
+          JSON.stringify({
+            error: "Payment proof is required. Please upload your payment proof and try again.",
+            code: "MISSING_PROOF",
+          }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
 
-    const allowedTypes = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
-    if (!allowedTypes.includes(data.paymentProof.type)) {
-      return new Response(
-        JSON.stringify({
-          error: "Unsupported payment proof file type. Please upload JPG, PNG, WebP, or PDF.",
-          code: "INVALID_PROOF_TYPE",
-        }),
-        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
+      const allowedTypes = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+      if (!allowedTypes.includes(data.paymentProof.type)) {
+        return new Response(
+          JSON.stringify({
+            error: "Unsupported payment proof file type. Please upload JPG, PNG, WebP, or PDF.",
+            code: "INVALID_PROOF_TYPE",
+          }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
 
-    const proofBytes = base64ToBytes(data.paymentProof.base64);
-    const proofSize = data.paymentProof.size ?? proofBytes.byteLength;
-    if (proofSize > 5 * 1024 * 1024 || proofBytes.byteLength > 5 * 1024 * 1024) {
-      return new Response(
-        JSON.stringify({
-          error: "Payment proof must be 5MB or smaller.",
-          code: "PROOF_TOO_LARGE",
-        }),
-        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+      proofBytes = base64ToBytes(data.paymentProof.base64);
+      const proofSize = data.paymentProof.size ?? proofBytes.byteLength;
+      if (proofSize > 5 * 1024 * 1024 || proofBytes.byteLength > 5 * 1024 * 1024) {
+        return new Response(
+          JSON.stringify({
+            error: "Payment proof must be 5MB or smaller.",
+            code: "PROOF_TOO_LARGE",
+          }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
     }
 
     // Generate application ID for main registrant using the database function
@@ -537,36 +563,40 @@ serve(async (req: Request): Promise<Response> => {
     console.log("Generated application ID:", applicationId);
 
     const isBulkRegistration = !!(data.additionalAttendees && data.additionalAttendees.length > 0);
-    const proofExtension = getProofExtension(data.paymentProof.name, data.paymentProof.type);
-    const paymentProofFileName = isBulkRegistration
-      ? `combined-${applicationId}-${Date.now()}.${proofExtension}`
-      : `${applicationId}-${Date.now()}.${proofExtension}`;
-
-    const { error: proofUploadError } = await supabase.storage
-      .from("payment-proofs")
-      .upload(paymentProofFileName, proofBytes, {
-        upsert: true,
-        cacheControl: "3600",
-        contentType: data.paymentProof.type,
-      });
-
-    if (proofUploadError) {
-      console.error("Payment proof upload failed:", proofUploadError);
-      return new Response(
-        JSON.stringify({
-          error: "Unable to upload payment proof right now. Please try again.",
-          code: "PROOF_UPLOAD_FAILED",
-        }),
-        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
+    let paymentProofFileName: string | null = null;
+    let paymentProofUrl: string | null = null;
+    if (proofBytes && data.paymentProof) {
+      const proofExtension = getProofExtension(data.paymentProof.name, data.paymentProof.type);
+      paymentProofFileName = isBulkRegistration
+        ? `combined-${applicationId}-${Date.now()}.${proofExtension}`
+        : `${applicationId}-${Date.now()}.${proofExtension}`;
+
+      const { error: proofUploadError } = await supabase.storage
+        .from("payment-proofs")
+        .upload(paymentProofFileName, proofBytes, {
+          upsert: true,
+          cacheControl: "3600",
+          contentType: data.paymentProof.type,
+        });
+
+      if (proofUploadError) {
+        console.error("Payment proof upload failed:", proofUploadError);
+        return new Response(
+          JSON.stringify({
+            error: "Unable to upload payment proof right now. Please try again.",
+            code: "PROOF_UPLOAD_FAILED",
+          }),
+          { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
 
-    const { data: proofUrlData } = supabase.storage
-      .from("payment-proofs")
-      .getPublicUrl(paymentProofFileName);
+      const { data: proofUrlData } = supabase.storage
+        .from("payment-proofs")
+        .getPublicUrl(paymentProofFileName);
 
-    const paymentProofUrl = proofUrlData.publicUrl;
-    console.log("Payment proof uploaded successfully:", paymentProofFileName);
+      paymentProofUrl = proofUrlData.publicUrl;
+      console.log("Payment proof uploaded successfully:", paymentProofFileName);
+    }
 
     // Insert main registrant
     const { data: registration, error: insertError } = await supabase
@@ -589,9 +619,11 @@ serve(async (req: Request): Promise<Response> => {
         stay_type: data.stayType,
         tshirt_size: normalizedPrimaryTshirtSize,
         gender: normalizedPrimaryGender,
-        registration_fee: data.registrationFee,
+        registration_fee: feeBreakdown.lines[0].fee,
+        // Set by the waitlist_when_on_campus_full trigger once every bed is spoken for
+        waitlisted_at: null,
         payment_proof_url: paymentProofUrl,
-        payment_status: "submitted",
+        payment_status: paymentProofUrl ? "submitted" : "pending",
         registration_status: "pending",
         via_invite: data.inviteToken ? true : false,
         invite_token: data.inviteToken || null,
@@ -601,7 +633,9 @@ serve(async (req: Request): Promise<Response> => {
 
     if (insertError) {
       console.error("Error inserting registration:", insertError);
-      await supabase.storage.from("payment-proofs").remove([paymentProofFileName]);
+      if (paymentProofFileName) {
+        await supabase.storage.from("payment-proofs").remove([paymentProofFileName]);
+      }
       
       // Check for duplicate email
       if (insertError.code === "23505") {
@@ -629,6 +663,7 @@ serve(async (req: Request): Promise<Response> => {
       email: registration.email,
       stayType: registration.stay_type,
       registrationFee: registration.registration_fee,
+      waitlisted: registration.waitlisted_at !== null,
     }];
 
     // Process additional attendees if any
@@ -639,13 +674,16 @@ serve(async (req: Request): Promise<Response> => {
       secondaryEmail?: string;
       stayType: string;
       registrationFee: number;
+      waitlisted: boolean;
       hasSecondaryEmail: boolean;
     }[] = [];
+    // Registration row IDs by application ID, used to link outbox emails
+    const attendeeRegistrationIds = new Map<string, string>();
 
     if (data.additionalAttendees && data.additionalAttendees.length > 0) {
       console.log("Processing additional attendees...");
       
-      for (const attendee of data.additionalAttendees) {
+      for (const [attendeeIndex, attendee] of data.additionalAttendees.entries()) {
         const attendeeGender = normalizeGender(attendee.gender);
         const attendeeTshirtSize = normalizeTshirtSize(attendee.tshirtSize);
 
@@ -680,6 +718,7 @@ serve(async (req: Request): Promise<Response> => {
             email: attendeeEmail, // Use primary email
             phone: attendee.phone,
             occupation: attendee.occupation,
+            attendee_type: feeBreakdown.lines[attendeeIndex + 1].category,
             board_type: attendee.boardType,
             year_of_passing: attendee.yearOfPassing,
             address_line1: data.addressLine1,
@@ -692,9 +731,10 @@ serve(async (req: Request): Promise<Response> => {
             stay_type: attendee.stayType,
             tshirt_size: attendeeTshirtSize,
             gender: attendeeGender,
-            registration_fee: attendee.registrationFee,
+            registration_fee: feeBreakdown.lines[attendeeIndex + 1].fee,
+            waitlisted_at: null,
             payment_proof_url: paymentProofUrl,
-            payment_status: "submitted",
+            payment_status: paymentProofUrl ? "submitted" : "pending",
             registration_status: "pending",
             via_invite: data.inviteToken ? true : false,
             invite_token: data.inviteToken || null,
@@ -710,6 +750,7 @@ serve(async (req: Request): Promise<Response> => {
           }
         } else {
           console.log("Attendee registered:", attendeeAppId);
+          attendeeRegistrationIds.set(attendeeReg.application_id, attendeeReg.id);
           
           // Check if attendee has a secondary email for individual notification
           const hasSecondaryEmail = attendee.secondaryEmail && attendee.secondaryEmail.trim() !== "";
@@ -721,6 +762,7 @@ serve(async (req: Request): Promise<Response> => {
             secondaryEmail: attendee.secondaryEmail, // Store secondary email for sending individual notification
             stayType: attendeeReg.stay_type,
             registrationFee: attendeeReg.registration_fee,
+            waitlisted: attendeeReg.waitlisted_at !== null,
             hasSecondaryEmail: !!hasSecondaryEmail, // Flag to determine if separate email should be sent
           });
 
@@ -731,17 +773,18 @@ serve(async (req: Request): Promise<Response> => {
             email: attendeeReg.email,
             stayType: attendeeReg.stay_type,
             registrationFee: attendeeReg.registration_fee,
+            waitlisted: attendeeReg.waitlisted_at !== null,
           });
         }
       }
     }
 
-    // Calculate total fee
-    const totalFee = data.registrationFee + 
-      (data.additionalAttendees?.reduce((sum, a) => sum + a.registrationFee, 0) || 0);
+    const totalFee = feeBreakdown.total;
 
     // Send ONE consolidated confirmation email to the primary registrant only
     await sendConsolidatedConfirmationEmail(
+      supabase,
+      registration.id,
       data.email,
       data.name,
       applicationId,
@@ -753,13 +796,16 @@ serve(async (req: Request): Promise<Response> => {
     for (const attendeeReg of additionalRegistrations) {
       if (attendeeReg.hasSecondaryEmail && attendeeReg.secondaryEmail) {
         await sendAttendeeConfirmationEmail(
+          supabase,
+          attendeeRegistrationIds.get(attendeeReg.applicationId)!,
           attendeeReg.secondaryEmail, // Send to secondary email
           attendeeReg.name,
           attendeeReg.applicationId,
           applicationId,
           data.name,
           attendeeReg.stayType,
-          attendeeReg.registrationFee
+          attendeeReg.registrationFee,
+          attendeeReg.waitlisted
         );
       }
     }
@@ -774,12 +820,15 @@ serve(async (req: Request): Promise<Response> => {
           email: registration.email,
           stayType: registration.stay_type,
           registrationFee: registration.registration_fee,
+          waitlisted: registration.waitlisted_at !== null,
           paymentStatus: registration.payment_status,
           createdAt: registration.created_at,
         },
         additionalRegistrations,
         totalFee,
+        feeBreakdown,
         totalRegistrants: 1 + additionalRegistrations.length,
+        waitlistedCount: allRegistrations.filter((reg) => reg.waitlisted).length,
       }),
       {
         status: 200,
@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyCheckInCode } from "../_shared/checkInCode.ts";
+
+const CHECK_IN_SIGNING_SECRET = Deno.env.get("CHECK_IN_SIGNING_SECRET");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized: No authorization header" }, 401);
+    }
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error("Authentication failed:", authError?.message);
+      return jsonResponse({ success: false, error: "Unauthorized: Invalid token" }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await supabaseClient.rpc("is_admin_or_superadmin", {
+      _user_id: user.id,
+    });
+
+    if (roleError) {
+      console.error("Role check error:", roleError.message);
+      return jsonResponse({ success: false, error: "Error checking user role" }, 500);
+    }
+
+    if (!isAdmin) {
+      return jsonResponse({ success: false, error: "Forbidden: Admin access required" }, 403);
+    }
+
+    if (!CHECK_IN_SIGNING_SECRET) {
+      console.error("CHECK_IN_SIGNING_SECRET is not set");
+      return jsonResponse({ success: false, error: "Check-in is not configured" }, 500);
+    }
+
+    const { code } = await req.json();
+    if (!code || typeof code !== "string") {
+      return jsonResponse({ success: false, error: "Missing check-in code", code: "MALFORMED_CODE" }, 400);
+    }
+
+    // --- Verify signature ---
+    const verified = await verifyCheckInCode(code, CHECK_IN_SIGNING_SECRET);
+    if (!verified.ok) {
+      console.warn("Rejected check-in code:", verified.error.code);
+      return jsonResponse({ success: false, error: verified.error.message, code: verified.error.code }, 400);
+    }
+
+    const { applicationId } = verified.code;
+
+    const { data: registration, error: regError } = await supabaseClient
+      .from("registrations")
+      .select("id, application_id, parent_application_id, name, stay_type, registration_status, qr_code_data, checked_in_at")
+      .eq("application_id", applicationId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (regError) throw regError;
+
+    if (!registration) {
+      return jsonResponse({ success: false, error: "Registration not found", code: "NOT_FOUND" }, 404);
+    }
+
+    const attendee = {
+      applicationId: registration.application_id,
+      parentApplicationId: registration.parent_application_id,
+      name: registration.name,
+      stayType: registration.stay_type,
+    };
+
+    // A re-issued code replaces the stored one; older copies are no longer valid
+    if (registration.qr_code_data !== code.trim()) {
+      return jsonResponse({
+        success: false,
+        error: "This check-in code has been replaced. Ask the attendee for their latest approval email.",
+        code: "CODE_SUPERSEDED",
+        attendee,
+      }, 400);
+    }
+
+    if (registration.registration_status !== "approved") {
+      return jsonResponse({
+        success: false,
+        error: `Registration is ${registration.registration_status}, not approved.`,
+        code: "NOT_APPROVED",
+        attendee,
+      }, 400);
+    }
+
+    if (registration.checked_in_at) {
+      return jsonResponse({
+        success: false,
+        error: "Attendee has already checked in.",
+        code: "ALREADY_CHECKED_IN",
+        attendee,
+        checkedInAt: registration.checked_in_at,
+      }, 409);
+    }
+
+    // --- Record arrival; the IS NULL guard rejects a concurrent duplicate scan ---
+    const checkedInAt = new Date().toISOString();
+    const { data: updated, error: updateError } = await supabaseClient
+      .from("registrations")
+      .update({ checked_in_at: checkedInAt, checked_in_by: user.id })
+      .eq("id", registration.id)
+      .is("checked_in_at", null)
+      .select("checked_in_at");
+
+    if (updateError) throw updateError;
+
+    if (!updated || updated.length === 0) {
+      const { data: current } = await supabaseClient
+        .from("registrations")
+        .select("checked_in_at")
+        .eq("id", registration.id)
+        .single();
+
+      return jsonResponse({
+        success: false,
+        error: "Attendee has already checked in.",
+        code: "ALREADY_CHECKED_IN",
+        attendee,
+        checkedInAt: current?.checked_in_at ?? null,
+      }, 409);
+    }
+
+    console.log(`Checked in ${applicationId} by ${user.id}`);
+
+    return jsonResponse({
+      success: true,
+      registrationId: registration.id,
+      attendee,
+      checkedInAt: updated[0].checked_in_at,
+    });
+  } catch (error: unknown) {
+    console.error("Error verifying check-in:", error);
+    return jsonResponse({ success: false, error: "Failed to verify check-in" }, 500);
+  }
+};
+
+serve(handler);
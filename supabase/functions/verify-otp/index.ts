@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createPortalSession } from "../_shared/portalSession.ts";
+
+/** Guesses allowed per code; the code is invalidated after the last miss */
+const MAX_OTP_ATTEMPTS = 5;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,7 +16,7 @@ serve(async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { email, otp } = await req.json();
+    const { email, otp, purpose } = await req.json();
 
     if (!email || !otp) {
       return new Response(
@@ -28,9 +32,10 @@ serve(async (req: Request): Promise<Response> => {
     // Find valid, unexpired, unverified OTP
     const { data: otpRecords, error: fetchError } = await supabase
       .from("email_otps")
-      .select("id, otp_code, expires_at")
+      .select("id, otp_code, expires_at, attempts")
       .eq("email", email.toLowerCase().trim())
       .eq("verified", false)
+      .lt("attempts", MAX_OTP_ATTEMPTS)
       .gte("expires_at", new Date().toISOString())
       .order("created_at", { ascending: false })
       .limit(1);
@@ -44,7 +49,31 @@ serve(async (req: Request): Promise<Response> => {
 
     const record = otpRecords[0];
 
-    if (record.otp_code !== otp.trim()) {
+    // Count the guess before comparing, so parallel guesses each use up an attempt
+    const { data: counted, error: countError } = await supabase
+      .from("email_otps")
+      .update({ attempts: record.attempts + 1 })
+      .eq("id", record.id)
+      .eq("attempts", record.attempts)
+      .select("id");
+
+    if (countError) throw countError;
+
+    if (!counted || counted.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Please wait a moment and try again.", code: "OTP_INVALID" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    if (record.otp_code !== String(otp).trim()) {
+      if (record.attempts + 1 >= MAX_OTP_ATTEMPTS) {
+        console.warn("OTP invalidated after too many incorrect attempts for:", email);
+        return new Response(
+          JSON.stringify({ error: "Too many incorrect attempts. Please request a new code.", code: "OTP_EXPIRED" }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
       return new Response(
         JSON.stringify({ error: "Invalid verification code. Please check and try again.", code: "OTP_INVALID" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
@@ -57,15 +86,33 @@ serve(async (req: Request): Promise<Response> => {
       .update({ verified: true })
       .eq("id", record.id);
 
-    // Cleanup old OTPs for this email
+    // Retire older codes for this email; the rows stay, as send-otp's daily limits count them
     await supabase
       .from("email_otps")
-      .delete()
+      .update({ expires_at: new Date().toISOString() })
       .eq("email", email.toLowerCase().trim())
+      .eq("verified", false)
       .neq("id", record.id);
 
     console.log("OTP verified successfully for:", email);
 
+    // Portal sign-in: issue a bearer token for the registrant-portal function
+    if (purpose === "portal") {
+      try {
+        const { portalToken, expiresAt } = await createPortalSession(supabase, email);
+        return new Response(
+          JSON.stringify({ success: true, verified: true, portalToken, expiresAt }),
+          { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      } catch (sessionError) {
+        console.error("Failed to create portal session:", sessionError);
+        return new Response(
+          JSON.stringify({ error: "Failed to sign in. Please try again." }),
+          { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+    }
+
     return new Response(
       JSON.stringify({ success: true, verified: true }),
       { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
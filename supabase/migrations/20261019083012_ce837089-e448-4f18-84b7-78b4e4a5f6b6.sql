@@ -0,0 +1,98 @@
+-- Fee schedules: per-period pricing, replacing the hard-coded ₹15,000 / ₹7,500
+CREATE TABLE public.fee_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_configuration_id uuid NOT NULL UNIQUE REFERENCES public.batch_configuration(id) ON DELETE CASCADE,
+  on_campus_fee integer NOT NULL DEFAULT 15000,
+  outside_fee integer NOT NULL DEFAULT 7500,
+  -- Early-bird rates apply up to and including this instant
+  early_bird_deadline timestamp with time zone,
+  early_bird_on_campus_fee integer,
+  early_bird_outside_fee integer,
+  -- Child/spouse rate for additional attendees who are not alumni
+  companion_on_campus_fee integer,
+  companion_outside_fee integer,
+  -- Override for registrations made through a private invite link
+  invite_on_campus_fee integer,
+  invite_outside_fee integer,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT fee_schedules_non_negative CHECK (
+    on_campus_fee >= 0 AND outside_fee >= 0
+    AND COALESCE(early_bird_on_campus_fee, 0) >= 0 AND COALESCE(early_bird_outside_fee, 0) >= 0
+    AND COALESCE(companion_on_campus_fee, 0) >= 0 AND COALESCE(companion_outside_fee, 0) >= 0
+    AND COALESCE(invite_on_campus_fee, 0) >= 0 AND COALESCE(invite_outside_fee, 0) >= 0
+  )
+);
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Same access model as batch_configuration: superadmin manages, public reads via RPC
+CREATE POLICY "Superadmin can view fee schedules"
+ON public.fee_schedules FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'superadmin'));
+
+CREATE POLICY "Superadmin can insert fee schedules"
+ON public.fee_schedules FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'superadmin'));
+
+CREATE POLICY "Superadmin can update fee schedules"
+ON public.fee_schedules FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'superadmin'));
+
+CREATE POLICY "Superadmin can delete fee schedules"
+ON public.fee_schedules FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'superadmin'));
+
+CREATE TRIGGER update_fee_schedules_updated_at
+BEFORE UPDATE ON public.fee_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Give every existing period the current default prices
+INSERT INTO public.fee_schedules (batch_configuration_id)
+SELECT id FROM public.batch_configuration
+ON CONFLICT (batch_configuration_id) DO NOTHING;
+
+-- Active schedule: the one attached to the currently open period, otherwise the
+-- most recently started period (so invite registrations outside a window still
+-- use configured prices). Used by the registration form and verify-captcha-register.
+CREATE OR REPLACE FUNCTION public.get_active_fee_schedule()
+ RETURNS TABLE(batch_configuration_id uuid, on_campus_fee integer, outside_fee integer, early_bird_deadline timestamp with time zone, early_bird_on_campus_fee integer, early_bird_outside_fee integer, companion_on_campus_fee integer, companion_outside_fee integer, invite_on_campus_fee integer, invite_outside_fee integer)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    fs.batch_configuration_id,
+    fs.on_campus_fee,
+    fs.outside_fee,
+    fs.early_bird_deadline,
+    fs.early_bird_on_campus_fee,
+    fs.early_bird_outside_fee,
+    fs.companion_on_campus_fee,
+    fs.companion_outside_fee,
+    fs.invite_on_campus_fee,
+    fs.invite_outside_fee
+  FROM public.fee_schedules fs
+  JOIN public.batch_configuration bc ON bc.id = fs.batch_configuration_id
+  ORDER BY
+    (bc.is_registration_open = true
+      AND (
+        (bc.registration_start_date IS NOT NULL AND bc.registration_end_date IS NOT NULL
+         AND now() >= bc.registration_start_date
+         AND now() <= (bc.registration_end_date + interval '18 hours 30 minutes' + interval '1 day'))
+        OR
+        (bc.registration_start_date IS NULL AND bc.registration_end_date IS NULL)
+      )) DESC,
+    bc.registration_start_date DESC NULLS LAST
+  LIMIT 1;
+$function$;
+
+-- Additional attendees may be spouses or children of alumni (companion rate)
+ALTER TABLE public.registrations
+  ADD COLUMN IF NOT EXISTS attendee_type text NOT NULL DEFAULT 'alumni'
+  CHECK (attendee_type IN ('alumni', 'spouse', 'child'));
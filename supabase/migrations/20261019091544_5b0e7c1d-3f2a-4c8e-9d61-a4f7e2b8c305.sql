@@ -0,0 +1,9 @@
+-- QR check-in: qr_code_data holds the signed code issued on approval;
+-- arrival is recorded once by the verify-check-in edge function
+ALTER TABLE public.registrations
+  ADD COLUMN IF NOT EXISTS checked_in_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS checked_in_by uuid;
+
+CREATE INDEX IF NOT EXISTS idx_registrations_checked_in_at
+  ON public.registrations(checked_in_at)
+  WHERE checked_in_at IS NOT NULL;
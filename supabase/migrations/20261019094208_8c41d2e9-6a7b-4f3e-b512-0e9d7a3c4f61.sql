@@ -0,0 +1,48 @@
+-- Registrant portal (/my-registration): sessions issued by verify-otp after an
+-- email OTP, and edit requests that feed the admin edit_mode_* workflow.
+CREATE TABLE public.registrant_portal_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  -- SHA-256 of the bearer token; the token itself is only returned to the client
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only edge functions (service role) read or write sessions
+ALTER TABLE public.registrant_portal_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_registrant_portal_sessions_email ON public.registrant_portal_sessions(email);
+
+CREATE TABLE public.registration_edit_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  registration_id uuid NOT NULL REFERENCES public.registrations(id) ON DELETE CASCADE,
+  requested_by_email text NOT NULL,
+  requested_changes text NOT NULL,
+  -- pending: awaiting superadmin; accepted: edit mode enabled; dismissed: no change
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.registration_edit_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view edit requests"
+ON public.registration_edit_requests FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Superadmin can update edit requests"
+ON public.registration_edit_requests FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'superadmin'));
+
+CREATE INDEX idx_registration_edit_requests_registration ON public.registration_edit_requests(registration_id);
+CREATE INDEX idx_registration_edit_requests_pending ON public.registration_edit_requests(status) WHERE status = 'pending';
+
+CREATE TRIGGER update_registration_edit_requests_updated_at
+BEFORE UPDATE ON public.registration_edit_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Gender segregation for hostels: 'M' / 'F' restricts a hostel to one gender
+-- (matching registrations.gender); NULL means the hostel is mixed and the
+-- allocator keeps genders apart at room level instead
+ALTER TABLE public.hostels
+  ADD COLUMN IF NOT EXISTS gender text;
+
+ALTER TABLE public.hostels
+  ADD CONSTRAINT hostels_gender_check CHECK (gender IS NULL OR gender IN ('M', 'F'));
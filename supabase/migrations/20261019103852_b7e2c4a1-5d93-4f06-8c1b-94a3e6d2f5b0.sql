@@ -0,0 +1,10 @@
+-- Room attributes used when assigning beds. A room's gender overrides its
+-- hostel's (NULL = follow the hostel); the flags describe the room itself
+ALTER TABLE public.hostel_rooms
+  ADD COLUMN IF NOT EXISTS gender text,
+  ADD COLUMN IF NOT EXISTS is_ground_floor boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_accessible boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS has_attached_washroom boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.hostel_rooms
+  ADD CONSTRAINT hostel_rooms_gender_check CHECK (gender IS NULL OR gender IN ('M', 'F'));
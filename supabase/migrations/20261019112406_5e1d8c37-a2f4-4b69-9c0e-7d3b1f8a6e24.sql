@@ -0,0 +1,41 @@
+-- Transactional email outbox: every message sent by an edge function is
+-- recorded here with its delivery status, retried with backoff by
+-- process-email-outbox, and listed on the admin Email Log screen.
+CREATE TABLE public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category text NOT NULL,
+  to_email text NOT NULL,
+  subject text NOT NULL,
+  -- Provider request body (from, to, bcc, subject, html, attachments);
+  -- cleared after sending for sensitive messages such as OTP codes
+  payload jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'retrying', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamp with time zone DEFAULT now(),
+  last_error text,
+  provider text,
+  provider_message_id text,
+  registration_id uuid REFERENCES public.registrations(id) ON DELETE SET NULL,
+  sensitive boolean NOT NULL DEFAULT false,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Edge functions write with the service role; admins only read
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email outbox"
+ON public.email_outbox FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox(next_attempt_at) WHERE status IN ('pending', 'retrying');
+CREATE INDEX idx_email_outbox_created_at ON public.email_outbox(created_at DESC);
+CREATE INDEX idx_email_outbox_registration ON public.email_outbox(registration_id);
+
+CREATE TRIGGER update_email_outbox_updated_at
+BEFORE UPDATE ON public.email_outbox
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,47 @@
+-- Admin-edited email templates. Defaults live in
+-- supabase/functions/_shared/emailTemplates.ts; a row here overrides the
+-- subject and body for its key, and deleting it restores the default.
+CREATE TABLE public.email_templates (
+  key text PRIMARY KEY CHECK (key IN (
+    'registration_confirmation',
+    'attendee_confirmation',
+    'registration_approved',
+    'registration_rejected',
+    'payment_reminder',
+    'auto_rejection',
+    'invite_link',
+    'otp'
+  )),
+  subject text NOT NULL,
+  body_html text NOT NULL,
+  updated_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email templates"
+ON public.email_templates FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can insert email templates"
+ON public.email_templates FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can update email templates"
+ON public.email_templates FOR UPDATE
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can delete email templates"
+ON public.email_templates FOR DELETE
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE TRIGGER update_email_templates_updated_at
+BEFORE UPDATE ON public.email_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,90 @@
+-- On-campus capacity and waitlist.
+-- Every row in bed_assignments is one bed. On-campus registrations that
+-- arrive after the beds are spoken for are recorded with waitlisted_at and
+-- promoted in order (waitlisted_at, then application_id) as beds free up.
+ALTER TABLE public.registrations
+  ADD COLUMN waitlisted_at timestamp with time zone,
+  ADD COLUMN waitlist_promoted_at timestamp with time zone;
+
+CREATE INDEX idx_registrations_waitlist
+ON public.registrations (waitlisted_at, application_id)
+WHERE waitlisted_at IS NOT NULL AND waitlist_promoted_at IS NULL;
+
+-- Public capacity summary for the registration form.
+-- remaining_beds is NULL until hostels have been configured, meaning no limit applies.
+CREATE FUNCTION public.get_on_campus_capacity()
+ RETURNS TABLE(total_beds integer, reserved_beds integer, remaining_beds integer, waitlist_count integer)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  WITH beds AS (
+    SELECT count(*)::integer AS total FROM public.bed_assignments
+  ),
+  demand AS (
+    SELECT
+      count(*) FILTER (WHERE waitlisted_at IS NULL OR waitlist_promoted_at IS NOT NULL)::integer AS reserved,
+      count(*) FILTER (WHERE waitlisted_at IS NOT NULL AND waitlist_promoted_at IS NULL)::integer AS waiting
+    FROM public.registrations
+    WHERE stay_type = 'on-campus'
+      AND registration_status IN ('pending', 'approved')
+  )
+  SELECT
+    beds.total,
+    demand.reserved,
+    CASE WHEN beds.total = 0 THEN NULL ELSE greatest(beds.total - demand.reserved, 0) END,
+    demand.waiting
+  FROM beds, demand;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_on_campus_capacity() TO anon, authenticated;
+
+-- Promotes up to _limit waitlisted registrations, oldest first, into free beds.
+-- Called by the promote-waitlist edge function after it has checked the caller is an admin.
+CREATE FUNCTION public.promote_waitlisted_registrations(_limit integer)
+ RETURNS TABLE(id uuid, application_id text, name text, email text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _remaining integer;
+BEGIN
+  -- Serialise promotions so two admins cannot hand out the same bed
+  PERFORM pg_advisory_xact_lock(hashtext('promote_waitlisted_registrations'));
+
+  SELECT c.remaining_beds INTO _remaining FROM public.get_on_campus_capacity() c;
+
+  RETURN QUERY
+  UPDATE public.registrations r
+  SET waitlist_promoted_at = now()
+  WHERE r.id IN (
+    SELECT w.id
+    FROM public.registrations w
+    WHERE w.stay_type = 'on-campus'
+      AND w.registration_status IN ('pending', 'approved')
+      AND w.waitlisted_at IS NOT NULL
+      AND w.waitlist_promoted_at IS NULL
+    ORDER BY w.waitlisted_at, w.application_id
+    LIMIT least(greatest(_limit, 0), coalesce(_remaining, _limit))
+    FOR UPDATE
+  )
+  RETURNING r.id, r.application_id, r.name, r.email;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_waitlisted_registrations(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_waitlisted_registrations(integer) TO service_role;
+
+ALTER TABLE public.email_templates DROP CONSTRAINT email_templates_key_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_key_check CHECK (key IN (
+  'registration_confirmation',
+  'attendee_confirmation',
+  'registration_approved',
+  'registration_rejected',
+  'payment_reminder',
+  'auto_rejection',
+  'invite_link',
+  'otp',
+  'waitlist_promotion'
+));
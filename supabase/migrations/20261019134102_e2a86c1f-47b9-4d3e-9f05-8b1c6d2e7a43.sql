@@ -0,0 +1,32 @@
+-- Online payment orders. One row per order created with the payment
+-- provider; application_ids lists every registration the order pays for.
+-- Written only by the payment-gateway edge function (service role).
+CREATE TABLE public.payment_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  provider_order_id text NOT NULL UNIQUE,
+  provider_payment_id text,
+  application_ids text[] NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'INR',
+  status text NOT NULL DEFAULT 'created' CHECK (status IN ('created', 'paid', 'failed')),
+  failure_reason text,
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payment_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment orders"
+ON public.payment_orders FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid()));
+
+CREATE INDEX idx_payment_orders_application_ids ON public.payment_orders USING gin (application_ids);
+CREATE INDEX idx_payment_orders_created_at ON public.payment_orders (created_at DESC);
+
+CREATE TRIGGER update_payment_orders_updated_at
+BEFORE UPDATE ON public.payment_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
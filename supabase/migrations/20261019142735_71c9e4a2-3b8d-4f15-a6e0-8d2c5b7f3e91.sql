@@ -0,0 +1,182 @@
+-- Registrants can now withdraw; a cancelled registration no longer owes its fee
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_enum WHERE enumlabel = 'cancelled' AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'registration_status')) THEN
+    ALTER TYPE public.registration_status ADD VALUE 'cancelled';
+  END IF;
+END$$;
+
+-- Payment ledger. Each row is money in or out for a registration group,
+-- keyed by the primary application ID. registration_id is set when the
+-- entry belongs to one attendee, and left null for group-level entries.
+--
+-- amount is the credit to the group's account in whole rupees:
+--   payment     > 0  money received
+--   refund      < 0  money returned
+--   adjustment  +/-  waivers, bank charges and corrections
+--
+-- The balance due is the group's active fees minus the sum of its entries.
+-- Entries are never edited or deleted; mistakes are reversed with an adjustment.
+CREATE TABLE public.payment_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_application_id text NOT NULL,
+  registration_id uuid REFERENCES public.registrations(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('payment', 'refund', 'adjustment')),
+  amount integer NOT NULL CHECK (amount <> 0),
+  method text CHECK (method IN ('bank_transfer', 'online', 'cash', 'other')),
+  reference text,
+  note text,
+  transaction_date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_order_id uuid REFERENCES public.payment_orders(id),
+  recorded_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_transactions_amount_sign CHECK (
+    (kind = 'payment' AND amount > 0)
+    OR (kind = 'refund' AND amount < 0)
+    OR kind = 'adjustment'
+  )
+);
+
+ALTER TABLE public.payment_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment transactions"
+ON public.payment_transactions FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid()));
+
+CREATE POLICY "Admins can record payment transactions"
+ON public.payment_transactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid()))
+  AND recorded_by = auth.uid()
+);
+
+CREATE INDEX idx_payment_transactions_group ON public.payment_transactions(group_application_id, transaction_date);
+CREATE INDEX idx_payment_transactions_registration ON public.payment_transactions(registration_id);
+-- An online order is recorded once, whether the webhook or the checkout callback lands first
+CREATE UNIQUE INDEX idx_payment_transactions_payment_order ON public.payment_transactions(payment_order_id)
+WHERE payment_order_id IS NOT NULL;
+
+-- Opening balances: every payment verified so far, one entry per registration
+INSERT INTO public.payment_transactions (
+  group_application_id, registration_id, kind, amount, method, reference, note, transaction_date
+)
+SELECT
+  COALESCE(r.parent_application_id, r.application_id),
+  r.id,
+  'payment',
+  r.registration_fee,
+  'bank_transfer',
+  r.payment_reference,
+  'Opening balance',
+  COALESCE(r.payment_date, r.accounts_verified_at::date, r.created_at::date)
+FROM public.registrations r
+WHERE (r.accounts_verified OR r.payment_status = 'verified')
+  AND r.registration_fee > 0;
+
+-- Cancellation requests from the registrant portal. Approval cancels the
+-- registration, frees its bed and records any refund in the ledger.
+CREATE TABLE public.cancellation_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  registration_id uuid NOT NULL REFERENCES public.registrations(id) ON DELETE CASCADE,
+  requested_by_email text NOT NULL,
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined')),
+  refund_amount integer CHECK (refund_amount >= 0),
+  review_note text,
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cancellation_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view cancellation requests"
+ON public.cancellation_requests FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid()));
+
+CREATE POLICY "Admins can decline cancellation requests"
+ON public.cancellation_requests FOR UPDATE
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid()))
+WITH CHECK (status IN ('pending', 'declined'));
+
+CREATE INDEX idx_cancellation_requests_registration ON public.cancellation_requests(registration_id);
+CREATE INDEX idx_cancellation_requests_pending ON public.cancellation_requests(status) WHERE status = 'pending';
+
+CREATE TRIGGER update_cancellation_requests_updated_at
+BEFORE UPDATE ON public.cancellation_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Approves a pending cancellation in one transaction: cancels the
+-- registration, releases its bed and records the refund (if any).
+CREATE OR REPLACE FUNCTION public.approve_cancellation_request(
+  _request_id uuid,
+  _refund_amount integer,
+  _note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.cancellation_requests%ROWTYPE;
+  _registration public.registrations%ROWTYPE;
+BEGIN
+  IF NOT (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF _refund_amount IS NULL OR _refund_amount < 0 THEN
+    RAISE EXCEPTION 'Refund amount must be zero or more' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.cancellation_requests
+  WHERE id = _request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cancellation request is no longer pending' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _registration FROM public.registrations WHERE id = _request.registration_id;
+
+  UPDATE public.cancellation_requests
+  SET status = 'approved',
+      refund_amount = _refund_amount,
+      review_note = _note,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _request_id;
+
+  UPDATE public.registrations
+  SET registration_status = 'cancelled'
+  WHERE id = _registration.id;
+
+  UPDATE public.bed_assignments
+  SET registration_id = NULL
+  WHERE registration_id = _registration.id;
+
+  IF _refund_amount > 0 THEN
+    INSERT INTO public.payment_transactions (
+      group_application_id, registration_id, kind, amount, note, recorded_by
+    ) VALUES (
+      COALESCE(_registration.parent_application_id, _registration.application_id),
+      _registration.id,
+      'refund',
+      -_refund_amount,
+      COALESCE(_note, 'Refund on cancellation'),
+      auth.uid()
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_cancellation_request(uuid, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_cancellation_request(uuid, integer, text) TO authenticated;
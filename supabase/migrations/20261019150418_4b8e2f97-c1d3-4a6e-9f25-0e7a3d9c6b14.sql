@@ -0,0 +1,27 @@
+-- Every registration submission that reaches verify-captcha-register.
+-- Backs the per-IP and per-email rate limits; rejected rows (captcha
+-- failures and rate limits) are reviewed by admins on the Error Logs page.
+-- Written only by the edge function (service role).
+CREATE TABLE public.registration_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip_address text,
+  email text NOT NULL,
+  user_agent text,
+  outcome text NOT NULL CHECK (outcome IN ('accepted', 'rejected')),
+  -- Rejection code, e.g. CAPTCHA_FAILED or RATE_LIMITED_IP
+  reason text,
+  captcha_score numeric,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.registration_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view registration attempts"
+ON public.registration_attempts FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE INDEX idx_registration_attempts_ip ON public.registration_attempts(ip_address, created_at DESC);
+CREATE INDEX idx_registration_attempts_email ON public.registration_attempts(email, created_at DESC);
+CREATE INDEX idx_registration_attempts_rejected ON public.registration_attempts(created_at DESC) WHERE outcome = 'rejected';
@@ -0,0 +1,168 @@
+-- Server-side filtering, search and paging for the admin registrations list.
+-- The admin screens used to download every registration and filter in the
+-- browser; search_registrations returns one page plus the counts the
+-- screens need.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Words searched by the free-text box. Kept as a function so the expression
+-- index below and the query use exactly the same expression.
+CREATE OR REPLACE FUNCTION public.registration_search_vector(
+  _name text,
+  _email text,
+  _application_id text,
+  _phone text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsvector(
+    'simple'::regconfig,
+    coalesce(_name, '') || ' ' || coalesce(_email, '') || ' ' || coalesce(_application_id, '') || ' ' || coalesce(_phone, '')
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_registrations_search
+  ON public.registrations
+  USING gin (public.registration_search_vector(name, email, application_id, phone));
+
+-- Partial application IDs and phone numbers ("0042", "98450") are not whole
+-- words, so they are matched with trigrams instead
+CREATE INDEX IF NOT EXISTS idx_registrations_application_id_trgm
+  ON public.registrations USING gin (application_id extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_registrations_phone_trgm
+  ON public.registrations USING gin (phone extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_registrations_created_at ON public.registrations (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_registrations_registration_status ON public.registrations (registration_status);
+CREATE INDEX IF NOT EXISTS idx_registrations_payment_status ON public.registrations (payment_status);
+CREATE INDEX IF NOT EXISTS idx_registrations_stay_type ON public.registrations (stay_type);
+CREATE INDEX IF NOT EXISTS idx_registrations_year_of_passing ON public.registrations (year_of_passing);
+
+-- Returns one page of registrations matching the filters, newest first:
+--   { total, grandTotal, counts: { registrationStatus, paymentStatus, stayType }, rows }
+-- NULL filters are ignored. _hostel = 'unassigned' matches registrations
+-- without a hostel. counts cover every matching registration, not just the
+-- page; _limit = 0 returns counts only.
+--
+-- Runs as the caller so the registrations RLS policies still decide who
+-- sees what.
+CREATE OR REPLACE FUNCTION public.search_registrations(
+  _search text DEFAULT NULL,
+  _registration_status public.registration_status DEFAULT NULL,
+  _payment_status public.payment_status DEFAULT NULL,
+  _stay_type text DEFAULT NULL,
+  _gender text DEFAULT NULL,
+  _board_type text DEFAULT NULL,
+  _hostel text DEFAULT NULL,
+  _year_from integer DEFAULT NULL,
+  _year_to integer DEFAULT NULL,
+  _limit integer DEFAULT 20,
+  _offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _term text := nullif(trim(coalesce(_search, '')), '');
+  _query tsquery;
+  _like text;
+  _result jsonb;
+BEGIN
+  IF _term IS NOT NULL THEN
+    -- Every word must match as a prefix: "ravi kum" finds "Ravi Kumar"
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+    INTO _query
+    FROM regexp_split_to_table(lower(_term), '\s+') AS word
+    WHERE word <> '';
+
+    _like := '%' || replace(replace(replace(_term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  WITH filtered AS (
+    SELECT r.*
+    FROM public.registrations r
+    WHERE (_term IS NULL
+           OR public.registration_search_vector(r.name, r.email, r.application_id, r.phone) @@ _query
+           OR r.application_id ILIKE _like
+           OR r.phone LIKE _like)
+      AND (_registration_status IS NULL OR r.registration_status = _registration_status)
+      AND (_payment_status IS NULL OR r.payment_status = _payment_status)
+      AND (_stay_type IS NULL OR r.stay_type = _stay_type)
+      AND (_gender IS NULL OR r.gender = _gender)
+      AND (_board_type IS NULL OR r.board_type = _board_type)
+      AND (_hostel IS NULL
+           OR (_hostel = 'unassigned' AND r.hostel_name IS NULL)
+           OR r.hostel_name = _hostel)
+      AND (_year_from IS NULL OR r.year_of_passing >= _year_from)
+      AND (_year_to IS NULL OR r.year_of_passing <= _year_to)
+  ),
+  page AS (
+    SELECT *
+    FROM filtered
+    ORDER BY created_at DESC, id
+    LIMIT greatest(coalesce(_limit, 20), 0)
+    OFFSET greatest(coalesce(_offset, 0), 0)
+  ),
+  -- Older invite registrations predate the stored via_invite flag; derive it
+  -- from used invites (the registrant's own, or their group primary's)
+  page_rows AS (
+    SELECT
+      to_jsonb(p) || jsonb_build_object(
+        'via_invite', p.via_invite OR own_invite.used OR (parent.id IS NOT NULL AND (parent.via_invite OR parent_invite.used)),
+        'invite_token', coalesce(p.invite_token, own_invite.token, parent.invite_token, parent_invite.token)
+      ) AS row_json,
+      p.created_at,
+      p.id
+    FROM page p
+    LEFT JOIN LATERAL (
+      SELECT true AS used, i.token
+      FROM public.registration_invites i
+      WHERE i.used AND lower(trim(i.email)) = lower(trim(p.email))
+      ORDER BY i.used_at DESC NULLS LAST
+      LIMIT 1
+    ) own_invite ON true
+    LEFT JOIN public.registrations parent ON parent.application_id = p.parent_application_id
+    LEFT JOIN LATERAL (
+      SELECT true AS used, i.token
+      FROM public.registration_invites i
+      WHERE parent.id IS NOT NULL AND i.used AND lower(trim(i.email)) = lower(trim(parent.email))
+      ORDER BY i.used_at DESC NULLS LAST
+      LIMIT 1
+    ) parent_invite ON true
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM filtered),
+    'grandTotal', (SELECT count(*) FROM public.registrations),
+    'counts', jsonb_build_object(
+      'registrationStatus', (
+        SELECT coalesce(jsonb_object_agg(registration_status, n), '{}'::jsonb)
+        FROM (SELECT registration_status, count(*) AS n FROM filtered GROUP BY registration_status) s
+      ),
+      'paymentStatus', (
+        SELECT coalesce(jsonb_object_agg(payment_status, n), '{}'::jsonb)
+        FROM (SELECT payment_status, count(*) AS n FROM filtered GROUP BY payment_status) s
+      ),
+      'stayType', (
+        SELECT coalesce(jsonb_object_agg(stay_type, n), '{}'::jsonb)
+        FROM (SELECT stay_type, count(*) AS n FROM filtered GROUP BY stay_type) s
+      )
+    ),
+    'rows', (
+      SELECT coalesce(jsonb_agg(row_json ORDER BY created_at DESC, id), '[]'::jsonb)
+      FROM page_rows
+    )
+  )
+  INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_registrations(text, public.registration_status, public.payment_status, text, text, text, text, integer, integer, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_registrations(text, public.registration_status, public.payment_status, text, text, text, text, integer, integer, integer, integer) TO authenticated;
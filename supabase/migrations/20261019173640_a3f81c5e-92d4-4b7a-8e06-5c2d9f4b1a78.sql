@@ -0,0 +1,17 @@
+-- Admin screens merge live changes to these tables (see useRealtimeTable).
+-- Adds each table to the Realtime publication unless it is already there.
+DO $$
+DECLARE
+  _table text;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY['registrations', 'bed_assignments', 'registration_invites'] LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = _table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', _table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,29 @@
+-- Optimistic concurrency for admin edits. Every update bumps version, so an
+-- admin action can update "where id = X and version = the version I loaded"
+-- and detect that someone else changed the registration in the meantime.
+ALTER TABLE public.registrations
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+-- Writes that only touch bookkeeping columns keep the version: the approval
+-- email stores the check-in code on the registration being approved, which
+-- must not make that same approval look stale.
+CREATE OR REPLACE FUNCTION public.bump_registration_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (to_jsonb(NEW) - ARRAY['version', 'updated_at', 'qr_code_data'])
+     IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['version', 'updated_at', 'qr_code_data']) THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_registrations_version ON public.registrations;
+CREATE TRIGGER bump_registrations_version
+  BEFORE UPDATE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.bump_registration_version();
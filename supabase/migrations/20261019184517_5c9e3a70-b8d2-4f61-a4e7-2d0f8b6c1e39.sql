@@ -0,0 +1,57 @@
+-- Field-level history of registration edits: one row per changed column per
+-- update, attributed to the signed-in user who made it. changed_by is null
+-- for writes without a user session (edge functions, cron jobs).
+-- Written only by the trigger below.
+CREATE TABLE public.registration_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  registration_id uuid NOT NULL REFERENCES public.registrations(id) ON DELETE CASCADE,
+  field text NOT NULL,
+  old_value jsonb,
+  new_value jsonb,
+  changed_by uuid,
+  changed_by_email text,
+  changed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.registration_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Registration managers can view registration changes"
+ON public.registration_changes FOR SELECT
+TO authenticated
+USING (public.is_registration_manager(auth.uid()));
+
+CREATE INDEX idx_registration_changes_registration
+  ON public.registration_changes(registration_id, changed_at DESC);
+
+-- All columns of one update share changed_at (now() is the transaction
+-- time), which the history timeline uses to group them.
+CREATE OR REPLACE FUNCTION public.record_registration_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := to_jsonb(OLD);
+  _user_id uuid := auth.uid();
+  _email text;
+BEGIN
+  IF _user_id IS NOT NULL THEN
+    SELECT email INTO _email FROM auth.users WHERE id = _user_id;
+  END IF;
+
+  INSERT INTO public.registration_changes
+    (registration_id, field, old_value, new_value, changed_by, changed_by_email)
+  SELECT NEW.id, n.key, _old -> n.key, n.value, _user_id, _email
+  FROM jsonb_each(to_jsonb(NEW)) AS n
+  WHERE n.key NOT IN ('updated_at', 'version')
+    AND n.value IS DISTINCT FROM _old -> n.key;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_registration_changes ON public.registrations;
+CREATE TRIGGER record_registration_changes
+  AFTER UPDATE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.record_registration_changes();
@@ -0,0 +1,331 @@
+-- Capability-based permissions. Named admin actions replace the app_role
+-- checks that used to be hard-wired in the admin screens:
+--   * capabilities         - the actions that can be granted
+--   * role_capabilities    - the template each role starts from
+--   * user_capability_overrides - per-user grants and denials on top
+-- has_capability() combines them; the admin UI reads the same set through
+-- get_my_capabilities(), so a button is hidden exactly when the database
+-- would refuse the action. The exception is export_pii, which only the
+-- export screens check.
+CREATE TABLE public.capabilities (
+  key text PRIMARY KEY,
+  description text NOT NULL
+);
+
+INSERT INTO public.capabilities (key, description) VALUES
+  ('approve_registration', 'Approve registrations and give final approval to edit-mode changes'),
+  ('reject_registration', 'Reject registrations'),
+  ('edit_registration', 'Edit registration details'),
+  ('delete_registration', 'Delete registrations'),
+  ('merge_registrations', 'Merge duplicate registrations'),
+  ('enable_edit_mode', 'Reopen approved registrations for changes'),
+  ('reenable_registration', 'Return expired or rejected registrations to pending'),
+  ('verify_payment', 'Verify or reject payment proofs'),
+  ('assign_beds', 'Assign hostels and beds'),
+  ('export_pii', 'Export registrant personal data');
+
+CREATE TABLE public.role_capabilities (
+  role app_role NOT NULL,
+  capability text NOT NULL REFERENCES public.capabilities(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, capability)
+);
+
+-- Templates match what each role could do before capabilities existed;
+-- reviewers are read-only
+INSERT INTO public.role_capabilities (role, capability)
+SELECT 'superadmin'::app_role, key FROM public.capabilities;
+
+INSERT INTO public.role_capabilities (role, capability) VALUES
+  ('admin', 'approve_registration'),
+  ('admin', 'reject_registration'),
+  ('admin', 'merge_registrations'),
+  ('admin', 'assign_beds'),
+  ('admin', 'export_pii'),
+  ('accounts_admin', 'verify_payment');
+
+CREATE TABLE public.user_capability_overrides (
+  user_id uuid NOT NULL,
+  capability text NOT NULL REFERENCES public.capabilities(key) ON DELETE CASCADE,
+  -- true grants the capability, false takes it away from the role template
+  granted boolean NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_by uuid,
+  PRIMARY KEY (user_id, capability)
+);
+
+ALTER TABLE public.capabilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_capabilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_capability_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view capabilities"
+ON public.capabilities FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can view role capabilities"
+ON public.role_capabilities FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Superadmin can insert role capabilities"
+ON public.role_capabilities FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'superadmin'::app_role));
+
+CREATE POLICY "Superadmin can delete role capabilities"
+ON public.role_capabilities FOR DELETE
+USING (has_role(auth.uid(), 'superadmin'::app_role));
+
+CREATE POLICY "Superadmin can view all capability overrides"
+ON public.user_capability_overrides FOR SELECT
+USING (has_role(auth.uid(), 'superadmin'::app_role));
+
+CREATE POLICY "Users can view their own capability overrides"
+ON public.user_capability_overrides FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Superadmin can insert capability overrides"
+ON public.user_capability_overrides FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'superadmin'::app_role));
+
+CREATE POLICY "Superadmin can delete capability overrides"
+ON public.user_capability_overrides FOR DELETE
+USING (has_role(auth.uid(), 'superadmin'::app_role));
+
+-- Only approved staff hold capabilities; an override beats the role templates
+CREATE OR REPLACE FUNCTION public.has_capability(_user_id uuid, _capability text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND is_approved = true
+  )
+  AND COALESCE(
+    (SELECT granted FROM public.user_capability_overrides
+     WHERE user_id = _user_id AND capability = _capability),
+    EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_capabilities rc ON rc.role = ur.role
+      WHERE ur.user_id = _user_id
+        AND ur.is_approved = true
+        AND rc.capability = _capability
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.require_capability(_capability text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_capability(auth.uid(), _capability) THEN
+    RAISE EXCEPTION 'Missing capability: %', _capability USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_capabilities()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+  FROM public.capabilities
+  WHERE public.has_capability(auth.uid(), key)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.require_capability(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_my_capabilities() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.require_capability(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_capabilities() TO authenticated;
+
+-- RLS lets staff update registrations; this decides which changes they may
+-- make. Only direct writes by signed-in staff are checked: registrants'
+-- own payment updates, edge functions (service role) and SECURITY DEFINER
+-- RPCs (which check capabilities themselves) pass through.
+CREATE OR REPLACE FUNCTION public.enforce_registration_capabilities()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' OR NOT public.is_registration_manager(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.edit_mode_enabled AND NOT OLD.edit_mode_enabled THEN
+    PERFORM public.require_capability('enable_edit_mode');
+  ELSIF NEW.registration_status IS DISTINCT FROM OLD.registration_status THEN
+    IF NEW.registration_status = 'approved' THEN
+      PERFORM public.require_capability('approve_registration');
+    ELSIF NEW.registration_status = 'rejected' THEN
+      PERFORM public.require_capability('reject_registration');
+    ELSIF NEW.registration_status = 'pending' THEN
+      PERFORM public.require_capability('reenable_registration');
+    END IF;
+  END IF;
+
+  -- Final approval of edit-mode changes
+  IF OLD.edit_mode_enabled AND NOT NEW.edit_mode_enabled THEN
+    PERFORM public.require_capability('approve_registration');
+  END IF;
+
+  IF (NEW.accounts_verified AND NOT OLD.accounts_verified)
+     OR (OLD.payment_status = 'submitted' AND NEW.payment_status = 'pending') THEN
+    PERFORM public.require_capability('verify_payment');
+  END IF;
+
+  IF NEW.hostel_name IS DISTINCT FROM OLD.hostel_name THEN
+    PERFORM public.require_capability('assign_beds');
+  END IF;
+
+  IF (NEW.name, NEW.email, NEW.phone, NEW.occupation, NEW.year_of_passing, NEW.board_type,
+      NEW.gender, NEW.tshirt_size, NEW.stay_type, NEW.registration_fee, NEW.address_line1,
+      NEW.address_line2, NEW.city, NEW.district, NEW.state, NEW.postal_code, NEW.country)
+     IS DISTINCT FROM
+     (OLD.name, OLD.email, OLD.phone, OLD.occupation, OLD.year_of_passing, OLD.board_type,
+      OLD.gender, OLD.tshirt_size, OLD.stay_type, OLD.registration_fee, OLD.address_line1,
+      OLD.address_line2, OLD.city, OLD.district, OLD.state, OLD.postal_code, OLD.country) THEN
+    -- Whoever gives final approval also makes the edit-mode changes
+    IF NOT (public.has_capability(auth.uid(), 'edit_registration')
+            OR (OLD.edit_mode_enabled AND public.has_capability(auth.uid(), 'approve_registration'))) THEN
+      RAISE EXCEPTION 'Missing capability: edit_registration' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_registration_capabilities ON public.registrations;
+CREATE TRIGGER enforce_registration_capabilities
+  BEFORE UPDATE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_registration_capabilities();
+
+DROP POLICY IF EXISTS "Superadmin can delete registrations" ON public.registrations;
+CREATE POLICY "Staff with delete capability can delete registrations"
+ON public.registrations
+FOR DELETE
+USING (public.has_capability(auth.uid(), 'delete_registration'));
+
+DROP POLICY IF EXISTS "Registration managers can update bed assignments" ON public.bed_assignments;
+CREATE POLICY "Staff with bed capability can update bed assignments"
+ON public.bed_assignments FOR UPDATE
+USING (public.has_capability(auth.uid(), 'assign_beds'));
+
+-- Same function as before, guarded by merge_registrations instead of the admin role
+CREATE OR REPLACE FUNCTION public.merge_registrations(
+  _keep_id uuid,
+  _duplicate_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _keep public.registrations%ROWTYPE;
+  _duplicate public.registrations%ROWTYPE;
+  _keep_group text;
+  _moved_proof boolean := false;
+  _moved_bed boolean := false;
+  _released_bed boolean := false;
+  _reparented integer := 0;
+BEGIN
+  PERFORM public.require_capability('merge_registrations');
+
+  IF _keep_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a registration into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _keep FROM public.registrations WHERE id = _keep_id FOR UPDATE;
+  SELECT * INTO _duplicate FROM public.registrations WHERE id = _duplicate_id FOR UPDATE;
+
+  IF _keep.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Registration not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A kept attendee of the duplicate's group becomes the group's primary
+  IF _keep.parent_application_id = _duplicate.application_id THEN
+    _keep_group := _keep.application_id;
+    UPDATE public.registrations SET parent_application_id = NULL WHERE id = _keep.id;
+  ELSE
+    _keep_group := COALESCE(_keep.parent_application_id, _keep.application_id);
+  END IF;
+
+  UPDATE public.registrations
+  SET parent_application_id = _keep_group
+  WHERE parent_application_id = _duplicate.application_id AND id <> _keep.id;
+  GET DIAGNOSTICS _reparented = ROW_COUNT;
+
+  IF _keep.payment_proof_url IS NULL AND _duplicate.payment_proof_url IS NOT NULL THEN
+    UPDATE public.registrations
+    SET payment_proof_url = _duplicate.payment_proof_url,
+        payment_reference = COALESCE(_keep.payment_reference, _duplicate.payment_reference),
+        payment_date = COALESCE(_keep.payment_date, _duplicate.payment_date),
+        payment_receipt_url = COALESCE(_keep.payment_receipt_url, _duplicate.payment_receipt_url),
+        payment_status = _duplicate.payment_status,
+        accounts_verified = _duplicate.accounts_verified,
+        accounts_verified_at = _duplicate.accounts_verified_at,
+        accounts_verified_by = _duplicate.accounts_verified_by
+    WHERE id = _keep.id;
+    _moved_proof := true;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bed_assignments WHERE registration_id = _duplicate.id) THEN
+    IF EXISTS (SELECT 1 FROM public.bed_assignments WHERE registration_id = _keep.id) THEN
+      UPDATE public.bed_assignments SET registration_id = NULL WHERE registration_id = _duplicate.id;
+      _released_bed := true;
+    ELSE
+      UPDATE public.bed_assignments SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+      UPDATE public.registrations
+      SET hostel_name = COALESCE(_keep.hostel_name, _duplicate.hostel_name)
+      WHERE id = _keep.id;
+      _moved_bed := true;
+    END IF;
+  END IF;
+
+  IF _keep.checked_in_at IS NULL AND _duplicate.checked_in_at IS NOT NULL THEN
+    UPDATE public.registrations
+    SET checked_in_at = _duplicate.checked_in_at,
+        checked_in_by = _duplicate.checked_in_by
+    WHERE id = _keep.id;
+  END IF;
+
+  UPDATE public.payment_transactions
+  SET registration_id = _keep.id
+  WHERE registration_id = _duplicate.id;
+
+  UPDATE public.payment_transactions
+  SET group_application_id = _keep_group
+  WHERE group_application_id = _duplicate.application_id;
+
+  UPDATE public.payment_orders
+  SET application_ids = array_replace(application_ids, _duplicate.application_id, _keep.application_id)
+  WHERE _duplicate.application_id = ANY(application_ids);
+
+  UPDATE public.email_outbox SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+  UPDATE public.registration_edit_requests SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+  UPDATE public.cancellation_requests SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+
+  DELETE FROM public.registrations WHERE id = _duplicate.id;
+
+  RETURN jsonb_build_object(
+    'keptApplicationId', _keep.application_id,
+    'removedApplicationId', _duplicate.application_id,
+    'groupApplicationId', _keep_group,
+    'movedPaymentProof', _moved_proof,
+    'movedBed', _moved_bed,
+    'releasedBed', _released_bed,
+    'reparentedAttendees', _reparented
+  );
+END;
+$$;
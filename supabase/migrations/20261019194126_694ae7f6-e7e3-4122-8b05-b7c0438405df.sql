@@ -0,0 +1,189 @@
+-- Soft deletion of registrations. Deleting now marks the row with who
+-- deleted it, when and why; the row disappears from every admin screen and
+-- export but keeps its history until it is restored from the recycle bin
+-- or purged (together with its payment files) by purge-deleted-registrations.
+ALTER TABLE public.registrations
+  ADD COLUMN deleted_at timestamp with time zone,
+  ADD COLUMN deleted_by uuid,
+  ADD COLUMN deleted_by_email text,
+  ADD COLUMN deletion_reason text;
+
+CREATE INDEX idx_registrations_deleted_at
+ON public.registrations (deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+-- Deleted rows are hidden from staff; the recycle bin reads them through
+-- list_deleted_registrations instead
+DROP POLICY IF EXISTS "Registration managers can view all registrations" ON public.registrations;
+DROP POLICY IF EXISTS "Registration managers can update registrations" ON public.registrations;
+
+CREATE POLICY "Registration managers can view all registrations"
+  ON public.registrations
+  FOR SELECT
+  USING (is_registration_manager(auth.uid()) AND deleted_at IS NULL);
+
+CREATE POLICY "Registration managers can update registrations"
+  ON public.registrations
+  FOR UPDATE
+  USING (is_registration_manager(auth.uid()) AND deleted_at IS NULL);
+
+-- Rows are only removed for good by the purge, which runs as service_role
+DROP POLICY IF EXISTS "Staff with delete capability can delete registrations" ON public.registrations;
+
+-- Moves a registration to the recycle bin. Returns false when the row
+-- changed since the caller loaded `_expected_version` (or is already gone),
+-- matching the version check of the other admin writes.
+CREATE OR REPLACE FUNCTION public.soft_delete_registration(
+  _registration_id uuid,
+  _expected_version integer,
+  _reason text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted uuid;
+BEGIN
+  PERFORM public.require_capability('delete_registration');
+
+  IF nullif(trim(coalesce(_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to delete a registration' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.registrations
+  SET deleted_at = now(),
+      deleted_by = auth.uid(),
+      deleted_by_email = (SELECT email FROM auth.users WHERE id = auth.uid()),
+      deletion_reason = trim(_reason),
+      hostel_name = NULL
+  WHERE id = _registration_id
+    AND version = _expected_version
+    AND deleted_at IS NULL
+  RETURNING id INTO _deleted;
+
+  IF _deleted IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- A deleted registration must not hold on to a bed; restoring does not take it back
+  UPDATE public.bed_assignments SET registration_id = NULL WHERE registration_id = _deleted;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.soft_delete_registration(uuid, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.soft_delete_registration(uuid, integer, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.restore_registration(_registration_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'superadmin'::app_role) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.registrations
+  SET deleted_at = NULL,
+      deleted_by = NULL,
+      deleted_by_email = NULL,
+      deletion_reason = NULL
+  WHERE id = _registration_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration is not in the recycle bin' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_registration(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_registration(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.list_deleted_registrations()
+RETURNS SETOF public.registrations
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'superadmin'::app_role) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM public.registrations
+  WHERE deleted_at IS NOT NULL
+  ORDER BY deleted_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_deleted_registrations() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_deleted_registrations() TO authenticated;
+
+-- Deleted registrations no longer reserve a bed or wait for one
+CREATE OR REPLACE FUNCTION public.get_on_campus_capacity()
+ RETURNS TABLE(total_beds integer, reserved_beds integer, remaining_beds integer, waitlist_count integer)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  WITH beds AS (
+    SELECT count(*)::integer AS total FROM public.bed_assignments
+  ),
+  demand AS (
+    SELECT
+      count(*) FILTER (WHERE waitlisted_at IS NULL OR waitlist_promoted_at IS NOT NULL)::integer AS reserved,
+      count(*) FILTER (WHERE waitlisted_at IS NOT NULL AND waitlist_promoted_at IS NULL)::integer AS waiting
+    FROM public.registrations
+    WHERE stay_type = 'on-campus'
+      AND registration_status IN ('pending', 'approved')
+      AND deleted_at IS NULL
+  )
+  SELECT
+    beds.total,
+    demand.reserved,
+    CASE WHEN beds.total = 0 THEN NULL ELSE greatest(beds.total - demand.reserved, 0) END,
+    demand.waiting
+  FROM beds, demand;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.promote_waitlisted_registrations(_limit integer)
+ RETURNS TABLE(id uuid, application_id text, name text, email text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  _remaining integer;
+BEGIN
+  -- Serialise promotions so two admins cannot hand out the same bed
+  PERFORM pg_advisory_xact_lock(hashtext('promote_waitlisted_registrations'));
+
+  SELECT c.remaining_beds INTO _remaining FROM public.get_on_campus_capacity() c;
+
+  RETURN QUERY
+  UPDATE public.registrations r
+  SET waitlist_promoted_at = now()
+  WHERE r.id IN (
+    SELECT w.id
+    FROM public.registrations w
+    WHERE w.stay_type = 'on-campus'
+      AND w.registration_status IN ('pending', 'approved')
+      AND w.waitlisted_at IS NOT NULL
+      AND w.waitlist_promoted_at IS NULL
+      AND w.deleted_at IS NULL
+    ORDER BY w.waitlisted_at, w.application_id
+    LIMIT least(greatest(_limit, 0), coalesce(_remaining, _limit))
+    FOR UPDATE
+  )
+  RETURNING r.id, r.application_id, r.name, r.email;
+END;
+$function$;
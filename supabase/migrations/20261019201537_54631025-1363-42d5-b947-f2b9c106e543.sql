@@ -0,0 +1,94 @@
+-- Configurable payment reminders. Each rule sends one reminder when the
+-- registration period is `days_before` days from its end, to registrations
+-- in the listed statuses. reminder_log records every reminder so a rule
+-- never emails the same person twice in a period, and caps the total.
+CREATE TABLE public.payment_reminder_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  days_before integer NOT NULL CHECK (days_before >= 0),
+  registration_statuses public.registration_status[] NOT NULL DEFAULT '{pending}',
+  payment_statuses public.payment_status[] NOT NULL DEFAULT '{pending}',
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_reminder_rules_audience CHECK (
+    cardinality(registration_statuses) > 0 AND cardinality(payment_statuses) > 0
+  )
+);
+
+-- Single row holding the settings shared by all rules
+CREATE TABLE public.payment_reminder_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  max_reminders_per_person integer NOT NULL DEFAULT 4 CHECK (max_reminders_per_person > 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_by uuid
+);
+
+CREATE TABLE public.reminder_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_configuration_id uuid NOT NULL REFERENCES public.batch_configuration(id) ON DELETE CASCADE,
+  rule_id uuid REFERENCES public.payment_reminder_rules(id) ON DELETE SET NULL,
+  -- Group members often share an address; one email covers all of them
+  email text NOT NULL,
+  registration_id uuid REFERENCES public.registrations(id) ON DELETE SET NULL,
+  application_ids text[] NOT NULL,
+  days_remaining integer NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT reminder_log_once_per_rule UNIQUE (batch_configuration_id, email, rule_id)
+);
+
+CREATE INDEX idx_reminder_log_period_email
+ON public.reminder_log (batch_configuration_id, email);
+
+ALTER TABLE public.payment_reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_reminder_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reminder_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment reminder rules"
+ON public.payment_reminder_rules FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can insert payment reminder rules"
+ON public.payment_reminder_rules FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can update payment reminder rules"
+ON public.payment_reminder_rules FOR UPDATE
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can delete payment reminder rules"
+ON public.payment_reminder_rules FOR DELETE
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can view payment reminder settings"
+ON public.payment_reminder_settings FOR SELECT
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can update payment reminder settings"
+ON public.payment_reminder_settings FOR UPDATE
+TO authenticated
+USING (public.is_admin_or_superadmin(auth.uid()));
+
+-- Written by payment-reminder-cron with the service role only
+CREATE POLICY "Registration managers can view the reminder log"
+ON public.reminder_log FOR SELECT
+TO authenticated
+USING (public.is_registration_manager(auth.uid()));
+
+CREATE TRIGGER update_payment_reminder_rules_updated_at
+BEFORE UPDATE ON public.payment_reminder_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payment_reminder_settings_updated_at
+BEFORE UPDATE ON public.payment_reminder_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start from the urgency steps the reminder email already uses
+INSERT INTO public.payment_reminder_rules (days_before) VALUES (7), (4), (2), (0);
+INSERT INTO public.payment_reminder_settings (id) VALUES (true);
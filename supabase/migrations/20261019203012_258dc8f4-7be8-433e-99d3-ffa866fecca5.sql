@@ -0,0 +1,99 @@
+-- Automatic expiry of unpaid registrations. Each period sets a grace period
+-- in days (NULL turns expiry off); a pending registration that still has no
+-- submitted or verified payment when its grace period runs out is marked
+-- expired by expire-unpaid-registrations, which also frees any bed it held.
+ALTER TABLE public.batch_configuration
+  ADD COLUMN unpaid_expiry_days integer CHECK (unpaid_expiry_days IS NULL OR unpaid_expiry_days >= 0);
+
+ALTER TABLE public.registrations
+  ADD COLUMN expired_at timestamp with time zone,
+  -- Set when an admin re-enables an expired or rejected registration; the
+  -- grace period starts again from here
+  ADD COLUMN reenabled_at timestamp with time zone;
+
+-- A registration belongs to the latest period that had started when it was
+-- created, so late invite registrations fall under the period just closed.
+-- Its grace period runs from its creation, or from the period's end date if
+-- that is earlier, or from when it was last re-enabled.
+CREATE OR REPLACE FUNCTION public.expire_unpaid_registrations()
+RETURNS TABLE(id uuid, application_id text, name text, email text, released_bed boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired uuid[];
+BEGIN
+  WITH due AS (
+    SELECT r.id AS registration_id
+    FROM public.registrations r
+    CROSS JOIN LATERAL (
+      SELECT b.unpaid_expiry_days, b.registration_end_date
+      FROM public.batch_configuration b
+      WHERE b.registration_start_date IS NULL OR b.registration_start_date <= r.created_at
+      ORDER BY b.registration_start_date DESC NULLS LAST
+      LIMIT 1
+    ) batch
+    WHERE r.registration_status = 'pending'
+      AND r.payment_status IN ('pending', 'rejected')
+      AND r.deleted_at IS NULL
+      AND batch.unpaid_expiry_days IS NOT NULL
+      AND now() >= coalesce(
+            r.reenabled_at,
+            least(r.created_at, coalesce(batch.registration_end_date, r.created_at))
+          ) + make_interval(days => batch.unpaid_expiry_days)
+    FOR UPDATE OF r SKIP LOCKED
+  ),
+  updated AS (
+    UPDATE public.registrations r
+    SET registration_status = 'expired',
+        expired_at = now(),
+        hostel_name = NULL
+    FROM due
+    WHERE r.id = due.registration_id
+    RETURNING r.id AS registration_id
+  )
+  SELECT array_agg(updated.registration_id) INTO _expired FROM updated;
+
+  IF _expired IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH held AS (
+    SELECT ba.id AS bed_id, ba.registration_id
+    FROM public.bed_assignments ba
+    WHERE ba.registration_id = ANY(_expired)
+    FOR UPDATE
+  ),
+  freed AS (
+    UPDATE public.bed_assignments ba
+    SET registration_id = NULL
+    FROM held
+    WHERE ba.id = held.bed_id
+    RETURNING held.registration_id
+  )
+  SELECT r.id, r.application_id, r.name, r.email,
+         EXISTS (SELECT 1 FROM freed WHERE freed.registration_id = r.id)
+  FROM public.registrations r
+  WHERE r.id = ANY(_expired)
+  ORDER BY r.application_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_unpaid_registrations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_unpaid_registrations() TO service_role;
+
+ALTER TABLE public.email_templates DROP CONSTRAINT email_templates_key_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_key_check CHECK (key IN (
+  'registration_confirmation',
+  'attendee_confirmation',
+  'registration_approved',
+  'registration_rejected',
+  'payment_reminder',
+  'auto_rejection',
+  'registration_expired',
+  'invite_link',
+  'otp',
+  'waitlist_promotion'
+));
@@ -0,0 +1,106 @@
+-- Exact opening and closing instants for registration periods.
+-- registration_start_date already held the opening instant (date plus
+-- start_hour/start_minute in IST). registration_end_date held a bare date,
+-- and each reader added its own end-of-day offset. It now holds the closing
+-- instant too, set from end_hour/end_minute in IST, and a period is open for
+-- registration_start_date <= now() < registration_end_date everywhere
+-- (see supabase/functions/_shared/schedule.ts).
+ALTER TABLE public.batch_configuration
+  ADD COLUMN end_hour integer NOT NULL DEFAULT 23 CHECK (end_hour BETWEEN 0 AND 23),
+  ADD COLUMN end_minute integer NOT NULL DEFAULT 59 CHECK (end_minute BETWEEN 0 AND 59);
+
+-- Existing end dates close at 11:59 PM IST on the chosen day
+UPDATE public.batch_configuration
+SET registration_end_date =
+  ((registration_end_date AT TIME ZONE 'Asia/Kolkata')::date + time '23:59') AT TIME ZONE 'Asia/Kolkata'
+WHERE registration_end_date IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.get_open_batch_configuration()
+ RETURNS TABLE(registration_start_date timestamp with time zone, registration_end_date timestamp with time zone, year_from integer, year_to integer, is_registration_open boolean, show_stay_option boolean, show_outside_option boolean)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    registration_start_date,
+    registration_end_date,
+    year_from,
+    year_to,
+    is_registration_open,
+    show_stay_option,
+    show_outside_option
+  FROM public.batch_configuration
+  WHERE is_registration_open = true
+    AND (
+      (registration_start_date IS NOT NULL AND registration_end_date IS NOT NULL
+       AND now() >= registration_start_date
+       AND now() < registration_end_date)
+      OR
+      (registration_start_date IS NULL AND registration_end_date IS NULL)
+    )
+  ORDER BY registration_start_date ASC NULLS LAST
+  LIMIT 1;
+$function$;
+
+-- Fee lookup follows the same rule: the open period get_open_batch_configuration
+-- accepts registrations for, otherwise the most recently started one.
+CREATE OR REPLACE FUNCTION public.get_active_fee_schedule()
+ RETURNS TABLE(batch_configuration_id uuid, on_campus_fee integer, outside_fee integer, early_bird_deadline timestamp with time zone, early_bird_on_campus_fee integer, early_bird_outside_fee integer, companion_on_campus_fee integer, companion_outside_fee integer, invite_on_campus_fee integer, invite_outside_fee integer)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  WITH periods AS (
+    SELECT
+      bc.id,
+      bc.registration_start_date,
+      (bc.is_registration_open = true
+        AND (
+          (bc.registration_start_date IS NOT NULL AND bc.registration_end_date IS NOT NULL
+           AND now() >= bc.registration_start_date
+           AND now() < bc.registration_end_date)
+          OR
+          (bc.registration_start_date IS NULL AND bc.registration_end_date IS NULL)
+        )) AS is_open
+    FROM public.batch_configuration bc
+  )
+  SELECT
+    fs.batch_configuration_id,
+    fs.on_campus_fee,
+    fs.outside_fee,
+    fs.early_bird_deadline,
+    fs.early_bird_on_campus_fee,
+    fs.early_bird_outside_fee,
+    fs.companion_on_campus_fee,
+    fs.companion_outside_fee,
+    fs.invite_on_campus_fee,
+    fs.invite_outside_fee
+  FROM public.fee_schedules fs
+  JOIN periods p ON p.id = fs.batch_configuration_id
+  ORDER BY
+    p.is_open DESC,
+    CASE WHEN p.is_open THEN p.registration_start_date END ASC NULLS LAST,
+    p.registration_start_date DESC NULLS LAST
+  LIMIT 1;
+$function$;
+
+-- The window of the enabled period that started most recently (or the
+-- earliest upcoming one), whether or not it is open right now, so the
+-- landing page can tell "closed" from "not open yet".
+CREATE OR REPLACE FUNCTION public.get_registration_window()
+ RETURNS TABLE(opens_at timestamp with time zone, closes_at timestamp with time zone)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT registration_start_date, registration_end_date
+  FROM public.batch_configuration
+  WHERE is_registration_open = true
+  ORDER BY
+    (registration_start_date IS NULL OR registration_start_date <= now()) DESC,
+    CASE WHEN registration_start_date <= now() THEN registration_start_date END DESC NULLS LAST,
+    registration_start_date ASC NULLS LAST
+  LIMIT 1;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_registration_window() TO anon, authenticated;
@@ -0,0 +1,91 @@
+-- A group primary can only be deleted once its attendees are deleted too.
+-- Their parent_application_id still points at the primary, so the purge
+-- could never remove it, and the attendees would be left without a group.
+CREATE OR REPLACE FUNCTION public.soft_delete_registration(
+  _registration_id uuid,
+  _expected_version integer,
+  _reason text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted uuid;
+  _active_members integer;
+BEGIN
+  PERFORM public.require_capability('delete_registration');
+
+  IF nullif(trim(coalesce(_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to delete a registration' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT count(*) INTO _active_members
+  FROM public.registrations member
+  JOIN public.registrations primary_row ON member.parent_application_id = primary_row.application_id
+  WHERE primary_row.id = _registration_id
+    AND member.deleted_at IS NULL;
+
+  IF _active_members > 0 THEN
+    RAISE EXCEPTION 'This registration is the primary of a group with % other attendee(s). Delete them first, or merge the group into another registration.', _active_members
+      USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.registrations
+  SET deleted_at = now(),
+      deleted_by = auth.uid(),
+      deleted_by_email = (SELECT email FROM auth.users WHERE id = auth.uid()),
+      deletion_reason = trim(_reason),
+      hostel_name = NULL
+  WHERE id = _registration_id
+    AND version = _expected_version
+    AND deleted_at IS NULL
+  RETURNING id INTO _deleted;
+
+  IF _deleted IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- A deleted registration must not hold on to a bed; restoring does not take it back
+  UPDATE public.bed_assignments SET registration_id = NULL WHERE registration_id = _deleted;
+
+  RETURN true;
+END;
+$$;
+
+-- For the same reason an attendee is only restored once its primary is
+CREATE OR REPLACE FUNCTION public.restore_registration(_registration_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'superadmin'::app_role) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.registrations member
+    JOIN public.registrations primary_row ON member.parent_application_id = primary_row.application_id
+    WHERE member.id = _registration_id
+      AND primary_row.deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the group''s primary registration first' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.registrations
+  SET deleted_at = NULL,
+      deleted_by = NULL,
+      deleted_by_email = NULL,
+      deletion_reason = NULL
+  WHERE id = _registration_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration is not in the recycle bin' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
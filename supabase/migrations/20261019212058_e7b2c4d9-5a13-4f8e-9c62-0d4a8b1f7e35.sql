@@ -0,0 +1,16 @@
+-- has_capability() is SECURITY DEFINER and reads other users' roles and
+-- overrides, so like require_capability() it is for signed-in staff only.
+-- The bed_assignments policy that calls it is limited to authenticated, so
+-- anonymous requests are refused by RLS instead of failing on the function.
+--
+-- export_pii stays a screen-level permission: staff who can view
+-- registrations read every column through RLS and search_registrations.
+REVOKE EXECUTE ON FUNCTION public.has_capability(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_capability(uuid, text) TO authenticated;
+
+DROP POLICY IF EXISTS "Staff with bed capability can update bed assignments" ON public.bed_assignments;
+CREATE POLICY "Staff with bed capability can update bed assignments"
+ON public.bed_assignments FOR UPDATE
+TO authenticated
+USING (public.has_capability(auth.uid(), 'assign_beds'));
+
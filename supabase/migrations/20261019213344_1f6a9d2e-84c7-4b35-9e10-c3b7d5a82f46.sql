@@ -0,0 +1,142 @@
+-- Merging no longer drops the duplicate's payment when the kept registration
+-- has one too. Its proof, reference, receipt and verification status are
+-- appended to the kept row's merged_payments and returned as
+-- preservedPayment, so a double payment can be refunded.
+ALTER TABLE public.registrations
+  ADD COLUMN merged_payments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.merge_registrations(
+  _keep_id uuid,
+  _duplicate_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _keep public.registrations%ROWTYPE;
+  _duplicate public.registrations%ROWTYPE;
+  _keep_group text;
+  _moved_proof boolean := false;
+  _preserved_payment jsonb;
+  _moved_bed boolean := false;
+  _released_bed boolean := false;
+  _reparented integer := 0;
+BEGIN
+  PERFORM public.require_capability('merge_registrations');
+
+  IF _keep_id = _duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a registration into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _keep FROM public.registrations WHERE id = _keep_id FOR UPDATE;
+  SELECT * INTO _duplicate FROM public.registrations WHERE id = _duplicate_id FOR UPDATE;
+
+  IF _keep.id IS NULL OR _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Registration not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Deleted rows stay as they were in the recycle bin until restored or purged
+  IF _keep.deleted_at IS NOT NULL OR _duplicate.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge a deleted registration; restore it first' USING ERRCODE = '22023';
+  END IF;
+
+  -- A kept attendee of the duplicate's group becomes the group's primary
+  IF _keep.parent_application_id = _duplicate.application_id THEN
+    _keep_group := _keep.application_id;
+    UPDATE public.registrations SET parent_application_id = NULL WHERE id = _keep.id;
+  ELSE
+    _keep_group := COALESCE(_keep.parent_application_id, _keep.application_id);
+  END IF;
+
+  UPDATE public.registrations
+  SET parent_application_id = _keep_group
+  WHERE parent_application_id = _duplicate.application_id AND id <> _keep.id;
+  GET DIAGNOSTICS _reparented = ROW_COUNT;
+
+  IF _keep.payment_proof_url IS NULL AND _keep.payment_reference IS NULL
+     AND _duplicate.payment_proof_url IS NOT NULL THEN
+    UPDATE public.registrations
+    SET payment_proof_url = _duplicate.payment_proof_url,
+        payment_reference = COALESCE(_keep.payment_reference, _duplicate.payment_reference),
+        payment_date = COALESCE(_keep.payment_date, _duplicate.payment_date),
+        payment_receipt_url = COALESCE(_keep.payment_receipt_url, _duplicate.payment_receipt_url),
+        payment_status = _duplicate.payment_status,
+        accounts_verified = _duplicate.accounts_verified,
+        accounts_verified_at = _duplicate.accounts_verified_at,
+        accounts_verified_by = _duplicate.accounts_verified_by
+    WHERE id = _keep.id;
+    _moved_proof := true;
+  ELSIF _duplicate.payment_proof_url IS NOT NULL OR _duplicate.payment_reference IS NOT NULL THEN
+    -- Both rows carry a payment (possibly paid twice): the kept row's payment
+    -- stands and the duplicate's is kept on record for accounts to review
+    _preserved_payment := jsonb_build_object(
+      'applicationId', _duplicate.application_id,
+      'paymentStatus', _duplicate.payment_status,
+      'paymentProofUrl', _duplicate.payment_proof_url,
+      'paymentReference', _duplicate.payment_reference,
+      'paymentDate', _duplicate.payment_date,
+      'paymentReceiptUrl', _duplicate.payment_receipt_url,
+      'registrationFee', _duplicate.registration_fee,
+      'accountsVerified', _duplicate.accounts_verified,
+      'accountsVerifiedAt', _duplicate.accounts_verified_at,
+      'accountsVerifiedBy', _duplicate.accounts_verified_by,
+      'mergedAt', now(),
+      'mergedBy', auth.uid()
+    );
+    UPDATE public.registrations
+    SET merged_payments = merged_payments || jsonb_build_array(_preserved_payment)
+    WHERE id = _keep.id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bed_assignments WHERE registration_id = _duplicate.id) THEN
+    IF EXISTS (SELECT 1 FROM public.bed_assignments WHERE registration_id = _keep.id) THEN
+      UPDATE public.bed_assignments SET registration_id = NULL WHERE registration_id = _duplicate.id;
+      _released_bed := true;
+    ELSE
+      UPDATE public.bed_assignments SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+      UPDATE public.registrations
+      SET hostel_name = COALESCE(_keep.hostel_name, _duplicate.hostel_name)
+      WHERE id = _keep.id;
+      _moved_bed := true;
+    END IF;
+  END IF;
+
+  IF _keep.checked_in_at IS NULL AND _duplicate.checked_in_at IS NOT NULL THEN
+    UPDATE public.registrations
+    SET checked_in_at = _duplicate.checked_in_at,
+        checked_in_by = _duplicate.checked_in_by
+    WHERE id = _keep.id;
+  END IF;
+
+  UPDATE public.payment_transactions
+  SET registration_id = _keep.id
+  WHERE registration_id = _duplicate.id;
+
+  UPDATE public.payment_transactions
+  SET group_application_id = _keep_group
+  WHERE group_application_id = _duplicate.application_id;
+
+  UPDATE public.payment_orders
+  SET application_ids = array_replace(application_ids, _duplicate.application_id, _keep.application_id)
+  WHERE _duplicate.application_id = ANY(application_ids);
+
+  UPDATE public.email_outbox SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+  UPDATE public.registration_edit_requests SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+  UPDATE public.cancellation_requests SET registration_id = _keep.id WHERE registration_id = _duplicate.id;
+
+  DELETE FROM public.registrations WHERE id = _duplicate.id;
+
+  RETURN jsonb_build_object(
+    'keptApplicationId', _keep.application_id,
+    'removedApplicationId', _duplicate.application_id,
+    'groupApplicationId', _keep_group,
+    'movedPaymentProof', _moved_proof,
+    'preservedPayment', _preserved_payment,
+    'movedBed', _moved_bed,
+    'releasedBed', _released_bed,
+    'reparentedAttendees', _reparented
+  );
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Registrations an online order paid for but that had stopped awaiting
+-- payment by the time the money arrived (rejected, expired, cancelled,
+-- deleted or already paid some other way). The payment is still booked in
+-- the ledger; these need a manual refund.
+ALTER TABLE public.payment_orders
+  ADD COLUMN refund_application_ids text[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,22 @@
+-- get_registration_window also returns the period's id, so server jobs such
+-- as payment-reminder-cron pick the same period as the landing page instead
+-- of any row that happens to be enabled.
+DROP FUNCTION IF EXISTS public.get_registration_window();
+
+CREATE FUNCTION public.get_registration_window()
+ RETURNS TABLE(id uuid, opens_at timestamp with time zone, closes_at timestamp with time zone)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT b.id, b.registration_start_date, b.registration_end_date
+  FROM public.batch_configuration b
+  WHERE b.is_registration_open = true
+  ORDER BY
+    (b.registration_start_date IS NULL OR b.registration_start_date <= now()) DESC,
+    CASE WHEN b.registration_start_date <= now() THEN b.registration_start_date END DESC NULLS LAST,
+    b.registration_start_date ASC NULLS LAST
+  LIMIT 1;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_registration_window() TO anon, authenticated;
@@ -0,0 +1,21 @@
+-- The admin presence channel is private: only signed-in staff may join it
+-- and see which applications other admins have open. The client opts in
+-- with `config: { private: true }`; Realtime then authorizes each join and
+-- presence update against these policies on realtime.messages.
+CREATE POLICY "Staff can receive admin presence"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (
+  realtime.topic() = 'admin-presence'
+  AND realtime.messages.extension = 'presence'
+  AND public.is_registration_manager(auth.uid())
+);
+
+CREATE POLICY "Staff can share admin presence"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.topic() = 'admin-presence'
+  AND realtime.messages.extension = 'presence'
+  AND public.is_registration_manager(auth.uid())
+);
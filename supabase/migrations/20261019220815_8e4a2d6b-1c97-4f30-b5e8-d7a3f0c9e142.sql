@@ -0,0 +1,9 @@
+-- OTP hardening. Every guess is counted against the code, and the code
+-- is invalidated after a few misses, so a six-digit code cannot be brute
+-- forced within its five minutes. Codes also record what they were sent
+-- for: registration keeps its limit of one code per email per day, while
+-- portal sign-in has its own, looser limit, so registering does not lock a
+-- registrant out of /my-registration for the rest of the day.
+ALTER TABLE public.email_otps
+  ADD COLUMN attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN purpose text NOT NULL DEFAULT 'registration' CHECK (purpose IN ('registration', 'portal'));
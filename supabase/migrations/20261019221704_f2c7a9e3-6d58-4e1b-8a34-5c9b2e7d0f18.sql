@@ -0,0 +1,39 @@
+-- Waitlisting is decided in the same transaction as the insert. The edge
+-- function used to read get_on_campus_capacity and then insert, so two
+-- registrations submitted together could both take the last bed. This
+-- trigger takes the lock promote_waitlisted_registrations uses, re-reads
+-- the capacity and waitlists the new on-campus registration if every bed
+-- is spoken for; the lock is held until the insert commits.
+CREATE OR REPLACE FUNCTION public.waitlist_when_on_campus_full()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _remaining integer;
+BEGIN
+  IF NEW.stay_type <> 'on-campus'
+     OR NEW.registration_status NOT IN ('pending', 'approved')
+     OR NEW.waitlisted_at IS NOT NULL
+     OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('promote_waitlisted_registrations'));
+
+  SELECT c.remaining_beds INTO _remaining FROM public.get_on_campus_capacity() c;
+
+  -- NULL: no hostels configured yet, so no limit applies
+  IF _remaining IS NOT NULL AND _remaining <= 0 THEN
+    NEW.waitlisted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS waitlist_when_on_campus_full ON public.registrations;
+CREATE TRIGGER waitlist_when_on_campus_full
+  BEFORE INSERT ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.waitlist_when_on_campus_full();
@@ -0,0 +1,79 @@
+-- Approving a cancellation clears the registration's hostel along with its
+-- bed, as soft_delete_registration and expire_unpaid_registrations do. A
+-- request left pending on a registration that has since been deleted,
+-- cancelled or rejected is refused, so no refund is booked against it.
+CREATE OR REPLACE FUNCTION public.approve_cancellation_request(
+  _request_id uuid,
+  _refund_amount integer,
+  _note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.cancellation_requests%ROWTYPE;
+  _registration public.registrations%ROWTYPE;
+BEGIN
+  IF NOT (public.is_admin_or_superadmin(auth.uid()) OR public.is_accounts_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  IF _refund_amount IS NULL OR _refund_amount < 0 THEN
+    RAISE EXCEPTION 'Refund amount must be zero or more' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.cancellation_requests
+  WHERE id = _request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cancellation request is no longer pending' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _registration
+  FROM public.registrations
+  WHERE id = _request.registration_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _registration.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This registration has been deleted' USING ERRCODE = '55000';
+  END IF;
+
+  IF _registration.registration_status IN ('cancelled', 'rejected') THEN
+    RAISE EXCEPTION 'This registration is already %', _registration.registration_status USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.cancellation_requests
+  SET status = 'approved',
+      refund_amount = _refund_amount,
+      review_note = _note,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _request_id;
+
+  UPDATE public.registrations
+  SET registration_status = 'cancelled',
+      hostel_name = NULL
+  WHERE id = _registration.id;
+
+  UPDATE public.bed_assignments
+  SET registration_id = NULL
+  WHERE registration_id = _registration.id;
+
+  IF _refund_amount > 0 THEN
+    INSERT INTO public.payment_transactions (
+      group_application_id, registration_id, kind, amount, note, recorded_by
+    ) VALUES (
+      COALESCE(_registration.parent_application_id, _registration.application_id),
+      _registration.id,
+      'refund',
+      -_refund_amount,
+      COALESCE(_note, 'Refund on cancellation'),
+      auth.uid()
+    );
+  END IF;
+END;
+$$;